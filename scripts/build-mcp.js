@@ -1,5 +1,5 @@
 const { execSync } = require('child_process')
-const { writeFileSync, mkdirSync } = require('fs')
+const { writeFileSync, mkdirSync, chmodSync } = require('fs')
 const { version } = require('../package.json')
 
 const EXTERNALS = [
@@ -23,6 +23,10 @@ execSync(`esbuild src/mcp/server.ts --outfile=out/mcp/server.js ${COMMON.join('
 // Bundle sidecar (shares MCP's node_modules)
 execSync(`esbuild src/sidecar/server.ts --outfile=out/mcp/sidecar.js ${COMMON.join(' ')}`, { stdio: 'inherit' })
 
+// Bundle `daymon` CLI (shares MCP's node_modules)
+execSync(`esbuild src/cli/index.ts --outfile=out/mcp/cli.js --banner:js='#!/usr/bin/env node' ${COMMON.join(' ')}`, { stdio: 'inherit' })
+chmodSync('out/mcp/cli.js', 0o755)
+
 // Create package.json so npm install stays in out/mcp/ (not the root)
 mkdirSync('out/mcp', { recursive: true })
 writeFileSync('out/mcp/package.json', JSON.stringify({
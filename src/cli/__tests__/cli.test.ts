@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Database from 'better-sqlite3'
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+
+vi.mock('../../shared/claude-code', () => ({
+  executeClaudeCode: vi.fn().mockResolvedValue({
+    stdout: 'Done',
+    stderr: '',
+    exitCode: 0,
+    durationMs: 10,
+    timedOut: false,
+    sessionId: null
+  })
+}))
+
+import { initTestDb } from '../../shared/__tests__/helpers/test-db'
+import * as q from '../../shared/db-queries'
+import { createDatabaseBackend, resolvePaths } from '../backend'
+import { parseCliArgs, runCommand, type CliContext } from '../commands'
+import { formatTable } from '../format'
+
+let db: Database.Database
+let ctx: CliContext
+let out: string[]
+let err: string[]
+
+beforeEach(() => {
+  db = initTestDb()
+  out = []
+  err = []
+  ctx = {
+    backend: createDatabaseBackend(db, '/tmp/daymon-results', 'test'),
+    io: { out: (line) => out.push(line), err: (line) => err.push(line) },
+    json: false,
+    pollMs: 1
+  }
+})
+
+afterEach(() => {
+  db.close()
+})
+
+function run(...argv: string[]): Promise<number> {
+  return runCommand(ctx, parseCliArgs(argv))
+}
+
+describe('resolvePaths', () => {
+  it('uses the app data directory for each platform', () => {
+    expect(resolvePaths({}, 'darwin', '/Users/me').dbPath).toBe('/Users/me/Library/Application Support/Daymon/daymon.db')
+    expect(resolvePaths({}, 'linux', '/home/me').dataDir).toBe('/home/me/.config/Daymon')
+    expect(resolvePaths({ XDG_CONFIG_HOME: '/xdg' }, 'linux', '/home/me').dataDir).toBe('/xdg/Daymon')
+  })
+
+  it('honours DAYMON_* overrides', () => {
+    const paths = resolvePaths({ DAYMON_DB_PATH: '~/data/daymon.db', DAYMON_RESULTS_DIR: '/r' }, 'linux', '/home/me')
+    expect(paths).toEqual({ dataDir: '/home/me/data', dbPath: '/home/me/data/daymon.db', resultsDir: '/r' })
+  })
+})
+
+describe('parseCliArgs', () => {
+  it('rejects unknown options', () => {
+    expect(parseCliArgs(['tasks', 'list', '--json']).options.json).toBe(true)
+    expect(() => parseCliArgs(['tasks', '--bogus'])).toThrow()
+  })
+})
+
+describe('formatTable', () => {
+  it('aligns columns and marks empty cells', () => {
+    const rows = formatTable([{ id: 1, name: 'Digest' }, { id: 12, name: null }], [
+      ['id', (r) => r.id],
+      ['name', (r) => r.name]
+    ])
+    expect(rows).toEqual(['ID  NAME', '1   Digest', '12  -'])
+  })
+})
+
+describe('tasks', () => {
+  it('creates, lists and pauses tasks', async () => {
+    expect(await run('tasks', 'create', '--name', 'Digest', '--prompt', 'Summarize', '--cron', '0 9 * * *')).toBe(0)
+    const [task] = q.listTasks(db)
+    expect(task).toMatchObject({ name: 'Digest', triggerType: 'cron', cronExpression: '0 9 * * *' })
+
+    await run('tasks', 'pause', String(task.id))
+    expect(q.getTask(db, task.id)?.status).toBe('paused')
+
+    out = []
+    ctx.json = true
+    await run('tasks', '--status', 'paused')
+    expect(JSON.parse(out.join('\n'))).toMatchObject([{ id: task.id, status: 'paused' }])
+  })
+
+  it('rejects conflicting triggers and empty edits', async () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    await expect(run('tasks', 'create', '--name', 'T', '--prompt', 'p', '--cron', '* * * * *', '--webhook')).rejects.toThrow('only one of')
+    await expect(run('tasks', 'edit', String(task.id))).rejects.toThrow('Nothing to change')
+    await expect(run('tasks', 'show', '999')).rejects.toThrow('Task not found')
+  })
+})
+
+describe('watch action tasks', () => {
+  it('are hidden from the list and cannot be changed, run or deleted', async () => {
+    const watch = q.createWatch(db, '/Users/test/inbox', 'inbox watch', 'File new invoices')
+    const taskId = q.ensureWatchTask(db, watch.id)!.id
+    q.createTask(db, { name: 'Digest', prompt: 'p' })
+
+    ctx.json = true
+    await run('tasks', 'list')
+    expect(JSON.parse(out.join('\n')).map((t: { name: string }) => t.name)).toEqual(['Digest'])
+
+    for (const argv of [['pause'], ['delete'], ['edit', '--name', 'Renamed'], ['run']]) {
+      const [sub, ...rest] = argv
+      await expect(run('tasks', sub, String(taskId), ...rest)).rejects.toThrow('manage the watch instead')
+    }
+    expect(q.getTask(db, taskId)).toMatchObject({ status: 'active', triggerType: 'watch' })
+    expect(q.getTaskRuns(db, taskId)).toHaveLength(0)
+  })
+})
+
+describe('tasks run without the sidecar', () => {
+  it('waits for one attempt at each webhook before settling', async () => {
+    const server = createServer()
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+    q.createWebhook(db, { name: 'Nowhere', url: `http://127.0.0.1:${port}` })
+    const task = q.createTask(db, { name: 'Digest', prompt: 'p' })
+
+    await run('tasks', 'run', String(task.id))
+    await ctx.backend.settle()
+
+    expect(q.getTaskRuns(db, task.id)[0]).toMatchObject({ status: 'completed' })
+    const deliveries = q.listWebhookDeliveries(db)
+    expect(deliveries.map((d) => d.event).sort()).toEqual(['run.completed', 'run.started'])
+    for (const delivery of deliveries) expect(delivery).toMatchObject({ status: 'failed', attempts: 1 })
+  })
+
+  it('refuses to run a task whose budget is used up', async () => {
+    const task = q.createTask(db, { name: 'Digest', prompt: 'p' })
+    q.completeTaskRun(db, q.createTaskRun(db, task.id).id, 'ok')
+    q.setUsageBudget(db, { scope: 'global', period: 'day', metric: 'runs', limit: 1 })
+
+    await expect(run('tasks', 'run', String(task.id))).rejects.toThrow('global daily budget of 1 run(s) reached')
+    await ctx.backend.settle()
+    expect(q.getTaskRuns(db, task.id).map((r) => r.status).sort()).toEqual(['completed', 'skipped'])
+  })
+})
+
+describe('logs', () => {
+  it('prints the console log of a finished run', async () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    const taskRun = q.createTaskRun(db, task.id)
+    q.insertConsoleLogs(db, [
+      { runId: taskRun.id, seq: 1, entryType: 'tool_call', content: 'Step 1: Using Read' },
+      { runId: taskRun.id, seq: 2, entryType: 'assistant_text', content: 'Done' }
+    ])
+    q.completeTaskRun(db, taskRun.id, 'Done')
+
+    expect(await run('logs', String(taskRun.id), '--follow')).toBe(0)
+    expect(out).toEqual(['> Step 1: Using Read', 'Done'])
+    expect(err[0]).toMatch(new RegExp(`^Run ${taskRun.id} completed`))
+  })
+})
+
+describe('memory', () => {
+  it('adds facts to an existing entity of the same name', async () => {
+    await run('memory', 'add', 'Alice', 'Leads', 'the', 'API', 'work')
+    await run('memory', 'add', 'alice', 'Prefers tea')
+
+    const [entity] = q.listEntities(db)
+    expect(q.listEntities(db)).toHaveLength(1)
+    expect(q.getObservations(db, entity.id).map((o) => [o.content, o.source])).toEqual(
+      expect.arrayContaining([['Leads the API work', 'cli'], ['Prefers tea', 'cli']])
+    )
+  })
+})
+
+describe('status', () => {
+  it('summarizes tasks, runs and memory without the sidecar', async () => {
+    q.createTask(db, { name: 'A', prompt: 'p' })
+    q.pauseTask(db, q.createTask(db, { name: 'B', prompt: 'p' }).id)
+
+    ctx.json = true
+    await run('status')
+    expect(JSON.parse(out.join('\n'))).toMatchObject({
+      daymon: 'not running',
+      tasks: { active: 1, paused: 1 },
+      runningRuns: [],
+      memory: { entityCount: 0 }
+    })
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * Where CLI requests go. When the sidecar is running the CLI talks to its REST
+ * API, so the scheduler and file watchers pick up changes at once. Otherwise
+ * the same API routes run in-process against the database, and "run now"
+ * executes the task in this terminal.
+ */
+
+import { request as httpRequest } from 'http'
+import { existsSync, readFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { homedir } from 'os'
+import Database from 'better-sqlite3'
+import { APP_NAME, TASK_STATUSES } from '../shared/constants'
+import { runMigrations } from '../shared/db-migrations'
+import * as queries from '../shared/db-queries'
+import { loadSqliteVec } from '../shared/embeddings'
+import { cancelTask, executeTask } from '../shared/task-runner'
+import { enforceBudgets } from '../shared/budgets'
+import { readSidecarToken, sidecarAuthHeaders } from '../shared/sidecar-auth'
+import { API_PREFIX, handleApiRequest, type ApiContext, type ApiResponse, type HttpMethod } from '../sidecar/api'
+
+export interface Backend {
+  kind: 'sidecar' | 'database'
+  /** Call an API route; `path` is below /api/v1. */
+  request: (method: HttpMethod, path: string, body?: unknown) => Promise<ApiResponse>
+  /** Resolves once runs this process started have finished. */
+  settle: () => Promise<void>
+  close: () => void
+}
+
+export interface CliPaths {
+  dataDir: string
+  dbPath: string
+  resultsDir: string
+}
+
+function expandTilde(p: string, home: string): string {
+  if (p.startsWith('~/') || p === '~') return p.replace('~', home)
+  return p
+}
+
+// Electron's userData directory for the app, which is where the DB and sidecar files live
+function defaultDataDir(env: NodeJS.ProcessEnv, platform: NodeJS.Platform, home: string): string {
+  if (platform === 'darwin') return join(home, 'Library', 'Application Support', APP_NAME)
+  if (platform === 'win32') return join(env.APPDATA || join(home, 'AppData', 'Roaming'), APP_NAME)
+  return join(env.XDG_CONFIG_HOME || join(home, '.config'), APP_NAME)
+}
+
+/** Resolve data paths from DAYMON_* overrides, falling back to the app's defaults. */
+export function resolvePaths(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform,
+  home: string = homedir()
+): CliPaths {
+  const dbOverride = env.DAYMON_DB_PATH ? expandTilde(env.DAYMON_DB_PATH, home) : null
+  const dataDir = env.DAYMON_DATA_DIR
+    ? expandTilde(env.DAYMON_DATA_DIR, home)
+    : dbOverride ? dirname(dbOverride) : defaultDataDir(env, platform, home)
+  return {
+    dataDir,
+    dbPath: dbOverride ?? join(dataDir, 'daymon.db'),
+    resultsDir: env.DAYMON_RESULTS_DIR ? expandTilde(env.DAYMON_RESULTS_DIR, home) : join(home, APP_NAME, 'results')
+  }
+}
+
+// ─── Sidecar ────────────────────────────────────────────────
+
+interface SidecarEndpoint {
+  port: number
+  token: string | null
+}
+
+function httpCall(endpoint: SidecarEndpoint, method: string, path: string, body?: unknown, timeoutMs = 10000): Promise<ApiResponse> {
+  return new Promise((resolve, reject) => {
+    const payload = body === undefined ? undefined : JSON.stringify(body)
+    const req = httpRequest({
+      hostname: '127.0.0.1',
+      port: endpoint.port,
+      path,
+      method,
+      headers: {
+        ...sidecarAuthHeaders(endpoint.token),
+        ...(payload !== undefined ? { 'Content-Type': 'application/json' } : {})
+      }
+    }, (res) => {
+      let raw = ''
+      res.on('data', (chunk: Buffer) => { raw += chunk.toString() })
+      res.on('end', () => {
+        const status = res.statusCode ?? 0
+        if (!raw) return resolve({ status })
+        try {
+          resolve({ status, body: JSON.parse(raw) })
+        } catch {
+          resolve({ status, body: { error: raw } })
+        }
+      })
+    })
+    req.on('error', reject)
+    req.setTimeout(timeoutMs, () => req.destroy(new Error('Sidecar did not respond')))
+    if (payload !== undefined) req.write(payload)
+    req.end()
+  })
+}
+
+/** The running sidecar's port and token, or null when it is not up or rejects us. */
+async function findSidecar(dataDir: string): Promise<SidecarEndpoint | null> {
+  let port: number
+  try {
+    port = parseInt(readFileSync(join(dataDir, 'sidecar.port'), 'utf-8').trim(), 10)
+  } catch {
+    return null
+  }
+  if (!(port > 0)) return null
+
+  const endpoint = { port, token: readSidecarToken(dataDir) }
+  try {
+    const res = await httpCall(endpoint, 'GET', '/health', undefined, 2000)
+    return res.status === 200 ? endpoint : null
+  } catch {
+    return null // stale port file
+  }
+}
+
+export function createSidecarBackend(endpoint: SidecarEndpoint): Backend {
+  return {
+    kind: 'sidecar',
+    request: (method, path, body) => httpCall(endpoint, method, `${API_PREFIX}${path}`, body),
+    settle: async () => {},
+    close: () => {}
+  }
+}
+
+// ─── Database ───────────────────────────────────────────────
+
+/**
+ * Serve API routes in-process. Nothing reschedules on changes; the sidecar
+ * reads the tasks and watches afresh when Daymon next starts.
+ */
+export function createDatabaseBackend(db: Database.Database, resultsDir: string, version: string): Backend {
+  const pending = new Set<Promise<void>>()
+  const track = (work: Promise<void>): void => {
+    const tracked = work.finally(() => pending.delete(tracked))
+    pending.add(tracked)
+  }
+
+  // Mirrors the sidecar's "Run now": paused tasks run once and stay paused
+  function startRun(taskId: number): string | null {
+    const task = queries.getTask(db, taskId)
+    if (!task) return null
+    const budgetReason = enforceBudgets(db, task)
+    if (budgetReason) return budgetReason
+    const originalStatus = task.status
+    if (originalStatus !== TASK_STATUSES.ACTIVE) {
+      queries.updateTask(db, taskId, { status: TASK_STATUSES.ACTIVE })
+    }
+    // The outcome is read back from the run record. Webhooks get one attempt
+    // each, and settle() waits for them so the database is still open.
+    const run = executeTask(taskId, {
+      db,
+      resultsDir,
+      webhookDispatch: { retryDelaysMs: [] },
+      onWebhookDispatch: track
+    })
+      .then(() => {}, () => {})
+      .finally(() => {
+        if (originalStatus !== TASK_STATUSES.ACTIVE && queries.getTask(db, taskId)?.status === TASK_STATUSES.ACTIVE) {
+          queries.updateTask(db, taskId, { status: originalStatus })
+        }
+      })
+    track(run)
+    return null
+  }
+
+  const ctx: ApiContext = {
+    db,
+    version,
+    sync: () => {},
+    startRun,
+    cancelRun: (taskId) => {
+      if (cancelTask(taskId)) return { status: 200, body: { ok: true, taskId, message: 'Task cancelled' } }
+      const error = queries.getLatestTaskRun(db, taskId)?.status === 'running'
+        ? 'Task is running in another process'
+        : 'Task is not running'
+      return { status: 409, body: { ok: false, error } }
+    }
+  }
+
+  return {
+    kind: 'database',
+    request: async (method, path, body) =>
+      handleApiRequest(ctx, method, `${API_PREFIX}${path}`, body === undefined ? '' : JSON.stringify(body))
+        ?? { status: 404, body: { error: 'Not found' } },
+    settle: async () => {
+      while (pending.size > 0) await Promise.all(pending)
+    },
+    close: () => db.close()
+  }
+}
+
+export function openDatabase(dbPath: string): Database.Database {
+  if (!existsSync(dbPath)) {
+    throw new Error(`No Daymon database at ${dbPath}. Open Daymon once, or set DAYMON_DB_PATH.`)
+  }
+  const db = new Database(dbPath, { timeout: 10000 })
+  db.pragma('journal_mode = WAL')
+  db.pragma('foreign_keys = ON')
+  db.pragma('busy_timeout = 5000')
+  loadSqliteVec(db)
+  runMigrations(db, () => {})
+  return db
+}
+
+/** Prefer the running sidecar; fall back to the database. */
+export async function connect(paths: CliPaths, version: string): Promise<Backend> {
+  const endpoint = await findSidecar(paths.dataDir)
+  if (endpoint) return createSidecarBackend(endpoint)
+  return createDatabaseBackend(openDatabase(paths.dbPath), paths.resultsDir, version)
+}
@@ -0,0 +1,465 @@
+import { parseArgs } from 'util'
+import type { ApiResponse, HttpMethod } from '../sidecar/api'
+import type { ConsoleLogEntry, Entity, MemoryStats, Task, TaskRun, Watch } from '../shared/types'
+import type { Backend } from './backend'
+import { formatDuration, formatFields, formatSchedule, formatTable, type Column, type Output } from './format'
+
+export const USAGE = `Usage: daymon <command> [options]
+
+Tasks
+  tasks [list] [--status S] [--trigger T] [--search Q]
+  tasks show <id>
+  tasks create --name N --prompt P [--cron EXPR | --at ISO | --webhook]
+               [--description D] [--worker ID] [--timezone TZ] [--cwd DIR]
+  tasks edit <id> [--name N] [--prompt P] [--cron EXPR] [--description D]
+                  [--worker ID] [--timezone TZ] [--cwd DIR]
+  tasks pause|resume|delete <id>
+  tasks run <id> [--follow]
+  runs [--task ID] [--status S] [--limit N]
+  logs <run-id> [--follow]
+
+Memory
+  memory search <query>
+  memory add <name> <fact> [--type T] [--category C]
+
+Watches
+  watches [list]
+  watches add <path> [--prompt P] [--description D]
+  watches pause|resume|remove <id>
+
+Other
+  status
+
+Options
+  --json      Print JSON instead of tables (logs --follow prints one entry per line)
+  --help      Show this help
+  --version   Show the Daymon version
+
+Talks to the running Daymon app when it is up and uses the database directly
+otherwise. DAYMON_DATA_DIR and DAYMON_DB_PATH override where data is found.`
+
+const OPTIONS = {
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+  follow: { type: 'boolean', short: 'f' },
+  status: { type: 'string' },
+  trigger: { type: 'string' },
+  search: { type: 'string' },
+  name: { type: 'string' },
+  prompt: { type: 'string' },
+  description: { type: 'string' },
+  cron: { type: 'string' },
+  at: { type: 'string' },
+  webhook: { type: 'boolean' },
+  worker: { type: 'string' },
+  timezone: { type: 'string' },
+  cwd: { type: 'string' },
+  task: { type: 'string' },
+  limit: { type: 'string' },
+  type: { type: 'string' },
+  category: { type: 'string' }
+} as const
+
+export interface CliArgs {
+  positionals: string[]
+  options: {
+    json?: boolean
+    help?: boolean
+    version?: boolean
+    follow?: boolean
+    status?: string
+    trigger?: string
+    search?: string
+    name?: string
+    prompt?: string
+    description?: string
+    cron?: string
+    at?: string
+    webhook?: boolean
+    worker?: string
+    timezone?: string
+    cwd?: string
+    task?: string
+    limit?: string
+    type?: string
+    category?: string
+  }
+}
+
+/** Parse argv; unknown options throw, so typos do not silently do nothing. */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const { positionals, values } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true })
+  return { positionals, options: values }
+}
+
+export interface CliContext {
+  backend: Backend
+  io: Output
+  json: boolean
+  /** Delay between polls while following a run. */
+  pollMs?: number
+}
+
+const DEFAULT_POLL_MS = 1000
+// How long `tasks run --follow` waits for the new run to show up
+const RUN_START_TIMEOUT_MS = 15000
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+
+// ─── Helpers ────────────────────────────────────────────────
+
+async function call<T>(ctx: CliContext, method: HttpMethod, path: string, body?: unknown): Promise<T> {
+  const res: ApiResponse = await ctx.backend.request(method, path, body)
+  if (res.status >= 400) {
+    const error = (res.body as { error?: string } | undefined)?.error
+    throw new Error(error || `Request failed with status ${res.status}`)
+  }
+  return res.body as T
+}
+
+function parseId(value: string | undefined, what: string): number {
+  const id = Number(value)
+  if (!value || !Number.isSafeInteger(id) || id < 1) throw new Error(`Expected a ${what} id, got ${value ? `"${value}"` : 'nothing'}`)
+  return id
+}
+
+function query(params: Record<string, string | number | undefined>): string {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.set(key, String(value))
+  }
+  const text = search.toString()
+  return text ? `?${text}` : ''
+}
+
+function print(ctx: CliContext, data: unknown, lines: () => string[]): void {
+  if (ctx.json) {
+    ctx.io.out(JSON.stringify(data, null, 2))
+  } else {
+    for (const line of lines()) ctx.io.out(line)
+  }
+}
+
+function printList<T>(ctx: CliContext, rows: T[], columns: Array<Column<T>>, empty: string): void {
+  print(ctx, rows, () => (rows.length === 0 ? [empty] : formatTable(rows, columns)))
+}
+
+const TASK_COLUMNS: Array<Column<Task>> = [
+  ['id', (t) => t.id],
+  ['status', (t) => t.status],
+  ['name', (t) => t.name],
+  ['schedule', formatSchedule],
+  ['last run', (t) => t.lastRun]
+]
+
+const RUN_COLUMNS: Array<Column<TaskRun>> = [
+  ['id', (r) => r.id],
+  ['task', (r) => r.taskId],
+  ['status', (r) => r.status],
+  ['started', (r) => r.startedAt],
+  ['duration', (r) => formatDuration(r.durationMs)],
+  ['error', (r) => r.errorMessage]
+]
+
+const WATCH_COLUMNS: Array<Column<Watch>> = [
+  ['id', (w) => w.id],
+  ['status', (w) => w.status],
+  ['path', (w) => w.path],
+  ['triggers', (w) => w.triggerCount],
+  ['action', (w) => w.actionPrompt ?? w.description]
+]
+
+const LOG_PREFIXES: Record<string, string> = {
+  tool_call: '> ',
+  tool_result: '  ',
+  error: 'error: '
+}
+
+function taskDetail(task: Task): string[] {
+  return formatFields([
+    ['id', task.id],
+    ['name', task.name],
+    ['status', task.status],
+    ['schedule', formatSchedule(task)],
+    ['timezone', task.timezone],
+    ['worker', task.workerId],
+    ['directory', task.workingDirectory],
+    ['runs', task.runCount],
+    ['last run', task.lastRun],
+    ['description', task.description],
+    ['prompt', task.prompt]
+  ])
+}
+
+// Shared by create and edit; only flags that were given end up in the body
+function taskFields(options: CliArgs['options']): Record<string, unknown> {
+  const fields: Record<string, unknown> = {}
+  if (options.name !== undefined) fields.name = options.name
+  if (options.prompt !== undefined) fields.prompt = options.prompt
+  if (options.description !== undefined) fields.description = options.description
+  if (options.timezone !== undefined) fields.timezone = options.timezone
+  if (options.cwd !== undefined) fields.workingDirectory = options.cwd
+  if (options.worker !== undefined) fields.workerId = parseId(options.worker, 'worker')
+
+  const triggers = [options.cron !== undefined, options.at !== undefined, options.webhook === true].filter(Boolean)
+  if (triggers.length > 1) throw new Error('Use only one of --cron, --at and --webhook')
+  if (options.cron !== undefined) {
+    fields.triggerType = 'cron'
+    fields.cronExpression = options.cron
+  } else if (options.at !== undefined) {
+    fields.triggerType = 'once'
+    fields.scheduledAt = options.at
+  } else if (options.webhook) {
+    fields.triggerType = 'webhook'
+  }
+  return fields
+}
+
+// ─── Logs ───────────────────────────────────────────────────
+
+async function streamLogs(ctx: CliContext, runId: number, follow: boolean): Promise<TaskRun> {
+  let after = 0
+  for (;;) {
+    // Read the run first so no entries written before it finished are missed
+    const run = await call<TaskRun>(ctx, 'GET', `/runs/${runId}`)
+    for (;;) {
+      const page = await call<ConsoleLogEntry[]>(ctx, 'GET', `/runs/${runId}/logs${query({ after, limit: 500 })}`)
+      for (const entry of page) {
+        ctx.io.out(ctx.json ? JSON.stringify(entry) : `${LOG_PREFIXES[entry.entryType] ?? ''}${entry.content}`)
+        after = entry.seq
+      }
+      if (page.length < 500) break
+    }
+    if (!follow || run.status !== 'running') return run
+    await sleep(ctx.pollMs ?? DEFAULT_POLL_MS)
+  }
+}
+
+function runSummary(run: TaskRun): string {
+  const duration = formatDuration(run.durationMs)
+  const detail = run.errorMessage ? `: ${run.errorMessage}` : ''
+  return `Run ${run.id} ${run.status}${duration ? ` in ${duration}` : ''}${detail}`
+}
+
+async function latestRunId(ctx: CliContext, taskId: number): Promise<number | null> {
+  const [run] = await call<TaskRun[]>(ctx, 'GET', `/tasks/${taskId}/runs?limit=1`)
+  return run?.id ?? null
+}
+
+async function runTask(ctx: CliContext, taskId: number, follow: boolean): Promise<number> {
+  const before = await latestRunId(ctx, taskId)
+  const accepted = await call<{ message?: string }>(ctx, 'POST', `/tasks/${taskId}/run`)
+
+  const local = ctx.backend.kind === 'database'
+  if (!follow && !local) {
+    print(ctx, accepted, () => [`Started task ${taskId}`])
+    return 0
+  }
+  if (local && !ctx.json) ctx.io.err('Daymon is not running; running the task in this terminal.')
+
+  let runId: number | null
+  if (follow) {
+    const deadline = Date.now() + RUN_START_TIMEOUT_MS
+    do {
+      if (Date.now() > deadline) throw new Error('The run did not start; it may be waiting for a free slot')
+      await sleep(ctx.pollMs ?? DEFAULT_POLL_MS)
+      runId = await latestRunId(ctx, taskId)
+    } while (runId === null || runId === before)
+  } else {
+    await ctx.backend.settle()
+    runId = await latestRunId(ctx, taskId)
+    // executeTask declines without recording a run, e.g. when another process is running the task
+    if (runId === null || runId === before) throw new Error('The run did not start; the task may already be running')
+  }
+
+  const run = follow ? await streamLogs(ctx, runId, true) : await call<TaskRun>(ctx, 'GET', `/runs/${runId}`)
+  if (!ctx.json) ctx.io.err(runSummary(run))
+  else if (!follow) print(ctx, run, () => [])
+  return run.status === 'completed' ? 0 : 1
+}
+
+// ─── Commands ───────────────────────────────────────────────
+
+async function tasksCommand(ctx: CliContext, args: CliArgs): Promise<number> {
+  const [, sub = 'list', idArg] = args.positionals
+  const { options } = args
+
+  switch (sub) {
+    case 'list': {
+      const tasks = await call<Task[]>(ctx, 'GET', `/tasks${query({ status: options.status, trigger: options.trigger, q: options.search })}`)
+      printList(ctx, tasks, TASK_COLUMNS, 'No tasks.')
+      return 0
+    }
+    case 'show': {
+      const task = await call<Task>(ctx, 'GET', `/tasks/${parseId(idArg, 'task')}`)
+      print(ctx, task, () => taskDetail(task))
+      return 0
+    }
+    case 'create': {
+      const task = await call<Task>(ctx, 'POST', '/tasks', taskFields(options))
+      print(ctx, task, () => [`Created task ${task.id} (${formatSchedule(task)})`])
+      return 0
+    }
+    case 'edit': {
+      const id = parseId(idArg, 'task')
+      const fields = taskFields(options)
+      if (Object.keys(fields).length === 0) throw new Error('Nothing to change; pass --name, --prompt, --cron and so on')
+      const task = await call<Task>(ctx, 'PATCH', `/tasks/${id}`, fields)
+      print(ctx, task, () => [`Updated task ${task.id}`])
+      return 0
+    }
+    case 'pause':
+    case 'resume': {
+      const task = await call<Task>(ctx, 'POST', `/tasks/${parseId(idArg, 'task')}/${sub}`)
+      print(ctx, task, () => [`Task ${task.id} is ${task.status}`])
+      return 0
+    }
+    case 'delete': {
+      const id = parseId(idArg, 'task')
+      await call(ctx, 'DELETE', `/tasks/${id}`)
+      print(ctx, { ok: true, id }, () => [`Deleted task ${id}`])
+      return 0
+    }
+    case 'run':
+      return runTask(ctx, parseId(idArg, 'task'), options.follow === true)
+    default:
+      throw new Error(`Unknown tasks command "${sub}"`)
+  }
+}
+
+async function runsCommand(ctx: CliContext, args: CliArgs): Promise<number> {
+  const { options } = args
+  const taskId = options.task !== undefined ? parseId(options.task, 'task') : undefined
+  const runs = await call<TaskRun[]>(ctx, 'GET', `/runs${query({ taskId, status: options.status, limit: options.limit })}`)
+  printList(ctx, runs, RUN_COLUMNS, 'No runs.')
+  return 0
+}
+
+async function logsCommand(ctx: CliContext, args: CliArgs): Promise<number> {
+  const run = await streamLogs(ctx, parseId(args.positionals[1], 'run'), args.options.follow === true)
+  if (args.options.follow && !ctx.json) ctx.io.err(runSummary(run))
+  return 0
+}
+
+async function memoryCommand(ctx: CliContext, args: CliArgs): Promise<number> {
+  const [, sub, ...rest] = args.positionals
+
+  switch (sub) {
+    case 'search': {
+      const text = rest.join(' ').trim()
+      if (!text) throw new Error('Usage: daymon memory search <query>')
+      const entities = await call<Entity[]>(ctx, 'GET', `/memory/entities${query({ q: text, category: args.options.category })}`)
+      printList(ctx, entities, [
+        ['id', (e) => e.id],
+        ['name', (e) => e.name],
+        ['type', (e) => e.type],
+        ['category', (e) => e.category]
+      ], 'No matching memories.')
+      return 0
+    }
+    case 'add': {
+      const [name, ...factWords] = rest
+      const fact = factWords.join(' ').trim()
+      if (!name || !fact) throw new Error('Usage: daymon memory add <name> <fact>')
+
+      // Add to an existing entity of the same name, as daymon_remember does
+      const matches = await call<Entity[]>(ctx, 'GET', `/memory/entities${query({ q: name })}`)
+      const existing = matches.find((e) => e.name.toLowerCase() === name.toLowerCase())
+      const entity = existing ?? await call<Entity>(ctx, 'POST', '/memory/entities', {
+        name,
+        ...(args.options.type !== undefined ? { type: args.options.type } : {}),
+        ...(args.options.category !== undefined ? { category: args.options.category } : {})
+      })
+      const observation = await call(ctx, 'POST', `/memory/entities/${entity.id}/observations`, { content: fact, source: 'cli' })
+      print(ctx, { entity, observation }, () => [`Remembered for "${entity.name}" (entity ${entity.id})`])
+      return 0
+    }
+    default:
+      throw new Error(sub ? `Unknown memory command "${sub}"` : 'Usage: daymon memory search|add')
+  }
+}
+
+async function watchesCommand(ctx: CliContext, args: CliArgs): Promise<number> {
+  const [, sub = 'list', arg] = args.positionals
+
+  switch (sub) {
+    case 'list': {
+      const watches = await call<Watch[]>(ctx, 'GET', `/watches${query({ status: args.options.status })}`)
+      printList(ctx, watches, WATCH_COLUMNS, 'No watches.')
+      return 0
+    }
+    case 'add': {
+      if (!arg) throw new Error('Usage: daymon watches add <path>')
+      const watch = await call<Watch>(ctx, 'POST', '/watches', {
+        path: arg,
+        ...(args.options.description !== undefined ? { description: args.options.description } : {}),
+        ...(args.options.prompt !== undefined ? { actionPrompt: args.options.prompt } : {})
+      })
+      print(ctx, watch, () => [`Watching ${watch.path} (watch ${watch.id})`])
+      return 0
+    }
+    case 'pause':
+    case 'resume': {
+      const watch = await call<Watch>(ctx, 'POST', `/watches/${parseId(arg, 'watch')}/${sub}`)
+      print(ctx, watch, () => [`Watch ${watch.id} is ${watch.status}`])
+      return 0
+    }
+    case 'remove': {
+      const id = parseId(arg, 'watch')
+      await call(ctx, 'DELETE', `/watches/${id}`)
+      print(ctx, { ok: true, id }, () => [`Removed watch ${id}`])
+      return 0
+    }
+    default:
+      throw new Error(`Unknown watches command "${sub}"`)
+  }
+}
+
+async function statusCommand(ctx: CliContext): Promise<number> {
+  const [tasks, running, watches, memory] = await Promise.all([
+    call<Task[]>(ctx, 'GET', '/tasks'),
+    call<TaskRun[]>(ctx, 'GET', '/runs?status=running&limit=200'),
+    call<Watch[]>(ctx, 'GET', '/watches?status=active'),
+    call<MemoryStats>(ctx, 'GET', '/memory/stats')
+  ])
+  // Each watch has a hidden task; watches are counted on their own
+  const count = (status: string): number => tasks.filter((t) => t.triggerType !== 'watch' && t.status === status).length
+  const status = {
+    daymon: ctx.backend.kind === 'sidecar' ? 'running' : 'not running',
+    tasks: { active: count('active'), paused: count('paused'), completed: count('completed') },
+    runningRuns: running.map((r) => ({ id: r.id, taskId: r.taskId, startedAt: r.startedAt })),
+    activeWatches: watches.length,
+    memory
+  }
+  print(ctx, status, () => formatFields([
+    ['daymon', status.daymon],
+    ['tasks', `${status.tasks.active} active, ${status.tasks.paused} paused, ${status.tasks.completed} completed`],
+    ['running', running.length === 0 ? 'nothing' : running.map((r) => `task ${r.taskId} (run ${r.id})`).join(', ')],
+    ['watches', `${watches.length} active`],
+    ['memory', `${memory.entityCount} entities, ${memory.observationCount} observations, ${memory.relationCount} relations`]
+  ]))
+  return 0
+}
+
+/** Run a parsed command and resolve its exit code. */
+export async function runCommand(ctx: CliContext, args: CliArgs): Promise<number> {
+  switch (args.positionals[0]) {
+    case 'tasks':
+    case 'task':
+      return tasksCommand(ctx, args)
+    case 'runs':
+      return runsCommand(ctx, args)
+    case 'logs':
+      return logsCommand(ctx, args)
+    case 'memory':
+      return memoryCommand(ctx, args)
+    case 'watches':
+    case 'watch':
+      return watchesCommand(ctx, args)
+    case 'status':
+      return statusCommand(ctx)
+    default:
+      throw new Error(`Unknown command "${args.positionals[0]}". Run daymon --help for usage.`)
+  }
+}
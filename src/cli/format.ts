@@ -0,0 +1,66 @@
+/**
+ * Plain-text output for the CLI. Every command can also print its data as
+ * JSON with `--json`, so scripts never have to parse these tables.
+ */
+
+import { describeSchedule } from '../shared/schedule'
+import type { Task } from '../shared/types'
+
+export interface Output {
+  out: (line: string) => void
+  err: (line: string) => void
+}
+
+export type Column<T> = [header: string, value: (row: T) => string | number | null | undefined]
+
+const MAX_CELL_WIDTH = 60
+
+function cell(value: string | number | null | undefined): string {
+  const text = value == null || value === '' ? '-' : String(value).replace(/\s+/g, ' ')
+  return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text
+}
+
+/** Left-aligned columns separated by two spaces; the last column is not padded. */
+export function formatTable<T>(rows: T[], columns: Array<Column<T>>): string[] {
+  const cells = rows.map((row) => columns.map(([, value]) => cell(value(row))))
+  const widths = columns.map(([header], i) => Math.max(header.length, ...cells.map((r) => r[i].length)))
+  const line = (values: string[]): string =>
+    values.map((v, i) => (i === values.length - 1 ? v : v.padEnd(widths[i]))).join('  ')
+  return [line(columns.map(([header]) => header.toUpperCase())), ...cells.map(line)]
+}
+
+/** `key: value` lines with the keys aligned; null values are skipped. */
+export function formatFields(fields: Array<[string, string | number | null | undefined]>): string[] {
+  const shown = fields.filter(([, value]) => value != null && value !== '')
+  const width = Math.max(0, ...shown.map(([key]) => key.length))
+  return shown.map(([key, value]) => `${`${key}:`.padEnd(width + 2)}${value}`)
+}
+
+export function formatDuration(ms: number | null): string | null {
+  if (ms == null) return null
+  if (ms < 1000) return `${ms}ms`
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+export function formatSchedule(task: Task): string {
+  switch (task.triggerType) {
+    case 'cron':
+      if (!task.cronExpression) return 'cron'
+      try {
+        return describeSchedule(task.cronExpression)
+      } catch {
+        return task.cronExpression
+      }
+    case 'once':
+      return task.scheduledAt ? `once at ${task.scheduledAt}` : 'once'
+    case 'webhook':
+      return 'on webhook'
+    case 'watch':
+      return 'on file change'
+    default:
+      return 'on demand'
+  }
+}
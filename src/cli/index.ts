@@ -0,0 +1,64 @@
+/**
+ * Daymon CLI — manage tasks, runs, memory and watches from a terminal.
+ *
+ * Bundled next to the MCP server and sidecar (see scripts/build-mcp.js) and
+ * run with plain Node.js.
+ */
+
+import { connect, resolvePaths, type Backend } from './backend'
+import { parseCliArgs, runCommand, USAGE, type CliArgs } from './commands'
+import type { Output } from './format'
+
+declare const __APP_VERSION__: string
+
+const appVersion = typeof __APP_VERSION__ !== 'undefined' ? __APP_VERSION__ : 'dev'
+
+const io: Output = {
+  out: (line) => process.stdout.write(`${line}\n`),
+  err: (line) => process.stderr.write(`${line}\n`)
+}
+
+async function main(argv: string[]): Promise<number> {
+  let args: CliArgs
+  try {
+    args = parseCliArgs(argv)
+  } catch (err) {
+    io.err(`daymon: ${err instanceof Error ? err.message : String(err)}`)
+    io.err('Run daymon --help for usage.')
+    return 2
+  }
+
+  if (args.options.version) {
+    io.out(appVersion)
+    return 0
+  }
+  if (args.options.help || args.positionals.length === 0) {
+    io.out(USAGE)
+    return args.options.help ? 0 : 2
+  }
+
+  let backend: Backend | null = null
+  try {
+    backend = await connect(resolvePaths(), appVersion)
+    return await runCommand({ backend, io, json: args.options.json === true }, args)
+  } catch (err) {
+    io.err(`daymon: ${err instanceof Error ? err.message : String(err)}`)
+    return 1
+  } finally {
+    if (backend) {
+      // A run started without the sidecar lives in this process
+      await backend.settle()
+      backend.close()
+    }
+  }
+}
+
+// Piping into `head` and the like closes stdout early; that is not an error
+process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+  if (err.code === 'EPIPE') process.exit(0)
+  throw err
+})
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code
+})
@@ -100,6 +100,12 @@ describe('notifications', () => {
     expect(result.reason).toContain('permission denied')
   })
 
+  it('does not notify about results that did not change', () => {
+    notifyTaskComplete('Changelog', 'v1.2', true)
+
+    expect(mocked.state.createdCount).toBe(0)
+  })
+
   it('does not create notifications for completed tasks when notifications are disabled', () => {
     mocked.getSetting.mockReturnValue('false')
 
@@ -1,6 +1,7 @@
 import { getDatabase } from './index'
 import * as queries from '../../shared/db-queries'
-import type { Entity, Observation, Relation, MemoryStats } from '../../shared/types'
+import { getEmbeddingStatus as readEmbeddingStatus } from '../../shared/embedding-indexer'
+import type { Entity, Observation, Relation, MemoryGraph, MemoryStats, EmbeddingStatus } from '../../shared/types'
 
 // ─── Entities ───────────────────────────────────────────────
 
@@ -42,6 +43,10 @@ export function getObservations(entityId: number): Observation[] {
   return queries.getObservations(getDatabase(), entityId)
 }
 
+export function updateObservation(id: number, content: string): void {
+  return queries.updateObservation(getDatabase(), id, content)
+}
+
 export function deleteObservation(id: number): void {
   return queries.deleteObservation(getDatabase(), id)
 }
@@ -64,8 +69,22 @@ export function deleteRelation(id: number): void {
   return queries.deleteRelation(getDatabase(), id)
 }
 
+// ─── Graph ──────────────────────────────────────────────────
+
+export function getGraphOverview(filters?: { limit?: number; type?: string; category?: string }): MemoryGraph {
+  return queries.getMemoryGraphOverview(getDatabase(), filters)
+}
+
+export function getGraph(entityId: number, depth?: number, limit?: number): MemoryGraph | null {
+  return queries.getMemoryGraph(getDatabase(), entityId, depth, limit)
+}
+
 // ─── Stats ──────────────────────────────────────────────────
 
 export function getMemoryStats(): MemoryStats {
   return queries.getMemoryStats(getDatabase())
 }
+
+export function getEmbeddingStatus(): EmbeddingStatus {
+  return readEmbeddingStatus(getDatabase())
+}
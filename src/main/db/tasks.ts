@@ -1,7 +1,8 @@
 import { getDatabase } from './index'
 import * as queries from '../../shared/db-queries'
 import { validateWatchPath } from '../../shared/watch-path'
-import type { Task, TaskRun, CreateTaskInput, Watch, Worker, CreateWorkerInput } from '../../shared/types'
+import { sendTestWebhook as sendTestDelivery } from '../../shared/webhooks'
+import type { Task, TaskRun, CreateTaskInput, Watch, WatchOptions, Worker, CreateWorkerInput, UsageReport, Webhook, CreateWebhookInput, WebhookDelivery } from '../../shared/types'
 
 // ─── Workers ────────────────────────────────────────────────
 
@@ -103,6 +104,10 @@ export function getRunningTaskRuns(): TaskRun[] {
   return queries.getRunningTaskRuns(getDatabase())
 }
 
+export function getUsageReport(days: number = 7): UsageReport {
+  return queries.getUsageReport(getDatabase(), days)
+}
+
 // ─── Stale Run Cleanup ──────────────────────────────────────
 
 export function cleanupStaleRuns(): number {
@@ -121,12 +126,12 @@ export function getConsoleLogs(runId: number, afterSeq: number = 0, limit: numbe
 
 // ─── Watches ────────────────────────────────────────────────
 
-export function createWatch(path: string, description?: string, actionPrompt?: string): Watch {
+export function createWatch(path: string, description?: string, actionPrompt?: string, options?: WatchOptions): Watch {
   const pathError = validateWatchPath(path)
   if (pathError) {
     throw new Error(`Invalid watch path: ${pathError}`)
   }
-  return queries.createWatch(getDatabase(), path, description, actionPrompt)
+  return queries.createWatch(getDatabase(), path, description, actionPrompt, options)
 }
 
 export function getWatch(id: number): Watch | null {
@@ -153,6 +158,33 @@ export function resumeWatch(id: number): void {
   return queries.resumeWatch(getDatabase(), id)
 }
 
+// ─── Webhooks ───────────────────────────────────────────────
+
+export function createWebhook(input: CreateWebhookInput): Webhook {
+  return queries.createWebhook(getDatabase(), input)
+}
+
+export function listWebhooks(): Webhook[] {
+  return queries.listWebhooks(getDatabase())
+}
+
+export function updateWebhook(id: number, updates: Parameters<typeof queries.updateWebhook>[2]): void {
+  return queries.updateWebhook(getDatabase(), id, updates)
+}
+
+export function deleteWebhook(id: number): boolean {
+  return queries.deleteWebhook(getDatabase(), id)
+}
+
+export function listWebhookDeliveries(webhookId?: number, limit?: number): WebhookDelivery[] {
+  return queries.listWebhookDeliveries(getDatabase(), webhookId, limit)
+}
+
+export async function sendTestWebhook(id: number): Promise<WebhookDelivery | null> {
+  const webhook = queries.getWebhook(getDatabase(), id)
+  return webhook ? sendTestDelivery(getDatabase(), webhook) : null
+}
+
 // ─── Settings ───────────────────────────────────────────────
 
 export function getSetting(key: string): string | null {
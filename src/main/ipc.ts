@@ -8,21 +8,26 @@ import * as tasks from './db/tasks'
 import { getConfig, getClaudeConfigPath } from './config'
 import { checkClaudeCliAvailable } from '../shared/claude-code'
 import { findIdeProcessLinux, findIdeProcessWindows } from '../shared/auto-nudge'
-import { sidecarFetch } from './sidecar'
+import { getSidecarPort, sidecarFetch } from './sidecar'
 import { uninstall } from './uninstall'
 import { checkForUpdates, downloadUpdate, installUpdate, getUpdateStatus, simulateUpdate } from './updater'
 import { getClaudeIntegrationStatus } from './claude-config'
 import { testNotification } from './notifications'
 import { z } from 'zod'
-import type { CreateTaskInput, CreateWorkerInput } from '../shared/types'
+import type { CreateTaskInput, CreateWebhookInput, CreateWorkerInput, WatchOptions } from '../shared/types'
 import {
   createTaskSchema,
   createWatchSchema,
+  createWebhookSchema,
   createWorkerSchema,
   idSchema,
+  memoryGraphOptionsSchema,
   settingsKeySchema,
   settingsValueSchema,
+  updateEntitySchema,
+  updateObservationSchema,
   updateTaskSchema,
+  updateWebhookSchema,
   updateWorkerSchema
 } from '../shared/validation'
 
@@ -43,6 +48,9 @@ export function registerIpcHandlers(): void {
   ipcMain.handle('memory:getEntity', (_e, id: number) => memory.getEntity(parseOrThrow(idSchema, id)))
   ipcMain.handle('memory:listEntities', (_e, category?: string) => memory.listEntities(category))
   ipcMain.handle('memory:searchEntities', (_e, query: string) => memory.searchEntities(query))
+  ipcMain.handle('memory:updateEntity', (_e, id: number, updates: Record<string, unknown>) =>
+    memory.updateEntity(parseOrThrow(idSchema, id), parseOrThrow(updateEntitySchema, updates))
+  )
   ipcMain.handle('memory:deleteEntity', (_e, id: number) => memory.deleteEntity(parseOrThrow(idSchema, id)))
 
   // ─── Memory: Observations ─────────────────────────────
@@ -51,6 +59,9 @@ export function registerIpcHandlers(): void {
     memory.addObservation(parseOrThrow(idSchema, entityId), content, source)
   )
   ipcMain.handle('memory:getObservations', (_e, entityId: number) => memory.getObservations(parseOrThrow(idSchema, entityId)))
+  ipcMain.handle('memory:updateObservation', (_e, id: number, content: string) =>
+    memory.updateObservation(parseOrThrow(idSchema, id), parseOrThrow(updateObservationSchema, { content }).content)
+  )
   ipcMain.handle('memory:deleteObservation', (_e, id: number) => memory.deleteObservation(parseOrThrow(idSchema, id)))
 
   // ─── Memory: Relations ────────────────────────────────
@@ -61,9 +72,21 @@ export function registerIpcHandlers(): void {
   ipcMain.handle('memory:getRelations', (_e, entityId: number) => memory.getRelations(parseOrThrow(idSchema, entityId)))
   ipcMain.handle('memory:deleteRelation', (_e, id: number) => memory.deleteRelation(parseOrThrow(idSchema, id)))
 
+  // ─── Memory: Graph ───────────────────────────────────
+
+  ipcMain.handle('memory:getGraphOverview', (_e, options?: Record<string, unknown>) => {
+    const { limit, type, category } = parseOrThrow(memoryGraphOptionsSchema, options ?? {})
+    return memory.getGraphOverview({ limit, type, category })
+  })
+  ipcMain.handle('memory:getGraph', (_e, entityId: number, options?: Record<string, unknown>) => {
+    const { depth, limit } = parseOrThrow(memoryGraphOptionsSchema, options ?? {})
+    return memory.getGraph(parseOrThrow(idSchema, entityId), depth, limit)
+  })
+
   // ─── Memory: Stats ───────────────────────────────────
 
   ipcMain.handle('memory:getStats', () => memory.getMemoryStats())
+  ipcMain.handle('memory:getEmbeddingStatus', () => memory.getEmbeddingStatus())
 
   // ─── Workers ────────────────────────────────────────────
 
@@ -94,6 +117,13 @@ export function registerIpcHandlers(): void {
     return result
   })
   ipcMain.handle('tasks:get', (_e, id: number) => tasks.getTask(parseOrThrow(idSchema, id)))
+  ipcMain.handle('tasks:copyWebhookUrl', (_e, id: number) => {
+    const task = tasks.getTask(parseOrThrow(idSchema, id))
+    if (!task?.webhookToken) return null
+    const url = `http://127.0.0.1:${getSidecarPort() ?? '<port>'}/hooks/${task.webhookToken}`
+    clipboard.writeText(url)
+    return url
+  })
   ipcMain.handle('tasks:list', (_e, status?: string) => {
     const validatedStatus = parseOrThrow(z.enum(['active', 'paused', 'completed']).optional(), status)
     return tasks.listTasks(validatedStatus)
@@ -126,7 +156,15 @@ export function registerIpcHandlers(): void {
     const validatedId = parseOrThrow(idSchema, id)
     return sidecarFetch('POST', `/tasks/${validatedId}/run`)
   })
+  ipcMain.handle('tasks:cancel', (_e, id: number) => {
+    const validatedId = parseOrThrow(idSchema, id)
+    return sidecarFetch('POST', `/tasks/${validatedId}/cancel`)
+  })
   ipcMain.handle('tasks:getRunningRuns', () => tasks.getRunningTaskRuns())
+  ipcMain.handle('tasks:getUsageReport', (_e, days?: number) => {
+    const validatedDays = parseOrThrow(z.number().int().min(1).max(90).optional().default(7), days)
+    return tasks.getUsageReport(validatedDays)
+  })
   ipcMain.handle('tasks:getConsoleLogs', (_e, runId: number, afterSeq?: number, limit?: number) => {
     const validatedRunId = parseOrThrow(idSchema, runId)
     const validatedAfterSeq = parseOrThrow(z.number().int().min(0).optional().default(0), afterSeq)
@@ -144,11 +182,28 @@ export function registerIpcHandlers(): void {
   })
   ipcMain.handle('settings:getAll', () => tasks.getAllSettings())
 
+  // ─── Webhooks ────────────────────────────────────────
+
+  ipcMain.handle('webhooks:create', (_e, input: CreateWebhookInput) => tasks.createWebhook(parseOrThrow(createWebhookSchema, input)))
+  ipcMain.handle('webhooks:list', () => tasks.listWebhooks())
+  ipcMain.handle('webhooks:update', (_e, id: number, updates: Record<string, unknown>) => {
+    const validatedId = parseOrThrow(idSchema, id)
+    tasks.updateWebhook(validatedId, parseOrThrow(updateWebhookSchema, updates))
+  })
+  ipcMain.handle('webhooks:delete', (_e, id: number) => tasks.deleteWebhook(parseOrThrow(idSchema, id)))
+  ipcMain.handle('webhooks:test', (_e, id: number) => tasks.sendTestWebhook(parseOrThrow(idSchema, id)))
+  ipcMain.handle('webhooks:getDeliveries', (_e, webhookId?: number, limit?: number) => {
+    const validatedId = parseOrThrow(idSchema.optional(), webhookId)
+    const validatedLimit = parseOrThrow(z.number().int().min(1).max(200).optional().default(50), limit)
+    return tasks.listWebhookDeliveries(validatedId, validatedLimit)
+  })
+
   // ─── Watches ─────────────────────────────────────────
 
-  ipcMain.handle('watches:create', (_e, path: string, description?: string, actionPrompt?: string) => {
-    const validated = parseOrThrow(createWatchSchema, { path, description, actionPrompt })
-    const watch = tasks.createWatch(validated.path, validated.description, validated.actionPrompt)
+  ipcMain.handle('watches:create', (_e, path: string, description?: string, actionPrompt?: string, options?: WatchOptions) => {
+    const validated = parseOrThrow(createWatchSchema, { path, description, actionPrompt, ...options })
+    const { path: watchPath, description: watchDescription, actionPrompt: watchPrompt, ...watchOptions } = validated
+    const watch = tasks.createWatch(watchPath, watchDescription, watchPrompt, watchOptions)
     sidecarFetch('POST', '/sync').catch(() => {})
     return watch
   })
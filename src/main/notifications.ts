@@ -11,8 +11,9 @@ export interface NotificationDispatchResult {
   reason?: string
 }
 
-export function notifyTaskComplete(taskName: string, summary?: string): void {
-  if (!shouldNotify()) return
+/** `unchanged` marks runs whose result matched the previous one under change detection. */
+export function notifyTaskComplete(taskName: string, summary?: string, unchanged = false): void {
+  if (unchanged || !shouldNotify()) return
   showNotification(
     `Task completed: ${taskName}`,
     summary ? truncate(summary, 200) : 'Task finished successfully.'
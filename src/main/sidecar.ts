@@ -3,7 +3,8 @@
  *
  * Electron launches the sidecar as a detached Node.js process with stdio: 'ignore'
  * to avoid the spawn EBADF error that plagues pipe-based child processes.
- * Communication happens via HTTP on localhost.
+ * Communication happens via HTTP on localhost, authenticated with the bearer
+ * token the sidecar writes next to its port file.
  */
 
 import { spawn, execSync } from 'child_process'
@@ -14,8 +15,10 @@ import { app } from 'electron'
 import { getConfig } from './config'
 import { resolveNodePath } from './claude-config'
 import { notifyTaskComplete, notifyTaskFailed } from './notifications'
+import { readSidecarToken, sidecarAuthHeaders } from '../shared/sidecar-auth'
 
 let sidecarPort: number | null = null
+let sidecarToken: string | null = null
 let sseConnection: IncomingMessage | null = null
 let healthTimer: ReturnType<typeof setInterval> | null = null
 let consecutiveFailures = 0
@@ -50,6 +53,7 @@ export async function launchSidecar(): Promise<void> {
       if (port > 0) {
         console.log(`Sidecar already running (PID ${pid}, port ${port})`)
         sidecarPort = port
+        sidecarToken = readSidecarToken(config.dataDir)
         startHealthCheck()
         connectSSE()
         return
@@ -136,6 +140,7 @@ export async function launchSidecar(): Promise<void> {
   const port = await waitForPortFile(portFile)
   if (port) {
     sidecarPort = port
+    sidecarToken = readSidecarToken(config.dataDir)
     console.log(`Sidecar ready on port ${port}`)
     startHealthCheck()
     connectSSE()
@@ -175,7 +180,10 @@ export function sidecarFetch(method: string, path: string, body?: unknown): Prom
       port: sidecarPort,
       path,
       method,
-      headers: body ? { 'Content-Type': 'application/json' } : {}
+      headers: {
+        ...sidecarAuthHeaders(sidecarToken),
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      }
     }
 
     const req = httpRequest(options, (res) => {
@@ -214,9 +222,10 @@ function connectSSE(): void {
     sseConnection = null
   }
 
-  const url = `http://127.0.0.1:${sidecarPort}/events`
-  httpGet(url, (res) => {
+  httpGet({ hostname: '127.0.0.1', port: sidecarPort, path: '/events', headers: sidecarAuthHeaders(sidecarToken) }, (res) => {
     sseConnection = res
+    // A sidecar started by someone else has its own token; pick it up before reconnecting
+    if (res.statusCode === 401) sidecarToken = readSidecarToken(getConfig().dataDir)
     let buffer = ''
 
     res.on('data', (chunk: Buffer) => {
@@ -266,7 +275,7 @@ function processSSEMessage(raw: string): void {
       || (nudgeMode === 'failure_only' && !isSuccess)
 
     if (eventType === 'task:complete' && shouldShowNotification) {
-      notifyTaskComplete(data.taskName, data.outputPreview)
+      notifyTaskComplete(data.taskName, data.outputPreview, data.unchanged === true)
     } else if (eventType === 'task:failed' && shouldShowNotification) {
       notifyTaskFailed(data.taskName, data.errorMessage || 'Unknown error')
     }
@@ -286,7 +295,7 @@ function startHealthCheck(): void {
 function checkHealth(): void {
   if (!sidecarPort) return
 
-  const req = httpGet(`http://127.0.0.1:${sidecarPort}/health`, (res) => {
+  const req = httpGet({ hostname: '127.0.0.1', port: sidecarPort, path: '/health', headers: sidecarAuthHeaders(sidecarToken) }, (res) => {
     let data = ''
     res.on('data', (chunk: Buffer) => { data += chunk.toString() })
     res.on('end', () => {
@@ -311,6 +320,7 @@ function handleHealthFailure(): void {
   if (consecutiveFailures >= MAX_FAILURES_BEFORE_RESTART) {
     console.log('Sidecar appears dead, restarting...')
     sidecarPort = null
+    sidecarToken = null
     consecutiveFailures = 0
     launchSidecar().catch((err) => {
       console.error('Failed to restart sidecar:', err)
@@ -333,6 +343,7 @@ export function shutdownSidecarSync(): void {
     } catch { /* already dead */ }
   }
   sidecarPort = null
+  sidecarToken = null
 }
 
 export async function shutdownSidecar(): Promise<void> {
@@ -356,6 +367,7 @@ export async function shutdownSidecar(): Promise<void> {
   }
 
   sidecarPort = null
+  sidecarToken = null
 }
 
 export function isSidecarReady(): boolean {
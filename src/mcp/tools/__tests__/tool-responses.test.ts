@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { homedir } from 'os'
+import { homedir, tmpdir } from 'os'
 import { join } from 'path'
 import Database from 'better-sqlite3'
 import { initTestDb } from '../../../shared/__tests__/helpers/test-db'
@@ -33,18 +33,22 @@ vi.mock('../../../shared/task-runner', () => ({
     durationMs: 1234,
     errorMessage: null
   }),
-  isTaskRunning: vi.fn().mockReturnValue(false)
+  isTaskRunning: vi.fn().mockReturnValue(false),
+  cancelTask: vi.fn().mockReturnValue(false)
 }))
 
 // Mock embeddings for memory tools
 vi.mock('../../../shared/embeddings', () => ({
   embed: vi.fn(),
   isEngineReady: () => false,
+  applyEmbeddingSettings: vi.fn(),
   cosineSimilarity: vi.fn(),
   blobToVector: vi.fn(),
   initEngine: vi.fn().mockResolvedValue(undefined)
 }))
 
+import { cancelTask, executeTask } from '../../../shared/task-runner'
+
 beforeEach(async () => {
   toolHandlers.clear()
   db = initTestDb()
@@ -113,11 +117,49 @@ describe('daymon_schedule responses', () => {
     const text = getResponseText(result)
     assertCleanResponse(text)
     expect(text).toContain('Morning Digest')
+    expect(text).toContain('every weekday at 09:00')
+    expect(text).toContain('Next run:')
     expect(text).not.toContain('0 9 * * 1-5')
     expect(text).not.toContain('session')
     expect(text).not.toContain('60')
   })
 
+  it('rejects cron expressions that never fire', async () => {
+    const handler = toolHandlers.get('daymon_schedule')!
+    const result = await handler({ name: 'Leap', prompt: 'p', cronExpression: '0 0 30 2 *' })
+    expect(result.isError).toBe(true)
+    expect(getResponseText(result)).toContain('never fires')
+    expect(queries.listTasks(db)).toHaveLength(0)
+  })
+
+  it('passes on warnings about very frequent schedules', async () => {
+    const handler = toolHandlers.get('daymon_schedule')!
+    const text = getResponseText(await handler({ name: 'Poller', prompt: 'p', cronExpression: '* * * * *' }))
+    assertCleanResponse(text)
+    expect(text).toContain('every minute')
+    expect(text).toContain('Note: This runs about 1440 times a day')
+  })
+
+  it('stores a time zone for recurring tasks and rejects unknown zones', async () => {
+    const handler = toolHandlers.get('daymon_schedule')!
+    const bad = await handler({ name: 'Digest', prompt: 'p', cronExpression: '0 9 * * 1-5', timezone: 'New York' })
+    expect(bad.isError).toBe(true)
+    expect(queries.listTasks(db)).toHaveLength(0)
+
+    const result = await handler({ name: 'Market Digest', prompt: 'p', cronExpression: '0 9 * * 1-5', timezone: 'America/New_York' })
+    assertCleanResponse(getResponseText(result))
+    expect(queries.listTasks(db)[0].timezone).toBe('America/New_York')
+  })
+
+  it('stores the misfire policy for recurring tasks only', async () => {
+    const handler = toolHandlers.get('daymon_schedule')!
+    await handler({ name: 'Daily Report', prompt: 'Write the report', cronExpression: '0 7 * * *', misfirePolicy: 'run_once' })
+    await handler({ name: 'Ad hoc', prompt: 'Do it', misfirePolicy: 'run_all' })
+    const [daily, adHoc] = queries.listTasks(db).sort((a, b) => a.id - b.id)
+    expect(daily.misfirePolicy).toBe('run_once')
+    expect(adHoc.misfirePolicy).toBe('skip')
+  })
+
   it('one-time task: clean, no implementation details', async () => {
     const futureDate = new Date(Date.now() + 3600000).toISOString()
     const handler = toolHandlers.get('daymon_schedule')!
@@ -145,6 +187,21 @@ describe('daymon_schedule responses', () => {
     expect(text).not.toContain('daymon_run_task')
   })
 
+  it('webhook task: gives the URL that starts it', async () => {
+    const handler = toolHandlers.get('daymon_schedule')!
+    const result = await handler({ name: 'PR Review', prompt: 'Review the pull request', webhook: true, webhookPayloadPath: '$.pull_request' })
+    const text = getResponseText(result)
+    assertCleanResponse(text)
+    const token = queries.listTasks(db).find((t) => t.name === 'PR Review')!.webhookToken
+    expect(text).toContain(`/hooks/${token}`)
+  })
+
+  it('rejects unsupported webhook payload paths', async () => {
+    const handler = toolHandlers.get('daymon_schedule')!
+    const result = await handler({ name: 'Bad Path', prompt: 'p', webhook: true, webhookPayloadPath: '$..title' })
+    expect(result.isError).toBe(true)
+  })
+
   it('task with worker: does not expose worker details', async () => {
     const worker = queries.createWorker(db, {
       name: 'Researcher',
@@ -165,6 +222,193 @@ describe('daymon_schedule responses', () => {
   })
 })
 
+describe('daymon_preview_schedule response', () => {
+  it('describes the schedule and lists the next runs', async () => {
+    const handler = toolHandlers.get('daymon_preview_schedule')!
+    const result = await handler({ cronExpression: '*/15 9-17 * * 1-5', timezone: 'Europe/London', count: 3 })
+    const text = getResponseText(result)
+    assertCleanResponse(text)
+    const preview = JSON.parse(text)
+    expect(preview.description).toBe('every 15 minutes from 09:00 to 17:59 on weekdays')
+    expect(preview.timezone).toBe('Europe/London')
+    expect(preview.nextRuns).toHaveLength(3)
+    expect(preview.nextRuns[0]).toMatch(/^\d{4}-\d{2}-\d{2} (09|1\d):\d{2}$/)
+    expect(preview.runsPerDay).toBe(36)
+    expect(preview.warnings).toEqual([])
+  })
+
+  it('reports invalid expressions and time zones as errors', async () => {
+    const handler = toolHandlers.get('daymon_preview_schedule')!
+    expect((await handler({ cronExpression: '0 25 * * *' })).isError).toBe(true)
+    expect((await handler({ cronExpression: '0 9 * * *', timezone: 'Mars/Olympus' })).isError).toBe(true)
+  })
+})
+
+describe('daymon_list_tasks schedule details', () => {
+  it('adds a description and next run for active recurring tasks', async () => {
+    await toolHandlers.get('daymon_schedule')!({ name: 'Digest', prompt: 'p', cronExpression: '0 9 * * 1-5' })
+    await toolHandlers.get('daymon_schedule')!({ name: 'Ad hoc', prompt: 'p' })
+
+    const list = JSON.parse(getResponseText(await toolHandlers.get('daymon_list_tasks')!({})))
+    const digest = list.find((t: { name: string }) => t.name === 'Digest')
+    const adHoc = list.find((t: { name: string }) => t.name === 'Ad hoc')
+    expect(digest.scheduleDescription).toBe('every weekday at 09:00')
+    expect(digest.nextRun).toMatch(/^\d{4}-\d{2}-\d{2} 09:00$/)
+    expect(adHoc.scheduleDescription).toBeUndefined()
+  })
+})
+
+describe('daymon_schedule working directory', () => {
+  it('stores a valid working directory', async () => {
+    const handler = toolHandlers.get('daymon_schedule')!
+    await handler({ name: 'Triage Tests', prompt: 'Run the test suite', workingDirectory: tmpdir() })
+    const task = queries.listTasks(db)[0]
+    expect(task.workingDirectory).toBe(tmpdir())
+  })
+
+  it('rejects a missing working directory', async () => {
+    const handler = toolHandlers.get('daymon_schedule')!
+    const result = await handler({
+      name: 'Triage Tests',
+      prompt: 'Run the test suite',
+      workingDirectory: join(tmpdir(), 'daymon-missing-project-xyz')
+    })
+    expect(result.isError).toBe(true)
+    expect(queries.listTasks(db)).toHaveLength(0)
+  })
+})
+
+describe('retry policy responses', () => {
+  it('stores the retry policy and shows it in the task list', async () => {
+    await toolHandlers.get('daymon_schedule')!({ name: 'Flaky Feed', prompt: 'p', maxAttempts: 3, retryOn: ['exit_code', 'empty_output'] })
+    const task = queries.listTasks(db)[0]
+    expect(task.maxAttempts).toBe(3)
+    expect(task.retryOn).toEqual(['exit_code', 'empty_output'])
+
+    const list = JSON.parse(getResponseText(await toolHandlers.get('daymon_list_tasks')!({})))
+    expect(list[0].retryPolicy).toBe('up to 3 attempts, 60s apart, doubling, on exit code or empty output')
+  })
+
+  it('shows attempts in task history', async () => {
+    const task = queries.createTask(db, { name: 'Flaky Feed', prompt: 'p', maxAttempts: 3 })
+    const run = queries.createTaskRun(db, task.id)
+    queries.setTaskRunAttempt(db, run.id, 2, 3)
+    queries.recordTaskRunAttempt(db, run.id, 1, 'failed', 'Exit code 1: boom', 50)
+    queries.recordTaskRunAttempt(db, run.id, 2, 'completed', null, 80)
+    queries.completeTaskRun(db, run.id, 'done')
+
+    const text = getResponseText(await toolHandlers.get('daymon_task_history')!({ taskId: task.id, limit: 10 }))
+    const history = JSON.parse(text)
+    expect(history.runs[0].attempt).toBe('2/3')
+    expect(history.runs[0].attempts.map((a: { status: string }) => a.status)).toEqual(['failed', 'completed'])
+  })
+})
+
+describe('output checks', () => {
+  it('stores criteria given to daymon_schedule', async () => {
+    await toolHandlers.get('daymon_schedule')!({
+      name: 'File Summary', prompt: 'p', successCriteria: { mustNotContain: ["couldn't access"], rubric: 'Mentions every section' }
+    })
+    expect(queries.listTasks(db)[0].successCriteria).toEqual({ mustNotContain: ["couldn't access"], rubric: 'Mentions every section' })
+  })
+
+  it('stores an output schema given to daymon_schedule', async () => {
+    const outputSchema = { type: 'array', items: { type: 'string' } }
+    const result = await toolHandlers.get('daymon_schedule')!({ name: 'CVE Feed', prompt: 'p', outputSchema })
+    assertCleanResponse(getResponseText(result))
+    expect(queries.listTasks(db)[0].outputSchema).toEqual(outputSchema)
+  })
+
+  it('rejects an invalid pattern', async () => {
+    const result = await toolHandlers.get('daymon_schedule')!({ name: 'Bad', prompt: 'p', successCriteria: { mustMatch: '(' } })
+    expect(result.isError).toBe(true)
+    assertCleanResponse(getResponseText(result))
+    expect(queries.listTasks(db)).toHaveLength(0)
+  })
+})
+
+describe('daymon_usage_report response', () => {
+  it('reports usage by task name without ids', async () => {
+    const task = queries.createTask(db, { name: 'Nightly Digest', prompt: 'p' })
+    const run = queries.createTaskRun(db, task.id)
+    queries.addTaskRunUsage(db, run.id, {
+      inputTokens: 1500, outputTokens: 300, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0.12345
+    })
+
+    const result = await toolHandlers.get('daymon_usage_report')!({ days: 7 })
+    const text = getResponseText(result)
+    assertCleanResponse(text)
+    const report = JSON.parse(text)
+    expect(report.totals.inputTokens).toBe(1500)
+    expect(report.byTask[0]).toMatchObject({ task: 'Nightly Digest', costUsd: 0.1235 })
+    expect(report.byTask[0]).not.toHaveProperty('taskId')
+  })
+
+  it('says so when nothing ran', async () => {
+    const result = await toolHandlers.get('daymon_usage_report')!({ days: 1 })
+    expect(getResponseText(result)).toContain('No task runs')
+  })
+})
+
+describe('usage budget responses', () => {
+  it('sets a task budget without leaking ids', async () => {
+    const task = queries.createTask(db, { name: 'Nightly Digest', prompt: 'p' })
+    const result = await toolHandlers.get('daymon_set_budget')!({
+      scope: 'task', taskId: task.id, period: 'day', metric: 'tokens', limit: 50000, action: 'pause'
+    })
+    const text = getResponseText(result)
+    assertCleanResponse(text)
+    expect(text).toBe('Set a daily budget of 50,000 tokens for task "Nightly Digest". Once it is reached, the task will be paused.')
+    expect(queries.listUsageBudgets(db)).toHaveLength(1)
+  })
+
+  it('rejects a worker budget without a worker', async () => {
+    const result = await toolHandlers.get('daymon_set_budget')!({
+      scope: 'worker', period: 'week', metric: 'cost', limit: 5, action: 'skip'
+    })
+    expect(result.isError).toBe(true)
+    expect(queries.listUsageBudgets(db)).toHaveLength(0)
+  })
+
+  it('lists budgets with usage and removes them', async () => {
+    const budget = queries.setUsageBudget(db, { scope: 'global', period: 'week', metric: 'cost', limit: 10 })
+    const listed = JSON.parse(getResponseText(await toolHandlers.get('daymon_list_budgets')!({})))
+    expect(listed).toEqual([{
+      id: budget.id, budget: 'global weekly budget of $10.00', used: '$0.00', exceeded: false, action: 'skip'
+    }])
+
+    const removed = getResponseText(await toolHandlers.get('daymon_remove_budget')!({ id: budget.id }))
+    assertCleanResponse(removed)
+    expect(removed).toBe('Removed the global weekly budget of $10.00.')
+    expect(getResponseText(await toolHandlers.get('daymon_list_budgets')!({}))).toBe('No usage budgets set.')
+  })
+})
+
+describe('daymon_cancel_task response', () => {
+  it('stops a task running in this process', async () => {
+    vi.mocked(cancelTask).mockReturnValueOnce(true)
+    const task = queries.createTask(db, { name: 'Long Crawl', prompt: 'p' })
+    const text = getResponseText(await toolHandlers.get('daymon_cancel_task')!({ id: task.id }))
+    assertCleanResponse(text)
+    expect(text).toBe('Stopped task "Long Crawl".')
+    expect(cancelTask).toHaveBeenCalledWith(task.id)
+  })
+
+  it('reports a task that is not running', async () => {
+    const task = queries.createTask(db, { name: 'Idle Task', prompt: 'p' })
+    const result = await toolHandlers.get('daymon_cancel_task')!({ id: task.id })
+    const text = getResponseText(result)
+    assertCleanResponse(text)
+    expect(text).toBe('Task "Idle Task" is not running.')
+    expect(result.isError).toBeFalsy()
+  })
+
+  it('reports a missing task as an error', async () => {
+    const result = await toolHandlers.get('daymon_cancel_task')!({ id: 999 })
+    expect(result.isError).toBe(true)
+  })
+})
+
 describe('daymon_pause_task response', () => {
   it('clean confirmation, no ID', async () => {
     const task = queries.createTask(db, {
@@ -214,6 +458,57 @@ describe('daymon_delete_task response', () => {
   })
 })
 
+describe('watch action tasks', () => {
+  function createWatchTask(): number {
+    const watch = queries.createWatch(db, '/Users/test/inbox', 'inbox watch', 'File new invoices')
+    return queries.ensureWatchTask(db, watch.id)!.id
+  }
+
+  it('are left out of the task list', async () => {
+    createWatchTask()
+    queries.createTask(db, { name: 'Visible Task', prompt: 'p', triggerType: 'manual' })
+    const list = JSON.parse(getResponseText(await toolHandlers.get('daymon_list_tasks')!({})))
+    expect(list.map((t: { name: string }) => t.name)).toEqual(['Visible Task'])
+  })
+
+  it('cannot be run, paused, resumed, deleted or chained after another task', async () => {
+    const id = createWatchTask()
+    const other = queries.createTask(db, { name: 'Collect PRs', prompt: 'p', triggerType: 'manual' })
+    const results = [
+      await toolHandlers.get('daymon_run_task')!({ id }),
+      await toolHandlers.get('daymon_pause_task')!({ id }),
+      await toolHandlers.get('daymon_resume_task')!({ id }),
+      await toolHandlers.get('daymon_delete_task')!({ id }),
+      await toolHandlers.get('daymon_chain_tasks')!({ upstreamTaskId: other.id, downstreamTaskId: id, on: 'success' })
+    ]
+    for (const result of results) {
+      expect(result.isError).toBe(true)
+      assertCleanResponse(getResponseText(result))
+      expect(getResponseText(result)).toContain('file watch')
+    }
+    const task = queries.getTask(db, id)!
+    expect(task.status).toBe('active')
+    expect(queries.getDependentTasks(db, other.id)).toHaveLength(0)
+  })
+})
+
+describe('daymon_run_task budgets', () => {
+  it('does not start a task whose budget is used up', async () => {
+    const task = queries.createTask(db, { name: 'Nightly Crawl', prompt: 'p', triggerType: 'manual' })
+    queries.completeTaskRun(db, queries.createTaskRun(db, task.id).id, 'ok')
+    queries.setUsageBudget(db, { scope: 'task', scopeId: task.id, period: 'day', metric: 'runs', limit: 1 })
+    vi.mocked(executeTask).mockClear()
+
+    const text = getResponseText(await toolHandlers.get('daymon_run_task')!({ id: task.id }))
+
+    assertCleanResponse(text)
+    expect(text).toContain('was not run')
+    expect(text).toContain('daily budget of 1 run(s)')
+    expect(executeTask).not.toHaveBeenCalled()
+    expect(queries.getTaskRuns(db, task.id).map((r) => r.status)).toContain('skipped')
+  })
+})
+
 describe('daymon_reset_session response', () => {
   it('clean confirmation, no ID', async () => {
     const task = queries.createTask(db, {
@@ -231,6 +526,43 @@ describe('daymon_reset_session response', () => {
   })
 })
 
+describe('daymon_chain_tasks response', () => {
+  it('clean confirmation, no IDs', async () => {
+    const a = queries.createTask(db, { name: 'Collect PRs', prompt: 'p', triggerType: 'manual' })
+    const b = queries.createTask(db, { name: 'Draft Standup', prompt: 'p', triggerType: 'manual' })
+    const handler = toolHandlers.get('daymon_chain_tasks')!
+    const result = await handler({ upstreamTaskId: a.id, downstreamTaskId: b.id, on: 'success' })
+    const text = getResponseText(result)
+    assertCleanResponse(text)
+    expect(text).toContain('Collect PRs')
+    expect(text).toContain('Draft Standup')
+    expect(queries.getDependentTasks(db, a.id)).toHaveLength(1)
+  })
+
+  it('rejects links that would create a loop', async () => {
+    const a = queries.createTask(db, { name: 'A', prompt: 'p', triggerType: 'manual' })
+    const b = queries.createTask(db, { name: 'B', prompt: 'p', triggerType: 'manual' })
+    queries.addTaskDependency(db, b.id, a.id)
+    const handler = toolHandlers.get('daymon_chain_tasks')!
+    const result = await handler({ upstreamTaskId: b.id, downstreamTaskId: a.id, on: 'success' })
+    expect(result.isError).toBe(true)
+    expect(queries.getDependentTasks(db, b.id)).toHaveLength(0)
+  })
+})
+
+describe('daymon_unchain_tasks response', () => {
+  it('clean confirmation, no IDs', async () => {
+    const a = queries.createTask(db, { name: 'Collect PRs', prompt: 'p', triggerType: 'manual' })
+    const b = queries.createTask(db, { name: 'Draft Standup', prompt: 'p', triggerType: 'manual' })
+    queries.addTaskDependency(db, b.id, a.id)
+    const handler = toolHandlers.get('daymon_unchain_tasks')!
+    const result = await handler({ upstreamTaskId: a.id, downstreamTaskId: b.id })
+    const text = getResponseText(result)
+    assertCleanResponse(text)
+    expect(queries.getDependentTasks(db, a.id)).toHaveLength(0)
+  })
+})
+
 // ─── Memory tools ─────────────────────────────────────────────
 
 describe('daymon_remember response', () => {
@@ -261,6 +593,63 @@ describe('daymon_forget response', () => {
   })
 })
 
+describe('memory graph tools', () => {
+  it('relates memories by name or ID without duplicating links', async () => {
+    const alice = queries.createEntity(db, 'Alice', 'person')
+    const atlas = queries.createEntity(db, 'Project Atlas', 'project')
+    const relate = toolHandlers.get('daymon_relate')!
+
+    const text = getResponseText(await relate({ from: 'alice', to: atlas.id, relationType: 'works_on' }))
+    assertCleanResponse(text)
+    expect(text).toBe('Linked "Alice" works_on "Project Atlas".')
+    expect(getResponseText(await relate({ from: alice.id, to: 'Project Atlas', relationType: 'works_on' }))).toContain('Already linked')
+    expect(queries.getRelations(db, alice.id)).toHaveLength(1)
+
+    expect((await relate({ from: 'Nobody', to: atlas.id, relationType: 'knows' })).isError).toBe(true)
+    expect((await relate({ from: alice.id, to: alice.id, relationType: 'knows' })).isError).toBe(true)
+  })
+
+  it('unrelates in one direction only', async () => {
+    const alice = queries.createEntity(db, 'Alice')
+    const bob = queries.createEntity(db, 'Bob')
+    queries.addRelation(db, alice.id, bob.id, 'manages')
+    queries.addRelation(db, bob.id, alice.id, 'reports_to')
+
+    const text = getResponseText(await toolHandlers.get('daymon_unrelate')!({ from: 'Alice', to: 'Bob' }))
+    assertCleanResponse(text)
+    expect(text).toBe('Removed 1 relation from "Alice" to "Bob".')
+    expect(queries.getRelations(db, alice.id).map((r) => r.relation_type)).toEqual(['reports_to'])
+  })
+
+  it('returns the neighborhood to the requested depth', async () => {
+    const [alice, atlas, acme, berlin] = ['Alice', 'Project Atlas', 'Acme', 'Berlin'].map((name) => queries.createEntity(db, name))
+    queries.addRelation(db, alice.id, atlas.id, 'works_on')
+    queries.addRelation(db, acme.id, atlas.id, 'owns')
+    queries.addRelation(db, acme.id, berlin.id, 'based_in')
+
+    const graph = JSON.parse(getResponseText(await toolHandlers.get('daymon_graph')!({ entity: 'Alice', depth: 2 })))
+    expect(graph.entities.map((e: { name: string; depth: number }) => [e.name, e.depth])).toEqual([
+      ['Alice', 0], ['Project Atlas', 1], ['Acme', 2]
+    ])
+    expect(graph.relations.map((r: { type: string }) => r.type)).toEqual(['works_on', 'owns'])
+  })
+
+  it('recall expands hits with related entities on request', async () => {
+    const alice = queries.createEntity(db, 'Alice')
+    queries.addObservation(db, alice.id, 'Leads the API work')
+    const atlas = queries.createEntity(db, 'Project Atlas')
+    queries.addRelation(db, alice.id, atlas.id, 'works_on')
+    const recall = toolHandlers.get('daymon_recall')!
+
+    const [plain] = JSON.parse(getResponseText(await recall({ query: 'API' })))
+    expect(plain.related).toBeUndefined()
+    const [expanded] = JSON.parse(getResponseText(await recall({ query: 'API', expand: true })))
+    expect(expanded.related).toEqual([
+      { id: atlas.id, name: 'Project Atlas', type: 'fact', category: null, relation: 'works_on', direction: 'outgoing' }
+    ])
+  })
+})
+
 // ─── Worker tools ─────────────────────────────────────────────
 
 describe('daymon_create_worker response', () => {
@@ -371,6 +760,23 @@ describe('daymon_watch response', () => {
     assertCleanResponse(text)
     expect(text).toContain('test-downloads')
   })
+
+  it('stores glob, depth and event filters', async () => {
+    const handler = toolHandlers.get('daymon_watch')!
+    await handler({
+      path: join(homedir(), 'Downloads'),
+      actionPrompt: 'File new PDFs',
+      includePatterns: ['*.pdf'],
+      excludePatterns: ['node_modules'],
+      maxDepth: 1,
+      events: ['created']
+    })
+    const [watch] = queries.listWatches(db)
+    expect(watch.includePatterns).toEqual(['*.pdf'])
+    expect(watch.excludePatterns).toEqual(['node_modules'])
+    expect(watch.maxDepth).toBe(1)
+    expect(watch.eventTypes).toEqual(['created'])
+  })
 })
 
 describe('daymon_unwatch response', () => {
@@ -1,16 +1,73 @@
 import { z } from 'zod'
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type Database from 'better-sqlite3'
 import { getMcpDatabase } from '../db'
 import * as queries from '../../shared/db-queries'
-import { embed, isEngineReady, vectorToBlob, initEngine, isSqliteVecReady } from '../../shared/embeddings'
+import type { Entity } from '../../shared/types'
+import {
+  embed,
+  isEngineReady,
+  vectorToBlob,
+  initEngine,
+  isSqliteVecReady,
+  applyEmbeddingSettings,
+  getModelName
+} from '../../shared/embeddings'
 
-// Fire-and-forget engine init on first memory tool registration
-let engineInitStarted = false
-function ensureEngineInit(): void {
-  if (!engineInitStarted) {
-    engineInitStarted = true
-    initEngine().catch(() => { /* non-fatal */ })
+const MAX_GRAPH_DEPTH = 4
+const MAX_GRAPH_NODES = 100
+
+const entityRef = z
+  .union([z.number().int().positive(), z.string().min(1).max(200)])
+  .describe('Entity ID, or its exact name')
+
+function errorResult(text: string): { content: Array<{ type: 'text'; text: string }>; isError: true } {
+  return { content: [{ type: 'text' as const, text }], isError: true }
+}
+
+/** Look an entity up by ID or by exact name, or explain why it can't be. */
+function resolveEntity(db: Database.Database, ref: number | string): Entity | string {
+  if (typeof ref === 'number') {
+    return queries.getEntity(db, ref) ?? `No memory found with id ${ref}.`
+  }
+  const matches = queries.findEntitiesByName(db, ref)
+  if (matches.length === 0) return `No memory named "${ref}". Use daymon_recall to find it, or daymon_remember to create it.`
+  if (matches.length > 1) {
+    return `${matches.length} memories are named "${ref}" (ids ${matches.map((e) => e.id).join(', ')}). Pass the ID instead.`
   }
+  return matches[0]
+}
+
+/** One hop out from an entity: who it's related to and how. */
+function relatedEntities(db: Database.Database, entityId: number): Array<{
+  id: number; name: string; type: string; category: string | null; relation: string; direction: 'outgoing' | 'incoming'
+}> {
+  const graph = queries.getMemoryGraph(db, entityId, 1, MAX_GRAPH_NODES)
+  if (!graph) return []
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]))
+  return graph.relations
+    .filter((r) => (r.from_entity === entityId) !== (r.to_entity === entityId))
+    .map((r) => {
+      const outgoing = r.from_entity === entityId
+      const other = byId.get(outgoing ? r.to_entity : r.from_entity)!
+      return {
+        id: other.id,
+        name: other.name,
+        type: other.type,
+        category: other.category,
+        relation: r.relation_type,
+        direction: outgoing ? 'outgoing' as const : 'incoming' as const
+      }
+    })
+}
+
+// Fire-and-forget load of the embedding model chosen in settings. Recall calls
+// this again, which picks up a changed model and retries one that failed.
+function ensureEngineInit(): void {
+  try {
+    applyEmbeddingSettings(getMcpDatabase())
+  } catch { /* no database yet; the built-in model is the default */ }
+  initEngine().catch(() => { /* non-fatal */ })
 }
 
 export function registerMemoryTools(server: McpServer): void {
@@ -56,21 +113,28 @@ export function registerMemoryTools(server: McpServer): void {
     {
       title: 'Recall',
       description:
-        'Search memories by keyword. Returns matching entities with their observations and relations.',
+        'Search memories by keyword across names, categories and observation text. Returns matching entities with '
+        + 'their observations and relations, a snippet of the best match and the IDs of the observations that matched. '
+        + 'Set expand to also get the entities each hit is related to.',
       inputSchema: {
-        query: z.string().describe('Search term to find memories')
+        query: z.string().describe('Search term to find memories'),
+        expand: z
+          .boolean()
+          .optional()
+          .describe('Include the directly related entities of each hit, with the relation types')
       }
     },
-    async ({ query }) => {
+    async ({ query, expand }) => {
       const db = getMcpDatabase()
 
       // Semantic search via sqlite-vec (single SQL query, no JS loop)
-      let semanticResults: Array<{ entityId: number; score: number }> | null = null
+      let semanticResults: queries.SemanticMatch[] | null = null
+      ensureEngineInit()
       if (isEngineReady() && isSqliteVecReady()) {
         try {
           const queryVec = await embed(query)
           if (queryVec) {
-            semanticResults = queries.semanticSearchSql(db, vectorToBlob(queryVec))
+            semanticResults = queries.semanticSearchSql(db, vectorToBlob(queryVec), getModelName())
           }
         } catch {
           // Non-fatal: fall through to FTS-only
@@ -94,12 +158,15 @@ export function registerMemoryTools(server: McpServer): void {
           type: hr.entity.type,
           category: hr.entity.category,
           score: Math.round(hr.combinedScore * 1000) / 1000,
-          observations: observations.map((o) => o.content),
+          ...(hr.snippet ? { snippet: hr.snippet } : {}),
+          matchedObservationIds: hr.matchedObservationIds,
+          observations: observations.map((o) => ({ id: o.id, content: o.content })),
           relations: relations.map((r) => ({
             type: r.relation_type,
             fromEntity: r.from_entity,
             toEntity: r.to_entity
           })),
+          ...(expand ? { related: relatedEntities(db, hr.entity.id) } : {}),
           updatedAt: hr.entity.updated_at
         }
       })
@@ -194,4 +261,112 @@ export function registerMemoryTools(server: McpServer): void {
       }
     }
   )
+
+  server.registerTool(
+    'daymon_relate',
+    {
+      title: 'Relate',
+      description:
+        'Link two memories with a directed relation, e.g. "Alice" works_on "Project Atlas". Use a short verb phrase '
+        + 'in snake_case for the type. Both memories must exist. '
+        + 'RESPONSE STYLE: Confirm briefly in 1 sentence. No notes, tips, or implementation details.',
+      inputSchema: {
+        from: entityRef,
+        to: entityRef,
+        relationType: z.string().trim().min(1).max(100).describe('How "from" relates to "to", e.g. works_on, reports_to, part_of')
+      }
+    },
+    async ({ from, to, relationType }) => {
+      const db = getMcpDatabase()
+      const fromEntity = resolveEntity(db, from)
+      if (typeof fromEntity === 'string') return errorResult(fromEntity)
+      const toEntity = resolveEntity(db, to)
+      if (typeof toEntity === 'string') return errorResult(toEntity)
+      if (fromEntity.id === toEntity.id) return errorResult('A memory cannot be related to itself.')
+
+      const link = `"${fromEntity.name}" ${relationType} "${toEntity.name}"`
+      if (queries.findRelation(db, fromEntity.id, toEntity.id, relationType)) {
+        return { content: [{ type: 'text' as const, text: `Already linked: ${link}.` }] }
+      }
+      queries.addRelation(db, fromEntity.id, toEntity.id, relationType)
+      return { content: [{ type: 'text' as const, text: `Linked ${link}.` }] }
+    }
+  )
+
+  server.registerTool(
+    'daymon_unrelate',
+    {
+      title: 'Unrelate',
+      description:
+        'Remove the relation from one memory to another. Without relationType, removes every relation in that direction. '
+        + 'RESPONSE STYLE: Confirm briefly in 1 sentence. No notes, tips, or implementation details.',
+      inputSchema: {
+        from: entityRef,
+        to: entityRef,
+        relationType: z.string().trim().min(1).max(100).optional().describe('Only remove relations of this type')
+      }
+    },
+    async ({ from, to, relationType }) => {
+      const db = getMcpDatabase()
+      const fromEntity = resolveEntity(db, from)
+      if (typeof fromEntity === 'string') return errorResult(fromEntity)
+      const toEntity = resolveEntity(db, to)
+      if (typeof toEntity === 'string') return errorResult(toEntity)
+
+      const removed = queries.deleteRelationsBetween(db, fromEntity.id, toEntity.id, relationType)
+      const what = relationType ? `${relationType} relation` : 'relation'
+      return {
+        content: [{
+          type: 'text' as const,
+          text: removed === 0
+            ? `No ${what} from "${fromEntity.name}" to "${toEntity.name}".`
+            : `Removed ${removed} ${what}${removed === 1 ? '' : 's'} from "${fromEntity.name}" to "${toEntity.name}".`
+        }]
+      }
+    }
+  )
+
+  server.registerTool(
+    'daymon_graph',
+    {
+      title: 'Memory Graph',
+      description:
+        'Walk the knowledge graph around a memory. Returns the entities within depth hops (following relations either '
+        + `way) and the typed relations between them. At most ${MAX_GRAPH_NODES} entities are returned.`,
+      inputSchema: {
+        entity: entityRef,
+        depth: z.number().int().min(1).max(MAX_GRAPH_DEPTH).default(1).describe(`How many hops to follow (1-${MAX_GRAPH_DEPTH})`)
+      }
+    },
+    async ({ entity, depth }) => {
+      const db = getMcpDatabase()
+      const root = resolveEntity(db, entity)
+      if (typeof root === 'string') return errorResult(root)
+
+      const graph = queries.getMemoryGraph(db, root.id, depth, MAX_GRAPH_NODES)!
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            root: { id: root.id, name: root.name },
+            depth,
+            entities: graph.nodes.map((node) => ({
+              id: node.id,
+              name: node.name,
+              type: node.type,
+              category: node.category,
+              depth: node.depth
+            })),
+            relations: graph.relations.map((r) => ({
+              id: r.id,
+              from: r.from_entity,
+              to: r.to_entity,
+              type: r.relation_type
+            })),
+            ...(graph.truncated ? { truncated: true } : {})
+          }, null, 2)
+        }]
+      }
+    }
+  )
 }
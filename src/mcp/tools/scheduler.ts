@@ -8,8 +8,17 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { getMcpDatabase } from '../db'
 import * as queries from '../../shared/db-queries'
 import { APP_NAME, TASK_STATUSES } from '../../shared/constants'
-import { executeTask, isTaskRunning } from '../../shared/task-runner'
+import { cancelTask, executeTask, isTaskRunning } from '../../shared/task-runner'
 import { isInQuietHours, enqueueNudge, shouldNudgeTask } from '../../shared/auto-nudge'
+import { validateWorkingDirectory } from '../../shared/watch-path'
+import { describeBudget, enforceBudgets, formatBudgetValue } from '../../shared/budgets'
+import { DEFAULT_MISFIRE_LIMIT, MAX_MISFIRE_LIMIT } from '../../shared/misfire'
+import { DEFAULT_RETRY_DELAY_SECONDS, MAX_ATTEMPTS, MAX_RETRY_DELAY_SECONDS, describeRetryPolicy } from '../../shared/retry'
+import { formatWallClock, isValidTimezone } from '../../shared/cron'
+import { describeSchedule, getNextRuns, previewSchedule, type SchedulePreview } from '../../shared/schedule'
+import { parseJsonPath } from '../../shared/inbound-webhook'
+import { readSidecarToken, sidecarAuthHeaders } from '../../shared/sidecar-auth'
+import type { Task, UsageTotals } from '../../shared/types'
 
 export function generateTaskName(prompt: string): string {
   const cleaned = prompt.replace(/^(please |can you |i want you to |i need you to )/i, '').trim()
@@ -18,14 +27,107 @@ export function generateTaskName(prompt: string): string {
   return firstSentence.substring(0, 37) + '...'
 }
 
+// node-cron accepts a few forms the preview parser does not; those just go without a preview
+function tryPreviewSchedule(cronExpression: string, timezone?: string | null, count?: number): SchedulePreview | null {
+  try {
+    return previewSchedule(cronExpression, { timezone, count })
+  } catch {
+    return null
+  }
+}
+
+function describeTaskSchedule(task: Task): { scheduleDescription?: string; nextRun?: string | null } {
+  if (task.triggerType !== 'cron' || !task.cronExpression) return {}
+  try {
+    const [next] = task.status === 'active' ? getNextRuns(task.cronExpression, { timezone: task.timezone, count: 1 }) : []
+    return {
+      scheduleDescription: describeSchedule(task.cronExpression),
+      nextRun: next ? formatWallClock(next, task.timezone) : null
+    }
+  } catch {
+    return {}
+  }
+}
+
+function sidecarDataDir(): string | null {
+  const dbPath = process.env.DAYMON_DB_PATH
+  if (!dbPath) return null
+  return process.env.DAYMON_DATA_DIR || dirname(dbPath)
+}
+
+// The sidecar picks a free port at startup and records it in the data directory
+function readSidecarPort(): number | null {
+  try {
+    const dataDir = sidecarDataDir()
+    if (!dataDir) return null
+    const port = parseInt(readFileSync(join(dataDir, 'sidecar.port'), 'utf-8').trim(), 10)
+    return port > 0 ? port : null
+  } catch {
+    return null
+  }
+}
+
+function webhookUrl(task: Task): string | undefined {
+  if (task.triggerType !== 'webhook' || !task.webhookToken) return undefined
+  const port = readSidecarPort()
+  return `http://127.0.0.1:${port ?? '<port>'}/hooks/${task.webhookToken}`
+}
+
+// A watch's action runs as a hidden task; changing it here would quietly change or break the watch
+function watchTaskError(task: Task): { content: Array<{ type: 'text'; text: string }>; isError: true } | null {
+  if (task.triggerType !== 'watch') return null
+  return {
+    content: [{
+      type: 'text' as const,
+      text: `"${task.name}" is the action of a file watch. Pause, resume or remove the watch instead.`
+    }],
+    isError: true
+  }
+}
+
+/**
+ * POST to the sidecar's local HTTP API. Resolves null when the sidecar is not
+ * running or does not answer; never rejects.
+ */
+function postToSidecar(path: string, body?: unknown): Promise<{ status: number; data: Record<string, unknown> } | null> {
+  return new Promise((resolve) => {
+    try {
+      const port = readSidecarPort()
+      if (!port) return resolve(null)
+
+      const dataDir = sidecarDataDir()
+      const req = httpRequest({
+        hostname: '127.0.0.1', port, path, method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...sidecarAuthHeaders(dataDir ? readSidecarToken(dataDir) : null) }
+      }, (res) => {
+        let raw = ''
+        res.on('data', (chunk: Buffer) => { raw += chunk.toString() })
+        res.on('end', () => {
+          try {
+            resolve({ status: res.statusCode ?? 0, data: JSON.parse(raw) })
+          } catch {
+            resolve({ status: res.statusCode ?? 0, data: {} })
+          }
+        })
+      })
+      req.on('error', () => resolve(null)) // non-fatal
+      req.setTimeout(5000, () => { req.destroy(); resolve(null) })
+      if (body !== undefined) req.write(JSON.stringify(body))
+      req.end()
+    } catch {
+      resolve(null) // sidecar may not be running
+    }
+  })
+}
+
 export function registerSchedulerTools(server: McpServer): void {
   server.registerTool(
     'daymon_schedule',
     {
       title: 'Schedule Task',
       description:
-        'Create a task — recurring (cron), one-time (specific datetime), or on-demand (manual trigger). '
-        + 'Provide cronExpression for recurring, scheduledAt for one-time, or neither for on-demand. '
+        'Create a task — recurring (cron), one-time (specific datetime), on-demand (manual trigger), or started by an HTTP webhook. '
+        + 'Provide cronExpression for recurring, scheduledAt for one-time, webhook for webhook-triggered, or none of them for on-demand. '
         + 'RESPONSE STYLE: After calling this tool, confirm to the user in 1 short sentence. '
         + 'Do NOT add notes, tips, caveats, or advice. Do NOT mention task IDs, cron syntax, session continuity, workers, timeouts, Electron, or internal tool names.',
       inputSchema: {
@@ -87,14 +189,84 @@ export function registerSchedulerTools(server: McpServer): void {
           + 'Use \'failure_only\' for monitoring/health check tasks that should only alert on errors. '
           + 'Use \'never\' for frequent cron tasks that don\'t need attention. '
           + 'Default: \'always\' (nudge on every completion).'
+        ),
+        workingDirectory: z.string().max(1000).optional().describe(
+          'Absolute path of the directory the task runs in, e.g. a project checkout. '
+          + 'The project\'s CLAUDE.md and settings apply to the run. '
+          + 'Use when the prompt operates on a specific repository ("run the test suite and triage failures"). '
+          + 'Omit to run from the home directory.'
+        ),
+        timezone: z.string().max(100).optional().describe(
+          'Recurring tasks only: IANA time zone the cron expression is evaluated in, e.g. "America/New_York" for "9am New York time". '
+          + 'Omit to use this computer\'s time zone.'
+        ),
+        misfirePolicy: z.enum(['skip', 'run_once', 'run_all']).optional().describe(
+          'Recurring tasks only: what to do with runs missed while the computer was asleep or Daymon was closed. '
+          + '\'run_once\' runs the task once when the computer wakes (good for daily reports and digests). '
+          + '\'run_all\' runs every missed occurrence, up to misfireLimit. '
+          + 'Default: \'skip\' (wait for the next scheduled time).'
+        ),
+        misfireLimit: z.number().int().positive().max(MAX_MISFIRE_LIMIT).optional().describe(
+          `Most missed runs to catch up with 'run_all'. Default: ${DEFAULT_MISFIRE_LIMIT}.`
+        ),
+        maxAttempts: z.number().int().min(1).max(MAX_ATTEMPTS).optional().describe(
+          'Times to try a run before recording it as failed, including the first try. '
+          + 'Use 2-3 for tasks that hit flaky networks or APIs. Default: 1 (no retries).'
+        ),
+        retryBackoff: z.enum(['fixed', 'exponential']).optional().describe(
+          'How the wait between attempts grows: \'fixed\' waits retryDelaySeconds every time, '
+          + '\'exponential\' doubles it after each attempt. Default: \'exponential\'.'
+        ),
+        retryDelaySeconds: z.number().int().min(1).max(MAX_RETRY_DELAY_SECONDS).optional().describe(
+          `Wait before the first retry, in seconds. Default: ${DEFAULT_RETRY_DELAY_SECONDS}.`
+        ),
+        retryOn: z.array(z.enum(['exit_code', 'timeout', 'empty_output'])).optional().describe(
+          'Which failures to retry: \'exit_code\' (the CLI exited with an error), \'timeout\', '
+          + 'and \'empty_output\' (the run finished but produced no result, which then counts as a failure). '
+          + 'Default: exit_code and timeout.'
+        ),
+        successCriteria: z.object({
+          mustContain: z.array(z.string().min(1).max(500)).max(20).optional().describe('Phrases that must all appear in the output'),
+          mustNotContain: z.array(z.string().min(1).max(500)).max(20).optional().describe(
+            'Phrases that mean the task did not really succeed, e.g. "I couldn\'t access", "unable to"'
+          ),
+          mustMatch: z.string().min(1).max(500).optional().describe('Regular expression the output must match (case-insensitive)'),
+          minLength: z.number().int().positive().optional().describe('Minimum output length in characters'),
+          json: z.boolean().optional().describe('The output must be valid JSON'),
+          jsonSchema: z.record(z.unknown()).optional().describe('JSON Schema the output must match'),
+          rubric: z.string().min(1).max(2000).optional().describe(
+            'Plain-language pass/fail rubric checked by a short extra Claude call, e.g. "Lists at least 3 articles with links"'
+          )
+        }).optional().describe(
+          'Checks the output must pass for a run to count as successful. A run that exits cleanly but fails a check is recorded '
+          + 'as failed with the reason, so failure alerts and \'failure_only\' nudges still fire.'
+        ),
+        outputSchema: z.record(z.unknown()).optional().describe(
+          'JSON Schema for tasks that should produce machine-readable data, e.g. a list of new CVEs or a price table. '
+          + 'The task is told to reply with JSON only; runs whose reply does not parse or match the schema fail. '
+          + 'The parsed JSON is stored with the run, written to a .json file next to the result, and passed to chained tasks.'
+        ),
+        webhook: z.boolean().optional().describe(
+          'Start the task whenever something POSTs to its private local URL, e.g. a CI job, a git hook or a home-automation script. '
+          + 'The request body (JSON or text) is added to the prompt. The response includes the URL to give the user.'
+        ),
+        webhookPayloadPath: z.string().max(500).optional().describe(
+          'Webhook tasks only: JSONPath picking the part of a JSON payload the task sees, '
+          + 'e.g. "$.head_commit.message" or "$.alerts[*].labels". Omit to pass the whole body.'
+        ),
+        changeDetection: z.enum(['off', 'text', 'json']).optional().describe(
+          'For recurring "watch" tasks (changelogs, issue trackers, prices): compare each result with the previous successful one '
+          + 'and skip notifications and nudges when nothing changed. \'text\' ignores whitespace, dates and times; '
+          + '\'json\' compares structured output field by field. Default: \'off\' (notify on every run).'
         )
       }
     },
-    async ({ name, prompt, cronExpression, scheduledAt, description, maxRuns, workerId, sessionContinuity, timeout, maxTurns, allowedTools, disallowedTools, nudge }) => {
+    async ({ name, prompt, cronExpression, scheduledAt, description, maxRuns, workerId, sessionContinuity, timeout, maxTurns, allowedTools, disallowedTools, nudge, workingDirectory, timezone, misfirePolicy, misfireLimit, maxAttempts, retryBackoff, retryDelaySeconds, retryOn, successCriteria, outputSchema, changeDetection, webhook, webhookPayloadPath }) => {
       const db = getMcpDatabase()
 
       // Auto-determine trigger type
-      let triggerType: 'cron' | 'once' | 'manual' = 'manual'
+      let triggerType: 'cron' | 'once' | 'manual' | 'webhook' = 'manual'
+      if (webhook) triggerType = 'webhook'
       if (cronExpression) triggerType = 'cron'
       if (scheduledAt) triggerType = 'once'
 
@@ -132,6 +304,48 @@ export function registerSchedulerTools(server: McpServer): void {
         }
       }
 
+      if (triggerType === 'cron' && timezone && !isValidTimezone(timezone)) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Unknown time zone "${timezone}". Use an IANA name such as "America/New_York" or "Europe/London".`
+          }],
+          isError: true
+        }
+      }
+
+      const preview = triggerType === 'cron' ? tryPreviewSchedule(cronExpression!, timezone) : null
+      if (preview && preview.nextRuns.length === 0) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `The cron expression "${cronExpression}" never fires: no date matches its day and month fields.`
+          }],
+          isError: true
+        }
+      }
+
+      if (successCriteria?.mustMatch) {
+        try {
+          new RegExp(successCriteria.mustMatch)
+        } catch {
+          return {
+            content: [{ type: 'text' as const, text: `Invalid success pattern: /${successCriteria.mustMatch}/ is not a valid regular expression.` }],
+            isError: true
+          }
+        }
+      }
+
+      if (triggerType === 'webhook' && webhookPayloadPath && !parseJsonPath(webhookPayloadPath)) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Unsupported payload path "${webhookPayloadPath}". Use a JSONPath such as "$.head_commit.message" or "$.items[*].title".`
+          }],
+          isError: true
+        }
+      }
+
       if (workerId) {
         const worker = queries.getWorker(db, workerId)
         if (!worker) {
@@ -145,7 +359,17 @@ export function registerSchedulerTools(server: McpServer): void {
         }
       }
 
-      queries.createTask(db, {
+      if (workingDirectory) {
+        const dirError = validateWorkingDirectory(workingDirectory)
+        if (dirError) {
+          return {
+            content: [{ type: 'text' as const, text: dirError }],
+            isError: true
+          }
+        }
+      }
+
+      const task = queries.createTask(db, {
         name: taskName,
         prompt,
         cronExpression: cronExpression ?? undefined,
@@ -161,14 +385,29 @@ export function registerSchedulerTools(server: McpServer): void {
         maxTurns: maxTurns ?? undefined,
         allowedTools: allowedTools ?? undefined,
         disallowedTools: disallowedTools ?? undefined,
-        nudgeMode: nudge ?? undefined
+        nudgeMode: nudge ?? undefined,
+        workingDirectory: workingDirectory ?? undefined,
+        timezone: triggerType === 'cron' ? timezone : undefined,
+        misfirePolicy: triggerType === 'cron' ? misfirePolicy : undefined,
+        misfireLimit: triggerType === 'cron' ? misfireLimit : undefined,
+        maxAttempts,
+        retryBackoff,
+        retryDelaySeconds,
+        retryOn,
+        successCriteria,
+        outputSchema,
+        changeDetection,
+        webhookPayloadPath: triggerType === 'webhook' ? webhookPayloadPath : undefined
       })
 
       if (triggerType === 'cron') {
+        const lines = preview
+          ? [`Scheduled recurring task "${taskName}" to run ${preview.description}. Next run: ${formatWallClock(preview.nextRuns[0], timezone)}.`, ...preview.warnings.map((w) => `Note: ${w}`)]
+          : [`Scheduled recurring task "${taskName}".`]
         return {
           content: [{
             type: 'text' as const,
-            text: `Scheduled recurring task "${taskName}".`
+            text: lines.join('\n')
           }]
         }
       } else if (triggerType === 'once') {
@@ -178,6 +417,13 @@ export function registerSchedulerTools(server: McpServer): void {
             text: `Scheduled one-time task "${taskName}" for ${scheduledAt}.`
           }]
         }
+      } else if (triggerType === 'webhook') {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Created webhook task "${taskName}". Start it with a POST to ${webhookUrl(task)}`
+          }]
+        }
       } else {
         return {
           content: [{
@@ -200,7 +446,8 @@ export function registerSchedulerTools(server: McpServer): void {
     },
     async ({ status }) => {
       const db = getMcpDatabase()
-      const tasks = queries.listTasks(db, status)
+      // Watch actions are managed through their watches, as in the Tasks panel
+      const tasks = queries.listTasks(db, status).filter((t) => t.triggerType !== 'watch')
 
       if (tasks.length === 0) {
         return {
@@ -216,6 +463,8 @@ export function registerSchedulerTools(server: McpServer): void {
           status: t.status,
           triggerType: t.triggerType,
           schedule: t.cronExpression,
+          ...describeTaskSchedule(t),
+          timezone: t.timezone,
           scheduledAt: t.scheduledAt,
           lastRun: t.lastRun,
           errorCount: t.errorCount,
@@ -227,6 +476,14 @@ export function registerSchedulerTools(server: McpServer): void {
           workerRole: worker?.role ?? null,
           sessionContinuity: t.sessionContinuity,
           nudgeMode: t.nudgeMode,
+          workingDirectory: t.workingDirectory,
+          misfirePolicy: t.triggerType === 'cron' ? t.misfirePolicy : undefined,
+          retryPolicy: t.maxAttempts > 1 ? describeRetryPolicy(t) : undefined,
+          successCriteria: t.successCriteria ?? undefined,
+          outputSchema: t.outputSchema ?? undefined,
+          changeDetection: t.changeDetection !== 'off' ? t.changeDetection : undefined,
+          webhookUrl: webhookUrl(t),
+          webhookPayloadPath: t.webhookPayloadPath ?? undefined,
           learnedContext: t.learnedContext ? t.learnedContext.slice(0, 200) + (t.learnedContext.length > 200 ? '...' : '') : null
         }
       })
@@ -242,6 +499,59 @@ export function registerSchedulerTools(server: McpServer): void {
     }
   )
 
+  server.registerTool(
+    'daymon_preview_schedule',
+    {
+      title: 'Preview Schedule',
+      description: 'Explain a cron expression in plain English and list its next run times, with warnings for schedules that never fire or run very often. Use before scheduling to confirm the timing.',
+      inputSchema: {
+        cronExpression: z.string().describe('Cron expression to preview (e.g. "0 9 * * 1-5")'),
+        timezone: z.string().max(100).optional().describe('IANA time zone to evaluate the schedule in (omit for the local time zone)'),
+        count: z.number().int().min(1).max(20).optional().describe('How many upcoming runs to list (default 5)')
+      }
+    },
+    async ({ cronExpression, timezone, count }) => {
+      if (timezone && !isValidTimezone(timezone)) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Unknown time zone "${timezone}". Use an IANA name such as "America/New_York" or "Europe/London".`
+          }],
+          isError: true
+        }
+      }
+      if (!cron.validate(cronExpression)) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Invalid cron expression: "${cronExpression}". Use standard cron format (e.g. "0 9 * * *" for daily at 9am).`
+          }],
+          isError: true
+        }
+      }
+
+      const preview = tryPreviewSchedule(cronExpression, timezone, count ?? 5)
+      if (!preview) {
+        return {
+          content: [{ type: 'text' as const, text: `Cannot preview "${cronExpression}": it uses a cron form the preview does not support.` }],
+          isError: true
+        }
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            description: preview.description,
+            timezone: timezone ?? 'local',
+            nextRuns: preview.nextRuns.map((at) => formatWallClock(at, timezone)),
+            runsPerDay: preview.runsPerDay,
+            warnings: preview.warnings
+          }, null, 2)
+        }]
+      }
+    }
+  )
+
   server.registerTool(
     'daymon_run_task',
     {
@@ -259,6 +569,8 @@ export function registerSchedulerTools(server: McpServer): void {
           content: [{ type: 'text' as const, text: `No task found with id ${id}.` }]
         }
       }
+      const watchError = watchTaskError(task)
+      if (watchError) return watchError
 
       if (isTaskRunning(id)) {
         return {
@@ -266,6 +578,13 @@ export function registerSchedulerTools(server: McpServer): void {
         }
       }
 
+      const budgetReason = enforceBudgets(db, task)
+      if (budgetReason) {
+        return {
+          content: [{ type: 'text' as const, text: `Task "${task.name}" was not run. ${budgetReason}.` }]
+        }
+      }
+
       // For ad-hoc runs, temporarily allow execution without changing persistent status
       const originalStatus = task.status
       if (task.status !== TASK_STATUSES.ACTIVE) {
@@ -284,13 +603,14 @@ export function registerSchedulerTools(server: McpServer): void {
               queries.updateTask(db, id, { status: originalStatus })
             }
           }
+          if (result.cancelled) return
           if (!result.success) {
             console.error(`Task ${id} ("${task.name}") failed: ${result.errorMessage}`)
           }
 
           // Auto-nudge Claude Code chat based on per-task nudge mode
           try {
-            if (shouldNudgeTask(task.nudgeMode, result.success) && !isInQuietHours(db)) {
+            if (!result.unchanged && shouldNudgeTask(task.nudgeMode, result.success) && !isInQuietHours(db)) {
               setTimeout(() => enqueueNudge({
                 taskId: id,
                 taskName: task.name,
@@ -302,33 +622,17 @@ export function registerSchedulerTools(server: McpServer): void {
           } catch { /* non-fatal */ }
 
           // Relay to sidecar for Electron push notifications (best-effort)
-          try {
-            const dbPath = process.env.DAYMON_DB_PATH
-            if (dbPath) {
-              const dataDir = process.env.DAYMON_DATA_DIR || dirname(dbPath)
-              const port = parseInt(readFileSync(join(dataDir, 'sidecar.port'), 'utf-8').trim(), 10)
-              if (port > 0) {
-                const event = result.success ? 'task:complete' : 'task:failed'
-                const payload = JSON.stringify({
-                  event,
-                  taskId: id,
-                  taskName: task.name,
-                  success: result.success,
-                  nudgeMode: task.nudgeMode,
-                  ...(result.success
-                    ? { outputPreview: result.output?.slice(0, 200), durationMs: result.durationMs }
-                    : { errorMessage: result.errorMessage })
-                })
-                const req = httpRequest({
-                  hostname: '127.0.0.1', port, path: '/notify', method: 'POST',
-                  headers: { 'Content-Type': 'application/json' }
-                })
-                req.on('error', () => {}) // non-fatal
-                req.write(payload)
-                req.end()
-              }
-            }
-          } catch { /* non-fatal — sidecar may not be running */ }
+          void postToSidecar('/notify', {
+            event: result.success ? 'task:complete' : 'task:failed',
+            taskId: id,
+            taskName: task.name,
+            runId: result.runId,
+            success: result.success,
+            nudgeMode: task.nudgeMode,
+            ...(result.success
+              ? { outputPreview: result.output?.slice(0, 200), durationMs: result.durationMs, unchanged: result.unchanged }
+              : { errorMessage: result.errorMessage })
+          })
         })
         .catch((err) => {
           console.error(`Task ${id} ("${task.name}") execution error:`, err)
@@ -351,6 +655,51 @@ export function registerSchedulerTools(server: McpServer): void {
     }
   )
 
+  server.registerTool(
+    'daymon_cancel_task',
+    {
+      title: 'Cancel Running Task',
+      description: 'Stop a task that is running right now. The run is recorded as cancelled; the task keeps its schedule.',
+      inputSchema: {
+        id: z.number().describe('Task ID to cancel')
+      }
+    },
+    async ({ id }) => {
+      const db = getMcpDatabase()
+      const task = queries.getTask(db, id)
+      if (!task) {
+        return {
+          content: [{ type: 'text' as const, text: `No task found with id ${id}.` }],
+          isError: true
+        }
+      }
+
+      // Runs started from this server are stopped here; scheduled runs live in the sidecar
+      if (cancelTask(id)) {
+        return {
+          content: [{ type: 'text' as const, text: `Stopped task "${task.name}".` }]
+        }
+      }
+
+      const response = await postToSidecar(`/tasks/${id}/cancel`)
+      if (response?.data.ok) {
+        return {
+          content: [{ type: 'text' as const, text: `Stopped task "${task.name}".` }]
+        }
+      }
+      const running = queries.getLatestTaskRun(db, id)?.status === 'running'
+      return {
+        content: [{
+          type: 'text' as const,
+          text: running
+            ? `Task "${task.name}" is running but could not be stopped. Make sure the Daymon app is open and try again.`
+            : `Task "${task.name}" is not running.`
+        }],
+        isError: running
+      }
+    }
+  )
+
   server.registerTool(
     'daymon_pause_task',
     {
@@ -369,6 +718,8 @@ export function registerSchedulerTools(server: McpServer): void {
           content: [{ type: 'text' as const, text: `No task found with id ${id}.` }]
         }
       }
+      const watchError = watchTaskError(task)
+      if (watchError) return watchError
       queries.pauseTask(db, id)
       return {
         content: [
@@ -399,6 +750,8 @@ export function registerSchedulerTools(server: McpServer): void {
           content: [{ type: 'text' as const, text: `No task found with id ${id}.` }]
         }
       }
+      const watchError = watchTaskError(task)
+      if (watchError) return watchError
       queries.resumeTask(db, id)
       return {
         content: [
@@ -429,6 +782,8 @@ export function registerSchedulerTools(server: McpServer): void {
           content: [{ type: 'text' as const, text: `No task found with id ${id}.` }]
         }
       }
+      const watchError = watchTaskError(task)
+      if (watchError) return watchError
       queries.deleteTask(db, id)
       return {
         content: [
@@ -471,11 +826,24 @@ export function registerSchedulerTools(server: McpServer): void {
       const history = runs.map((r) => ({
         id: r.id,
         status: r.status,
+        attempt: r.maxAttempts > 1 ? `${r.attempt}/${r.maxAttempts}` : undefined,
+        attempts: r.maxAttempts > 1
+          ? queries.getTaskRunAttempts(db, r.id).map((a) => ({
+            attempt: a.attempt, status: a.status, error: a.errorMessage, durationMs: a.durationMs
+          }))
+          : undefined,
         startedAt: r.startedAt,
         finishedAt: r.finishedAt,
         durationMs: r.durationMs,
         error: r.errorMessage,
-        resultFile: r.resultFile
+        resultFile: r.resultFile,
+        resultJson: r.resultJson ? JSON.parse(r.resultJson) : undefined,
+        changed: r.changed ?? undefined,
+        changes: r.diff ?? undefined,
+        inputTokens: r.inputTokens,
+        outputTokens: r.outputTokens,
+        cacheReadTokens: r.cacheReadTokens,
+        costUsd: r.costUsd
       }))
 
       return {
@@ -493,6 +861,145 @@ export function registerSchedulerTools(server: McpServer): void {
     }
   )
 
+  server.registerTool(
+    'daymon_usage_report',
+    {
+      title: 'Usage Report',
+      description: 'Show token usage and cost of task runs over recent days, broken down by task, worker and day. '
+        + 'Use this to find which tasks consume the most quota.',
+      inputSchema: {
+        days: z.number().int().min(1).max(90).default(7).describe('Number of days to include, counting today')
+      }
+    },
+    async ({ days }) => {
+      const db = getMcpDatabase()
+      const report = queries.getUsageReport(db, days)
+
+      if (report.totals.runs === 0) {
+        return {
+          content: [{ type: 'text' as const, text: `No task runs in the last ${days} day(s).` }]
+        }
+      }
+
+      const roundCost = (value: number): number => Math.round(value * 10000) / 10000
+      const summarize = ({ runs, inputTokens, outputTokens, cacheReadTokens, costUsd }: UsageTotals) => ({
+        runs,
+        inputTokens,
+        outputTokens,
+        cacheReadTokens,
+        costUsd: roundCost(costUsd)
+      })
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              days: report.days,
+              totals: summarize(report.totals),
+              byTask: report.byTask.map((t) => ({ task: t.taskName, ...summarize(t) })),
+              byWorker: report.byWorker.map((w) => ({ worker: w.workerName ?? '(none)', ...summarize(w) })),
+              byDay: report.byDay.map((d) => ({ day: d.day, ...summarize(d) }))
+            }, null, 2)
+          }
+        ]
+      }
+    }
+  )
+
+  server.registerTool(
+    'daymon_set_budget',
+    {
+      title: 'Set Usage Budget',
+      description: 'Cap token usage, cost or number of runs per day or week — across all tasks, for one worker, or for one task. '
+        + 'Once a budget is used up, runs are skipped (or the task is paused) until the next period, including ones started by hand. '
+        + 'Setting a budget with the same scope, period and metric replaces the old one. '
+        + 'RESPONSE STYLE: Confirm briefly in 1 sentence. No implementation details.',
+      inputSchema: {
+        scope: z.enum(['global', 'worker', 'task']).default('global').describe('What the budget applies to'),
+        taskId: z.number().int().positive().optional().describe('The task ID (required when scope is "task")'),
+        workerId: z.number().int().positive().optional().describe('The worker ID (required when scope is "worker")'),
+        period: z.enum(['day', 'week']).default('day').describe('Budget period. Weeks start on Monday.'),
+        metric: z.enum(['tokens', 'cost', 'runs']).describe('"tokens" counts input + output tokens, "cost" is USD, "runs" counts task runs'),
+        limit: z.number().positive().describe('Maximum allowed per period'),
+        action: z.enum(['skip', 'pause']).default('skip').describe('"skip" skips runs until the next period; "pause" also pauses the task')
+      }
+    },
+    async ({ scope, taskId, workerId, period, metric, limit, action }) => {
+      const db = getMcpDatabase()
+      let scopeId: number | null = null
+      if (scope === 'task') {
+        if (taskId == null || !queries.getTask(db, taskId)) {
+          return { content: [{ type: 'text' as const, text: 'A task budget needs an existing task.' }], isError: true }
+        }
+        scopeId = taskId
+      } else if (scope === 'worker') {
+        if (workerId == null || !queries.getWorker(db, workerId)) {
+          return { content: [{ type: 'text' as const, text: 'A worker budget needs an existing worker.' }], isError: true }
+        }
+        scopeId = workerId
+      }
+
+      const budget = queries.setUsageBudget(db, { scope, scopeId, period, metric, limit, action })
+      const outcome = action === 'pause' ? 'the task will be paused' : 'runs will be skipped until the next period'
+      return {
+        content: [{ type: 'text' as const, text: `Set a ${describeBudget(db, budget)}. Once it is reached, ${outcome}.` }]
+      }
+    }
+  )
+
+  server.registerTool(
+    'daymon_list_budgets',
+    {
+      title: 'List Usage Budgets',
+      description: 'Show all usage budgets with how much of each has been used in the current period.',
+      inputSchema: {}
+    },
+    async () => {
+      const db = getMcpDatabase()
+      const statuses = queries.getBudgetStatuses(db)
+      if (statuses.length === 0) {
+        return { content: [{ type: 'text' as const, text: 'No usage budgets set.' }] }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(statuses.map(({ budget, used, exceeded }) => ({
+              id: budget.id,
+              budget: describeBudget(db, budget),
+              used: formatBudgetValue(budget.metric, used),
+              exceeded,
+              action: budget.action
+            })), null, 2)
+          }
+        ]
+      }
+    }
+  )
+
+  server.registerTool(
+    'daymon_remove_budget',
+    {
+      title: 'Remove Usage Budget',
+      description: 'Remove a usage budget. RESPONSE STYLE: Confirm briefly in 1 sentence.',
+      inputSchema: {
+        id: z.number().int().positive().describe('The budget ID to remove')
+      }
+    },
+    async ({ id }) => {
+      const db = getMcpDatabase()
+      const budget = queries.getUsageBudget(db, id)
+      if (!budget) {
+        return { content: [{ type: 'text' as const, text: `No budget found with id ${id}.` }] }
+      }
+      const description = describeBudget(db, budget)
+      queries.deleteUsageBudget(db, id)
+      return { content: [{ type: 'text' as const, text: `Removed the ${description}.` }] }
+    }
+  )
+
   server.registerTool(
     'daymon_task_progress',
     {
@@ -546,6 +1053,7 @@ export function registerSchedulerTools(server: McpServer): void {
             task: task.name,
             runId: latestRun.id,
             status: 'running',
+            attempt: latestRun.maxAttempts > 1 ? `${latestRun.attempt}/${latestRun.maxAttempts}` : undefined,
             progress: latestRun.progress,
             progressMessage: latestRun.progressMessage,
             elapsedMs,
@@ -582,4 +1090,137 @@ export function registerSchedulerTools(server: McpServer): void {
       }
     }
   )
+
+  server.registerTool(
+    'daymon_chain_tasks',
+    {
+      title: 'Chain Tasks',
+      description: 'Build a pipeline: run one task automatically after another finishes. '
+        + 'The downstream task receives the upstream task\'s result as input at the top of its prompt. '
+        + 'Chain several calls to build multi-step workflows (e.g. collect → summarize → draft). '
+        + 'Downstream tasks are usually on-demand tasks so they only run as part of the pipeline. '
+        + 'RESPONSE STYLE: Confirm briefly in 1 sentence. No notes, tips, or implementation details.',
+      inputSchema: {
+        upstreamTaskId: z.number().int().positive().describe('The task that runs first'),
+        downstreamTaskId: z.number().int().positive().describe('The task to run after the upstream task finishes'),
+        on: z.enum(['success', 'failure', 'always']).default('success').describe(
+          'When to trigger the downstream task: after a successful run (default), after a failed run, or always.'
+        )
+      }
+    },
+    async ({ upstreamTaskId, downstreamTaskId, on }) => {
+      const db = getMcpDatabase()
+      const upstream = queries.getTask(db, upstreamTaskId)
+      if (!upstream) {
+        return { content: [{ type: 'text' as const, text: `No task found with id ${upstreamTaskId}.` }] }
+      }
+      const downstream = queries.getTask(db, downstreamTaskId)
+      if (!downstream) {
+        return { content: [{ type: 'text' as const, text: `No task found with id ${downstreamTaskId}.` }] }
+      }
+      const watchError = watchTaskError(downstream)
+      if (watchError) return watchError
+      if (queries.wouldCreateDependencyCycle(db, downstreamTaskId, upstreamTaskId)) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: `Cannot chain "${downstream.name}" after "${upstream.name}": it would create a loop.`
+          }],
+          isError: true
+        }
+      }
+
+      queries.addTaskDependency(db, downstreamTaskId, upstreamTaskId, on)
+      const when = on === 'success' ? 'succeeds' : on === 'failure' ? 'fails' : 'finishes'
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `"${downstream.name}" will run whenever "${upstream.name}" ${when}.`
+        }]
+      }
+    }
+  )
+
+  server.registerTool(
+    'daymon_unchain_tasks',
+    {
+      title: 'Unchain Tasks',
+      description: 'Remove a pipeline link so a task no longer runs after another. '
+        + 'RESPONSE STYLE: Confirm briefly in 1 sentence. No notes, tips, or implementation details.',
+      inputSchema: {
+        upstreamTaskId: z.number().int().positive().describe('The task that currently runs first'),
+        downstreamTaskId: z.number().int().positive().describe('The task that currently runs after it')
+      }
+    },
+    async ({ upstreamTaskId, downstreamTaskId }) => {
+      const db = getMcpDatabase()
+      const upstream = queries.getTask(db, upstreamTaskId)
+      const downstream = queries.getTask(db, downstreamTaskId)
+      if (!upstream || !downstream) {
+        return { content: [{ type: 'text' as const, text: 'No such task link found.' }] }
+      }
+      const removed = queries.removeTaskDependency(db, downstreamTaskId, upstreamTaskId)
+      if (!removed) {
+        return {
+          content: [{ type: 'text' as const, text: `"${downstream.name}" is not chained after "${upstream.name}".` }]
+        }
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `"${downstream.name}" will no longer run after "${upstream.name}".`
+        }]
+      }
+    }
+  )
+
+  server.registerTool(
+    'daymon_task_chain',
+    {
+      title: 'Task Pipeline',
+      description: 'Show the pipeline around a task: which tasks trigger it, and the tree of tasks it triggers.',
+      inputSchema: {
+        taskId: z.number().int().positive().describe('The task ID to inspect')
+      }
+    },
+    async ({ taskId }) => {
+      const db = getMcpDatabase()
+      const task = queries.getTask(db, taskId)
+      if (!task) {
+        return { content: [{ type: 'text' as const, text: `No task found with id ${taskId}.` }] }
+      }
+
+      const triggeredBy = queries.getTaskDependencies(db, taskId).map((dep) => {
+        const upstream = queries.getTask(db, dep.dependsOnTaskId)
+        return { id: dep.dependsOnTaskId, name: upstream?.name ?? null, on: dep.triggerOn }
+      })
+
+      type ChainNode = { id: number; name: string | null; status: string | null; on: string; then: ChainNode[] }
+      const visited = new Set<number>([taskId])
+      const buildDownstream = (id: number): ChainNode[] =>
+        queries.getDependentTasks(db, id).map((dep) => {
+          const downstream = queries.getTask(db, dep.taskId)
+          const seen = visited.has(dep.taskId)
+          visited.add(dep.taskId)
+          return {
+            id: dep.taskId,
+            name: downstream?.name ?? null,
+            status: downstream?.status ?? null,
+            on: dep.triggerOn,
+            then: seen ? [] : buildDownstream(dep.taskId)
+          }
+        })
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            task: task.name,
+            triggeredBy,
+            triggers: buildDownstream(taskId)
+          }, null, 2)
+        }]
+      }
+    }
+  )
 }
@@ -3,6 +3,7 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { getMcpDatabase } from '../db'
 import * as queries from '../../shared/db-queries'
 import { validateWatchPath } from '../../shared/watch-path'
+import { DEFAULT_WATCH_MAX_DEPTH, MAX_WATCH_BATCH_WINDOW_SECONDS, MAX_WATCH_DEPTH } from '../../shared/watch-filter'
 
 export function registerWatcherTools(server: McpServer): void {
   server.registerTool(
@@ -18,10 +19,38 @@ export function registerWatcherTools(server: McpServer): void {
         actionPrompt: z
           .string()
           .max(50000)
-          .describe('The prompt/instruction for Claude to execute when a change is detected')
+          .describe('The prompt/instruction for Claude to execute when a change is detected'),
+        includePatterns: z
+          .array(z.string().min(1).max(500))
+          .max(50)
+          .optional()
+          .describe('Only trigger for paths matching one of these globs, e.g. ["*.pdf"]. Bare patterns match the file name; patterns with "/" match the path relative to the watched folder'),
+        excludePatterns: z
+          .array(z.string().min(1).max(500))
+          .max(50)
+          .optional()
+          .describe('Ignore paths matching any of these globs, e.g. ["node_modules", ".git", "dist/**"]. Bare patterns match any folder or file name in the path'),
+        maxDepth: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_WATCH_DEPTH)
+          .optional()
+          .describe(`How many levels below the folder to watch (1 = direct children only). Default ${DEFAULT_WATCH_MAX_DEPTH}`),
+        events: z
+          .array(z.enum(['created', 'modified', 'deleted']))
+          .optional()
+          .describe('Only trigger on these event types. Omit for all events'),
+        batchSeconds: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_WATCH_BATCH_WINDOW_SECONDS)
+          .optional()
+          .describe('Batch changes: wait until the folder has been quiet this many seconds, then run the action once with the full list of changed files. Omit to run once per changed file')
       }
     },
-    async ({ path, description, actionPrompt }) => {
+    async ({ path, description, actionPrompt, includePatterns, excludePatterns, maxDepth, events, batchSeconds }) => {
       const pathError = validateWatchPath(path)
       if (pathError) {
         return {
@@ -30,7 +59,13 @@ export function registerWatcherTools(server: McpServer): void {
       }
 
       const db = getMcpDatabase()
-      queries.createWatch(db, path, description, actionPrompt)
+      queries.createWatch(db, path, description, actionPrompt, {
+        includePatterns,
+        excludePatterns,
+        maxDepth,
+        eventTypes: events,
+        batchWindowSeconds: batchSeconds
+      })
       return {
         content: [
           {
@@ -145,7 +180,12 @@ export function registerWatcherTools(server: McpServer): void {
         description: row.description,
         status: row.status,
         triggerCount: row.triggerCount,
-        lastTriggered: row.lastTriggered
+        lastTriggered: row.lastTriggered,
+        includePatterns: row.includePatterns,
+        excludePatterns: row.excludePatterns,
+        maxDepth: row.maxDepth,
+        events: row.eventTypes.length > 0 ? row.eventTypes : 'all',
+        batchSeconds: row.batchWindowSeconds
       }))
 
       return {
@@ -1,24 +1,33 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
-import type { Entity, Observation, Relation, Task, TaskRun, Watch, CreateTaskInput, MemoryStats, Worker, CreateWorkerInput, ConsoleLogEntry } from '../shared/types'
+import type { Entity, Observation, Relation, Task, TaskRun, Watch, WatchOptions, CreateTaskInput, MemoryStats, MemoryGraph, EmbeddingStatus, Worker, CreateWorkerInput, ConsoleLogEntry, UsageReport, Webhook, CreateWebhookInput, WebhookDelivery } from '../shared/types'
 
 interface MemoryAPI {
   createEntity: (name: string, type?: string, category?: string) => Promise<Entity>
   getEntity: (id: number) => Promise<Entity | null>
   listEntities: (category?: string) => Promise<Entity[]>
   searchEntities: (query: string) => Promise<Entity[]>
+  updateEntity: (id: number, updates: { name?: string; type?: string; category?: string }) => Promise<void>
   deleteEntity: (id: number) => Promise<void>
   addObservation: (entityId: number, content: string, source?: string) => Promise<Observation>
   getObservations: (entityId: number) => Promise<Observation[]>
+  updateObservation: (id: number, content: string) => Promise<void>
   deleteObservation: (id: number) => Promise<void>
   addRelation: (fromEntity: number, toEntity: number, relationType: string) => Promise<Relation>
   getRelations: (entityId: number) => Promise<Relation[]>
   deleteRelation: (id: number) => Promise<void>
+  /** The best-connected entities and the relations among them. */
+  getGraphOverview: (options?: { limit?: number; type?: string; category?: string }) => Promise<MemoryGraph>
+  /** An entity's neighborhood; null when the entity is gone. */
+  getGraph: (entityId: number, options?: { depth?: number; limit?: number }) => Promise<MemoryGraph | null>
   getStats: () => Promise<MemoryStats>
+  getEmbeddingStatus: () => Promise<EmbeddingStatus>
 }
 
 interface TasksAPI {
   create: (task: CreateTaskInput) => Promise<Task>
   get: (id: number) => Promise<Task | null>
+  /** Copies the task's /hooks URL to the clipboard; null for tasks without the webhook trigger. */
+  copyWebhookUrl: (id: number) => Promise<string | null>
   list: (status?: string) => Promise<Task[]>
   update: (id: number, updates: Record<string, unknown>) => Promise<void>
   delete: (id: number) => Promise<void>
@@ -28,12 +37,14 @@ interface TasksAPI {
   getLatestRun: (taskId: number) => Promise<TaskRun | null>
   listAllRuns: (limit?: number) => Promise<TaskRun[]>
   runNow: (id: number) => Promise<void>
+  cancel: (id: number) => Promise<{ ok: boolean; error?: string } | null>
   getRunningRuns: () => Promise<TaskRun[]>
+  getUsageReport: (days?: number) => Promise<UsageReport>
   getConsoleLogs: (runId: number, afterSeq?: number, limit?: number) => Promise<ConsoleLogEntry[]>
 }
 
 interface WatchesAPI {
-  create: (path: string, description?: string, actionPrompt?: string) => Promise<Watch>
+  create: (path: string, description?: string, actionPrompt?: string, options?: WatchOptions) => Promise<Watch>
   list: (status?: string) => Promise<Watch[]>
   delete: (id: number) => Promise<void>
   pause: (id: number) => Promise<void>
@@ -47,6 +58,15 @@ interface SettingsAPI {
   getAll: () => Promise<Record<string, string>>
 }
 
+interface WebhooksAPI {
+  create: (input: CreateWebhookInput) => Promise<Webhook>
+  list: () => Promise<Webhook[]>
+  update: (id: number, updates: Record<string, unknown>) => Promise<void>
+  delete: (id: number) => Promise<boolean>
+  test: (id: number) => Promise<WebhookDelivery | null>
+  getDeliveries: (webhookId?: number, limit?: number) => Promise<WebhookDelivery[]>
+}
+
 interface AppAPI {
   getVersion: () => Promise<string>
   quit: () => Promise<void>
@@ -91,6 +111,7 @@ interface DaymonAPI {
   tasks: TasksAPI
   watches: WatchesAPI
   settings: SettingsAPI
+  webhooks: WebhooksAPI
   app: AppAPI
 }
 
@@ -1,6 +1,6 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
-import type { CreateTaskInput, CreateWorkerInput } from '../shared/types'
+import type { CreateTaskInput, CreateWebhookInput, CreateWorkerInput, WatchOptions } from '../shared/types'
 
 const api = {
   memory: {
@@ -9,16 +9,24 @@ const api = {
     getEntity: (id: number) => ipcRenderer.invoke('memory:getEntity', id),
     listEntities: (category?: string) => ipcRenderer.invoke('memory:listEntities', category),
     searchEntities: (query: string) => ipcRenderer.invoke('memory:searchEntities', query),
+    updateEntity: (id: number, updates: { name?: string; type?: string; category?: string }) =>
+      ipcRenderer.invoke('memory:updateEntity', id, updates),
     deleteEntity: (id: number) => ipcRenderer.invoke('memory:deleteEntity', id),
     addObservation: (entityId: number, content: string, source?: string) =>
       ipcRenderer.invoke('memory:addObservation', entityId, content, source),
     getObservations: (entityId: number) => ipcRenderer.invoke('memory:getObservations', entityId),
+    updateObservation: (id: number, content: string) => ipcRenderer.invoke('memory:updateObservation', id, content),
     deleteObservation: (id: number) => ipcRenderer.invoke('memory:deleteObservation', id),
     addRelation: (fromEntity: number, toEntity: number, relationType: string) =>
       ipcRenderer.invoke('memory:addRelation', fromEntity, toEntity, relationType),
     getRelations: (entityId: number) => ipcRenderer.invoke('memory:getRelations', entityId),
     deleteRelation: (id: number) => ipcRenderer.invoke('memory:deleteRelation', id),
-    getStats: () => ipcRenderer.invoke('memory:getStats')
+    getGraphOverview: (options?: { limit?: number; type?: string; category?: string }) =>
+      ipcRenderer.invoke('memory:getGraphOverview', options),
+    getGraph: (entityId: number, options?: { depth?: number; limit?: number }) =>
+      ipcRenderer.invoke('memory:getGraph', entityId, options),
+    getStats: () => ipcRenderer.invoke('memory:getStats'),
+    getEmbeddingStatus: () => ipcRenderer.invoke('memory:getEmbeddingStatus')
   },
 
   workers: {
@@ -36,6 +44,7 @@ const api = {
   tasks: {
     create: (task: CreateTaskInput) => ipcRenderer.invoke('tasks:create', task),
     get: (id: number) => ipcRenderer.invoke('tasks:get', id),
+    copyWebhookUrl: (id: number) => ipcRenderer.invoke('tasks:copyWebhookUrl', id),
     list: (status?: string) => ipcRenderer.invoke('tasks:list', status),
     update: (id: number, updates: Record<string, unknown>) =>
       ipcRenderer.invoke('tasks:update', id, updates),
@@ -46,14 +55,16 @@ const api = {
     getLatestRun: (taskId: number) => ipcRenderer.invoke('tasks:getLatestRun', taskId),
     listAllRuns: (limit?: number) => ipcRenderer.invoke('tasks:listAllRuns', limit ?? 20),
     runNow: (id: number) => ipcRenderer.invoke('tasks:runNow', id),
+    cancel: (id: number) => ipcRenderer.invoke('tasks:cancel', id),
     getRunningRuns: () => ipcRenderer.invoke('tasks:getRunningRuns'),
+    getUsageReport: (days?: number) => ipcRenderer.invoke('tasks:getUsageReport', days),
     getConsoleLogs: (runId: number, afterSeq?: number, limit?: number) =>
       ipcRenderer.invoke('tasks:getConsoleLogs', runId, afterSeq, limit)
   },
 
   watches: {
-    create: (path: string, description?: string, actionPrompt?: string) =>
-      ipcRenderer.invoke('watches:create', path, description, actionPrompt),
+    create: (path: string, description?: string, actionPrompt?: string, options?: WatchOptions) =>
+      ipcRenderer.invoke('watches:create', path, description, actionPrompt, options),
     list: (status?: string) => ipcRenderer.invoke('watches:list', status),
     delete: (id: number) => ipcRenderer.invoke('watches:delete', id),
     pause: (id: number) => ipcRenderer.invoke('watches:pause', id),
@@ -67,6 +78,17 @@ const api = {
     getAll: () => ipcRenderer.invoke('settings:getAll')
   },
 
+  webhooks: {
+    create: (input: CreateWebhookInput) => ipcRenderer.invoke('webhooks:create', input),
+    list: () => ipcRenderer.invoke('webhooks:list'),
+    update: (id: number, updates: Record<string, unknown>) =>
+      ipcRenderer.invoke('webhooks:update', id, updates),
+    delete: (id: number) => ipcRenderer.invoke('webhooks:delete', id),
+    test: (id: number) => ipcRenderer.invoke('webhooks:test', id),
+    getDeliveries: (webhookId?: number, limit?: number) =>
+      ipcRenderer.invoke('webhooks:getDeliveries', webhookId, limit)
+  },
+
   app: {
     getVersion: () => ipcRenderer.invoke('app:getVersion'),
     quit: () => ipcRenderer.invoke('app:quit'),
@@ -30,6 +30,31 @@ export function LiveConsoleSection({
   const autoScrollRef = useRef(true)
   const runningRunsRef = useRef(runningRuns)
   runningRunsRef.current = runningRuns
+  const [stoppingTaskIds, setStoppingTaskIds] = useState<Set<number>>(new Set())
+  const [stopError, setStopError] = useState<string | null>(null)
+
+  // Forget stop requests once their runs have ended
+  useEffect(() => {
+    const running = new Set(runningRuns.map((r) => r.taskId))
+    setStoppingTaskIds((prev) => {
+      const next = new Set([...prev].filter((id) => running.has(id)))
+      return next.size === prev.size ? prev : next
+    })
+  }, [runningRuns])
+
+  async function stopRun(taskId: number): Promise<void> {
+    setStopError(null)
+    setStoppingTaskIds((prev) => new Set(prev).add(taskId))
+    const result = await window.api.tasks.cancel(taskId).catch(() => null)
+    if (!result?.ok) {
+      setStopError(result?.error ?? 'Could not stop the task')
+      setStoppingTaskIds((prev) => {
+        const next = new Set(prev)
+        next.delete(taskId)
+        return next
+      })
+    }
+  }
 
   // Clear state when collapsed
   useEffect(() => {
@@ -131,6 +156,7 @@ export function LiveConsoleSection({
           onScroll={handleScroll}
           className="flex-1 overflow-y-auto bg-gray-900 mx-3 mb-3 rounded p-2 font-mono text-xs leading-relaxed min-h-[4rem]"
         >
+          {stopError && <div className="text-red-400 mb-1">{stopError}</div>}
           {runningRuns.length === 0 ? (
             <div className="text-gray-500">No tasks running</div>
           ) : (
@@ -139,11 +165,16 @@ export function LiveConsoleSection({
               const taskName = taskNames[run.taskId] ?? `Task #${run.taskId}`
               return (
                 <div key={run.id} className="mb-2 last:mb-0">
-                  {runningRuns.length > 1 && (
-                    <div className="text-blue-400 font-semibold mb-0.5 sticky top-0 bg-gray-900 py-0.5">
-                      {taskName}
-                    </div>
-                  )}
+                  <div className="flex items-center justify-between mb-0.5 sticky top-0 bg-gray-900 py-0.5">
+                    <span className="text-blue-400 font-semibold">{runningRuns.length > 1 ? taskName : ''}</span>
+                    <button
+                      onClick={() => stopRun(run.taskId)}
+                      disabled={stoppingTaskIds.has(run.taskId)}
+                      className="text-[10px] font-sans text-red-400 hover:text-red-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+                    >
+                      {stoppingTaskIds.has(run.taskId) ? 'Stopping...' : 'Stop'}
+                    </button>
+                  </div>
                   {entries.length === 0 ? (
                     <div className="text-gray-500">Waiting for output...</div>
                   ) : (
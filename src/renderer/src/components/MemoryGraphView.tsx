@@ -0,0 +1,660 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useContainerWidth } from '../hooks/useContainerWidth'
+import { seedPosition, tickLayout, type LayoutNode } from '../utils/force-layout'
+import type { Entity, MemoryGraph, Observation, Relation } from '@shared/types'
+
+const WIDTH = 600
+const HEIGHT = 400
+const CENTER = { x: WIDTH / 2, y: HEIGHT / 2 }
+const OVERVIEW_LIMIT = 150
+
+const TYPE_COLORS: Record<string, string> = {
+  fact: '#60a5fa',
+  preference: '#f472b6',
+  person: '#34d399',
+  project: '#fbbf24',
+  event: '#a78bfa',
+  task_result: '#9ca3af'
+}
+const CATEGORY_COLORS: Record<string, string> = {
+  work: '#1e40af',
+  personal: '#9d174d',
+  preference: '#be185d',
+  project: '#92400e',
+  person: '#065f46',
+  task: '#374151'
+}
+const ENTITY_TYPES = ['fact', 'preference', 'person', 'project', 'event'] as const
+const ENTITY_CATEGORIES = ['work', 'personal', 'preference', 'project', 'person'] as const
+
+interface GraphData {
+  entities: Map<number, Entity>
+  relations: Map<number, Relation>
+}
+
+type Selection = { kind: 'entity'; id: number } | { kind: 'relation'; id: number } | null
+
+type Drag =
+  | { kind: 'node'; id: number; startX: number; startY: number; moved: boolean }
+  | { kind: 'pan'; startX: number; startY: number; view: ViewBox; moved: boolean }
+
+interface ViewBox {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+const EMPTY: GraphData = { entities: new Map(), relations: new Map() }
+
+function mergeGraph(data: GraphData, graph: MemoryGraph): GraphData {
+  const entities = new Map(data.entities)
+  const relations = new Map(data.relations)
+  for (const node of graph.nodes) entities.set(node.id, node)
+  for (const relation of graph.relations) relations.set(relation.id, relation)
+  return { entities, relations }
+}
+
+function nodeRadius(degree: number): number {
+  return 6 + Math.min(degree, 10) * 0.6
+}
+
+export function MemoryGraphView({ search }: { search: string }): React.JSX.Element {
+  const [containerRef, containerWidth] = useContainerWidth<HTMLDivElement>()
+  const wide = containerWidth >= 600
+  const [data, setData] = useState<GraphData>(EMPTY)
+  const [truncated, setTruncated] = useState(false)
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+  const [selection, setSelection] = useState<Selection>(null)
+  const [hiddenTypes, setHiddenTypes] = useState<Set<string>>(new Set())
+  const [hiddenCategories, setHiddenCategories] = useState<Set<string>>(new Set())
+  const [view, setView] = useState<ViewBox>({ x: 0, y: 0, w: WIDTH, h: HEIGHT })
+  const [, setFrame] = useState(0)
+
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const positions = useRef(new Map<number, LayoutNode>())
+  const dataRef = useRef(data)
+  dataRef.current = data
+  const alphaRef = useRef(0)
+  const rafRef = useRef<number | null>(null)
+  const dragRef = useRef<Drag | null>(null)
+
+  // ─── Simulation ─────────────────────────────────────────
+
+  const kick = useCallback((alpha: number) => {
+    alphaRef.current = Math.max(alphaRef.current, alpha)
+    if (rafRef.current !== null) return
+    const step = (): void => {
+      const links = [...dataRef.current.relations.values()].map((r) => ({ source: r.from_entity, target: r.to_entity }))
+      const moved = tickLayout(positions.current, links, CENTER, alphaRef.current)
+      alphaRef.current *= 0.97
+      setFrame((f) => f + 1)
+      if (alphaRef.current < 0.02 || moved < 0.2) {
+        alphaRef.current = 0
+        rafRef.current = null
+        return
+      }
+      rafRef.current = requestAnimationFrame(step)
+    }
+    rafRef.current = requestAnimationFrame(step)
+  }, [])
+
+  useEffect(() => () => {
+    if (rafRef.current !== null) cancelAnimationFrame(rafRef.current)
+  }, [])
+
+  // Give new entities a position and forget removed ones, then let the layout settle
+  const applyData = useCallback((next: GraphData) => {
+    const placed = positions.current
+    for (const id of [...placed.keys()]) {
+      if (!next.entities.has(id)) placed.delete(id)
+    }
+    for (const id of next.entities.keys()) {
+      if (placed.has(id)) continue
+      const neighbors = [...next.relations.values()]
+        .filter((r) => r.from_entity === id || r.to_entity === id)
+        .map((r) => (r.from_entity === id ? r.to_entity : r.from_entity))
+      placed.set(id, seedPosition(placed, neighbors, CENTER))
+    }
+    setData(next)
+    kick(0.8)
+  }, [kick])
+
+  // ─── Loading ────────────────────────────────────────────
+
+  const loadOverview = useCallback(async () => {
+    const graph = await window.api.memory.getGraphOverview({ limit: OVERVIEW_LIMIT })
+    setTruncated(graph.truncated)
+    setExpanded(new Set())
+    applyData(mergeGraph(EMPTY, graph))
+  }, [applyData])
+
+  useEffect(() => {
+    loadOverview()
+  }, [loadOverview])
+
+  async function expand(id: number): Promise<void> {
+    const graph = await window.api.memory.getGraph(id, { depth: 1 })
+    if (!graph) return
+    setExpanded((prev) => new Set(prev).add(id))
+    applyData(mergeGraph(dataRef.current, graph))
+  }
+
+  // ─── Pointer handling ───────────────────────────────────
+
+  function toGraphPoint(clientX: number, clientY: number): { x: number; y: number } {
+    const ctm = svgRef.current?.getScreenCTM()
+    if (!ctm) return { x: clientX, y: clientY }
+    const point = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse())
+    return { x: point.x, y: point.y }
+  }
+
+  function onNodePointerDown(e: React.PointerEvent, id: number): void {
+    e.stopPropagation()
+    svgRef.current?.setPointerCapture(e.pointerId)
+    dragRef.current = { kind: 'node', id, startX: e.clientX, startY: e.clientY, moved: false }
+  }
+
+  function onBackgroundPointerDown(e: React.PointerEvent): void {
+    svgRef.current?.setPointerCapture(e.pointerId)
+    dragRef.current = { kind: 'pan', startX: e.clientX, startY: e.clientY, view, moved: false }
+  }
+
+  function onPointerMove(e: React.PointerEvent): void {
+    const drag = dragRef.current
+    if (!drag) return
+    if (Math.abs(e.clientX - drag.startX) + Math.abs(e.clientY - drag.startY) > 3) drag.moved = true
+    if (!drag.moved) return
+    if (drag.kind === 'node') {
+      const position = positions.current.get(drag.id)
+      if (!position) return
+      const point = toGraphPoint(e.clientX, e.clientY)
+      position.x = point.x
+      position.y = point.y
+      position.pinned = true
+      kick(0.3)
+    } else {
+      const scale = drag.view.w / (svgRef.current?.clientWidth || WIDTH)
+      setView({
+        ...drag.view,
+        x: drag.view.x - (e.clientX - drag.startX) * scale,
+        y: drag.view.y - (e.clientY - drag.startY) * scale
+      })
+    }
+  }
+
+  function onPointerUp(): void {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag || drag.moved) return
+    setSelection(drag.kind === 'node' ? { kind: 'entity', id: drag.id } : null)
+  }
+
+  // Wheel zoom needs a non-passive listener so the panel doesn't scroll as well
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const onWheel = (e: WheelEvent): void => {
+      e.preventDefault()
+      const factor = e.deltaY > 0 ? 1.1 : 1 / 1.1
+      const ctm = svg.getScreenCTM()
+      if (!ctm) return
+      const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse())
+      setView((v) => {
+        const w = Math.min(Math.max(v.w * factor, WIDTH / 8), WIDTH * 8)
+        const applied = w / v.w
+        return { x: point.x - (point.x - v.x) * applied, y: point.y - (point.y - v.y) * applied, w, h: v.h * applied }
+      })
+    }
+    svg.addEventListener('wheel', onWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', onWheel)
+  }, [])
+
+  // ─── Filtering ──────────────────────────────────────────
+
+  const query = search.trim().toLowerCase()
+  const entities = [...data.entities.values()]
+  const visible = new Set(
+    entities
+      .filter((e) => !hiddenTypes.has(e.type) && !(e.category && hiddenCategories.has(e.category)))
+      .map((e) => e.id)
+  )
+  const matches = (e: Entity): boolean =>
+    !query || e.name.toLowerCase().includes(query) || e.type.includes(query) || (e.category?.includes(query) ?? false)
+  const relations = [...data.relations.values()].filter((r) => visible.has(r.from_entity) && visible.has(r.to_entity))
+  const degree = new Map<number, number>()
+  for (const r of data.relations.values()) {
+    degree.set(r.from_entity, (degree.get(r.from_entity) ?? 0) + 1)
+    degree.set(r.to_entity, (degree.get(r.to_entity) ?? 0) + 1)
+  }
+  const types = [...new Set(entities.map((e) => e.type))].sort()
+  const categories = [...new Set(entities.map((e) => e.category).filter((c): c is string => !!c))].sort()
+
+  function toggle(set: Set<string>, value: string, update: (next: Set<string>) => void): void {
+    const next = new Set(set)
+    if (next.has(value)) next.delete(value)
+    else next.add(value)
+    update(next)
+  }
+
+  function chip(label: string, color: string, hidden: boolean, onClick: () => void): React.JSX.Element {
+    return (
+      <button
+        key={label}
+        onClick={onClick}
+        className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] cursor-pointer transition-colors ${
+          hidden ? 'bg-gray-100 text-gray-300' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+        }`}
+      >
+        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: hidden ? '#e5e7eb' : color }} />
+        {label}
+      </button>
+    )
+  }
+
+  // ─── Edits ──────────────────────────────────────────────
+
+  function updateData(change: (next: GraphData) => void): void {
+    const next = { entities: new Map(dataRef.current.entities), relations: new Map(dataRef.current.relations) }
+    change(next)
+    applyData(next)
+  }
+
+  async function saveEntity(id: number, updates: { name?: string; type?: string; category?: string }): Promise<void> {
+    await window.api.memory.updateEntity(id, updates)
+    const entity = await window.api.memory.getEntity(id)
+    if (entity) updateData((next) => { next.entities.set(id, entity) })
+  }
+
+  async function deleteEntity(id: number): Promise<void> {
+    await window.api.memory.deleteEntity(id)
+    setSelection(null)
+    updateData((next) => {
+      next.entities.delete(id)
+      for (const r of [...next.relations.values()]) {
+        if (r.from_entity === id || r.to_entity === id) next.relations.delete(r.id)
+      }
+    })
+  }
+
+  async function addRelation(fromEntity: number, toEntity: number, relationType: string): Promise<Relation> {
+    const relation = await window.api.memory.addRelation(fromEntity, toEntity, relationType)
+    updateData((next) => { next.relations.set(relation.id, relation) })
+    return relation
+  }
+
+  async function deleteRelation(id: number): Promise<void> {
+    await window.api.memory.deleteRelation(id)
+    if (selection?.kind === 'relation' && selection.id === id) setSelection(null)
+    updateData((next) => { next.relations.delete(id) })
+  }
+
+  // Relations have no update; a new type is a new relation
+  async function retypeRelation(relation: Relation, relationType: string): Promise<void> {
+    const replacement = await addRelation(relation.from_entity, relation.to_entity, relationType)
+    await deleteRelation(relation.id)
+    setSelection({ kind: 'relation', id: replacement.id })
+  }
+
+  const selectedEntity = selection?.kind === 'entity' ? data.entities.get(selection.id) ?? null : null
+  const selectedRelation = selection?.kind === 'relation' ? data.relations.get(selection.id) ?? null : null
+  const nameOf = (id: number): string => data.entities.get(id)?.name ?? `#${id}`
+
+  // ─── Render ─────────────────────────────────────────────
+
+  return (
+    <div ref={containerRef} className={wide ? 'flex gap-3 p-3' : 'space-y-3 p-3'}>
+      <div className={wide ? 'flex-1 min-w-0 space-y-2' : 'space-y-2'}>
+        <div className="flex flex-wrap items-center gap-1">
+          {types.map((t) => chip(t, TYPE_COLORS[t] ?? '#9ca3af', hiddenTypes.has(t), () => toggle(hiddenTypes, t, setHiddenTypes)))}
+          {categories.length > 0 && <span className="w-px h-3 bg-gray-200 mx-0.5" />}
+          {categories.map((c) => chip(c, CATEGORY_COLORS[c] ?? '#374151', hiddenCategories.has(c), () => toggle(hiddenCategories, c, setHiddenCategories)))}
+          <button onClick={() => loadOverview()} className="ml-auto text-[10px] text-blue-500 hover:text-blue-700">Reset</button>
+        </div>
+
+        <div className="border border-gray-200 rounded-lg overflow-hidden bg-white">
+          <svg
+            ref={svgRef}
+            viewBox={`${view.x} ${view.y} ${view.w} ${view.h}`}
+            className="w-full h-auto block touch-none select-none"
+            style={{ aspectRatio: `${WIDTH} / ${HEIGHT}` }}
+            onPointerDown={onBackgroundPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerCancel={() => { dragRef.current = null }}
+          >
+            <defs>
+              <marker id="memory-graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+              </marker>
+            </defs>
+            {relations.map((r) => {
+              const a = positions.current.get(r.from_entity)
+              const b = positions.current.get(r.to_entity)
+              if (!a || !b) return null
+              const dx = b.x - a.x
+              const dy = b.y - a.y
+              const dist = Math.sqrt(dx * dx + dy * dy) || 1
+              const inset = nodeRadius(degree.get(r.to_entity) ?? 0) + 2
+              const selected = selectedRelation?.id === r.id
+              const dimmed = !!query && !matches(data.entities.get(r.from_entity)!) && !matches(data.entities.get(r.to_entity)!)
+              return (
+                <g
+                  key={r.id}
+                  opacity={dimmed ? 0.2 : 1}
+                  className="cursor-pointer"
+                  onPointerDown={(e) => { e.stopPropagation(); setSelection({ kind: 'relation', id: r.id }) }}
+                >
+                  <line
+                    x1={a.x}
+                    y1={a.y}
+                    x2={b.x - (dx / dist) * inset}
+                    y2={b.y - (dy / dist) * inset}
+                    stroke={selected ? '#3b82f6' : '#d1d5db'}
+                    strokeWidth={selected ? 2 : 1.2}
+                    markerEnd="url(#memory-graph-arrow)"
+                  />
+                  <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="transparent" strokeWidth={8} />
+                  <text
+                    x={(a.x + b.x) / 2}
+                    y={(a.y + b.y) / 2 - 3}
+                    textAnchor="middle"
+                    className="text-[7px]"
+                    fill={selected ? '#2563eb' : '#9ca3af'}
+                  >
+                    {r.relation_type}
+                  </text>
+                </g>
+              )
+            })}
+            {entities.filter((e) => visible.has(e.id)).map((e) => {
+              const p = positions.current.get(e.id)
+              if (!p) return null
+              const r = nodeRadius(degree.get(e.id) ?? 0)
+              const selected = selectedEntity?.id === e.id
+              return (
+                <g
+                  key={e.id}
+                  transform={`translate(${p.x} ${p.y})`}
+                  opacity={matches(e) ? 1 : 0.2}
+                  className="cursor-pointer"
+                  onPointerDown={(ev) => onNodePointerDown(ev, e.id)}
+                  onDoubleClick={() => expand(e.id)}
+                >
+                  <circle
+                    r={r}
+                    fill={TYPE_COLORS[e.type] ?? '#9ca3af'}
+                    stroke={selected ? '#111827' : e.category ? CATEGORY_COLORS[e.category] ?? '#374151' : '#ffffff'}
+                    strokeWidth={selected ? 2.5 : 1.5}
+                    strokeDasharray={expanded.has(e.id) ? undefined : '2 1.5'}
+                  />
+                  <text y={r + 9} textAnchor="middle" className="text-[8px]" fill="#374151">
+                    {e.name.length > 24 ? `${e.name.substring(0, 23)}…` : e.name}
+                  </text>
+                </g>
+              )
+            })}
+          </svg>
+        </div>
+
+        <p className="text-[10px] text-gray-400 leading-tight">
+          {entities.length === 0
+            ? 'No memories yet'
+            : `${entities.length} memories, ${data.relations.size} relations${truncated ? ` (the ${OVERVIEW_LIMIT} best-connected; double-click to expand)` : ' · double-click to expand'}. Drag to move, scroll to zoom.`}
+        </p>
+      </div>
+
+      {(selectedEntity || selectedRelation) && (
+        <div className={wide ? 'w-64 shrink-0' : ''}>
+          {selectedEntity && (
+            <EntityEditor
+              key={selectedEntity.id}
+              entity={selectedEntity}
+              relations={[...data.relations.values()].filter((r) => r.from_entity === selectedEntity.id || r.to_entity === selectedEntity.id)}
+              candidates={entities.filter((e) => e.id !== selectedEntity.id).sort((a, b) => a.name.localeCompare(b.name))}
+              nameOf={nameOf}
+              expanded={expanded.has(selectedEntity.id)}
+              onSave={(updates) => saveEntity(selectedEntity.id, updates)}
+              onDelete={() => deleteEntity(selectedEntity.id)}
+              onExpand={() => expand(selectedEntity.id)}
+              onSelect={(id) => setSelection({ kind: 'entity', id })}
+              onAddRelation={(toEntity, type) => addRelation(selectedEntity.id, toEntity, type).then(() => {})}
+              onDeleteRelation={deleteRelation}
+            />
+          )}
+          {selectedRelation && (
+            <RelationEditor
+              key={selectedRelation.id}
+              relation={selectedRelation}
+              nameOf={nameOf}
+              onSelect={(id) => setSelection({ kind: 'entity', id })}
+              onRetype={(type) => retypeRelation(selectedRelation, type)}
+              onDelete={() => deleteRelation(selectedRelation.id)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ─── Editors ──────────────────────────────────────────────
+
+const inputClass = 'w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white'
+
+interface EntityEditorProps {
+  entity: Entity
+  relations: Relation[]
+  candidates: Entity[]
+  nameOf: (id: number) => string
+  expanded: boolean
+  onSave: (updates: { name?: string; type?: string; category?: string }) => Promise<void>
+  onDelete: () => Promise<void>
+  onExpand: () => Promise<void>
+  onSelect: (id: number) => void
+  onAddRelation: (toEntity: number, relationType: string) => Promise<void>
+  onDeleteRelation: (id: number) => Promise<void>
+}
+
+function EntityEditor({
+  entity, relations, candidates, nameOf, expanded, onSave, onDelete, onExpand, onSelect, onAddRelation, onDeleteRelation
+}: EntityEditorProps): React.JSX.Element {
+  const [name, setName] = useState(entity.name)
+  const [observations, setObservations] = useState<Observation[] | null>(null)
+  const [editing, setEditing] = useState<{ id: number; content: string } | null>(null)
+  const [newObservation, setNewObservation] = useState('')
+  const [relationTarget, setRelationTarget] = useState('')
+  const [relationType, setRelationType] = useState('')
+
+  useEffect(() => {
+    window.api.memory.getObservations(entity.id).then(setObservations)
+  }, [entity.id])
+
+  async function saveName(): Promise<void> {
+    const trimmed = name.trim()
+    if (!trimmed) return setName(entity.name)
+    if (trimmed !== entity.name) await onSave({ name: trimmed })
+  }
+
+  async function saveObservation(): Promise<void> {
+    if (!editing || !editing.content.trim()) return
+    await window.api.memory.updateObservation(editing.id, editing.content.trim())
+    setEditing(null)
+    setObservations(await window.api.memory.getObservations(entity.id))
+  }
+
+  async function addObservation(): Promise<void> {
+    if (!newObservation.trim()) return
+    await window.api.memory.addObservation(entity.id, newObservation.trim(), 'user')
+    setNewObservation('')
+    setObservations(await window.api.memory.getObservations(entity.id))
+  }
+
+  async function deleteObservation(id: number): Promise<void> {
+    await window.api.memory.deleteObservation(id)
+    setObservations(await window.api.memory.getObservations(entity.id))
+  }
+
+  async function addRelation(): Promise<void> {
+    if (!relationTarget || !relationType.trim()) return
+    await onAddRelation(Number(relationTarget), relationType.trim())
+    setRelationTarget('')
+    setRelationType('')
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-2 space-y-2 bg-gray-50">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+        className={`${inputClass} font-medium`}
+      />
+      <div className="flex gap-1">
+        <select
+          value={entity.type}
+          onChange={(e) => onSave({ type: e.target.value })}
+          className={inputClass}
+        >
+          {!ENTITY_TYPES.some((t) => t === entity.type) && <option value={entity.type} disabled>{entity.type}</option>}
+          {ENTITY_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select
+          value={entity.category ?? ''}
+          onChange={(e) => { if (e.target.value) onSave({ category: e.target.value }) }}
+          className={inputClass}
+        >
+          {!entity.category && <option value="" disabled>category</option>}
+          {entity.category && !ENTITY_CATEGORIES.some((c) => c === entity.category) && (
+            <option value={entity.category} disabled>{entity.category}</option>
+          )}
+          {ENTITY_CATEGORIES.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <div className="text-[10px] font-medium text-gray-500 mb-1">Observations</div>
+        {!observations ? (
+          <div className="text-xs text-gray-400">Loading...</div>
+        ) : (
+          <div className="space-y-1">
+            {observations.map((o) => (
+              <div key={o.id} className="text-xs p-1.5 bg-white rounded">
+                {editing?.id === o.id ? (
+                  <div className="space-y-1">
+                    <textarea
+                      value={editing.content}
+                      onChange={(e) => setEditing({ id: o.id, content: e.target.value })}
+                      rows={3}
+                      className={inputClass}
+                    />
+                    <div className="flex gap-2 justify-end">
+                      <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600">Cancel</button>
+                      <button onClick={saveObservation} className="text-blue-500 hover:text-blue-700">Save</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between">
+                    <span
+                      className="text-gray-600 selectable flex-1 mr-2 cursor-text"
+                      onDoubleClick={() => setEditing({ id: o.id, content: o.content })}
+                    >
+                      {o.content}
+                    </span>
+                    <button onClick={() => setEditing({ id: o.id, content: o.content })} className="text-gray-400 hover:text-gray-600 shrink-0 mr-1.5">Edit</button>
+                    <button onClick={() => deleteObservation(o.id)} className="text-red-400 hover:text-red-600 shrink-0">x</button>
+                  </div>
+                )}
+              </div>
+            ))}
+            <input
+              placeholder="Add an observation..."
+              value={newObservation}
+              onChange={(e) => setNewObservation(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addObservation() }}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="text-[10px] font-medium text-gray-500 mb-1">Relations</div>
+        <div className="space-y-1">
+          {relations.map((r) => {
+            const outgoing = r.from_entity === entity.id
+            const other = outgoing ? r.to_entity : r.from_entity
+            return (
+              <div key={r.id} className="flex items-center justify-between text-xs p-1.5 bg-white rounded">
+                <span className="text-gray-600 truncate flex-1 mr-2">
+                  <span className="text-gray-400">{outgoing ? `${r.relation_type} → ` : `← ${r.relation_type} `}</span>
+                  <button onClick={() => onSelect(other)} className="text-blue-500 hover:text-blue-700">{nameOf(other)}</button>
+                </span>
+                <button onClick={() => onDeleteRelation(r.id)} className="text-red-400 hover:text-red-600 shrink-0">x</button>
+              </div>
+            )
+          })}
+          <div className="flex gap-1">
+            <input
+              placeholder="works_on"
+              value={relationType}
+              onChange={(e) => setRelationType(e.target.value)}
+              className={inputClass}
+            />
+            <select value={relationTarget} onChange={(e) => setRelationTarget(e.target.value)} className={inputClass}>
+              <option value="">to...</option>
+              {candidates.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <button onClick={addRelation} className="text-xs text-blue-500 hover:text-blue-700 shrink-0">Add</button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-between pt-1">
+        <button onClick={onExpand} disabled={expanded} className={`text-xs ${expanded ? 'text-gray-300 cursor-default' : 'text-blue-500 hover:text-blue-700'}`}>
+          {expanded ? 'Expanded' : 'Expand neighbors'}
+        </button>
+        <button onClick={onDelete} className="text-xs text-red-400 hover:text-red-600">Delete</button>
+      </div>
+    </div>
+  )
+}
+
+interface RelationEditorProps {
+  relation: Relation
+  nameOf: (id: number) => string
+  onSelect: (id: number) => void
+  onRetype: (relationType: string) => Promise<void>
+  onDelete: () => Promise<void>
+}
+
+function RelationEditor({ relation, nameOf, onSelect, onRetype, onDelete }: RelationEditorProps): React.JSX.Element {
+  const [type, setType] = useState(relation.relation_type)
+
+  async function save(): Promise<void> {
+    const trimmed = type.trim()
+    if (!trimmed) return setType(relation.relation_type)
+    if (trimmed !== relation.relation_type) await onRetype(trimmed)
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-2 space-y-2 bg-gray-50 text-xs">
+      <div className="flex items-center gap-1 min-w-0">
+        <button onClick={() => onSelect(relation.from_entity)} className="text-blue-500 hover:text-blue-700 truncate">{nameOf(relation.from_entity)}</button>
+        <span className="text-gray-400 shrink-0">{'→'}</span>
+        <button onClick={() => onSelect(relation.to_entity)} className="text-blue-500 hover:text-blue-700 truncate">{nameOf(relation.to_entity)}</button>
+      </div>
+      <input
+        value={type}
+        onChange={(e) => setType(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+        className={inputClass}
+      />
+      <div className="flex justify-end">
+        <button onClick={onDelete} className="text-red-400 hover:text-red-600">Delete relation</button>
+      </div>
+    </div>
+  )
+}
@@ -1,12 +1,14 @@
 import { useState, useCallback, useEffect, useRef } from 'react'
 import { usePolling } from '../hooks/usePolling'
 import { useContainerWidth } from '../hooks/useContainerWidth'
+import { MemoryGraphView } from './MemoryGraphView'
 import type { Entity, Observation } from '@shared/types'
 
 export function MemoryPanel(): React.JSX.Element {
   const [containerRef, containerWidth] = useContainerWidth<HTMLDivElement>()
   const wide = containerWidth >= 600
   const [search, setSearch] = useState('')
+  const [mode, setMode] = useState<'list' | 'graph'>('list')
   const [expandedId, setExpandedId] = useState<number | null>(null)
   const [obsCache, setObsCache] = useState<Record<number, Observation[]>>({})
   const [pending, setPending] = useState<Record<string, boolean>>({})
@@ -22,6 +24,8 @@ export function MemoryPanel(): React.JSX.Element {
   )
 
   const { data: entities, refresh } = usePolling(fetcher, 5000)
+  const { data: embedding } = usePolling(() => window.api.memory.getEmbeddingStatus(), 5000)
+  const indexing = embedding && embedding.indexed < embedding.total ? embedding : null
 
   // In wide mode, eagerly load observations for all entities
   useEffect(() => {
@@ -123,17 +127,48 @@ export function MemoryPanel(): React.JSX.Element {
   return (
     <div className="flex flex-col h-full">
       <div className="p-3 border-b border-gray-200">
-        <input
-          type="text"
-          placeholder="Search entities..."
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
-          className="w-full px-2.5 py-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
-        />
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            placeholder={mode === 'graph' ? 'Highlight entities...' : 'Search entities...'}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="flex-1 min-w-0 px-2.5 py-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+          />
+          <div className="flex items-center gap-0.5 shrink-0">
+            {([['list', 'List'], ['graph', 'Graph']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`px-1.5 py-0.5 rounded text-xs cursor-pointer transition-colors ${
+                  mode === value ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {indexing && (
+          <div className="mt-2" title={`Embedding model: ${indexing.model}`}>
+            <div className="flex items-center justify-between text-[10px] text-gray-400 mb-0.5">
+              <span className="truncate">Indexing for semantic search &middot; {indexing.model}</span>
+              <span className="shrink-0 ml-2">{indexing.indexed}/{indexing.total}</span>
+            </div>
+            <div className="h-1 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 rounded-full transition-all duration-500"
+                style={{ width: `${Math.round((indexing.indexed / indexing.total) * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
       <div ref={containerRef} className="flex-1 overflow-y-auto">
-        {!entities || entities.length === 0 ? (
+        {mode === 'graph' ? (
+          <MemoryGraphView search={search} />
+        ) : !entities || entities.length === 0 ? (
           <div className="p-4 text-center text-xs text-gray-400">
             {search ? 'No matching entities' : 'No memories yet'}
           </div>
@@ -101,7 +101,7 @@ export function ResultsPanel(): React.JSX.Element {
               {taskNames[run.taskId] ?? `Task #${run.taskId}`}
             </span>
             <span
-              className={`text-xs ${run.status === 'completed' ? 'text-green-600' : run.status === 'running' ? 'text-blue-500' : 'text-red-500'}`}
+              className={`text-xs ${run.status === 'completed' ? 'text-green-600' : run.status === 'running' ? 'text-blue-500' : run.status === 'skipped' ? 'text-amber-600' : run.status === 'cancelled' ? 'text-gray-500' : 'text-red-500'}`}
             >
               {run.status}
             </span>
@@ -109,6 +109,8 @@ export function ResultsPanel(): React.JSX.Element {
           <div className="flex items-center gap-2 text-xs text-gray-400">
             <span>{formatDateTimeShort(run.startedAt)}</span>
             {run.durationMs != null && <span>{(run.durationMs / 1000).toFixed(1)}s</span>}
+            {run.maxAttempts > 1 && <span>attempt {run.attempt}/{run.maxAttempts}</span>}
+            {run.changed === false && <span>no change</span>}
           </div>
         </div>
 
@@ -119,7 +121,26 @@ export function ResultsPanel(): React.JSX.Element {
                 {run.errorMessage}
               </div>
             )}
-            {run.result && (
+            {run.diff && (
+              <div className="mb-1">
+                <div className="text-[10px] text-gray-400 mb-0.5">Changes since the previous run</div>
+                <pre className="text-xs font-mono p-1.5 bg-white rounded max-h-40 overflow-y-auto selectable whitespace-pre-wrap">
+                  {run.diff.split('\n').map((line, i) => (
+                    <div
+                      key={i}
+                      className={line.startsWith('+') ? 'text-green-700' : line.startsWith('-') ? 'text-red-600' : 'text-amber-700'}
+                    >
+                      {line}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            )}
+            {run.resultJson ? (
+              <pre className="text-xs font-mono text-gray-600 p-1.5 bg-white rounded max-h-40 overflow-y-auto selectable whitespace-pre-wrap">
+                {JSON.stringify(JSON.parse(run.resultJson), null, 2)}
+              </pre>
+            ) : run.result && (
               <div className="text-xs text-gray-600 p-1.5 bg-white rounded max-h-40 overflow-y-auto selectable whitespace-pre-wrap">
                 {run.result}
               </div>
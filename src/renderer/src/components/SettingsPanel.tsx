@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react'
 import { useContainerWidth } from '../hooks/useContainerWidth'
+import { WebhooksSection } from './WebhooksSection'
+import type { EmbeddingProviderKind } from '@shared/types'
 
 interface PathsInfo {
   dbPath: string
@@ -47,6 +49,9 @@ export function SettingsPanel({ advancedMode, onAdvancedModeChange, onRefreshUpd
   const [quietUntil, setQuietUntil] = useState('22:00')
   const [defaultNudgeMode, setDefaultNudgeMode] = useState<string>('always')
   const [telemetry, setTelemetry] = useState<boolean | null>(null)
+  const [embeddingProvider, setEmbeddingProvider] = useState<EmbeddingProviderKind>('transformers')
+  const [embeddingModel, setEmbeddingModel] = useState('')
+  const [embeddingEndpoint, setEmbeddingEndpoint] = useState('')
   const [confirmUninstall, setConfirmUninstall] = useState(false)
   const [updateStatus, setUpdateStatus] = useState<UpdateStatus | null>(null)
 
@@ -78,6 +83,15 @@ export function SettingsPanel({ advancedMode, onAdvancedModeChange, onRefreshUpd
     window.api.settings.get('telemetry_enabled').then((v) => {
       setTelemetry(v !== 'false')
     })
+    window.api.settings.get('embedding_provider').then((v) => {
+      if (v === 'onnx' || v === 'http') setEmbeddingProvider(v)
+    })
+    window.api.settings.get('embedding_model').then((v) => {
+      if (v) setEmbeddingModel(v)
+    })
+    window.api.settings.get('embedding_endpoint').then((v) => {
+      if (v) setEmbeddingEndpoint(v)
+    })
     window.api.app.getUpdateStatus().then(setUpdateStatus)
   }, [])
 
@@ -133,6 +147,17 @@ export function SettingsPanel({ advancedMode, onAdvancedModeChange, onRefreshUpd
     await window.api.settings.set('default_nudge_mode', value)
   }
 
+  // Changing the model re-indexes every memory, so text fields save on blur rather than per keystroke
+  async function updateEmbeddingProvider(value: EmbeddingProviderKind): Promise<void> {
+    setEmbeddingProvider(value)
+    await window.api.settings.set('embedding_provider', value)
+  }
+
+  async function saveEmbeddingSetting(key: 'embedding_model' | 'embedding_endpoint', value: string): Promise<void> {
+    if (value.trim() === ((await window.api.settings.get(key)) ?? '')) return
+    await window.api.settings.set(key, value.trim())
+  }
+
   async function handleUninstall(): Promise<void> {
     if (!confirmUninstall) {
       setConfirmUninstall(true)
@@ -281,6 +306,60 @@ export function SettingsPanel({ advancedMode, onAdvancedModeChange, onRefreshUpd
         </div>
       </div>
 
+      <div>
+        <h3 className="text-xs font-semibold text-gray-700 mb-1">Memory Search</h3>
+        <p className="text-[10px] text-gray-400 mb-1.5 leading-tight">The model that turns memories into vectors for search by meaning. Changing it re-indexes all memories in the background.</p>
+        <div className="bg-gray-50 rounded-lg p-2 space-y-1">
+          <div className="py-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-600">Provider</span>
+              <div className="flex items-center gap-0.5">
+                {([['transformers', 'Built-in'], ['onnx', 'ONNX'], ['http', 'HTTP']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => updateEmbeddingProvider(value)}
+                    className={`px-1.5 py-0.5 rounded text-xs cursor-pointer transition-colors ${
+                      embeddingProvider === value ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-[10px] text-gray-400 mt-1 leading-tight">
+              {embeddingProvider === 'transformers' && 'all-MiniLM-L6-v2, runs inside Daymon. English only.'}
+              {embeddingProvider === 'onnx' && 'Any Hugging Face feature-extraction model with ONNX weights, or a local model folder.'}
+              {embeddingProvider === 'http' && 'An OpenAI-compatible server such as Ollama or llama.cpp.'}
+            </p>
+          </div>
+          {embeddingProvider !== 'transformers' && (
+            <div className="space-y-1.5 py-1 pl-2 border-l-2 border-gray-200 ml-1">
+              {embeddingProvider === 'http' && (
+                <input
+                  type="text"
+                  placeholder="http://localhost:11434/v1"
+                  value={embeddingEndpoint}
+                  onChange={(e) => setEmbeddingEndpoint(e.target.value)}
+                  onBlur={(e) => saveEmbeddingSetting('embedding_endpoint', e.target.value)}
+                  className="w-full bg-white border border-gray-200 rounded px-1.5 py-0.5 text-xs text-gray-600"
+                />
+              )}
+              <input
+                type="text"
+                placeholder={embeddingProvider === 'http' ? 'nomic-embed-text' : 'Xenova/multilingual-e5-small'}
+                value={embeddingModel}
+                onChange={(e) => setEmbeddingModel(e.target.value)}
+                onBlur={(e) => saveEmbeddingSetting('embedding_model', e.target.value)}
+                className="w-full bg-white border border-gray-200 rounded px-1.5 py-0.5 text-xs text-gray-600"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <WebhooksSection />
+
       <div className="space-y-4">
       <div>
         <h3 className="text-xs font-semibold text-gray-700 mb-1">Connection</h3>
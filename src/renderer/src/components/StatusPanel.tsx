@@ -3,8 +3,11 @@ import { usePolling } from '../hooks/usePolling'
 import { useContainerWidth } from '../hooks/useContainerWidth'
 import { AnalogClock } from './AnalogClock'
 import { LiveConsoleSection } from './LiveConsoleSection'
-import type { Task, TaskRun } from '@shared/types'
+import type { Task, TaskRun, UsageReport } from '@shared/types'
 import { formatRelativeTime } from '../utils/time'
+import { formatCost, formatTokens } from '../utils/usage'
+
+const USAGE_DAYS = 7
 
 interface StatusData {
   entityCount: number
@@ -14,6 +17,7 @@ interface StatusData {
   scheduler: { running: boolean; jobCount: number }
   workerCount: number
   watchCount: number
+  usage: UsageReport
 }
 
 async function fetchStatus(): Promise<StatusData> {
@@ -21,14 +25,15 @@ async function fetchStatus(): Promise<StatusData> {
     throw new Error('IPC bridge is unavailable. Please restart Daymon.')
   }
 
-  const [stats, tasks, runs, runningRuns, scheduler, workerCount, watchCount] = await Promise.all([
+  const [stats, tasks, runs, runningRuns, scheduler, workerCount, watchCount, usage] = await Promise.all([
     window.api.memory.getStats(),
     window.api.tasks.list(),
     window.api.tasks.listAllRuns(1),
     window.api.tasks.getRunningRuns(),
     window.api.app.getSchedulerStatus(),
     window.api.workers.count(),
-    window.api.watches.count()
+    window.api.watches.count(),
+    window.api.tasks.getUsageReport(USAGE_DAYS)
   ])
   return {
     entityCount: stats.entityCount,
@@ -37,7 +42,8 @@ async function fetchStatus(): Promise<StatusData> {
     runningRuns,
     scheduler,
     workerCount,
-    watchCount
+    watchCount,
+    usage
   }
 }
 
@@ -129,6 +135,35 @@ export function StatusPanel({ onNavigate, advancedMode, updateStatus, onShowUpda
     </button>
   ) : null
 
+  const usageTotals = data.usage.totals
+  const topTasks = data.usage.byTask.filter((t) => t.inputTokens + t.outputTokens > 0).slice(0, 3)
+  const usageCard = (
+    <button key="usage" className={cardClass} onClick={() => onNavigate?.('results')}>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-medium text-gray-600">Usage ({USAGE_DAYS}d)</span>
+        <span className="text-xs text-gray-500">
+          {formatTokens(usageTotals.inputTokens + usageTotals.outputTokens)} tokens
+          {usageTotals.costUsd > 0 && ` • ${formatCost(usageTotals.costUsd)}`}
+        </span>
+      </div>
+      {topTasks.length > 0 ? (
+        <div className="space-y-0.5">
+          {topTasks.map((t) => (
+            <div key={t.taskId} className="flex items-center justify-between gap-2 text-xs text-gray-500">
+              <span className="truncate">{t.taskName}</span>
+              <span className="shrink-0 text-gray-400">
+                {formatTokens(t.inputTokens + t.outputTokens)}
+                {t.costUsd > 0 && ` • ${formatCost(t.costUsd)}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <span className="text-xs text-gray-400">No usage recorded</span>
+      )}
+    </button>
+  )
+
   const lastRunCard = (
     <button key="lastrun" className={cardClass} onClick={() => onNavigate?.('results')}>
       <div className="flex items-center justify-between mb-1">
@@ -142,7 +177,9 @@ export function StatusPanel({ onNavigate, advancedMode, updateStatus, onShowUpda
                 ? 'text-green-600'
                 : data.latestRun.status === 'running'
                   ? 'text-blue-600'
-                  : 'text-red-500'
+                  : data.latestRun.status === 'cancelled'
+                    ? 'text-gray-500'
+                    : 'text-red-500'
             }
           >
             {data.latestRun.status}
@@ -249,12 +286,13 @@ export function StatusPanel({ onNavigate, advancedMode, updateStatus, onShowUpda
         {updateCard}
         {consoleSection}
         {lastRunCard}
+        {usageCard}
         {githubCta}
       </div>
     )
   }
 
-  const cards = [schedulerCard, memoryCard, workersCard, tasksCard, watchesCard, lastRunCard].filter(
+  const cards = [schedulerCard, memoryCard, workersCard, tasksCard, watchesCard, lastRunCard, usageCard].filter(
     Boolean
   )
 
@@ -1,11 +1,13 @@
 import { usePolling } from '../hooks/usePolling'
-import type { Task, TaskRun, Worker, ConsoleLogEntry } from '@shared/types'
-import { formatRelativeTime } from '../utils/time'
+import type { Task, TaskRun, Worker, ConsoleLogEntry, MisfirePolicy, SuccessCriteria } from '@shared/types'
+import { formatDateTimeShort, formatRelativeTime } from '../utils/time'
+import { describeSchedule, getNextRuns, previewSchedule } from '@shared/schedule'
+import { isValidTimezone } from '@shared/cron'
 import { useState, useEffect, useRef } from 'react'
 import { useContainerWidth } from '../hooks/useContainerWidth'
 
 type StatusFilter = 'all' | 'active' | 'paused' | 'completed'
-type TriggerFilter = 'all' | 'cron' | 'once' | 'manual'
+type TriggerFilter = 'all' | 'cron' | 'once' | 'manual' | 'webhook'
 type NudgeFilter = 'all' | 'always' | 'failure_only' | 'never'
 
 interface TaskFilters {
@@ -109,6 +111,11 @@ function FilterBar({
             active={filters.trigger === 'manual'}
             onClick={() => onChange({ ...filters, trigger: 'manual' })}
           />
+          <FilterPill
+            label="Webhook"
+            active={filters.trigger === 'webhook'}
+            onClick={() => onChange({ ...filters, trigger: 'webhook' })}
+          />
           <span className="text-xs text-gray-300 mx-0.5">|</span>
           <span className="text-xs text-gray-400 mr-0.5">Nudge:</span>
           <FilterPill
@@ -294,7 +301,12 @@ function describeCron(expr: string): string {
     return `Weekdays at ${times}`
   }
 
-  return expr
+  try {
+    const description = describeSchedule(expr)
+    return description[0].toUpperCase() + description.slice(1)
+  } catch {
+    return expr
+  }
 }
 
 function formatTime(h: number, m: number): string {
@@ -303,15 +315,59 @@ function formatTime(h: number, m: number): string {
   return m === 0 ? `${h12} ${period}` : `${h12}:${String(m).padStart(2, '0')} ${period}`
 }
 
+// "America/New_York" → "New York time"
+function timezoneLabel(timezone: string): string {
+  const city = timezone.split('/').pop() ?? timezone
+  return `${city.replace(/_/g, ' ')} time`
+}
+
 function triggerLabel(task: Task): string {
-  if (task.triggerType === 'cron' && task.cronExpression) return describeCron(task.cronExpression)
+  if (task.triggerType === 'cron' && task.cronExpression) {
+    const schedule = describeCron(task.cronExpression)
+    return task.timezone ? `${schedule} (${timezoneLabel(task.timezone)})` : schedule
+  }
   if (task.triggerType === 'once' && task.scheduledAt) {
     return `Once: ${new Date(task.scheduledAt).toLocaleString()}`
   }
   if (task.triggerType === 'manual') return 'On-demand'
+  if (task.triggerType === 'watch') return 'On file change'
+  if (task.triggerType === 'webhook') return 'On webhook'
   return task.triggerType
 }
 
+function nextRunLabel(task: Task): string | null {
+  if (task.triggerType !== 'cron' || !task.cronExpression || task.status !== 'active') return null
+  try {
+    const [next] = getNextRuns(task.cronExpression, { timezone: task.timezone, count: 1 })
+    return next ? `Next: ${formatDateTimeShort(next.toISOString())}` : null
+  } catch {
+    return null
+  }
+}
+
+function SchedulePreviewHint({ cronExpression, timezone }: { cronExpression: string; timezone: string }): React.JSX.Element | null {
+  if (!cronExpression) return null
+  let preview
+  try {
+    preview = previewSchedule(cronExpression, { timezone: isValidTimezone(timezone) ? timezone : null, count: 3 })
+  } catch (err) {
+    return <div className="text-[10px] text-red-500">{err instanceof Error ? err.message : 'Invalid cron expression'}</div>
+  }
+  return (
+    <div className="text-[10px] text-gray-500 space-y-0.5">
+      <div>
+        Runs {preview.description}
+        {preview.nextRuns.length > 0 && (
+          <span className="text-gray-400"> · next {preview.nextRuns.map((at) => formatDateTimeShort(at.toISOString())).join(', ')}</span>
+        )}
+      </div>
+      {preview.warnings.map((warning) => (
+        <div key={warning} className="text-amber-600">{warning}</div>
+      ))}
+    </div>
+  )
+}
+
 function sourceLabel(task: Task): string | null {
   if (!task.triggerConfig) return null
   try {
@@ -325,6 +381,11 @@ function sourceLabel(task: Task): string | null {
   }
 }
 
+function folderName(path: string): string {
+  const parts = path.split(/[\\/]/).filter(Boolean)
+  return parts[parts.length - 1] ?? path
+}
+
 function ProgressBar({ run }: { run: TaskRun }): React.JSX.Element {
   return (
     <div className="mt-1">
@@ -408,12 +469,20 @@ function ConsoleView({ runId }: { runId: number }): React.JSX.Element {
 function CreateTaskForm({ workers, defaultNudgeMode, onCreated }: { workers: Worker[] | null; defaultNudgeMode: string; onCreated: () => void }): React.JSX.Element {
   const [prompt, setPrompt] = useState('')
   const [name, setName] = useState('')
-  const [scheduleMode, setScheduleMode] = useState<'manual' | 'preset' | 'custom'>('manual')
+  const [scheduleMode, setScheduleMode] = useState<'manual' | 'preset' | 'custom' | 'webhook'>('manual')
   const [selectedPreset, setSelectedPreset] = useState(0)
   const [customCron, setCustomCron] = useState('')
+  const [webhookPayloadPath, setWebhookPayloadPath] = useState('')
   const [workerId, setWorkerId] = useState<number | ''>('')
   const [nudgeMode, setNudgeMode] = useState(defaultNudgeMode)
   const [maxRuns, setMaxRuns] = useState<string>('')
+  const [workingDirectory, setWorkingDirectory] = useState('')
+  const [misfirePolicy, setMisfirePolicy] = useState<MisfirePolicy>('skip')
+  const [timezone, setTimezone] = useState('')
+  const [maxAttempts, setMaxAttempts] = useState(1)
+  const [mustContain, setMustContain] = useState('')
+  const [mustNotContain, setMustNotContain] = useState('')
+  const [notifyOnChangeOnly, setNotifyOnChangeOnly] = useState(false)
   const [createError, setCreateError] = useState<string | null>(null)
 
   function getResolvedCron(): string | undefined {
@@ -422,6 +491,17 @@ function CreateTaskForm({ workers, defaultNudgeMode, onCreated }: { workers: Wor
     return undefined
   }
 
+  // Misfires and time zones only mean something for cron schedules
+  const isCronMode = scheduleMode === 'preset' || scheduleMode === 'custom'
+
+  function getSuccessCriteria(): SuccessCriteria | undefined {
+    const phrases = (value: string): string[] => value.split(',').map((p) => p.trim()).filter(Boolean)
+    const criteria: SuccessCriteria = {}
+    if (phrases(mustContain).length > 0) criteria.mustContain = phrases(mustContain)
+    if (phrases(mustNotContain).length > 0) criteria.mustNotContain = phrases(mustNotContain)
+    return Object.keys(criteria).length > 0 ? criteria : undefined
+  }
+
   async function handleCreate(): Promise<void> {
     const trimmedPrompt = prompt.trim()
     if (!trimmedPrompt) {
@@ -435,18 +515,34 @@ function CreateTaskForm({ workers, defaultNudgeMode, onCreated }: { workers: Wor
         name: name.trim() || trimmedPrompt.slice(0, 40),
         prompt: trimmedPrompt,
         cronExpression: getResolvedCron(),
+        triggerType: scheduleMode === 'webhook' ? 'webhook' : undefined,
+        webhookPayloadPath: scheduleMode === 'webhook' ? webhookPayloadPath.trim() || undefined : undefined,
         workerId: workerId || undefined,
         nudgeMode: (nudgeMode as 'always' | 'failure_only' | 'never') || undefined,
-        maxRuns: parsedMaxRuns && parsedMaxRuns > 0 ? parsedMaxRuns : undefined
+        maxRuns: parsedMaxRuns && parsedMaxRuns > 0 ? parsedMaxRuns : undefined,
+        workingDirectory: workingDirectory.trim() || undefined,
+        misfirePolicy: isCronMode ? misfirePolicy : undefined,
+        timezone: isCronMode ? timezone.trim() || undefined : undefined,
+        maxAttempts: maxAttempts > 1 ? maxAttempts : undefined,
+        successCriteria: getSuccessCriteria(),
+        changeDetection: notifyOnChangeOnly ? 'text' : undefined
       })
       setPrompt('')
       setName('')
       setScheduleMode('manual')
       setSelectedPreset(0)
       setCustomCron('')
+      setWebhookPayloadPath('')
       setWorkerId('')
       setNudgeMode(defaultNudgeMode)
       setMaxRuns('')
+      setWorkingDirectory('')
+      setMisfirePolicy('skip')
+      setTimezone('')
+      setMaxAttempts(1)
+      setMustContain('')
+      setMustNotContain('')
+      setNotifyOnChangeOnly(false)
       onCreated()
     } catch (err) {
       setCreateError(err instanceof Error ? err.message : 'Failed to create task')
@@ -469,10 +565,33 @@ function CreateTaskForm({ workers, defaultNudgeMode, onCreated }: { workers: Wor
         placeholder="Name (optional)"
         className="w-full px-2.5 py-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
       />
+      <input
+        type="text"
+        value={workingDirectory}
+        onChange={(e) => { setWorkingDirectory(e.target.value); setCreateError(null) }}
+        placeholder="Working directory (optional, absolute path to a project)"
+        className="w-full px-2.5 py-1.5 text-xs font-mono border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+      />
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={mustContain}
+          onChange={(e) => setMustContain(e.target.value)}
+          placeholder="Succeeds only if output contains (optional, comma-separated)"
+          className="flex-1 min-w-0 px-2.5 py-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+        />
+        <input
+          type="text"
+          value={mustNotContain}
+          onChange={(e) => setMustNotContain(e.target.value)}
+          placeholder="Fails if output contains (e.g. couldn't access)"
+          className="flex-1 min-w-0 px-2.5 py-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+        />
+      </div>
       <div className="space-y-1.5">
         <div className="flex items-center gap-1">
           <span className="text-[10px] text-gray-400">Schedule:</span>
-          {(['manual', 'preset', 'custom'] as const).map((mode) => (
+          {(['manual', 'preset', 'custom', 'webhook'] as const).map((mode) => (
             <button
               key={mode}
               onClick={() => setScheduleMode(mode)}
@@ -482,7 +601,7 @@ function CreateTaskForm({ workers, defaultNudgeMode, onCreated }: { workers: Wor
                   : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
               }`}
             >
-              {mode === 'manual' ? 'On-demand' : mode === 'preset' ? 'Schedule' : 'Custom'}
+              {mode === 'manual' ? 'On-demand' : mode === 'preset' ? 'Schedule' : mode === 'custom' ? 'Custom' : 'Webhook'}
             </button>
           ))}
         </div>
@@ -506,6 +625,39 @@ function CreateTaskForm({ workers, defaultNudgeMode, onCreated }: { workers: Wor
             className="w-full px-2.5 py-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
           />
         )}
+        {scheduleMode === 'custom' && <SchedulePreviewHint cronExpression={customCron.trim()} timezone={timezone.trim()} />}
+        {scheduleMode === 'webhook' && (
+          <input
+            type="text"
+            value={webhookPayloadPath}
+            onChange={(e) => { setWebhookPayloadPath(e.target.value); setCreateError(null) }}
+            placeholder="Payload path (optional JSONPath, e.g. $.pull_request.title)"
+            className="w-full px-2.5 py-1.5 text-xs font-mono border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+          />
+        )}
+        {isCronMode && (
+          <input
+            type="text"
+            value={timezone}
+            onChange={(e) => { setTimezone(e.target.value); setCreateError(null) }}
+            placeholder={`Time zone (optional, e.g. America/New_York; default ${Intl.DateTimeFormat().resolvedOptions().timeZone})`}
+            className="w-full px-2.5 py-1.5 text-xs font-mono border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+          />
+        )}
+        {isCronMode && (
+          <div className="flex items-center gap-1">
+            <span className="text-[10px] text-gray-400">If missed while asleep:</span>
+            <select
+              value={misfirePolicy}
+              onChange={(e) => setMisfirePolicy(e.target.value as MisfirePolicy)}
+              className="text-[10px] border border-gray-300 rounded px-1.5 py-0.5 bg-white focus:outline-none focus:border-gray-500"
+            >
+              <option value="skip">Skip</option>
+              <option value="run_once">Run once on wake</option>
+              <option value="run_all">Run each missed time</option>
+            </select>
+          </div>
+        )}
       </div>
       <div className="flex items-center gap-2 flex-wrap">
         {workers && workers.length > 0 && (
@@ -559,6 +711,31 @@ function CreateTaskForm({ workers, defaultNudgeMode, onCreated }: { workers: Wor
             ))}
           </div>
         </div>
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-gray-400">Retry:</span>
+          <select
+            value={maxAttempts}
+            onChange={(e) => setMaxAttempts(Number(e.target.value))}
+            title="Failed runs are retried with a growing delay (1 min, 2 min, ...)"
+            className="text-[10px] border border-gray-300 rounded px-1.5 py-0.5 bg-white focus:outline-none focus:border-gray-500"
+          >
+            <option value={1}>Off</option>
+            <option value={2}>1 time</option>
+            <option value={3}>2 times</option>
+            <option value={5}>4 times</option>
+          </select>
+        </div>
+        <label
+          className="flex items-center gap-1 text-[10px] text-gray-400 cursor-pointer"
+          title="Compare each result with the previous one and stay quiet when nothing changed"
+        >
+          <input
+            type="checkbox"
+            checked={notifyOnChangeOnly}
+            onChange={(e) => setNotifyOnChangeOnly(e.target.checked)}
+          />
+          Only on change
+        </label>
         <div className="flex-1" />
         {createError && (
           <span className="text-xs text-red-500 truncate">{createError}</span>
@@ -579,12 +756,17 @@ export function TasksPanel({ advancedMode = false }: { advancedMode?: boolean })
   const [containerRef, containerWidth] = useContainerWidth<HTMLDivElement>()
   const wide = containerWidth >= 600
   const [actionError, setActionError] = useState<string | null>(null)
+  const [copiedTaskId, setCopiedTaskId] = useState<number | null>(null)
   const [pendingRuns, setPendingRuns] = useState<Set<number>>(new Set())
   const [consoleTaskId, setConsoleTaskId] = useState<number | null>(null)
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [defaultNudgeMode, setDefaultNudgeMode] = useState('always')
   const [filters, setFilters] = useState<TaskFilters>(persistedFilters)
-  const { data: tasks, refresh, error: tasksError, isLoading } = usePolling(() => window.api.tasks.list(), 10000)
+  // Watch-linked tasks are managed from the Watches panel; only their runs surface here
+  const { data: tasks, refresh, error: tasksError, isLoading } = usePolling(
+    async () => (await window.api.tasks.list()).filter((t) => t.triggerType !== 'watch'),
+    10000
+  )
   const { data: runningRuns } = usePolling(() => window.api.tasks.getRunningRuns(), 5000)
   const { data: workers } = usePolling(() => window.api.workers.list(), 30000)
 
@@ -649,6 +831,17 @@ export function TasksPanel({ advancedMode = false }: { advancedMode?: boolean })
     }
   }
 
+  async function copyWebhookUrl(id: number): Promise<void> {
+    setActionError(null)
+    try {
+      await window.api.tasks.copyWebhookUrl(id)
+      setCopiedTaskId(id)
+      setTimeout(() => setCopiedTaskId((current) => (current === id ? null : current)), 1500)
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to copy webhook URL')
+    }
+  }
+
   // Clear pending flags once polling detects the actual running run
   useEffect(() => {
     if (pendingRuns.size === 0) return
@@ -818,6 +1011,11 @@ export function TasksPanel({ advancedMode = false }: { advancedMode?: boolean })
                   <div className="text-[10px] text-gray-400 flex items-center gap-1 mt-0.5">
                     {source && <span>via {source}</span>}
                     {worker && <span className="text-purple-400">{worker.name}</span>}
+                    {task.workingDirectory && (
+                      <span className="font-mono text-gray-500" title={task.workingDirectory}>
+                        {folderName(task.workingDirectory)}/
+                      </span>
+                    )}
                     {task.sessionContinuity && (
                       <span className="px-1 py-0.5 rounded bg-violet-100 text-violet-600 leading-none">cont</span>
                     )}
@@ -829,6 +1027,9 @@ export function TasksPanel({ advancedMode = false }: { advancedMode?: boolean })
                 </td>
                 <td className="px-3 py-2 text-gray-500 whitespace-nowrap">
                   {triggerLabel(task)}
+                  {nextRunLabel(task) && (
+                    <div className="text-[10px] text-gray-400">{nextRunLabel(task)}</div>
+                  )}
                   {task.maxRuns != null && (
                     <div className="text-[10px] text-gray-400">{task.runCount}/{task.maxRuns} runs</div>
                   )}
@@ -857,6 +1058,14 @@ export function TasksPanel({ advancedMode = false }: { advancedMode?: boolean })
                     >
                       {busy ? 'Running' : 'Run'}
                     </button>
+                    {task.triggerType === 'webhook' && (
+                      <button
+                        onClick={() => copyWebhookUrl(task.id)}
+                        className="text-xs text-gray-500 hover:text-gray-700"
+                      >
+                        {copiedTaskId === task.id ? 'Copied' : 'Copy URL'}
+                      </button>
+                    )}
                     {task.status !== 'completed' && (
                       <button
                         onClick={() => togglePause(task)}
@@ -900,12 +1109,18 @@ export function TasksPanel({ advancedMode = false }: { advancedMode?: boolean })
                 )}
                 {source && <span className="ml-1.5 text-gray-300">via {source}</span>}
                 {worker && <span className="ml-1.5 text-purple-400">{worker.name}</span>}
+                {task.workingDirectory && (
+                  <span className="ml-1.5 font-mono text-gray-500" title={task.workingDirectory}>
+                    {folderName(task.workingDirectory)}/
+                  </span>
+                )}
                 {task.sessionContinuity && (
                   <span className="ml-1.5 px-1 py-0.5 rounded bg-violet-100 text-violet-600">continuous</span>
                 )}
               </div>
               <div className="text-xs text-gray-400 mb-1.5">
                 Last run: {formatRelativeTime(task.lastRun)}
+                {nextRunLabel(task) && <span className="ml-1.5">{nextRunLabel(task)}</span>}
               </div>
               {activeRun && <ProgressBar run={activeRun} />}
               {activeRun && consoleTaskId === task.id && (
@@ -919,6 +1134,14 @@ export function TasksPanel({ advancedMode = false }: { advancedMode?: boolean })
                 >
                   {busy ? 'Running' : 'Run Now'}
                 </button>
+                {task.triggerType === 'webhook' && (
+                  <button
+                    onClick={() => copyWebhookUrl(task.id)}
+                    className="text-xs text-gray-500 hover:text-gray-700"
+                  >
+                    {copiedTaskId === task.id ? 'Copied' : 'Copy URL'}
+                  </button>
+                )}
                 {task.status !== 'completed' && (
                   <button
                     onClick={() => togglePause(task)}
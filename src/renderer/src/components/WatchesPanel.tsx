@@ -1,14 +1,45 @@
 import { useState } from 'react'
-import type { Watch } from '@shared/types'
+import type { Watch, WatchEventType } from '@shared/types'
 import { usePolling } from '../hooks/usePolling'
 import { formatRelativeTime } from '../utils/time'
 
+const EVENT_TYPES: WatchEventType[] = ['created', 'modified', 'deleted']
+
+function parsePatterns(value: string): string[] {
+  return value.split(',').map((p) => p.trim()).filter(Boolean)
+}
+
+function filterSummary(watch: Watch): string | null {
+  const parts: string[] = []
+  if (watch.includePatterns.length > 0) parts.push(`only ${watch.includePatterns.join(', ')}`)
+  if (watch.excludePatterns.length > 0) parts.push(`ignoring ${watch.excludePatterns.join(', ')}`)
+  if (watch.eventTypes.length > 0) parts.push(`on ${watch.eventTypes.join('/')}`)
+  if (watch.maxDepth !== 2) parts.push(`depth ${watch.maxDepth}`)
+  if (watch.batchWindowSeconds) parts.push(`batched ${watch.batchWindowSeconds}s`)
+  return parts.length > 0 ? parts.join(' • ') : null
+}
+
+function WatchFilters({ watch }: { watch: Watch }): React.JSX.Element | null {
+  const summary = filterSummary(watch)
+  if (!summary) return null
+  return (
+    <div className="text-[10px] text-gray-400 font-mono truncate" title={summary}>
+      {summary}
+    </div>
+  )
+}
+
 export function WatchesPanel(): React.JSX.Element {
   const { data: watches, error, isLoading, refresh } = usePolling(() => window.api.watches.list(), 5000)
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [path, setPath] = useState('')
   const [description, setDescription] = useState('')
   const [actionPrompt, setActionPrompt] = useState('')
+  const [includePatterns, setIncludePatterns] = useState('')
+  const [excludePatterns, setExcludePatterns] = useState('')
+  const [maxDepth, setMaxDepth] = useState(2)
+  const [eventTypes, setEventTypes] = useState<WatchEventType[]>([])
+  const [batchSeconds, setBatchSeconds] = useState('')
   const [createError, setCreateError] = useState<string | null>(null)
   const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null)
 
@@ -27,10 +58,21 @@ export function WatchesPanel(): React.JSX.Element {
     }
     setCreateError(null)
     try {
-      await window.api.watches.create(path.trim(), description || undefined, actionPrompt || undefined)
+      await window.api.watches.create(path.trim(), description || undefined, actionPrompt || undefined, {
+        includePatterns: parsePatterns(includePatterns),
+        excludePatterns: parsePatterns(excludePatterns),
+        maxDepth,
+        eventTypes,
+        batchWindowSeconds: Number(batchSeconds) || undefined
+      })
       setPath('')
       setDescription('')
       setActionPrompt('')
+      setIncludePatterns('')
+      setExcludePatterns('')
+      setMaxDepth(2)
+      setEventTypes([])
+      setBatchSeconds('')
       setShowCreateForm(false)
       refresh()
     } catch (err) {
@@ -39,6 +81,10 @@ export function WatchesPanel(): React.JSX.Element {
     }
   }
 
+  function toggleEventType(type: WatchEventType): void {
+    setEventTypes((prev) => prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type])
+  }
+
   async function togglePause(watch: Watch): Promise<void> {
     try {
       if (watch.status === 'paused') {
@@ -110,6 +156,67 @@ export function WatchesPanel(): React.JSX.Element {
             placeholder="Action prompt (optional)"
             className="w-full px-2.5 py-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white resize-y"
           />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={includePatterns}
+              onChange={(e) => setIncludePatterns(e.target.value)}
+              placeholder="Only files matching (e.g. *.pdf)"
+              className="flex-1 min-w-0 px-2.5 py-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+            />
+            <input
+              type="text"
+              value={excludePatterns}
+              onChange={(e) => setExcludePatterns(e.target.value)}
+              placeholder="Ignore (e.g. node_modules, .git)"
+              className="flex-1 min-w-0 px-2.5 py-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1 text-xs text-gray-500">
+              Depth
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={maxDepth}
+                onChange={(e) => setMaxDepth(Math.min(20, Math.max(1, Number(e.target.value) || 1)))}
+                className="w-12 px-1.5 py-0.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+              />
+            </label>
+            <label
+              className="flex items-center gap-1 text-xs text-gray-500"
+              title="Wait until the folder is quiet this long, then run one action for all changes. Leave empty to run per file."
+            >
+              Batch
+              <input
+                type="number"
+                min={1}
+                max={3600}
+                value={batchSeconds}
+                onChange={(e) => setBatchSeconds(e.target.value.replace(/\D/g, ''))}
+                placeholder="off"
+                className="w-12 px-1.5 py-0.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-gray-500 bg-white"
+              />
+              s
+            </label>
+            <div className="flex items-center gap-1" title="Trigger only on these events (none selected = all)">
+              {EVENT_TYPES.map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => toggleEventType(type)}
+                  className={`text-[10px] font-medium px-1.5 py-0.5 rounded border transition-colors ${
+                    eventTypes.includes(type)
+                      ? 'bg-blue-500 border-blue-500 text-white'
+                      : 'bg-white border-gray-300 text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="flex items-center justify-between">
             {createError && (
               <span className="text-xs text-red-500 truncate">{createError}</span>
@@ -149,6 +256,7 @@ export function WatchesPanel(): React.JSX.Element {
                 <div className="text-xs text-gray-400">
                   {watch.description ?? 'No description'}
                 </div>
+                <WatchFilters watch={watch} />
               </div>
               <div className="flex items-center gap-2 shrink-0">
                 <button
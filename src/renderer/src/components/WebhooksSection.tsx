@@ -0,0 +1,233 @@
+import { useState } from 'react'
+import { usePolling } from '../hooks/usePolling'
+import type { Webhook, WebhookDelivery, WebhookEvent, WebhookFormat } from '@shared/types'
+import { formatDateTimeShort } from '../utils/time'
+
+const POLL_INTERVAL_MS = 5000
+
+const EVENT_LABELS: Array<[WebhookEvent, string]> = [
+  ['run.started', 'Started'],
+  ['run.completed', 'Completed'],
+  ['run.failed', 'Failed or cancelled']
+]
+
+const FORMAT_LABELS: Array<[WebhookFormat, string]> = [
+  ['json', 'JSON'],
+  ['slack', 'Slack'],
+  ['text', 'Text (ntfy)']
+]
+
+const DELIVERY_STATUS_COLORS: Record<WebhookDelivery['status'], string> = {
+  delivered: 'text-green-600',
+  pending: 'text-orange-500',
+  failed: 'text-red-500'
+}
+
+interface WebhookData {
+  webhooks: Webhook[]
+  deliveries: WebhookDelivery[]
+}
+
+export function WebhooksSection(): React.JSX.Element {
+  const { data, refresh } = usePolling<WebhookData>(async () => {
+    const [webhooks, deliveries] = await Promise.all([
+      window.api.webhooks.list(),
+      window.api.webhooks.getDeliveries(undefined, 20)
+    ])
+    return { webhooks, deliveries }
+  }, POLL_INTERVAL_MS)
+  const [adding, setAdding] = useState(false)
+  const [name, setName] = useState('')
+  const [url, setUrl] = useState('')
+  const [format, setFormat] = useState<WebhookFormat>('json')
+  const [events, setEvents] = useState<WebhookEvent[]>(['run.completed', 'run.failed'])
+  const [secret, setSecret] = useState('')
+  const [bodyTemplate, setBodyTemplate] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [testing, setTesting] = useState<number | null>(null)
+
+  const webhookNames = new Map((data?.webhooks ?? []).map((w) => [w.id, w.name]))
+
+  function resetForm(): void {
+    setAdding(false)
+    setName('')
+    setUrl('')
+    setFormat('json')
+    setEvents(['run.completed', 'run.failed'])
+    setSecret('')
+    setBodyTemplate('')
+    setError(null)
+  }
+
+  function toggleEvent(event: WebhookEvent): void {
+    setEvents((prev) => prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event])
+  }
+
+  async function handleCreate(): Promise<void> {
+    setError(null)
+    try {
+      await window.api.webhooks.create({
+        name: name.trim(),
+        url: url.trim(),
+        format,
+        events,
+        secret: secret || undefined,
+        bodyTemplate: bodyTemplate.trim() || undefined
+      })
+      resetForm()
+      refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save webhook')
+    }
+  }
+
+  async function toggleEnabled(webhook: Webhook): Promise<void> {
+    await window.api.webhooks.update(webhook.id, { enabled: !webhook.enabled })
+    refresh()
+  }
+
+  async function handleDelete(id: number): Promise<void> {
+    await window.api.webhooks.delete(id)
+    refresh()
+  }
+
+  async function handleTest(id: number): Promise<void> {
+    setTesting(id)
+    try {
+      await window.api.webhooks.test(id)
+    } finally {
+      setTesting(null)
+      refresh()
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-xs font-semibold text-gray-700">Webhooks</h3>
+        {!adding && (
+          <button onClick={() => setAdding(true)} className="text-blue-500 hover:text-blue-700 text-xs cursor-pointer">
+            + Add
+          </button>
+        )}
+      </div>
+      <p className="text-[10px] text-gray-400 mb-1.5 leading-tight">Post task runs to Slack, ntfy or your own endpoints.</p>
+      <div className="bg-gray-50 rounded-lg p-2 space-y-1">
+        {data?.webhooks.length === 0 && !adding && (
+          <p className="text-xs text-gray-400 py-1">No webhooks yet</p>
+        )}
+        {data?.webhooks.map((webhook) => (
+          <div key={webhook.id} className="py-1">
+            <div className="flex items-center justify-between text-xs gap-2">
+              <span className={`truncate ${webhook.enabled ? 'text-gray-600' : 'text-gray-400 line-through'}`} title={webhook.url}>
+                {webhook.name}
+              </span>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => handleTest(webhook.id)}
+                  disabled={testing === webhook.id}
+                  className="text-blue-500 hover:text-blue-700 cursor-pointer disabled:text-gray-400"
+                >
+                  {testing === webhook.id ? 'Sending...' : 'Test'}
+                </button>
+                <button onClick={() => toggleEnabled(webhook)} className="text-gray-500 hover:text-gray-700 cursor-pointer">
+                  {webhook.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button onClick={() => handleDelete(webhook.id)} className="text-red-400 hover:text-red-600 cursor-pointer">
+                  Delete
+                </button>
+              </div>
+            </div>
+            <p className="text-[10px] text-gray-400 leading-tight truncate">
+              {FORMAT_LABELS.find(([value]) => value === webhook.format)?.[1]} · {webhook.events.length === 0 ? 'all events' : webhook.events.join(', ')}
+              {webhook.secret ? ' · signed' : ''}
+            </p>
+          </div>
+        ))}
+
+        {adding && (
+          <div className="space-y-1.5 py-1">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              className="w-full bg-white border border-gray-200 rounded px-1.5 py-0.5 text-xs text-gray-600"
+            />
+            <input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://hooks.slack.com/services/…"
+              className="w-full bg-white border border-gray-200 rounded px-1.5 py-0.5 text-xs text-gray-600"
+            />
+            <div className="flex items-center gap-0.5 text-xs">
+              {FORMAT_LABELS.map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setFormat(value)}
+                  className={`px-1.5 py-0.5 rounded cursor-pointer ${format === value ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-gray-600">
+              {EVENT_LABELS.map(([value, label]) => (
+                <label key={value} className="flex items-center gap-1">
+                  <input type="checkbox" checked={events.includes(value)} onChange={() => toggleEvent(value)} />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <input
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              placeholder="Signing secret (optional)"
+              type="password"
+              className="w-full bg-white border border-gray-200 rounded px-1.5 py-0.5 text-xs text-gray-600"
+            />
+            <textarea
+              value={bodyTemplate}
+              onChange={(e) => setBodyTemplate(e.target.value)}
+              placeholder={format === 'json'
+                ? 'Body template (optional), e.g. {"title": "{{task.name}}", "status": "{{run.status}}"}'
+                : 'Message template (optional), e.g. {{task.name}} {{run.status}}: {{run.error}}'}
+              rows={2}
+              className="w-full bg-white border border-gray-200 rounded px-1.5 py-0.5 text-xs text-gray-600 font-mono"
+            />
+            {error && <p className="text-[10px] text-red-500 leading-tight">{error}</p>}
+            <div className="flex items-center justify-end gap-2 text-xs">
+              <button onClick={resetForm} className="text-gray-500 hover:text-gray-700 cursor-pointer">Cancel</button>
+              <button
+                onClick={handleCreate}
+                disabled={!name.trim() || !url.trim()}
+                className="px-2 py-0.5 rounded bg-blue-500 text-white hover:bg-blue-600 cursor-pointer disabled:bg-gray-300"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {data && data.deliveries.length > 0 && (
+        <div className="mt-2">
+          <h4 className="text-[10px] font-medium text-gray-500 mb-0.5">Recent deliveries</h4>
+          <div className="bg-gray-50 rounded-lg p-2 space-y-0.5 max-h-40 overflow-y-auto">
+            {data.deliveries.map((delivery) => (
+              <div key={delivery.id} className="flex items-center justify-between text-[10px] gap-2" title={delivery.error ?? undefined}>
+                <span className="text-gray-500 truncate">
+                  {formatDateTimeShort(delivery.createdAt)} · {webhookNames.get(delivery.webhookId) ?? `#${delivery.webhookId}`} · {delivery.event}
+                </span>
+                <span className={`shrink-0 ${DELIVERY_STATUS_COLORS[delivery.status]}`}>
+                  {delivery.status}
+                  {delivery.responseStatus != null ? ` ${delivery.responseStatus}` : ''}
+                  {delivery.attempts > 1 ? ` (${delivery.attempts} tries)` : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+/**
+ * A small force-directed layout for the memory graph: nodes push each other
+ * apart, relations pull their ends together like springs, and a weak pull
+ * keeps everything near the centre. Good for the few hundred nodes the
+ * graph view shows at once; it is O(n²) per tick.
+ */
+
+export interface LayoutNode {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  /** Dragged by the user; forces no longer move it. */
+  pinned: boolean
+}
+
+export interface LayoutLink {
+  source: number
+  target: number
+}
+
+const REPULSION = 2400
+const SPRING_LENGTH = 80
+const SPRING_STRENGTH = 0.05
+const CENTER_STRENGTH = 0.012
+const DAMPING = 0.82
+const MAX_SPEED = 24
+
+/** A starting point for a new node: beside a neighbor already placed, else on a ring round the centre. */
+export function seedPosition(
+  positions: Map<number, LayoutNode>,
+  neighborIds: number[],
+  center: { x: number; y: number }
+): LayoutNode {
+  const anchor = neighborIds.map((id) => positions.get(id)).find((p) => p !== undefined)
+  const angle = Math.random() * Math.PI * 2
+  const radius = anchor ? SPRING_LENGTH * 0.6 : SPRING_LENGTH * (1 + Math.sqrt(positions.size) * 0.4)
+  const origin = anchor ?? center
+  return { x: origin.x + Math.cos(angle) * radius, y: origin.y + Math.sin(angle) * radius, vx: 0, vy: 0, pinned: false }
+}
+
+/**
+ * Advance the simulation by one step, scaled by `alpha` (1 at the start,
+ * cooling towards 0). Returns how far nodes moved in total, so callers can
+ * stop once the layout settles.
+ */
+export function tickLayout(
+  positions: Map<number, LayoutNode>,
+  links: LayoutLink[],
+  center: { x: number; y: number },
+  alpha: number
+): number {
+  const nodes = [...positions.values()]
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i]
+      const b = nodes[j]
+      let dx = b.x - a.x
+      let dy = b.y - a.y
+      let distSq = dx * dx + dy * dy
+      if (distSq < 0.01) {
+        // Coincident nodes: nudge apart in a random direction
+        dx = Math.random() - 0.5
+        dy = Math.random() - 0.5
+        distSq = dx * dx + dy * dy
+      }
+      const dist = Math.sqrt(distSq)
+      const force = (REPULSION / distSq) * alpha
+      const fx = (dx / dist) * force
+      const fy = (dy / dist) * force
+      a.vx -= fx
+      a.vy -= fy
+      b.vx += fx
+      b.vy += fy
+    }
+  }
+
+  for (const link of links) {
+    const a = positions.get(link.source)
+    const b = positions.get(link.target)
+    if (!a || !b || a === b) continue
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const dist = Math.sqrt(dx * dx + dy * dy) || 1
+    const force = (dist - SPRING_LENGTH) * SPRING_STRENGTH * alpha
+    const fx = (dx / dist) * force
+    const fy = (dy / dist) * force
+    a.vx += fx
+    a.vy += fy
+    b.vx -= fx
+    b.vy -= fy
+  }
+
+  let moved = 0
+  for (const node of nodes) {
+    if (node.pinned) {
+      node.vx = 0
+      node.vy = 0
+      continue
+    }
+    node.vx = (node.vx + (center.x - node.x) * CENTER_STRENGTH * alpha) * DAMPING
+    node.vy = (node.vy + (center.y - node.y) * CENTER_STRENGTH * alpha) * DAMPING
+    const speed = Math.sqrt(node.vx * node.vx + node.vy * node.vy)
+    if (speed > MAX_SPEED) {
+      node.vx = (node.vx / speed) * MAX_SPEED
+      node.vy = (node.vy / speed) * MAX_SPEED
+    }
+    node.x += node.vx
+    node.y += node.vy
+    moved += Math.abs(node.vx) + Math.abs(node.vy)
+  }
+  return moved
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { detectChange, diffJson, diffLines, normalizeText } from '../change-detection'
+
+describe('normalizeText', () => {
+  it('ignores whitespace, blank lines, dates and times', () => {
+    expect(normalizeText('Checked at 2026-10-18 09:00:12\n\n  3   new   issues \n')).toEqual(['Checked at <datetime>', '3 new issues'])
+    expect(normalizeText('Run on 2026-10-18 at 9:05 PM')).toEqual(normalizeText('Run on 2026-10-19 at 10:15 AM'))
+  })
+})
+
+describe('diffLines', () => {
+  it('lists removed and added lines in order', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual(['- b', '+ d'])
+    expect(diffLines(['same'], ['same'])).toEqual([])
+  })
+})
+
+describe('diffJson', () => {
+  it('reports changed, added and removed paths', () => {
+    expect(diffJson(
+      { price: 1, tags: ['a'], old: true },
+      { tags: ['a', 'b'], price: 2, fresh: 'x' }
+    )).toEqual(['+ $.fresh: "x"', '- $.old: true', '~ $.price: 1 → 2', '+ $.tags[1]: "b"'])
+  })
+
+  it('ignores key order', () => {
+    expect(diffJson({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 3, c: 2 }, a: 1 })).toEqual([])
+  })
+})
+
+describe('detectChange', () => {
+  it('counts the first result as changed', () => {
+    expect(detectChange('text', null, { result: 'hello' })).toEqual({ changed: true, diff: null })
+  })
+
+  it('finds no change when only formatting or timestamps differ', () => {
+    expect(detectChange('text', { result: 'Latest: v1.2\nChecked 09:00' }, { result: 'Latest:   v1.2\n\nChecked 10:30' }))
+      .toEqual({ changed: false, diff: null })
+  })
+
+  it('returns a text diff for real changes', () => {
+    expect(detectChange('text', { result: 'v1.2' }, { result: 'v1.3' })).toEqual({ changed: true, diff: '- v1.2\n+ v1.3' })
+  })
+
+  it('compares structured results field by field', () => {
+    const previous = { result: 'ignored', json: '{"cves":["CVE-1"]}' }
+    expect(detectChange('json', previous, { result: '', json: '{"cves":["CVE-1"]}' }).changed).toBe(false)
+    expect(detectChange('json', previous, { result: '```json\n{"cves": ["CVE-1", "CVE-2"]}\n```' }))
+      .toEqual({ changed: true, diff: '+ $.cves[1]: "CVE-2"' })
+  })
+
+  it('falls back to text when a result is not JSON', () => {
+    expect(detectChange('json', { result: 'no data' }, { result: 'no data' })).toEqual({ changed: false, diff: null })
+  })
+})
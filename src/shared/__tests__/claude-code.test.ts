@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { EventEmitter } from 'events'
 import { join } from 'path'
-import { parseStreamEvent } from '../claude-code'
+import { parseStreamEvent, parseUsage } from '../claude-code'
 
 // First candidate path for /mock-home on each platform
 const MOCK_HOME = '/mock-home'
@@ -72,6 +72,48 @@ describe('parseStreamEvent', () => {
   })
 })
 
+// ─── parseUsage ───────────────────────────────────────────────
+
+describe('parseUsage', () => {
+  it('reads tokens and cost from a result event', () => {
+    const event = {
+      type: 'result',
+      total_cost_usd: 0.0421,
+      usage: {
+        input_tokens: 1200,
+        output_tokens: 340,
+        cache_read_input_tokens: 9000,
+        cache_creation_input_tokens: 150
+      }
+    }
+    expect(parseUsage(event)).toEqual({
+      inputTokens: 1200,
+      outputTokens: 340,
+      cacheReadTokens: 9000,
+      cacheCreationTokens: 150,
+      costUsd: 0.0421
+    })
+  })
+
+  it('accepts the legacy cost_usd field', () => {
+    expect(parseUsage({ type: 'result', cost_usd: 0.5 })?.costUsd).toBe(0.5)
+  })
+
+  it('defaults missing counters to zero and cost to null', () => {
+    expect(parseUsage({ type: 'result', usage: { output_tokens: 7 } })).toEqual({
+      inputTokens: 0,
+      outputTokens: 7,
+      cacheReadTokens: 0,
+      cacheCreationTokens: 0,
+      costUsd: null
+    })
+  })
+
+  it('returns null when the event has no usage data', () => {
+    expect(parseUsage({ type: 'result', result: 'done' })).toBeNull()
+  })
+})
+
 // ─── checkClaudeCliAvailable ──────────────────────────────────
 
 describe('checkClaudeCliAvailable', () => {
@@ -491,6 +533,19 @@ describe('executeClaudeCode', () => {
     expect(args).toContain('WebSearch,Read,Grep')
   })
 
+  it('passes an empty --allowedTools list to allow no tools', async () => {
+    const proc = createMockProcess()
+    mockSpawn.mockReturnValue(proc)
+    const executeClaudeCode = await importWithMock()
+
+    const promise = executeClaudeCode('Test', { allowedTools: '' })
+    proc.emit('close', 0)
+    await promise
+
+    const args = mockSpawn.mock.calls[0][1] as string[]
+    expect(args[args.indexOf('--allowedTools') + 1]).toBe('')
+  })
+
   it('passes --disallowedTools flag when disallowedTools is set', async () => {
     const proc = createMockProcess()
     mockSpawn.mockReturnValue(proc)
@@ -517,5 +572,52 @@ describe('executeClaudeCode', () => {
     const args = mockSpawn.mock.calls[0][1] as string[]
     expect(args).not.toContain('--allowedTools')
     expect(args).not.toContain('--disallowedTools')
+    expect(args).not.toContain('--strict-mcp-config')
+  })
+
+  it('passes --strict-mcp-config when noMcpServers is set', async () => {
+    const proc = createMockProcess()
+    mockSpawn.mockReturnValue(proc)
+    const executeClaudeCode = await importWithMock()
+
+    const promise = executeClaudeCode('Test', { noMcpServers: true })
+    proc.emit('close', 0)
+    await promise
+
+    const args = mockSpawn.mock.calls[0][1] as string[]
+    expect(args).toContain('--strict-mcp-config')
+    expect(args).not.toContain('--mcp-config')
+  })
+
+  it('kills the process group and reports a cancelled run when aborted', async () => {
+    const proc = Object.assign(createMockProcess(), { pid: 4321 })
+    mockSpawn.mockReturnValue(proc)
+    const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true)
+    const executeClaudeCode = await importWithMock()
+
+    const controller = new AbortController()
+    const promise = executeClaudeCode('Test', { signal: controller.signal })
+    controller.abort()
+    proc.emit('close', null)
+    const result = await promise
+
+    expect(result.cancelled).toBe(true)
+    expect(result.timedOut).toBe(false)
+    if (process.platform !== 'win32') {
+      expect(mockSpawn.mock.calls[0][2]).toMatchObject({ detached: true })
+      expect(killSpy).toHaveBeenCalledWith(-4321, 'SIGTERM')
+    }
+    killSpy.mockRestore()
+  })
+
+  it('does not spawn when the signal is already aborted', async () => {
+    const executeClaudeCode = await importWithMock()
+    const controller = new AbortController()
+    controller.abort()
+
+    const result = await executeClaudeCode('Test', { signal: controller.signal })
+
+    expect(result.cancelled).toBe(true)
+    expect(mockSpawn).not.toHaveBeenCalled()
   })
 })
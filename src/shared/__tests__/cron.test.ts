@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { formatWallClock, getFireTimesBetween, isValidTimezone, listFireTimes, parseCron } from '../cron'
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const fields = parseCron('*/15 9-11 1,15 * 1-5')
+    expect([...fields.minutes]).toEqual([0, 15, 30, 45])
+    expect([...fields.hours]).toEqual([9, 10, 11])
+    expect([...fields.daysOfMonth]).toEqual([1, 15])
+    expect([...fields.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('accepts month and weekday names and treats 7 as Sunday', () => {
+    const fields = parseCron('0 9 * jan,Dec sat,sunday')
+    expect([...fields.months]).toEqual([1, 12])
+    expect([...fields.daysOfWeek].sort()).toEqual([0, 6])
+    expect([...parseCron('0 9 * * 7').daysOfWeek]).toEqual([0])
+  })
+
+  it('reads an optional leading seconds field', () => {
+    const fields = parseCron('*/20 0 12 * * *')
+    expect([...fields.seconds]).toEqual([0, 20, 40])
+    expect([...fields.hours]).toEqual([12])
+    expect([...parseCron('0 12 * * *').seconds]).toEqual([0])
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 9 * *')).toThrow()
+    expect(() => parseCron('60 * * * *')).toThrow()
+    expect(() => parseCron('0 9 * * funday')).toThrow()
+    expect(() => parseCron('*/0 * * * *')).toThrow()
+  })
+})
+
+describe('getFireTimesBetween', () => {
+  it('lists fire times after the start up to and including the end', () => {
+    const times = getFireTimesBetween(parseCron('0 7 * * *'), new Date(2026, 9, 15, 7, 0), new Date(2026, 9, 18, 7, 0))
+    expect(times).toEqual([new Date(2026, 9, 16, 7, 0), new Date(2026, 9, 17, 7, 0), new Date(2026, 9, 18, 7, 0)])
+  })
+
+  it('requires both day of month and day of week to match', () => {
+    // Fridays the 13th in 2026
+    const times = getFireTimesBetween(parseCron('0 0 13 * 5'), new Date(2026, 0, 1), new Date(2026, 11, 31))
+    expect(times).toEqual([new Date(2026, 1, 13), new Date(2026, 2, 13), new Date(2026, 10, 13)])
+  })
+
+  it('stops at the limit', () => {
+    const times = getFireTimesBetween(parseCron('* * * * *'), new Date(2026, 0, 1), new Date(2026, 1, 1), { limit: 3 })
+    expect(times).toHaveLength(3)
+  })
+})
+
+describe('time zones', () => {
+  const NY = 'America/New_York'
+
+  it('evaluates the expression on the wall clock of the zone', () => {
+    const times = getFireTimesBetween(parseCron('0 9 * * *'), new Date('2026-01-05T00:00:00Z'), new Date('2026-01-06T00:00:00Z'), { timezone: NY })
+    expect(times).toEqual([new Date('2026-01-05T14:00:00Z')])
+    const summer = getFireTimesBetween(parseCron('0 9 * * *'), new Date('2026-07-06T00:00:00Z'), new Date('2026-07-07T00:00:00Z'), { timezone: NY })
+    expect(summer).toEqual([new Date('2026-07-06T13:00:00Z')])
+  })
+
+  it('checks the weekday in the zone, not on the machine', () => {
+    // Monday 20:00 in New York is already Tuesday in UTC and in Tokyo
+    const times = getFireTimesBetween(parseCron('0 20 * * 1'), new Date('2026-01-05T00:00:00Z'), new Date('2026-01-07T00:00:00Z'), { timezone: NY })
+    expect(times).toEqual([new Date('2026-01-06T01:00:00Z')])
+  })
+
+  it('runs a time skipped by spring forward right after the jump', () => {
+    // 2026-03-08: 02:00 EST becomes 03:00 EDT
+    const times = listFireTimes(parseCron('30 2 * * *'), new Date('2026-03-07T00:00:00Z'), new Date('2026-03-10T00:00:00Z'), { timezone: NY })
+    expect(times).toEqual([
+      { at: new Date('2026-03-07T07:30:00Z'), shifted: false },
+      { at: new Date('2026-03-08T07:00:00Z'), shifted: true },
+      { at: new Date('2026-03-09T06:30:00Z'), shifted: false }
+    ])
+  })
+
+  it('runs a time repeated by fall back only once', () => {
+    // 2026-11-01: 02:00 EDT becomes 01:00 EST, so 01:30 happens twice
+    const times = getFireTimesBetween(parseCron('30 1 * * *'), new Date('2026-10-31T12:00:00Z'), new Date('2026-11-02T12:00:00Z'), { timezone: NY })
+    expect(times).toEqual([new Date('2026-11-01T05:30:00Z'), new Date('2026-11-02T06:30:00Z')])
+  })
+
+  it('keeps hourly schedules hourly across the change', () => {
+    const spring = getFireTimesBetween(parseCron('0 * * * *'), new Date('2026-03-08T05:30:00Z'), new Date('2026-03-08T08:30:00Z'), { timezone: NY })
+    expect(spring.map((d) => formatWallClock(d, NY))).toEqual(['2026-03-08 01:00', '2026-03-08 03:00', '2026-03-08 04:00'])
+  })
+
+  it('validates zone names', () => {
+    expect(isValidTimezone('Europe/Berlin')).toBe(true)
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false)
+  })
+})
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import Database from 'better-sqlite3'
+import * as sqliteVec from 'sqlite-vec'
 import * as q from '../db-queries'
+import { runMigrations } from '../db-migrations'
 import { initTestDb } from './helpers/test-db'
 
 let db: Database.Database
@@ -105,6 +107,78 @@ describe('searchEntities', () => {
     const results = q.searchEntities(db, 'zzzznotfound')
     expect(results).toHaveLength(0)
   })
+
+  it('finds entities by what their observations say', () => {
+    const alice = q.createEntity(db, 'Alice', 'person')
+    q.addObservation(db, alice.id, 'Leads the payments migration')
+    q.createEntity(db, 'Bob', 'person')
+
+    expect(q.searchEntities(db, 'payments').map((e) => e.name)).toEqual(['Alice'])
+    // Terms can span the entity name and an observation
+    expect(q.searchEntities(db, 'alice migration').map((e) => e.name)).toEqual(['Alice'])
+  })
+})
+
+describe('searchMemory', () => {
+  it('returns a highlighted snippet and the matching observations', () => {
+    const alice = q.createEntity(db, 'Alice', 'person')
+    const tea = q.addObservation(db, alice.id, 'Prefers green tea in the afternoon')
+    q.addObservation(db, alice.id, 'Works from Lisbon')
+
+    const [match] = q.searchMemory(db, 'tea')
+    expect(match.entity.id).toBe(alice.id)
+    expect(match.snippet).toBe('Prefers green **tea** in the afternoon')
+    expect(match.observationIds).toEqual([tea.id])
+  })
+
+  it('does not count observations as matches on a name-only hit', () => {
+    const alice = q.createEntity(db, 'Alice', 'person')
+    q.addObservation(db, alice.id, 'Works from Lisbon')
+
+    expect(q.searchMemory(db, 'alice')).toMatchObject([{ snippet: '**Alice**', observationIds: [] }])
+  })
+
+  it('keeps the index in step with observation and entity changes', () => {
+    const entity = q.createEntity(db, 'Acme')
+    const obs = q.addObservation(db, entity.id, 'Renewal due in March')
+
+    db.prepare('UPDATE observations SET content = ? WHERE id = ?').run('Renewal due in April', obs.id)
+    expect(q.searchEntities(db, 'march')).toHaveLength(0)
+    expect(q.searchEntities(db, 'april')).toHaveLength(1)
+
+    q.updateEntity(db, entity.id, { name: 'Acme Corp' })
+    expect(q.searchMemory(db, 'corp april')[0]?.observationIds).toEqual([obs.id])
+
+    q.deleteObservation(db, obs.id)
+    expect(q.searchEntities(db, 'april')).toHaveLength(0)
+    q.deleteEntity(db, entity.id)
+    expect(db.prepare('SELECT COUNT(*) AS n FROM memory_fts').get()).toEqual({ n: 0 })
+  })
+
+  it('keys entity rows by negative id and observation rows by observation id', () => {
+    const entity = q.createEntity(db, 'Acme', 'project', 'work')
+    const obs = q.addObservation(db, entity.id, 'Renewal due in March')
+    q.addObservation(db, entity.id, 'Owned by Dana')
+    q.updateEntity(db, entity.id, { name: 'Acme Corp' })
+
+    const rows = db.prepare('SELECT rowid, name, entity_id, observation_id FROM memory_fts ORDER BY rowid').all()
+    expect(rows).toEqual([
+      { rowid: -entity.id, name: 'Acme Corp', entity_id: entity.id, observation_id: null },
+      { rowid: obs.id, name: 'Acme Corp', entity_id: entity.id, observation_id: obs.id },
+      { rowid: obs.id + 1, name: 'Acme Corp', entity_id: entity.id, observation_id: obs.id + 1 }
+    ])
+
+    // Deleting the entity cascades to its observations, each removing its own row
+    q.deleteEntity(db, entity.id)
+    expect(db.prepare('SELECT COUNT(*) AS n FROM memory_fts').get()).toEqual({ n: 0 })
+  })
+
+  it('falls back to substring matching for queries FTS cannot parse', () => {
+    const entity = q.createEntity(db, 'Build')
+    const obs = q.addObservation(db, entity.id, 'Run "npm ci" before tests')
+
+    expect(q.searchMemory(db, '"npm ci')).toEqual([{ entity: expect.objectContaining({ id: entity.id }), snippet: null, observationIds: [obs.id] }])
+  })
 })
 
 // ─── Observations ──────────────────────────────────────────────
@@ -197,6 +271,59 @@ describe('deleteRelation', () => {
   })
 })
 
+describe('updateObservation', () => {
+  it('edits the content and keeps search and embeddings in step', () => {
+    const entity = q.createEntity(db, 'Acme')
+    const obs = q.addObservation(db, entity.id, 'Renewal in March')
+    q.markEntityEmbedded(db, entity.id)
+
+    q.updateObservation(db, obs.id, 'Renewal in April')
+    expect(q.getObservation(db, obs.id)?.content).toBe('Renewal in April')
+    expect(q.searchEntities(db, 'April').map((e) => e.id)).toEqual([entity.id])
+    expect(q.getUnembeddedEntities(db).map((e) => e.id)).toEqual([entity.id])
+  })
+})
+
+describe('getMemoryGraph', () => {
+  it('follows relations both ways and includes relations among the reached entities', () => {
+    const [a, b, c, d] = ['A', 'B', 'C', 'D'].map((name) => q.createEntity(db, name))
+    q.addRelation(db, a.id, b.id, 'knows')
+    q.addRelation(db, c.id, a.id, 'manages')
+    q.addRelation(db, b.id, c.id, 'works_with')
+    q.addRelation(db, c.id, d.id, 'owns')
+
+    const graph = q.getMemoryGraph(db, a.id, 1)!
+    expect(graph.nodes.map((n) => [n.name, n.depth])).toEqual([['A', 0], ['B', 1], ['C', 1]])
+    expect(graph.relations.map((r) => r.relation_type)).toEqual(['knows', 'manages', 'works_with'])
+    expect(graph.truncated).toBe(false)
+    expect(q.getMemoryGraph(db, a.id, 2)!.nodes.map((n) => n.name)).toContain('D')
+  })
+
+  it('starts an overview from the best-connected entities', () => {
+    const [a, b, c] = ['A', 'B', 'C'].map((name) => q.createEntity(db, name, 'person'))
+    const loner = q.createEntity(db, 'Loner', 'fact')
+    q.addRelation(db, a.id, b.id, 'knows')
+    q.addRelation(db, a.id, c.id, 'knows')
+
+    const overview = q.getMemoryGraphOverview(db, { limit: 2 })
+    expect(overview.nodes.map((n) => n.name)).toEqual(['A', expect.any(String)])
+    expect(overview.relations).toHaveLength(1)
+    expect(overview).toMatchObject({ rootId: null, truncated: true })
+    expect(q.getMemoryGraphOverview(db, { type: 'fact' }).nodes.map((n) => n.id)).toEqual([loner.id])
+  })
+
+  it('stops at the node limit', () => {
+    const hub = q.createEntity(db, 'Hub')
+    for (let i = 0; i < 5; i++) q.addRelation(db, hub.id, q.createEntity(db, `Spoke ${i}`).id, 'has')
+
+    const graph = q.getMemoryGraph(db, hub.id, 1, 3)!
+    expect(graph.nodes).toHaveLength(3)
+    expect(graph.relations).toHaveLength(2)
+    expect(graph.truncated).toBe(true)
+    expect(q.getMemoryGraph(db, 999)).toBeNull()
+  })
+})
+
 // ─── Stats ─────────────────────────────────────────────────────
 
 describe('getMemoryStats', () => {
@@ -241,6 +368,27 @@ describe('createTask', () => {
     expect(task.scheduledAt).toBeNull()
   })
 
+  it('defaults to skipping missed runs and stores a misfire policy', () => {
+    expect(q.createTask(db, { name: 'A', prompt: 'p' }).misfirePolicy).toBe('skip')
+    const task = q.createTask(db, { name: 'B', prompt: 'p', cronExpression: '0 7 * * *', misfirePolicy: 'run_all', misfireLimit: 4 })
+    expect(task.misfirePolicy).toBe('run_all')
+    expect(task.misfireLimit).toBe(4)
+  })
+
+  it('stores and clears a time zone', () => {
+    const task = q.createTask(db, { name: 'Digest', prompt: 'p', cronExpression: '0 9 * * *', timezone: 'America/New_York' })
+    expect(task.timezone).toBe('America/New_York')
+    q.updateTask(db, task.id, { timezone: null })
+    expect(q.getTask(db, task.id)!.timezone).toBeNull()
+  })
+
+  it('stores and clears a working directory', () => {
+    const task = q.createTask(db, { name: 'Repo', prompt: 'Run tests', workingDirectory: '/tmp/project' })
+    expect(task.workingDirectory).toBe('/tmp/project')
+    q.updateTask(db, task.id, { workingDirectory: null })
+    expect(q.getTask(db, task.id)!.workingDirectory).toBeNull()
+  })
+
   it('creates a one-time task with scheduledAt', () => {
     const future = new Date(Date.now() + 3600000).toISOString()
     const task = q.createTask(db, {
@@ -404,6 +552,34 @@ describe('updateTask', () => {
   })
 })
 
+describe('webhook trigger', () => {
+  it('gives webhook tasks a token and keeps their payload path', () => {
+    const task = q.createTask(db, { name: 'Hook', prompt: 'p', triggerType: 'webhook', webhookPayloadPath: '$.title' })
+    expect(task.webhookToken).toMatch(/^[\w-]{32}$/)
+    expect(task.webhookPayloadPath).toBe('$.title')
+    expect(q.createTask(db, { name: 'Plain', prompt: 'p' }).webhookToken).toBeNull()
+  })
+
+  it('adds a token when a task switches to the webhook trigger', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p', triggerType: 'manual' })
+    q.updateTask(db, task.id, { triggerType: 'webhook' })
+    const token = q.getTask(db, task.id)!.webhookToken
+    expect(token).toBeTruthy()
+
+    q.updateTask(db, task.id, { triggerType: 'webhook', webhookPayloadPath: null })
+    expect(q.getTask(db, task.id)!.webhookToken).toBe(token)
+  })
+
+  it('lists only tasks using the webhook trigger', () => {
+    const hook = q.createTask(db, { name: 'Hook', prompt: 'p', triggerType: 'webhook' })
+    const switched = q.createTask(db, { name: 'Was hook', prompt: 'p', triggerType: 'webhook' })
+    q.createTask(db, { name: 'Cron', prompt: 'p', cronExpression: '0 9 * * *' })
+    q.updateTask(db, switched.id, { triggerType: 'manual' })
+
+    expect(q.listWebhookTasks(db).map((t) => t.id)).toEqual([hook.id])
+  })
+})
+
 describe('deleteTask', () => {
   it('deletes a task', () => {
     const task = q.createTask(db, { name: 'T', prompt: 'p' })
@@ -483,6 +659,99 @@ describe('completeTaskRun', () => {
   })
 })
 
+describe('cancelTaskRun', () => {
+  it('marks the run cancelled without counting an error', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    const failed = q.createTaskRun(db, task.id)
+    q.completeTaskRun(db, failed.id, '', undefined, 'error')
+
+    const run = q.createTaskRun(db, task.id)
+    q.cancelTaskRun(db, run.id, 'partial output')
+    const cancelled = q.getTaskRun(db, run.id)!
+    expect(cancelled.status).toBe('cancelled')
+    expect(cancelled.result).toBe('partial output')
+    expect(cancelled.errorMessage).toBe('Cancelled')
+    expect(cancelled.finishedAt).toBeTruthy()
+    expect(q.getTask(db, task.id)!.errorCount).toBe(1)
+  })
+})
+
+describe('task retry policy', () => {
+  it('defaults to a single attempt retrying exit codes and timeouts', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    expect(task.maxAttempts).toBe(1)
+    expect(task.retryBackoff).toBe('exponential')
+    expect(task.retryDelaySeconds).toBe(60)
+    expect(task.retryOn).toEqual(['exit_code', 'timeout'])
+  })
+
+  it('stores and updates the policy', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p', maxAttempts: 3, retryOn: ['empty_output'] })
+    expect(q.getTask(db, task.id)!.retryOn).toEqual(['empty_output'])
+
+    q.updateTask(db, task.id, { retryBackoff: 'fixed', retryOn: [] })
+    const updated = q.getTask(db, task.id)!
+    expect(updated.maxAttempts).toBe(3)
+    expect(updated.retryBackoff).toBe('fixed')
+    expect(updated.retryOn).toEqual([])
+
+    q.updateTask(db, task.id, { retryOn: null })
+    expect(q.getTask(db, task.id)!.retryOn).toEqual(['exit_code', 'timeout'])
+  })
+
+  it('stores success criteria as JSON', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p', successCriteria: { mustContain: ['BTC'], jsonSchema: { type: 'object' } } })
+    expect(q.getTask(db, task.id)!.successCriteria).toEqual({ mustContain: ['BTC'], jsonSchema: { type: 'object' } })
+    expect(q.createTask(db, { name: 'U', prompt: 'p' }).successCriteria).toBeNull()
+
+    q.updateTask(db, task.id, { successCriteria: null })
+    expect(q.getTask(db, task.id)!.successCriteria).toBeNull()
+  })
+
+  it('stores an output schema and a run\'s JSON result', () => {
+    const schema = { type: 'array', items: { type: 'string' } }
+    const task = q.createTask(db, { name: 'T', prompt: 'p', outputSchema: schema })
+    expect(q.getTask(db, task.id)!.outputSchema).toEqual(schema)
+
+    const run = q.createTaskRun(db, task.id)
+    expect(q.getTaskRun(db, run.id)!.resultJson).toBeNull()
+    q.updateTaskRunResultJson(db, run.id, '["a"]')
+    expect(q.getTaskRun(db, run.id)!.resultJson).toBe('["a"]')
+  })
+
+  it('finds the previous successful run for change detection', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p', changeDetection: 'text' })
+    expect(task.changeDetection).toBe('text')
+    const ok = q.createTaskRun(db, task.id)
+    q.completeTaskRun(db, ok.id, 'v1')
+    const failed = q.createTaskRun(db, task.id)
+    q.completeTaskRun(db, failed.id, '', undefined, 'boom')
+    const current = q.createTaskRun(db, task.id)
+
+    expect(q.getPreviousSuccessfulTaskRun(db, task.id, current.id)!.id).toBe(ok.id)
+    expect(q.getPreviousSuccessfulTaskRun(db, task.id, ok.id)).toBeNull()
+
+    q.updateTaskRunChange(db, current.id, false, null)
+    expect(q.getTaskRun(db, current.id)).toMatchObject({ changed: false, diff: null })
+  })
+
+  it('records attempts as children of a run', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p', maxAttempts: 3 })
+    const run = q.createTaskRun(db, task.id)
+    q.setTaskRunAttempt(db, run.id, 1, 3)
+    q.recordTaskRunAttempt(db, run.id, 1, 'failed', 'Exit code 1: boom', 120)
+    q.setTaskRunAttempt(db, run.id, 2, 3)
+
+    expect(q.getTaskRun(db, run.id)).toMatchObject({ attempt: 2, maxAttempts: 3 })
+    expect(q.getTaskRunAttempts(db, run.id)).toMatchObject([
+      { runId: run.id, attempt: 1, status: 'failed', errorMessage: 'Exit code 1: boom', durationMs: 120 }
+    ])
+
+    q.deleteTask(db, task.id)
+    expect(q.getTaskRunAttempts(db, run.id)).toEqual([])
+  })
+})
+
 describe('getTaskRuns', () => {
   it('returns runs for a task, ordered by started_at desc', () => {
     const task = q.createTask(db, { name: 'T', prompt: 'p' })
@@ -500,6 +769,22 @@ describe('getTaskRuns', () => {
   })
 })
 
+describe('listRuns', () => {
+  it('filters by task and status and pages newest first', () => {
+    const t1 = q.createTask(db, { name: 'T1', prompt: 'p' })
+    const t2 = q.createTask(db, { name: 'T2', prompt: 'p' })
+    const first = q.createTaskRun(db, t1.id)
+    q.completeTaskRun(db, first.id, 'done')
+    const second = q.createTaskRun(db, t1.id)
+    const other = q.createTaskRun(db, t2.id)
+
+    expect(q.listRuns(db).map((r) => r.id)).toEqual([other.id, second.id, first.id])
+    expect(q.listRuns(db, { taskId: t1.id }).map((r) => r.id)).toEqual([second.id, first.id])
+    expect(q.listRuns(db, { taskId: t1.id, status: 'completed' }).map((r) => r.id)).toEqual([first.id])
+    expect(q.listRuns(db, { limit: 1, offset: 1 }).map((r) => r.id)).toEqual([second.id])
+  })
+})
+
 describe('listAllRuns', () => {
   it('lists runs across all tasks', () => {
     const t1 = q.createTask(db, { name: 'T1', prompt: 'p' })
@@ -643,6 +928,264 @@ describe('getRunningTaskRuns', () => {
   })
 })
 
+// ─── Usage Accounting ───────────────────────────────────────────
+
+describe('usage accounting', () => {
+  const usage = { inputTokens: 1000, outputTokens: 200, cacheReadTokens: 5000, cacheCreationTokens: 10, costUsd: 0.25 }
+
+  it('accumulates usage on a run', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    const run = q.createTaskRun(db, task.id)
+    q.addTaskRunUsage(db, run.id, usage)
+    q.addTaskRunUsage(db, run.id, { ...usage, costUsd: null })
+    const updated = q.getTaskRun(db, run.id)!
+    expect(updated.inputTokens).toBe(2000)
+    expect(updated.cacheCreationTokens).toBe(20)
+    expect(updated.costUsd).toBeCloseTo(0.25)
+  })
+
+  it('aggregates by task, worker and day', () => {
+    const worker = q.createWorker(db, { name: 'Researcher', systemPrompt: 's' })
+    const heavy = q.createTask(db, { name: 'Heavy', prompt: 'p' })
+    const light = q.createTask(db, { name: 'Light', prompt: 'p' })
+    for (let i = 0; i < 2; i++) {
+      const run = q.createTaskRun(db, heavy.id)
+      q.updateTaskRunWorker(db, run.id, worker.id)
+      q.addTaskRunUsage(db, run.id, usage)
+    }
+    const lightRun = q.createTaskRun(db, light.id)
+    q.addTaskRunUsage(db, lightRun.id, { ...usage, costUsd: 0.01 })
+    q.createTaskRun(db, light.id)
+
+    const report = q.getUsageReport(db, 7)
+    expect(report.totals.runs).toBe(4)
+    expect(report.totals.inputTokens).toBe(3000)
+    expect(report.totals.costUsd).toBeCloseTo(0.51)
+
+    expect(report.byTask.map((t) => t.taskName)).toEqual(['Heavy', 'Light'])
+    expect(report.byTask[0].costUsd).toBeCloseTo(0.5)
+    expect(report.byTask[1].runs).toBe(2)
+
+    const researcher = report.byWorker.find((w) => w.workerId === worker.id)!
+    expect(researcher.workerName).toBe('Researcher')
+    expect(researcher.outputTokens).toBe(400)
+    expect(report.byWorker.find((w) => w.workerId === null)!.runs).toBe(2)
+
+    expect(report.byDay).toHaveLength(1)
+    expect(report.byDay[0].runs).toBe(4)
+  })
+
+  it('excludes runs older than the window', () => {
+    const task = q.createTask(db, { name: 'Old', prompt: 'p' })
+    const run = q.createTaskRun(db, task.id)
+    q.addTaskRunUsage(db, run.id, usage)
+    db.prepare("UPDATE task_runs SET started_at = datetime('now','localtime','-10 days') WHERE id = ?").run(run.id)
+
+    expect(q.getUsageReport(db, 7).totals.runs).toBe(0)
+    expect(q.getUsageReport(db, 30).totals.inputTokens).toBe(1000)
+  })
+})
+
+// ─── Usage Budgets ──────────────────────────────────────────────
+
+describe('usage budgets', () => {
+  function spend(taskId: number, inputTokens: number, workerId?: number): number {
+    const run = q.createTaskRun(db, taskId)
+    if (workerId) q.updateTaskRunWorker(db, run.id, workerId)
+    q.addTaskRunUsage(db, run.id, { inputTokens, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0.1 })
+    return run.id
+  }
+
+  it('replaces a budget with the same scope, period and metric', () => {
+    const first = q.setUsageBudget(db, { scope: 'global', period: 'day', metric: 'tokens', limit: 1000 })
+    const second = q.setUsageBudget(db, { scope: 'global', period: 'day', metric: 'tokens', limit: 5000, action: 'pause' })
+    q.setUsageBudget(db, { scope: 'global', period: 'week', metric: 'tokens', limit: 20000 })
+
+    expect(second.id).toBe(first.id)
+    expect(second.limit).toBe(5000)
+    expect(second.action).toBe('pause')
+    expect(q.listUsageBudgets(db)).toHaveLength(2)
+  })
+
+  it('measures usage in the current period and ignores skipped runs', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    spend(task.id, 400)
+    const old = spend(task.id, 1000)
+    db.prepare("UPDATE task_runs SET started_at = datetime('now','localtime','-8 days') WHERE id = ?").run(old)
+    q.createSkippedTaskRun(db, task.id, 'Skipped: budget reached')
+
+    const tokens = q.setUsageBudget(db, { scope: 'task', scopeId: task.id, period: 'day', metric: 'tokens', limit: 1000 })
+    const runs = q.setUsageBudget(db, { scope: 'task', scopeId: task.id, period: 'week', metric: 'runs', limit: 10 })
+    const cost = q.setUsageBudget(db, { scope: 'global', period: 'day', metric: 'cost', limit: 1 })
+    expect(q.getBudgetUsage(db, tokens)).toBe(400)
+    expect(q.getBudgetUsage(db, runs)).toBe(1)
+    expect(q.getBudgetUsage(db, cost)).toBeCloseTo(0.1)
+  })
+
+  it('only applies budgets scoped to the task or its worker', () => {
+    const worker = q.createWorker(db, { name: 'W', systemPrompt: 's' })
+    const other = q.createWorker(db, { name: 'Other', systemPrompt: 's' })
+    const task = q.createTask(db, { name: 'T', prompt: 'p', workerId: worker.id })
+    const unrelated = q.createTask(db, { name: 'U', prompt: 'p' })
+    spend(task.id, 2000, worker.id)
+
+    q.setUsageBudget(db, { scope: 'worker', scopeId: other.id, period: 'day', metric: 'tokens', limit: 100 })
+    q.setUsageBudget(db, { scope: 'task', scopeId: unrelated.id, period: 'day', metric: 'tokens', limit: 100 })
+    expect(q.findExceededBudget(db, task)).toBeNull()
+
+    q.setUsageBudget(db, { scope: 'worker', scopeId: worker.id, period: 'day', metric: 'tokens', limit: 2000 })
+    const status = q.findExceededBudget(db, task)!
+    expect(status.budget.scope).toBe('worker')
+    expect(status.used).toBe(2000)
+  })
+
+  it('blocks the run that would pass a run-count budget', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    q.setUsageBudget(db, { scope: 'task', scopeId: task.id, period: 'day', metric: 'runs', limit: 2 })
+    spend(task.id, 0)
+    expect(q.findExceededBudget(db, task)).toBeNull()
+    spend(task.id, 0)
+    expect(q.findExceededBudget(db, task)?.used).toBe(2)
+  })
+
+  it('removes scoped budgets with their task or worker', () => {
+    const worker = q.createWorker(db, { name: 'W', systemPrompt: 's' })
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    q.setUsageBudget(db, { scope: 'worker', scopeId: worker.id, period: 'day', metric: 'runs', limit: 5 })
+    q.setUsageBudget(db, { scope: 'task', scopeId: task.id, period: 'day', metric: 'runs', limit: 5 })
+    q.deleteTask(db, task.id)
+    q.deleteWorker(db, worker.id)
+    expect(q.listUsageBudgets(db)).toEqual([])
+  })
+})
+
+// ─── Task Dependencies ─────────────────────────────────────────
+
+describe('task dependencies', () => {
+  it('adds a dependency with default trigger', () => {
+    const a = q.createTask(db, { name: 'Collect', prompt: 'p' })
+    const b = q.createTask(db, { name: 'Summarize', prompt: 'p', triggerType: 'manual' })
+    const dep = q.addTaskDependency(db, b.id, a.id)
+    expect(dep.taskId).toBe(b.id)
+    expect(dep.dependsOnTaskId).toBe(a.id)
+    expect(dep.triggerOn).toBe('success')
+  })
+
+  it('updates the trigger when the link already exists', () => {
+    const a = q.createTask(db, { name: 'A', prompt: 'p' })
+    const b = q.createTask(db, { name: 'B', prompt: 'p' })
+    q.addTaskDependency(db, b.id, a.id, 'success')
+    q.addTaskDependency(db, b.id, a.id, 'failure')
+    const deps = q.getTaskDependencies(db, b.id)
+    expect(deps).toHaveLength(1)
+    expect(deps[0].triggerOn).toBe('failure')
+  })
+
+  it('lists upstream and downstream edges', () => {
+    const a = q.createTask(db, { name: 'A', prompt: 'p' })
+    const b = q.createTask(db, { name: 'B', prompt: 'p' })
+    const c = q.createTask(db, { name: 'C', prompt: 'p' })
+    q.addTaskDependency(db, b.id, a.id)
+    q.addTaskDependency(db, c.id, a.id, 'always')
+    expect(q.getDependentTasks(db, a.id).map((d) => d.taskId)).toEqual([b.id, c.id])
+    expect(q.getTaskDependencies(db, c.id).map((d) => d.dependsOnTaskId)).toEqual([a.id])
+    expect(q.getDependentTasks(db, b.id)).toHaveLength(0)
+  })
+
+  it('removes a dependency', () => {
+    const a = q.createTask(db, { name: 'A', prompt: 'p' })
+    const b = q.createTask(db, { name: 'B', prompt: 'p' })
+    q.addTaskDependency(db, b.id, a.id)
+    expect(q.removeTaskDependency(db, b.id, a.id)).toBe(true)
+    expect(q.removeTaskDependency(db, b.id, a.id)).toBe(false)
+    expect(q.getDependentTasks(db, a.id)).toHaveLength(0)
+  })
+
+  it('detects cycles, including self-dependency', () => {
+    const a = q.createTask(db, { name: 'A', prompt: 'p' })
+    const b = q.createTask(db, { name: 'B', prompt: 'p' })
+    const c = q.createTask(db, { name: 'C', prompt: 'p' })
+    q.addTaskDependency(db, b.id, a.id)
+    q.addTaskDependency(db, c.id, b.id)
+    expect(q.wouldCreateDependencyCycle(db, a.id, a.id)).toBe(true)
+    expect(q.wouldCreateDependencyCycle(db, a.id, c.id)).toBe(true)
+    expect(q.wouldCreateDependencyCycle(db, c.id, a.id)).toBe(false)
+  })
+
+  it('cascades when a task is deleted', () => {
+    const a = q.createTask(db, { name: 'A', prompt: 'p' })
+    const b = q.createTask(db, { name: 'B', prompt: 'p' })
+    q.addTaskDependency(db, b.id, a.id)
+    q.deleteTask(db, a.id)
+    expect(q.getTaskDependencies(db, b.id)).toHaveLength(0)
+  })
+})
+
+// ─── Watches ────────────────────────────────────────────────────
+
+describe('watches', () => {
+  it('creates a linked task for a watch with an action prompt', () => {
+    const watch = q.createWatch(db, '/tmp/inbox', 'Inbox', 'file new PDFs')
+    expect(watch.taskId).not.toBeNull()
+    const task = q.getTask(db, watch.taskId!)!
+    expect(task.name).toBe('Watch: Inbox')
+    expect(task.prompt).toBe('file new PDFs')
+    expect(task.triggerType).toBe('watch')
+    expect(JSON.parse(task.triggerConfig!)).toEqual({ source: 'watch', watchId: watch.id })
+  })
+
+  it('does not create a task for a watch without an action prompt', () => {
+    const watch = q.createWatch(db, '/tmp/inbox')
+    expect(watch.taskId).toBeNull()
+    expect(q.ensureWatchTask(db, watch.id)).toBeNull()
+  })
+
+  it('reuses the linked task and syncs its prompt', () => {
+    const watch = q.createWatch(db, '/tmp/inbox', undefined, 'old prompt')
+    db.prepare('UPDATE watches SET action_prompt = ? WHERE id = ?').run('new prompt', watch.id)
+    const task = q.ensureWatchTask(db, watch.id)!
+    expect(task.id).toBe(watch.taskId)
+    expect(task.prompt).toBe('new prompt')
+  })
+
+  it('creates the task lazily for watches that predate linking', () => {
+    const watch = q.createWatch(db, '/tmp/inbox', undefined, 'p')
+    db.prepare('UPDATE watches SET task_id = NULL WHERE id = ?').run(watch.id)
+    const task = q.ensureWatchTask(db, watch.id)!
+    expect(q.getWatch(db, watch.id)!.taskId).toBe(task.id)
+  })
+
+  it('defaults to no filters and depth 2', () => {
+    const watch = q.createWatch(db, '/tmp/inbox', undefined, 'p')
+    expect(watch.includePatterns).toEqual([])
+    expect(watch.excludePatterns).toEqual([])
+    expect(watch.maxDepth).toBe(2)
+    expect(watch.eventTypes).toEqual([])
+    expect(watch.batchWindowSeconds).toBeNull()
+  })
+
+  it('stores filter options', () => {
+    const watch = q.createWatch(db, '/tmp/inbox', undefined, 'p', {
+      includePatterns: ['*.pdf', '*.png'],
+      excludePatterns: ['.git'],
+      maxDepth: 4,
+      eventTypes: ['created', 'deleted'],
+      batchWindowSeconds: 30
+    })
+    expect(watch.includePatterns).toEqual(['*.pdf', '*.png'])
+    expect(watch.excludePatterns).toEqual(['.git'])
+    expect(watch.maxDepth).toBe(4)
+    expect(watch.eventTypes).toEqual(['created', 'deleted'])
+    expect(watch.batchWindowSeconds).toBe(30)
+  })
+
+  it('deletes the linked task with the watch', () => {
+    const watch = q.createWatch(db, '/tmp/inbox', undefined, 'p')
+    q.deleteWatch(db, watch.id)
+    expect(q.getTask(db, watch.taskId!)).toBeNull()
+  })
+})
+
 // ─── Schema Migration ──────────────────────────────────────────
 
 describe('schema migration', () => {
@@ -727,11 +1270,139 @@ describe('schema migration', () => {
     expect(colNames).toContain('learned_context')
   })
 
-  it('schema_version table has versions 1-13', () => {
+  it('V14 adds task_dependencies table', () => {
+    const tables = db
+      .prepare("SELECT name FROM sqlite_master WHERE type='table' ORDER BY name")
+      .all() as { name: string }[]
+    expect(tables.map((t) => t.name)).toContain('task_dependencies')
+  })
+
+  it('V15 adds working_directory column to tasks', () => {
+    const columns = db.prepare('PRAGMA table_info(tasks)').all() as { name: string }[]
+    expect(columns.map((c) => c.name)).toContain('working_directory')
+  })
+
+  it('V16 adds task_id column to watches', () => {
+    const columns = db.prepare('PRAGMA table_info(watches)').all() as { name: string }[]
+    expect(columns.map((c) => c.name)).toContain('task_id')
+  })
+
+  it('V17 adds filter columns to watches', () => {
+    const columns = db.prepare('PRAGMA table_info(watches)').all() as { name: string }[]
+    const colNames = columns.map((c) => c.name)
+    expect(colNames).toContain('include_patterns')
+    expect(colNames).toContain('exclude_patterns')
+    expect(colNames).toContain('max_depth')
+    expect(colNames).toContain('event_types')
+  })
+
+  it('V18 adds batch_window_seconds column to watches', () => {
+    const columns = db.prepare('PRAGMA table_info(watches)').all() as { name: string }[]
+    expect(columns.map((c) => c.name)).toContain('batch_window_seconds')
+  })
+
+  it('V19 adds usage columns to task_runs', () => {
+    const columns = db.prepare('PRAGMA table_info(task_runs)').all() as { name: string }[]
+    const colNames = columns.map((c) => c.name)
+    expect(colNames).toContain('worker_id')
+    expect(colNames).toContain('input_tokens')
+    expect(colNames).toContain('output_tokens')
+    expect(colNames).toContain('cache_read_tokens')
+    expect(colNames).toContain('cache_creation_tokens')
+    expect(colNames).toContain('cost_usd')
+  })
+
+  it('V20 adds usage_budgets table', () => {
+    const columns = db.prepare('PRAGMA table_info(usage_budgets)').all() as { name: string }[]
+    expect(columns.map((c) => c.name)).toEqual([
+      'id', 'scope', 'scope_id', 'period', 'metric', 'limit_value', 'action', 'created_at'
+    ])
+  })
+
+  it('V21 adds misfire policy columns to tasks', () => {
+    const columns = db.prepare('PRAGMA table_info(tasks)').all() as { name: string }[]
+    const colNames = columns.map((c) => c.name)
+    expect(colNames).toContain('misfire_policy')
+    expect(colNames).toContain('misfire_limit')
+  })
+
+  it('V22 adds timezone column to tasks', () => {
+    const columns = db.prepare('PRAGMA table_info(tasks)').all() as { name: string }[]
+    expect(columns.map((c) => c.name)).toContain('timezone')
+  })
+
+  it('V23 adds retry policy columns and the task_run_attempts table', () => {
+    const taskCols = (db.prepare('PRAGMA table_info(tasks)').all() as { name: string }[]).map((c) => c.name)
+    expect(taskCols).toEqual(expect.arrayContaining(['max_attempts', 'retry_backoff', 'retry_delay_seconds', 'retry_on']))
+    const runCols = (db.prepare('PRAGMA table_info(task_runs)').all() as { name: string }[]).map((c) => c.name)
+    expect(runCols).toEqual(expect.arrayContaining(['attempt', 'max_attempts']))
+    const attemptCols = db.prepare('PRAGMA table_info(task_run_attempts)').all() as { name: string }[]
+    expect(attemptCols.map((c) => c.name)).toEqual([
+      'id', 'run_id', 'attempt', 'status', 'error_message', 'duration_ms', 'finished_at'
+    ])
+  })
+
+  it('V24 adds success_criteria column to tasks', () => {
+    const columns = db.prepare('PRAGMA table_info(tasks)').all() as { name: string }[]
+    expect(columns.map((c) => c.name)).toContain('success_criteria')
+  })
+
+  it('V25 adds output_schema to tasks and result_json to task_runs', () => {
+    const taskCols = (db.prepare('PRAGMA table_info(tasks)').all() as { name: string }[]).map((c) => c.name)
+    const runCols = (db.prepare('PRAGMA table_info(task_runs)').all() as { name: string }[]).map((c) => c.name)
+    expect(taskCols).toContain('output_schema')
+    expect(runCols).toContain('result_json')
+  })
+
+  it('V26 adds change detection columns', () => {
+    const taskCols = (db.prepare('PRAGMA table_info(tasks)').all() as { name: string }[]).map((c) => c.name)
+    const runCols = (db.prepare('PRAGMA table_info(task_runs)').all() as { name: string }[]).map((c) => c.name)
+    expect(taskCols).toContain('change_detection')
+    expect(runCols).toEqual(expect.arrayContaining(['changed', 'diff']))
+  })
+
+  it('V27 adds webhook tables', () => {
+    const tables = (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[]).map((t) => t.name)
+    expect(tables).toEqual(expect.arrayContaining(['webhooks', 'webhook_deliveries']))
+  })
+
+  it('V28 adds webhook trigger columns', () => {
+    const taskCols = (db.prepare('PRAGMA table_info(tasks)').all() as { name: string }[]).map((c) => c.name)
+    expect(taskCols).toEqual(expect.arrayContaining(['webhook_token', 'webhook_payload_path']))
+  })
+
+  it('V29 rebuilds the memory index to cover observations', () => {
+    // Put back the name-only index that V29 replaces
+    db.exec(`
+      DROP TRIGGER entities_ai; DROP TRIGGER entities_ad; DROP TRIGGER entities_au;
+      DROP TRIGGER observations_ai; DROP TRIGGER observations_ad; DROP TRIGGER observations_au;
+      DROP TABLE memory_fts;
+      CREATE VIRTUAL TABLE memory_fts USING fts5(name, content, category, content='entities', content_rowid='id');
+      DELETE FROM schema_version WHERE version >= 29;
+    `)
+    const entity = q.createEntity(db, 'Alice')
+    const obs = q.addObservation(db, entity.id, 'Speaks Portuguese')
+
+    runMigrations(db, () => {})
+
+    expect(db.prepare('SELECT rowid, entity_id, observation_id FROM memory_fts ORDER BY rowid').all()).toEqual([
+      { rowid: -entity.id, entity_id: entity.id, observation_id: null },
+      { rowid: obs.id, entity_id: entity.id, observation_id: obs.id }
+    ])
+    expect(q.searchMemory(db, 'portuguese')).toMatchObject([{ entity: { id: entity.id }, observationIds: [obs.id] }])
+    expect(q.searchEntities(db, 'alice')).toHaveLength(1)
+  })
+
+  it('V30 adds embedding staleness triggers', () => {
+    const triggers = (db.prepare("SELECT name FROM sqlite_master WHERE type = 'trigger'").all() as { name: string }[]).map((t) => t.name)
+    expect(triggers).toEqual(expect.arrayContaining(['entities_embed_au', 'observations_embed_au', 'observations_embed_ad']))
+  })
+
+  it('schema_version table has versions 1-30', () => {
     const versions = db
       .prepare('SELECT version FROM schema_version ORDER BY version')
       .all() as { version: number }[]
-    expect(versions.map((v) => v.version)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13])
+    expect(versions.map((v) => v.version)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30])
   })
 })
 
@@ -1235,6 +1906,48 @@ describe('hybridSearch', () => {
     const results = q.hybridSearch(db, 'zzzznotfound', null)
     expect(results).toHaveLength(0)
   })
+
+  it('carries keyword snippets and matched observations through', () => {
+    const e1 = q.createEntity(db, 'Deploys')
+    const obs = q.addObservation(db, e1.id, 'Production deploys happen on Tuesdays')
+    const e2 = q.createEntity(db, 'Unrelated')
+
+    const results = q.hybridSearch(db, 'tuesdays', [{ entityId: e2.id, score: 0.2 }])
+    expect(results.find((r) => r.entity.id === e1.id)).toMatchObject({
+      snippet: 'Production deploys happen on **Tuesdays**',
+      matchedObservationIds: [obs.id]
+    })
+    expect(results.find((r) => r.entity.id === e2.id)).toMatchObject({ snippet: null, matchedObservationIds: [] })
+  })
+
+  it('points semantic hits at the observation that matched', () => {
+    const entity = q.createEntity(db, 'Alice')
+    q.addObservation(db, entity.id, 'Works from Lisbon')
+    const tea = q.addObservation(db, entity.id, 'Prefers green tea')
+
+    const [result] = q.hybridSearch(db, 'beverage', [{ entityId: entity.id, score: 0.8, observationId: tea.id }])
+    expect(result).toMatchObject({ snippet: 'Prefers green tea', matchedObservationIds: [tea.id] })
+  })
+})
+
+describe('semanticSearchSql', () => {
+  it('returns each entity once, with its closest observation', () => {
+    sqliteVec.load(db)
+    const vec = (...values: number[]): Buffer => Buffer.from(new Float32Array(values).buffer)
+    const alice = q.createEntity(db, 'Alice')
+    const near = q.addObservation(db, alice.id, 'near')
+    const far = q.addObservation(db, alice.id, 'far')
+    q.upsertEmbedding(db, alice.id, 'entity', alice.id, 'h0', vec(0.6, 0.8), 'm', 2)
+    q.upsertEmbedding(db, alice.id, 'observation', near.id, 'h1', vec(1, 0.1), 'm', 2)
+    q.upsertEmbedding(db, alice.id, 'observation', far.id, 'h2', vec(0.5, 0.5), 'm', 2)
+
+    q.upsertEmbedding(db, alice.id, 'observation', far.id, 'h2', vec(1, 0), 'other-model', 2)
+
+    const results = q.semanticSearchSql(db, vec(1, 0), 'm')
+    expect(results).toHaveLength(1)
+    expect(results[0]).toMatchObject({ entityId: alice.id, observationId: near.id })
+    expect(results[0].score).toBeGreaterThan(0.99)
+  })
 })
 
 // ─── Learned Context ──────────────────────────────────────────────
@@ -1529,3 +2242,48 @@ describe('buildRelatedKnowledgeSection - batch optimization', () => {
     expect(context).toBeNull()
   })
 })
+
+// ─── Webhooks ─────────────────────────────────────────────────
+
+describe('webhooks', () => {
+  it('creates a webhook with defaults', () => {
+    const webhook = q.createWebhook(db, { name: 'Slack', url: 'https://hooks.slack.com/services/x' })
+    expect(webhook).toMatchObject({ name: 'Slack', events: [], secret: null, format: 'json', bodyTemplate: null, enabled: true })
+  })
+
+  it('lists only enabled webhooks subscribed to an event', () => {
+    q.createWebhook(db, { name: 'All', url: 'http://a.test' })
+    q.createWebhook(db, { name: 'Failures', url: 'http://b.test', events: ['run.failed'] })
+    q.createWebhook(db, { name: 'Off', url: 'http://c.test', enabled: false })
+
+    expect(q.listWebhooksForEvent(db, 'run.failed').map((w) => w.name)).toEqual(['All', 'Failures'])
+    expect(q.listWebhooksForEvent(db, 'run.completed').map((w) => w.name)).toEqual(['All'])
+  })
+
+  it('updates and clears fields', () => {
+    const webhook = q.createWebhook(db, { name: 'Hook', url: 'http://a.test', secret: 's3cret', events: ['run.started'] })
+    q.updateWebhook(db, webhook.id, { secret: null, events: [], format: 'slack', enabled: false })
+    expect(q.getWebhook(db, webhook.id)).toMatchObject({ secret: null, events: [], format: 'slack', enabled: false })
+  })
+
+  it('records delivery attempts and deletes deliveries with their webhook', () => {
+    const webhook = q.createWebhook(db, { name: 'Hook', url: 'http://a.test' })
+    const delivery = q.createWebhookDelivery(db, webhook.id, 'run.completed', null, null)
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 0, deliveredAt: null })
+
+    q.updateWebhookDelivery(db, delivery.id, 'delivered', 2, 200, null)
+    const updated = q.getWebhookDelivery(db, delivery.id)!
+    expect(updated).toMatchObject({ status: 'delivered', attempts: 2, responseStatus: 200 })
+    expect(updated.deliveredAt).not.toBeNull()
+
+    expect(q.deleteWebhook(db, webhook.id)).toBe(true)
+    expect(q.listWebhookDeliveries(db)).toEqual([])
+  })
+
+  it('keeps the delivery log bounded per webhook', () => {
+    const webhook = q.createWebhook(db, { name: 'Hook', url: 'http://a.test' })
+    for (let i = 0; i < 205; i++) q.createWebhookDelivery(db, webhook.id, 'run.started', null, null)
+    const count = db.prepare('SELECT count(*) as n FROM webhook_deliveries').get() as { n: number }
+    expect(count.n).toBe(200)
+  })
+})
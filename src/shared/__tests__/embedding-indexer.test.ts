@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { initTestDb } from './helpers/test-db'
+import * as q from '../db-queries'
+import type { EmbeddingProvider } from '../embeddings'
+import { embeddingSources, getEmbeddingStatus, indexPendingEmbeddings } from '../embedding-indexer'
+
+const embedBatch = vi.fn(async (texts: string[]): Promise<Array<Float32Array | null>> => texts.map(() => new Float32Array([1, 0])))
+
+function fakeProvider(model: string): EmbeddingProvider {
+  return { model, init: async () => {}, isReady: () => true, embedBatch: (texts) => embedBatch(texts) }
+}
+
+const provider = fakeProvider('test-model')
+
+let db: Database.Database
+
+beforeEach(() => {
+  db = initTestDb()
+  embedBatch.mockClear()
+})
+
+afterEach(() => {
+  db.close()
+})
+
+function sources(entityId: number): string[] {
+  return q.getEmbeddingsForEntity(db, entityId).map((e) => `${e.sourceType}:${e.sourceId}`).sort()
+}
+
+describe('embeddingSources', () => {
+  it('gives the entity name and each observation its own text', () => {
+    const entity = q.createEntity(db, 'Alice')
+    const obs = q.addObservation(db, entity.id, 'Prefers green tea')
+
+    expect(embeddingSources(entity, [obs])).toEqual([
+      { sourceType: 'entity', sourceId: entity.id, text: 'Alice' },
+      { sourceType: 'observation', sourceId: obs.id, text: 'Alice: Prefers green tea' }
+    ])
+  })
+})
+
+describe('indexPendingEmbeddings', () => {
+  it('embeds every observation separately', async () => {
+    const entity = q.createEntity(db, 'Task result')
+    const observations = Array.from({ length: 7 }, (_, i) => q.addObservation(db, entity.id, `Run ${i + 1} output`))
+
+    expect(await indexPendingEmbeddings(db, 10, provider)).toEqual({ indexed: 8, skipped: 0, errors: 0 })
+    expect(sources(entity.id)).toEqual([`entity:${entity.id}`, ...observations.map((o) => `observation:${o.id}`)].sort())
+    expect(q.getUnembeddedEntities(db)).toHaveLength(0)
+  })
+
+  it('re-embeds only what changed', async () => {
+    const entity = q.createEntity(db, 'Acme')
+    const kept = q.addObservation(db, entity.id, 'Based in Berlin')
+    const edited = q.addObservation(db, entity.id, 'Renewal in March')
+    await indexPendingEmbeddings(db, 10, provider)
+    embedBatch.mockClear()
+
+    db.prepare('UPDATE observations SET content = ? WHERE id = ?').run('Renewal in April', edited.id)
+    expect(q.getUnembeddedEntities(db).map((e) => e.id)).toEqual([entity.id])
+
+    expect(await indexPendingEmbeddings(db, 10, provider)).toEqual({ indexed: 1, skipped: 2, errors: 0 })
+    expect(embedBatch).toHaveBeenCalledWith(['Acme: Renewal in April'])
+    expect(sources(entity.id)).toContain(`observation:${kept.id}`)
+  })
+
+  it('re-embeds everything on rename and drops vectors of deleted observations', async () => {
+    const entity = q.createEntity(db, 'Acme')
+    const gone = q.addObservation(db, entity.id, 'Old fact')
+    q.addObservation(db, entity.id, 'Current fact')
+    await indexPendingEmbeddings(db, 10, provider)
+
+    q.deleteObservation(db, gone.id)
+    expect(sources(entity.id)).not.toContain(`observation:${gone.id}`)
+
+    q.updateEntity(db, entity.id, { name: 'Acme Corp' })
+    expect(await indexPendingEmbeddings(db, 10, provider)).toMatchObject({ indexed: 2, skipped: 0 })
+  })
+
+  it('leaves the entity pending when a vector fails', async () => {
+    const entity = q.createEntity(db, 'Flaky')
+    q.addObservation(db, entity.id, 'Something')
+    embedBatch.mockResolvedValueOnce([new Float32Array([1, 0]), null])
+
+    expect(await indexPendingEmbeddings(db, 10, provider)).toEqual({ indexed: 0, skipped: 0, errors: 1 })
+    expect(sources(entity.id)).toEqual([])
+    expect(q.getUnembeddedEntities(db)).toHaveLength(1)
+  })
+  it('re-indexes everything when the model changes', async () => {
+    const entity = q.createEntity(db, 'Acme')
+    q.addObservation(db, entity.id, 'Based in Berlin')
+    await indexPendingEmbeddings(db, 10, provider)
+    q.setSetting(db, 'embedding_provider', 'http')
+    q.setSetting(db, 'embedding_model', 'bge-m3')
+    expect(getEmbeddingStatus(db)).toEqual({ provider: 'http', model: 'http:bge-m3', indexed: 0, total: 1 })
+
+    embedBatch.mockClear()
+    expect(await indexPendingEmbeddings(db, 10, fakeProvider('http:bge-m3'))).toEqual({ indexed: 2, skipped: 0, errors: 0 })
+    expect(embedBatch).toHaveBeenCalledWith(['Acme', 'Acme: Based in Berlin'])
+    expect(q.getEmbeddingsForEntity(db, entity.id).map((e) => e.model)).toEqual(['http:bge-m3', 'http:bge-m3'])
+    expect(getEmbeddingStatus(db)).toMatchObject({ indexed: 1, total: 1 })
+  })
+
+  it('waits for a provider that is not ready', async () => {
+    q.createEntity(db, 'Acme')
+    const offline = { ...provider, isReady: () => false, init: vi.fn(async () => {}) }
+
+    expect(await indexPendingEmbeddings(db, 10, offline)).toEqual({ indexed: 0, skipped: 0, errors: 0 })
+    expect(offline.init).toHaveBeenCalled()
+    expect(q.getUnembeddedEntities(db)).toHaveLength(1)
+  })
+})
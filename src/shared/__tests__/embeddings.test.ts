@@ -1,5 +1,15 @@
-import { describe, it, expect } from 'vitest'
-import { cosineSimilarity, vectorToBlob, blobToVector, textHash } from '../embeddings'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { initTestDb } from './helpers/test-db'
+import { setSetting } from '../db-queries'
+import {
+  cosineSimilarity,
+  vectorToBlob,
+  blobToVector,
+  textHash,
+  createEmbeddingProvider,
+  createHttpProvider,
+  readEmbeddingConfig
+} from '../embeddings'
 
 describe('cosineSimilarity', () => {
   it('returns 1 for identical vectors', () => {
@@ -108,3 +118,52 @@ describe('textHash', () => {
     expect(textHash('foo')).not.toBe(textHash('bar'))
   })
 })
+
+describe('readEmbeddingConfig', () => {
+  it('defaults to the built-in model and ignores unknown providers', () => {
+    const db = initTestDb()
+    expect(readEmbeddingConfig(db)).toEqual({ provider: 'transformers', model: null, endpoint: null })
+    expect(createEmbeddingProvider(readEmbeddingConfig(db)).model).toBe('all-MiniLM-L6-v2')
+
+    setSetting(db, 'embedding_provider', 'bogus')
+    setSetting(db, 'embedding_model', ' Xenova/multilingual-e5-small ')
+    expect(readEmbeddingConfig(db)).toMatchObject({ provider: 'transformers', model: 'Xenova/multilingual-e5-small' })
+
+    setSetting(db, 'embedding_provider', 'onnx')
+    expect(createEmbeddingProvider(readEmbeddingConfig(db)).model).toBe('multilingual-e5-small')
+    db.close()
+  })
+})
+
+describe('createHttpProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('calls an OpenAI-compatible /embeddings route and keeps input order', async () => {
+    const fetchMock = vi.fn(async (_url: string, init: { body: string }) => {
+      const { input } = JSON.parse(init.body) as { input: string[] }
+      const data = input.map((text, index) => ({ index, embedding: [text.length, 1] })).reverse()
+      return new Response(JSON.stringify({ data }), { status: 200 })
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    const provider = createHttpProvider('http://localhost:11434/v1/', 'nomic-embed-text')
+    expect(provider.model).toBe('http:nomic-embed-text')
+    await provider.init()
+    expect(provider.isReady()).toBe(true)
+
+    const vectors = await provider.embedBatch(['a', 'abc'])
+    expect(vectors.map((v) => Array.from(v!))).toEqual([[1, 1], [3, 1]])
+    expect(fetchMock).toHaveBeenLastCalledWith('http://localhost:11434/v1/embeddings', expect.objectContaining({ method: 'POST' }))
+  })
+
+  it('is not ready while the server is unreachable', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNREFUSED')))
+
+    const provider = createHttpProvider()
+    await provider.init()
+    expect(provider.isReady()).toBe(false)
+    expect(await provider.embedBatch(['a'])).toEqual([null])
+  })
+})
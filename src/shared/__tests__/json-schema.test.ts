@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { validateJsonSchema } from '../json-schema'
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    required: ['price', 'items'],
+    additionalProperties: false,
+    properties: {
+      price: { type: 'number', minimum: 0 },
+      currency: { enum: ['USD', 'EUR'] },
+      items: { type: 'array', minItems: 1, items: { type: 'string', pattern: '^https?://' } }
+    }
+  }
+
+  it('accepts a matching value', () => {
+    expect(validateJsonSchema({ price: 42.5, currency: 'USD', items: ['https://a.example'] }, schema)).toEqual([])
+  })
+
+  it('reports problems with their path', () => {
+    expect(validateJsonSchema({ price: -1, items: ['ftp://a'], extra: true }, schema)).toEqual([
+      '$.price: must be >= 0',
+      '$.items[0]: must match /^https?:///',
+      '$: unexpected property "extra"'
+    ])
+    expect(validateJsonSchema({ price: 'cheap' }, schema)).toEqual([
+      '$: missing required property "items"',
+      '$.price: expected number, got string'
+    ])
+  })
+
+  it('treats integers as numbers but not the other way round', () => {
+    expect(validateJsonSchema(3, { type: 'number' })).toEqual([])
+    expect(validateJsonSchema(3.5, { type: 'integer' })).toEqual(['$: expected integer, got number'])
+  })
+
+  it('supports anyOf and oneOf', () => {
+    const nullableString = { anyOf: [{ type: 'string' }, { type: 'null' }] }
+    expect(validateJsonSchema(null, nullableString)).toEqual([])
+    expect(validateJsonSchema(1, nullableString)).toEqual(['$: does not match any allowed shape'])
+    expect(validateJsonSchema(1, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual(['$: must match exactly one allowed shape'])
+  })
+})
@@ -39,6 +39,19 @@ function makeTask(overrides: Partial<Task> = {}): Task {
     disallowedTools: null,
     nudgeMode: 'always',
     learnedContext: null,
+    workingDirectory: null,
+    misfirePolicy: 'skip',
+    misfireLimit: null,
+    timezone: null,
+    maxAttempts: 1,
+    retryBackoff: 'exponential',
+    retryDelaySeconds: 60,
+    retryOn: ['exit_code', 'timeout'],
+    successCriteria: null,
+    outputSchema: null,
+    changeDetection: 'off',
+    webhookToken: null,
+    webhookPayloadPath: null,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     ...overrides
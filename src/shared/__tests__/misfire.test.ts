@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { formatMisfireContext, getMissedFireTimes, parseLocalTimestamp } from '../misfire'
+import type { MisfirePolicy } from '../types'
+
+function task(misfirePolicy: MisfirePolicy, cronExpression = '0 7 * * *', misfireLimit: number | null = null) {
+  return { cronExpression, misfirePolicy, misfireLimit, timezone: null }
+}
+
+const lidClosed = new Date(2026, 9, 14, 22, 0)
+const wake = new Date(2026, 9, 18, 9, 30)
+
+describe('getMissedFireTimes', () => {
+  it('skips missed runs by default', () => {
+    expect(getMissedFireTimes(task('skip'), lidClosed, wake)).toEqual([])
+  })
+
+  it('runs the latest missed occurrence once', () => {
+    expect(getMissedFireTimes(task('run_once'), lidClosed, wake)).toEqual([new Date(2026, 9, 18, 7, 0)])
+  })
+
+  it('runs every missed occurrence up to the limit, oldest first', () => {
+    expect(getMissedFireTimes(task('run_all', '0 7 * * *', 2), lidClosed, wake)).toEqual([
+      new Date(2026, 9, 17, 7, 0),
+      new Date(2026, 9, 18, 7, 0)
+    ])
+    expect(getMissedFireTimes(task('run_all'), lidClosed, wake)).toHaveLength(3)
+  })
+
+  it('ignores fire times node-cron may still be handling', () => {
+    const justAfter = new Date(2026, 9, 18, 7, 0, 30)
+    expect(getMissedFireTimes(task('run_once'), new Date(2026, 9, 17, 8, 0), justAfter)).toEqual([])
+  })
+
+  it('returns nothing for invalid or missing expressions', () => {
+    expect(getMissedFireTimes(task('run_once', 'not cron'), lidClosed, wake)).toEqual([])
+    expect(getMissedFireTimes({ ...task('run_once'), cronExpression: null }, lidClosed, wake)).toEqual([])
+  })
+})
+
+describe('parseLocalTimestamp', () => {
+  it('reads SQLite localtime timestamps as local time', () => {
+    expect(parseLocalTimestamp('2026-10-18 07:05:00')).toEqual(new Date(2026, 9, 18, 7, 5))
+  })
+})
+
+describe('formatMisfireContext', () => {
+  it('names the missed time', () => {
+    expect(formatMisfireContext(new Date(2026, 9, 18, 7, 0))).toContain('scheduled time 2026-10-18 07:00')
+  })
+})
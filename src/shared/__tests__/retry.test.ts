@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { classifyFailure, describeFailure, describeRetryPolicy, getRetryDelayMs, MAX_RETRY_DELAY_SECONDS } from '../retry'
+
+const ok = { stdout: 'done', stderr: '', exitCode: 0, durationMs: 100, timedOut: false }
+
+describe('classifyFailure', () => {
+  it('classifies exit codes and timeouts', () => {
+    expect(classifyFailure({ ...ok, exitCode: 2 }, [])).toBe('exit_code')
+    expect(classifyFailure({ ...ok, exitCode: 143, timedOut: true }, [])).toBe('timeout')
+    expect(classifyFailure(ok, ['exit_code', 'timeout'])).toBeNull()
+  })
+
+  it('only treats empty output as a failure when asked to', () => {
+    const empty = { ...ok, stdout: '  \n' }
+    expect(classifyFailure(empty, ['exit_code'])).toBeNull()
+    expect(classifyFailure(empty, ['empty_output'])).toBe('empty_output')
+  })
+
+  it('never classifies a cancelled run', () => {
+    expect(classifyFailure({ ...ok, exitCode: 143, cancelled: true }, ['exit_code'])).toBeNull()
+  })
+})
+
+describe('describeFailure', () => {
+  it('describes each failure class', () => {
+    expect(describeFailure({ ...ok, timedOut: true, durationMs: 5000 }, 'timeout')).toBe('Timed out after 5000ms')
+    expect(describeFailure({ ...ok, exitCode: 1, stderr: 'boom' }, 'exit_code')).toBe('Exit code 1: boom')
+    expect(describeFailure({ ...ok, exitCode: 1 }, 'exit_code')).toBe('Exit code 1: (no stderr)')
+    expect(describeFailure({ ...ok, stdout: '' }, 'empty_output')).toBe('Finished without output')
+  })
+})
+
+describe('getRetryDelayMs', () => {
+  it('doubles the delay with exponential backoff', () => {
+    const task = { retryBackoff: 'exponential' as const, retryDelaySeconds: 30 }
+    expect([1, 2, 3].map((retry) => getRetryDelayMs(task, retry))).toEqual([30_000, 60_000, 120_000])
+  })
+
+  it('keeps the delay with fixed backoff', () => {
+    const task = { retryBackoff: 'fixed' as const, retryDelaySeconds: 30 }
+    expect([1, 2, 3].map((retry) => getRetryDelayMs(task, retry))).toEqual([30_000, 30_000, 30_000])
+  })
+
+  it('caps the delay', () => {
+    expect(getRetryDelayMs({ retryBackoff: 'exponential', retryDelaySeconds: 600 }, 5)).toBe(MAX_RETRY_DELAY_SECONDS * 1000)
+  })
+})
+
+describe('describeRetryPolicy', () => {
+  it('describes the policy in words', () => {
+    expect(describeRetryPolicy({ maxAttempts: 3, retryBackoff: 'exponential', retryDelaySeconds: 60, retryOn: ['exit_code', 'timeout'] }))
+      .toBe('up to 3 attempts, 60s apart, doubling, on exit code or timeout')
+    expect(describeRetryPolicy({ maxAttempts: 2, retryBackoff: 'fixed', retryDelaySeconds: 10, retryOn: ['empty_output'] }))
+      .toBe('up to 2 attempts, 10s apart, on empty output')
+  })
+
+  it('says when nothing is retried', () => {
+    expect(describeRetryPolicy({ maxAttempts: 1, retryBackoff: 'exponential', retryDelaySeconds: 60, retryOn: ['exit_code'] })).toBe('no retries')
+    expect(describeRetryPolicy({ maxAttempts: 3, retryBackoff: 'exponential', retryDelaySeconds: 60, retryOn: [] })).toBe('no retries')
+  })
+})
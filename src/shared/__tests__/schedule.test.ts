@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { describeSchedule, getNextRuns, previewSchedule } from '../schedule'
+
+describe('describeSchedule', () => {
+  it.each([
+    ['0 9 * * 1-5', 'every weekday at 09:00'],
+    ['15 14 * * mon,wed,fri', 'every Monday, Wednesday and Friday at 14:15'],
+    ['0 10 * * 0,6', 'every weekend day at 10:00'],
+    ['0 9,18 * * *', 'every day at 09:00 and 18:00'],
+    ['*/5 * * * *', 'every 5 minutes'],
+    ['0 * * * *', 'every hour'],
+    ['30 * * * *', 'every hour at 30 minutes past'],
+    ['0 */2 * * *', 'every 2 hours'],
+    ['0 8-18 * * *', 'every hour from 08:00 to 18:00'],
+    ['*/15 9-17 * * 1-5', 'every 15 minutes from 09:00 to 17:59 on weekdays'],
+    ['* 9 * * *', 'every minute during the 09:00 hour'],
+    ['0 0 1,15 * *', 'on the 1st and 15th of every month at 00:00'],
+    ['0 9 * 1,7 *', 'every day at 09:00 in January and July'],
+    ['0 9 13 * 5', 'on the 13th of every month at 09:00, if it is a Friday'],
+    ['*/10 * * * * *', 'every 10 seconds']
+  ])('describes "%s"', (expression, description) => {
+    expect(describeSchedule(expression)).toBe(description)
+  })
+
+  it('throws on invalid expressions', () => {
+    expect(() => describeSchedule('0 25 * * *')).toThrow()
+  })
+})
+
+describe('getNextRuns', () => {
+  it('returns the requested number of upcoming runs', () => {
+    const runs = getNextRuns('30 6 1 * *', { timezone: 'UTC', from: new Date('2026-10-18T12:00:00Z'), count: 2 })
+    expect(runs).toEqual([new Date('2026-11-01T06:30:00Z'), new Date('2026-12-01T06:30:00Z')])
+  })
+})
+
+describe('previewSchedule', () => {
+  const from = new Date('2026-10-18T12:00:00Z')
+
+  it('lists the next runs in the task time zone', () => {
+    const preview = previewSchedule('0 9 * * 1-5', { timezone: 'America/New_York', from, count: 3 })
+    expect(preview.nextRuns).toEqual([
+      new Date('2026-10-19T13:00:00Z'),
+      new Date('2026-10-20T13:00:00Z'),
+      new Date('2026-10-21T13:00:00Z')
+    ])
+    expect(preview.runsPerDay).toBe(1)
+    expect(preview.warnings).toEqual([])
+  })
+
+  it('warns when the schedule can never fire', () => {
+    const preview = previewSchedule('0 0 30 2 *', { from })
+    expect(preview.nextRuns).toEqual([])
+    expect(preview.warnings[0]).toContain('never fires')
+  })
+
+  it('warns when the next run is more than a year away', () => {
+    const preview = previewSchedule('0 0 29 2 *', { timezone: 'UTC', from })
+    expect(preview.nextRuns[0]).toEqual(new Date('2028-02-29T00:00:00Z'))
+    expect(preview.warnings[0]).toContain('more than a year away')
+  })
+
+  it('warns about a "*" minute field with specific hours', () => {
+    const preview = previewSchedule('* 9 * * *', { timezone: 'UTC', from })
+    expect(preview.runsPerDay).toBe(60)
+    expect(preview.warnings.some((w) => w.includes('runs every minute during the chosen hours'))).toBe(true)
+  })
+
+  it('warns about schedules that fire many times a day', () => {
+    const preview = previewSchedule('*/5 * * * *', { timezone: 'UTC', from })
+    expect(preview.runsPerDay).toBe(288)
+    expect(preview.warnings.some((w) => w.includes('288 times a day'))).toBe(true)
+    expect(previewSchedule('0 * * * *', { from }).warnings).toEqual([])
+  })
+
+  it('counts the busiest day for weekday-only schedules', () => {
+    expect(previewSchedule('*/15 9-17 * * 1-5', { timezone: 'UTC', from }).runsPerDay).toBe(36)
+  })
+
+  it('warns about a seconds field that fires several times a minute', () => {
+    const preview = previewSchedule('*/10 * * * * *', { timezone: 'UTC', from })
+    expect(preview.runsPerDay).toBe(8640)
+    expect(preview.warnings.some((w) => w.includes('6 times a minute'))).toBe(true)
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'fs'
+import {
+  checkSidecarRequest,
+  generateSidecarToken,
+  isAllowedHost,
+  readSidecarToken,
+  SIDECAR_TOKEN_FILE,
+  sidecarAuthHeaders,
+  tokensMatch,
+  writeSidecarToken
+} from '../sidecar-auth'
+
+describe('tokensMatch', () => {
+  it('compares tokens of any length', () => {
+    expect(tokensMatch('abc', 'abc')).toBe(true)
+    expect(tokensMatch('abc', 'abcd')).toBe(false)
+    expect(tokensMatch('abc', '')).toBe(false)
+  })
+})
+
+describe('token file', () => {
+  it('round-trips a token readable only by the owner', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'daymon-auth-'))
+    try {
+      const token = generateSidecarToken()
+      writeSidecarToken(dir, token)
+      expect(readSidecarToken(dir)).toBe(token)
+      if (process.platform !== 'win32') {
+        expect(statSync(join(dir, SIDECAR_TOKEN_FILE)).mode & 0o777).toBe(0o600)
+      }
+    } finally {
+      rmSync(dir, { recursive: true })
+    }
+  })
+
+  it('tightens the permissions of an existing file', () => {
+    if (process.platform === 'win32') return
+    const dir = mkdtempSync(join(tmpdir(), 'daymon-auth-'))
+    try {
+      writeFileSync(join(dir, SIDECAR_TOKEN_FILE), 'old', { mode: 0o644 })
+      writeSidecarToken(dir, 'new')
+      expect(statSync(join(dir, SIDECAR_TOKEN_FILE)).mode & 0o777).toBe(0o600)
+    } finally {
+      rmSync(dir, { recursive: true })
+    }
+  })
+
+  it('returns null when no sidecar has written a token', () => {
+    expect(readSidecarToken(join(tmpdir(), 'daymon-does-not-exist-xyz'))).toBeNull()
+    expect(sidecarAuthHeaders(null)).toEqual({})
+  })
+})
+
+describe('isAllowedHost', () => {
+  it('accepts loopback names with or without the port', () => {
+    expect(isAllowedHost('127.0.0.1:4100', 4100)).toBe(true)
+    expect(isAllowedHost('localhost:4100', 4100)).toBe(true)
+    expect(isAllowedHost('localhost', 4100)).toBe(true)
+  })
+
+  it('rejects other hosts and ports', () => {
+    expect(isAllowedHost('evil.example:4100', 4100)).toBe(false)
+    expect(isAllowedHost('127.0.0.1:4101', 4100)).toBe(false)
+    expect(isAllowedHost('127.0.0.1.evil.example', 4100)).toBe(false)
+    expect(isAllowedHost(undefined, 4100)).toBe(false)
+  })
+})
+
+describe('checkSidecarRequest', () => {
+  const token = 'secret-token'
+
+  it('accepts the bearer token from a loopback host', () => {
+    const headers = { host: '127.0.0.1:4100', authorization: sidecarAuthHeaders(token).Authorization }
+    expect(checkSidecarRequest(headers, token, 4100)).toEqual({ ok: true })
+  })
+
+  it('rejects missing or wrong tokens', () => {
+    expect(checkSidecarRequest({ host: '127.0.0.1:4100' }, token, 4100)).toMatchObject({ ok: false, status: 401 })
+    expect(checkSidecarRequest({ host: '127.0.0.1:4100', authorization: 'Bearer nope' }, token, 4100)).toMatchObject({ ok: false, status: 401 })
+    expect(checkSidecarRequest({ host: '127.0.0.1:4100', authorization: token }, token, 4100)).toMatchObject({ ok: false, status: 401 })
+  })
+
+  it('rejects rebinding hosts even with the right token', () => {
+    const result = checkSidecarRequest({ host: 'attacker.example:4100', authorization: `Bearer ${token}` }, token, 4100)
+    expect(result).toMatchObject({ ok: false, status: 403 })
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { buildOutputFormatPrompt, extractJsonText, parseStructuredOutput } from '../structured-output'
+
+const schema = { type: 'object', required: ['price'], properties: { price: { type: 'number' } } }
+
+describe('extractJsonText', () => {
+  it('strips a surrounding code fence', () => {
+    expect(extractJsonText('```json\n{"a": 1}\n```')).toBe('{"a": 1}')
+    expect(extractJsonText('```\n[1, 2]\n```')).toBe('[1, 2]')
+    expect(extractJsonText('  {"a": 1}  ')).toBe('{"a": 1}')
+  })
+})
+
+describe('buildOutputFormatPrompt', () => {
+  it('appends the schema to the prompt', () => {
+    const prompt = buildOutputFormatPrompt('Get the BTC price', schema)
+    expect(prompt.startsWith('Get the BTC price\n\n## Output format\n')).toBe(true)
+    expect(prompt).toContain(JSON.stringify(schema, null, 2))
+  })
+})
+
+describe('parseStructuredOutput', () => {
+  it('returns the value and compact JSON', () => {
+    expect(parseStructuredOutput('```json\n{ "price": 64000 }\n```', schema)).toEqual({ ok: true, value: { price: 64000 }, json: '{"price":64000}' })
+  })
+
+  it('explains why the output was rejected', () => {
+    expect(parseStructuredOutput('The price is 64000', schema)).toEqual({ ok: false, error: 'Output is not valid JSON' })
+    expect(parseStructuredOutput('{"price": "64k"}', schema)).toEqual({
+      ok: false, error: 'Output does not match the output schema ($.price: expected number, got string)'
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+
+vi.mock('../claude-code', () => ({
+  executeClaudeCode: vi.fn()
+}))
+
+import { checkOutputRules, judgeRubric, parseJudgeVerdict } from '../success-criteria'
+import { executeClaudeCode } from '../claude-code'
+
+const mockExecute = vi.mocked(executeClaudeCode)
+
+beforeEach(() => {
+  mockExecute.mockReset()
+})
+
+describe('checkOutputRules', () => {
+  it('passes when every rule holds', () => {
+    expect(checkOutputRules('BTC is at $64,000 today', {
+      mustContain: ['btc'], mustNotContain: ["couldn't"], mustMatch: '\\$[\\d,]+', minLength: 10
+    })).toBeNull()
+  })
+
+  it('names the first rule that fails', () => {
+    expect(checkOutputRules('Done', { minLength: 20 })).toBe('output is 4 characters, expected at least 20')
+    expect(checkOutputRules('Summary', { mustContain: ['Summary', 'Links'] })).toBe('output does not contain "Links"')
+    expect(checkOutputRules("I couldn't access the file", { mustNotContain: ["couldn't access"] }))
+      .toBe('output contains "couldn\'t access"')
+    expect(checkOutputRules('no price', { mustMatch: '\\$\\d+' })).toBe('output does not match /\\$\\d+/')
+  })
+
+  it('checks JSON validity and schema', () => {
+    expect(checkOutputRules('{"price": 1}', { json: true })).toBeNull()
+    expect(checkOutputRules('```json\n{"price": 1}\n```', { json: true })).toBeNull()
+    expect(checkOutputRules('Here you go: {"price": 1}', { json: true })).toBe('output is not valid JSON')
+    expect(checkOutputRules('{"price": "1"}', { jsonSchema: { type: 'object', properties: { price: { type: 'number' } } } }))
+      .toBe('output does not match the JSON schema ($.price: expected number, got string)')
+  })
+})
+
+describe('parseJudgeVerdict', () => {
+  it('reads PASS and FAIL replies', () => {
+    expect(parseJudgeVerdict('PASS')).toEqual({ passed: true, reason: null })
+    expect(parseJudgeVerdict('**FAIL**: only 2 articles listed\nmore text')).toEqual({ passed: false, reason: 'only 2 articles listed' })
+    expect(parseJudgeVerdict('Looks good to me')).toBeNull()
+  })
+})
+
+describe('judgeRubric', () => {
+  const reply = { stderr: '', exitCode: 0, durationMs: 10, timedOut: false, sessionId: null }
+
+  it('returns the reason when the judge fails the output', async () => {
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: 'FAIL: no links' })
+    const judgement = await judgeRubric('News', 'Lists 3 articles with links', 'Three headlines')
+    expect(judgement.failure).toBe('rubric not met: no links')
+    expect(mockExecute.mock.calls[0][0]).toContain('Lists 3 articles with links')
+    expect(mockExecute.mock.calls[0][1]).toMatchObject({ maxTurns: 1 })
+  })
+
+  it('runs the judge without tools or MCP servers, tied to the run signal', async () => {
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: 'PASS' })
+    const controller = new AbortController()
+    await judgeRubric('News', 'r', 'o', controller.signal)
+    const options = mockExecute.mock.calls[0][1]!
+    expect(options.noMcpServers).toBe(true)
+    expect(options.signal).toBe(controller.signal)
+    expect(options.allowedTools).toBe('')
+    expect(options.disallowedTools).toBeUndefined()
+  })
+
+  it('does not fail the run when the judge errors or gives no verdict', async () => {
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: '', exitCode: 1 })
+    expect((await judgeRubric('News', 'r', 'o')).failure).toBeNull()
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: 'Hmm' })
+    expect((await judgeRubric('News', 'r', 'o')).failure).toBeNull()
+  })
+})
@@ -19,12 +19,22 @@ vi.mock('../rate-limit', async () => {
   }
 })
 
-import { executeTask, isTaskRunning } from '../task-runner'
+vi.mock('../webhooks', async () => {
+  const actual = await vi.importActual('../webhooks') as Record<string, unknown>
+  return {
+    ...actual,
+    dispatchWebhookEvent: vi.fn().mockResolvedValue([])
+  }
+})
+
+import { cancelTask, executeTask, isTaskRunning } from '../task-runner'
 import { executeClaudeCode } from '../claude-code'
 import { sleep } from '../rate-limit'
+import { dispatchWebhookEvent } from '../webhooks'
 
 const mockExecute = vi.mocked(executeClaudeCode)
 const mockSleep = vi.mocked(sleep)
+const mockDispatch = vi.mocked(dispatchWebhookEvent)
 
 let db: Database.Database
 let resultsDir: string
@@ -44,6 +54,7 @@ beforeEach(() => {
   resultsDir = mkdtempSync(join(tmpdir(), 'daymon-test-'))
   mockExecute.mockReset()
   mockSleep.mockClear()
+  mockDispatch.mockClear()
 })
 
 afterEach(() => {
@@ -583,6 +594,18 @@ describe('executeTask - worker system prompt', () => {
     }))
   })
 
+  it('records the worker on the run', async () => {
+    const worker = queries.createWorker(db, { name: 'Bot', systemPrompt: 'You are a bot.' })
+    const task = queries.createTask(db, { name: 'Worker Task', prompt: 'p', triggerType: 'manual', workerId: worker.id })
+    mockExecute.mockResolvedValue({
+      stdout: 'ok', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null
+    })
+
+    const result = await executeTask(task.id, { db, resultsDir })
+
+    expect(queries.getTaskRun(db, result.runId!)!.workerId).toBe(worker.id)
+  })
+
   it('uses default worker when task has no worker', async () => {
     queries.createWorker(db, { name: 'Default', systemPrompt: 'Default prompt.', isDefault: true })
     const id = createActiveTask('No Worker', 'Do stuff')
@@ -668,6 +691,62 @@ describe('executeTask - timeout', () => {
   })
 })
 
+// ─── Cancellation ───────────────────────────────────────────
+
+describe('executeTask - cancellation', () => {
+  it('stops the CLI and records the run as cancelled', async () => {
+    const task = queries.createTask(db, {
+      name: 'Cancel Me', prompt: 'Work', triggerType: 'manual', sessionContinuity: true
+    })
+    queries.updateTask(db, task.id, { sessionId: 'sess-1' })
+    mockExecute.mockImplementation((_prompt, options) => new Promise((resolve) => {
+      options?.signal?.addEventListener('abort', () => resolve({
+        stdout: 'halfway', stderr: '', exitCode: 1, durationMs: 10, timedOut: false, sessionId: null, cancelled: true
+      }))
+    }))
+    const onFailed = vi.fn()
+
+    const promise = executeTask(task.id, { db, resultsDir, onFailed })
+    await vi.waitFor(() => expect(mockExecute).toHaveBeenCalled())
+    expect(cancelTask(task.id)).toBe(true)
+    const result = await promise
+
+    expect(result.success).toBe(false)
+    expect(result.cancelled).toBe(true)
+    expect(onFailed).not.toHaveBeenCalled()
+    // No retry without the session after a cancel
+    expect(mockExecute).toHaveBeenCalledTimes(1)
+    const run = queries.getTaskRun(db, result.runId!)!
+    expect(run.status).toBe('cancelled')
+    expect(run.result).toBe('halfway')
+    expect(queries.getTask(db, task.id)!.errorCount).toBe(0)
+    expect(isTaskRunning(task.id)).toBe(false)
+  })
+
+  it('ends a rate-limit wait', async () => {
+    const id = createActiveTask('Waiting Task', 'Work')
+    mockExecute.mockResolvedValue({
+      stdout: '', stderr: 'Error: 429 rate_limit_error', exitCode: 1, durationMs: 50, timedOut: false, sessionId: null
+    })
+    mockSleep.mockImplementationOnce((_ms, signal) => new Promise((_resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(new Error('Rate limit wait aborted')))
+    }))
+
+    const promise = executeTask(id, { db, resultsDir })
+    await vi.waitFor(() => expect(mockSleep).toHaveBeenCalled())
+    cancelTask(id)
+    const result = await promise
+
+    expect(result.cancelled).toBe(true)
+    expect(mockExecute).toHaveBeenCalledTimes(1)
+    expect(queries.getTaskRun(db, result.runId!)!.status).toBe('cancelled')
+  })
+
+  it('returns false for a task that is not running', () => {
+    expect(cancelTask(createActiveTask())).toBe(false)
+  })
+})
+
 // ─── Session Continuity ─────────────────────────────────────
 
 describe('executeTask - session continuity', () => {
@@ -786,6 +865,64 @@ describe('executeTask - session continuity', () => {
 
 // ─── Learned Context Injection ─────────────────────────────────
 
+describe('executeTask - working directory', () => {
+  it('passes the working directory to executeClaudeCode', async () => {
+    const task = queries.createTask(db, {
+      name: 'Repo Task', prompt: 'Run tests', triggerType: 'manual', workingDirectory: resultsDir
+    })
+    mockExecute.mockResolvedValue({
+      stdout: 'ok', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null
+    })
+
+    await executeTask(task.id, { db, resultsDir })
+
+    expect(mockExecute.mock.calls[0][1]?.workingDirectory).toBe(resultsDir)
+  })
+
+  it('fails the run when the working directory no longer exists', async () => {
+    const task = queries.createTask(db, {
+      name: 'Gone', prompt: 'Run tests', triggerType: 'manual', workingDirectory: join(resultsDir, 'missing')
+    })
+
+    const result = await executeTask(task.id, { db, resultsDir })
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toMatch(/does not exist/)
+    expect(mockExecute).not.toHaveBeenCalled()
+    expect(queries.getLatestTaskRun(db, task.id)!.status).toBe('failed')
+  })
+})
+
+describe('executeTask - pipeline input', () => {
+  it('injects upstream result above the task prompt', async () => {
+    const id = createActiveTask('Summarize', 'Summarize the PRs')
+    mockExecute.mockResolvedValue({
+      stdout: 'summary', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null
+    })
+
+    await executeTask(id, {
+      db,
+      resultsDir,
+      upstream: { taskName: 'Collect PRs', output: '#12 Fix login', success: true }
+    })
+
+    const calledPrompt = mockExecute.mock.calls[0][0]
+    expect(calledPrompt).toContain('Input from previous step "Collect PRs" (succeeded)')
+    expect(calledPrompt).toContain('#12 Fix login')
+    expect(calledPrompt.indexOf('#12 Fix login')).toBeLessThan(calledPrompt.indexOf('Summarize the PRs'))
+  })
+
+  it('returns the run id', async () => {
+    const id = createActiveTask()
+    mockExecute.mockResolvedValue({
+      stdout: 'ok', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null
+    })
+
+    const result = await executeTask(id, { db, resultsDir })
+    expect(result.runId).toBe(queries.getLatestTaskRun(db, id)!.id)
+  })
+})
+
 describe('executeTask - learned context', () => {
   it('injects learned context into prompt', async () => {
     const task = queries.createTask(db, {
@@ -946,6 +1083,58 @@ describe('executeTask - learned context', () => {
   })
 })
 
+// ─── Usage Accounting ─────────────────────────────────────────
+
+describe('executeTask - usage accounting', () => {
+  const usage = { inputTokens: 100, outputTokens: 20, cacheReadTokens: 500, cacheCreationTokens: 0, costUsd: 0.01 }
+
+  it('stores token usage and cost on the run', async () => {
+    const id = createActiveTask()
+    mockExecute.mockResolvedValue({
+      stdout: 'ok', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null, usage
+    })
+
+    const result = await executeTask(id, { db, resultsDir })
+    const run = queries.getTaskRun(db, result.runId!)!
+
+    expect(run.inputTokens).toBe(100)
+    expect(run.outputTokens).toBe(20)
+    expect(run.cacheReadTokens).toBe(500)
+    expect(run.costUsd).toBeCloseTo(0.01)
+  })
+
+  it('adds up usage across session-resume retries', async () => {
+    const task = queries.createTask(db, { name: 'Session', prompt: 'p', triggerType: 'manual', sessionContinuity: true })
+    queries.updateTask(db, task.id, { sessionId: 'stale-session' })
+    mockExecute
+      .mockResolvedValueOnce({
+        stdout: '', stderr: 'session not found', exitCode: 1, durationMs: 10, timedOut: false, sessionId: null, usage
+      })
+      .mockResolvedValueOnce({
+        stdout: 'ok', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: 'fresh', usage
+      })
+
+    const result = await executeTask(task.id, { db, resultsDir })
+    const run = queries.getTaskRun(db, result.runId!)!
+
+    expect(run.inputTokens).toBe(200)
+    expect(run.costUsd).toBeCloseTo(0.02)
+  })
+
+  it('leaves usage empty when the CLI reports none', async () => {
+    const id = createActiveTask()
+    mockExecute.mockResolvedValue({
+      stdout: 'ok', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null
+    })
+
+    const result = await executeTask(id, { db, resultsDir })
+    const run = queries.getTaskRun(db, result.runId!)!
+
+    expect(run.inputTokens).toBeNull()
+    expect(run.costUsd).toBeNull()
+  })
+})
+
 // ─── Rate Limit Retry ──────────────────────────────────────────
 
 describe('executeTask - rate limit retry', () => {
@@ -1161,6 +1350,362 @@ describe('executeTask - rate limit retry', () => {
   })
 })
 
+// ─── Retry Policy ─────────────────────────────────────────────
+
+describe('executeTask - retry policy', () => {
+  const failure = { stdout: '', stderr: 'boom', exitCode: 1, durationMs: 50, timedOut: false, sessionId: null }
+  const success = { stdout: 'done', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null }
+
+  function createRetryingTask(input: Partial<Parameters<typeof queries.createTask>[1]> = {}): number {
+    return queries.createTask(db, {
+      name: 'Flaky Task', prompt: 'Fetch the feed', triggerType: 'manual', executor: 'claude_code',
+      maxAttempts: 3, retryDelaySeconds: 10, ...input
+    }).id
+  }
+
+  it('retries a failed run and records each attempt on the run', async () => {
+    const id = createRetryingTask()
+    mockExecute.mockResolvedValueOnce(failure).mockResolvedValueOnce(success)
+
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(result.success).toBe(true)
+    expect(mockExecute).toHaveBeenCalledTimes(2)
+    const run = queries.getLatestTaskRun(db, id)!
+    expect(run.status).toBe('completed')
+    expect(run.attempt).toBe(2)
+    expect(run.maxAttempts).toBe(3)
+    expect(queries.getTaskRunAttempts(db, run.id).map((a) => [a.attempt, a.status, a.errorMessage])).toEqual([
+      [1, 'failed', 'Exit code 1: boom'],
+      [2, 'completed', null]
+    ])
+    expect(queries.getTask(db, id)!.errorCount).toBe(0)
+  })
+
+  it('increments errorCount and notifies once when every attempt fails', async () => {
+    const id = createRetryingTask()
+    mockExecute.mockResolvedValue(failure)
+    const onFailed = vi.fn()
+
+    const result = await executeTask(id, { db, resultsDir, onFailed })
+
+    expect(result.success).toBe(false)
+    expect(mockExecute).toHaveBeenCalledTimes(3)
+    expect(onFailed).toHaveBeenCalledTimes(1)
+    expect(queries.getTask(db, id)!.errorCount).toBe(1)
+    expect(queries.getTaskRuns(db, id)).toHaveLength(1)
+    const run = queries.getLatestTaskRun(db, id)!
+    expect(run.attempt).toBe(3)
+    expect(queries.getTaskRunAttempts(db, run.id).map((a) => a.status)).toEqual(['failed', 'failed', 'failed'])
+  })
+
+  it('waits with exponential backoff between attempts', async () => {
+    const id = createRetryingTask()
+    mockExecute.mockResolvedValue(failure)
+
+    await executeTask(id, { db, resultsDir })
+
+    expect(mockSleep.mock.calls.map(([ms]) => ms)).toEqual([10_000, 20_000])
+  })
+
+  it('waits the same delay with fixed backoff', async () => {
+    const id = createRetryingTask({ retryBackoff: 'fixed' })
+    mockExecute.mockResolvedValue(failure)
+
+    await executeTask(id, { db, resultsDir })
+
+    expect(mockSleep.mock.calls.map(([ms]) => ms)).toEqual([10_000, 10_000])
+  })
+
+  it('only retries the failure classes in retryOn', async () => {
+    const id = createRetryingTask({ retryOn: ['timeout'] })
+    mockExecute.mockResolvedValue(failure)
+
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(result.success).toBe(false)
+    expect(mockExecute).toHaveBeenCalledTimes(1)
+  })
+
+  it('treats empty output as a failure only when opted in', async () => {
+    const empty = { ...success, stdout: '' }
+    const plainId = createRetryingTask()
+    mockExecute.mockResolvedValue(empty)
+    expect((await executeTask(plainId, { db, resultsDir })).success).toBe(true)
+    expect(mockExecute).toHaveBeenCalledTimes(1)
+
+    mockExecute.mockReset()
+    const strictId = createRetryingTask({ name: 'Strict Task', retryOn: ['empty_output'] })
+    mockExecute.mockResolvedValueOnce(empty).mockResolvedValueOnce(success)
+    const result = await executeTask(strictId, { db, resultsDir })
+    expect(result.success).toBe(true)
+    expect(mockExecute).toHaveBeenCalledTimes(2)
+    expect(queries.getTaskRunAttempts(db, result.runId!)[0].errorMessage).toBe('Finished without output')
+  })
+
+  it('does not record attempts for tasks without retries', async () => {
+    const id = createActiveTask()
+    mockExecute.mockResolvedValue(failure)
+
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(mockExecute).toHaveBeenCalledTimes(1)
+    expect(queries.getTaskRunAttempts(db, result.runId!)).toEqual([])
+    expect(queries.getLatestTaskRun(db, id)!.maxAttempts).toBe(1)
+  })
+})
+
+// ─── Success Criteria ─────────────────────────────────────────
+
+describe('executeTask - success criteria', () => {
+  const reply = { stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null }
+
+  function createCheckedTask(successCriteria: NonNullable<Parameters<typeof queries.createTask>[1]['successCriteria']>): number {
+    return queries.createTask(db, {
+      name: 'Checked Task', prompt: 'Summarize the file', triggerType: 'manual', executor: 'claude_code', successCriteria
+    }).id
+  }
+
+  it('fails a cleanly exited run whose output breaks a rule', async () => {
+    const id = createCheckedTask({ mustNotContain: ["couldn't access"] })
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: "I couldn't access the file." })
+    const onFailed = vi.fn()
+    const onComplete = vi.fn()
+
+    const result = await executeTask(id, { db, resultsDir, onFailed, onComplete })
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('Success criteria not met: output contains "couldn\'t access"')
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id }), result.errorMessage)
+    expect(onComplete).not.toHaveBeenCalled()
+    const run = queries.getLatestTaskRun(db, id)!
+    expect(run.status).toBe('failed')
+    expect(queries.getTask(db, id)!.errorCount).toBe(1)
+    expect(queries.getTask(db, id)!.runCount).toBe(0)
+    expect(readFileSync(result.resultFilePath!, 'utf-8')).toContain('**Status:** Failed (Success criteria not met')
+  })
+
+  it('succeeds when every rule holds', async () => {
+    const id = createCheckedTask({ mustContain: ['summary'], json: false, minLength: 5 })
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: 'Summary: all good' })
+
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(result.success).toBe(true)
+    expect(mockExecute).toHaveBeenCalledTimes(1)
+  })
+
+  it('asks a judge about the rubric and records its usage on the run', async () => {
+    const id = createCheckedTask({ rubric: 'Lists at least three articles' })
+    mockExecute
+      .mockResolvedValueOnce({ ...reply, stdout: 'One article' })
+      .mockResolvedValueOnce({ ...reply, stdout: 'FAIL: only one article', usage: { inputTokens: 40, outputTokens: 5, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0.001 } })
+
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(mockExecute).toHaveBeenCalledTimes(2)
+    expect(mockExecute.mock.calls[1][0]).toContain('Lists at least three articles')
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('Success criteria not met: rubric not met: only one article')
+    expect(queries.getLatestTaskRun(db, id)!.inputTokens).toBe(40)
+  })
+
+  it('records the run as cancelled when cancelled while judging', async () => {
+    const id = createCheckedTask({ rubric: 'Lists at least three articles' })
+    mockExecute
+      .mockResolvedValueOnce({ ...reply, stdout: 'One article' })
+      .mockImplementationOnce((_prompt, options) => new Promise(resolve => {
+        options!.signal!.addEventListener('abort', () => resolve({ ...reply, stdout: '', exitCode: 1, cancelled: true }))
+      }))
+
+    const run = executeTask(id, { db, resultsDir })
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(cancelTask(id)).toBe(true)
+    const result = await run
+
+    expect(result.cancelled).toBe(true)
+    expect(queries.getLatestTaskRun(db, id)!.status).toBe('cancelled')
+    expect(queries.getTask(db, id)!.runCount).toBe(0)
+  })
+
+  it('skips the judge when a rule already failed or the CLI failed', async () => {
+    const id = createCheckedTask({ minLength: 50, rubric: 'Is thorough' })
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: 'Short' })
+    await executeTask(id, { db, resultsDir })
+
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: '', stderr: 'boom', exitCode: 1 })
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(mockExecute).toHaveBeenCalledTimes(2)
+    expect(result.errorMessage).toBe('Exit code 1: boom')
+  })
+})
+
+// ─── Structured Output ────────────────────────────────────────
+
+describe('executeTask - structured output', () => {
+  const schema = {
+    type: 'array',
+    items: { type: 'object', required: ['id', 'severity'], properties: { id: { type: 'string' }, severity: { type: 'number' } } }
+  }
+  const reply = { stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null }
+
+  function createStructuredTask(): number {
+    return queries.createTask(db, {
+      name: 'New CVEs', prompt: 'List new CVEs', triggerType: 'manual', executor: 'claude_code', outputSchema: schema
+    }).id
+  }
+
+  it('asks for JSON matching the schema', async () => {
+    const id = createStructuredTask()
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: '[]' })
+
+    await executeTask(id, { db, resultsDir })
+
+    const prompt = mockExecute.mock.calls[0][0]
+    expect(prompt).toContain('List new CVEs\n\n## Output format')
+    expect(prompt).toContain('"required": [')
+  })
+
+  it('stores the parsed JSON and writes a .json file next to the result', async () => {
+    const id = createStructuredTask()
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: '```json\n[{"id": "CVE-2026-1", "severity": 9.8}]\n```' })
+
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(result.success).toBe(true)
+    const run = queries.getLatestTaskRun(db, id)!
+    expect(run.resultJson).toBe('[{"id":"CVE-2026-1","severity":9.8}]')
+    const jsonPath = result.resultFilePath!.replace(/\.md$/, '.json')
+    expect(JSON.parse(readFileSync(jsonPath, 'utf-8'))).toEqual([{ id: 'CVE-2026-1', severity: 9.8 }])
+  })
+
+  it('fails runs whose output is not JSON or does not match the schema', async () => {
+    const id = createStructuredTask()
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: 'There were no new CVEs today.' })
+    const notJson = await executeTask(id, { db, resultsDir })
+    expect(notJson.success).toBe(false)
+    expect(notJson.errorMessage).toBe('Output is not valid JSON')
+
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: '[{"id": "CVE-2026-1"}]' })
+    const wrongShape = await executeTask(id, { db, resultsDir })
+    expect(wrongShape.errorMessage).toBe('Output does not match the output schema ($[0]: missing required property "severity")')
+    expect(queries.getLatestTaskRun(db, id)!.resultJson).toBeNull()
+    expect(existsSync(wrongShape.resultFilePath!.replace(/\.md$/, '.json'))).toBe(false)
+  })
+})
+
+// ─── Change Detection ─────────────────────────────────────────
+
+describe('executeTask - change detection', () => {
+  const reply = { stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null }
+
+  function createWatchingTask(changeDetection: 'off' | 'text' | 'json' = 'text'): number {
+    return queries.createTask(db, {
+      name: 'Changelog', prompt: 'Check the changelog', triggerType: 'manual', executor: 'claude_code', changeDetection
+    }).id
+  }
+
+  it('marks a result that matches the previous successful run as unchanged', async () => {
+    const id = createWatchingTask()
+    mockExecute
+      .mockResolvedValueOnce({ ...reply, stdout: 'Latest: v1.2 (checked 09:00)' })
+      .mockResolvedValueOnce({ ...reply, stdout: '', stderr: 'boom', exitCode: 1 })
+      .mockResolvedValueOnce({ ...reply, stdout: 'Latest:  v1.2 (checked 10:00)' })
+
+    const first = await executeTask(id, { db, resultsDir })
+    await executeTask(id, { db, resultsDir })
+    const third = await executeTask(id, { db, resultsDir })
+
+    expect(first.unchanged).toBe(false)
+    expect(queries.getTaskRun(db, first.runId!)).toMatchObject({ changed: true, diff: null })
+    expect(third.unchanged).toBe(true)
+    expect(queries.getTaskRun(db, third.runId!)).toMatchObject({ changed: false, diff: null })
+  })
+
+  it('stores the diff when the result changed', async () => {
+    const id = createWatchingTask()
+    mockExecute
+      .mockResolvedValueOnce({ ...reply, stdout: 'Latest: v1.2' })
+      .mockResolvedValueOnce({ ...reply, stdout: 'Latest: v1.3' })
+
+    await executeTask(id, { db, resultsDir })
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(result.unchanged).toBe(false)
+    expect(queries.getTaskRun(db, result.runId!)).toMatchObject({ changed: true, diff: '- Latest: v1.2\n+ Latest: v1.3' })
+  })
+
+  it('does nothing when change detection is off', async () => {
+    const id = createWatchingTask('off')
+    mockExecute.mockResolvedValue({ ...reply, stdout: 'same' })
+
+    await executeTask(id, { db, resultsDir })
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(result.unchanged).toBe(false)
+    expect(queries.getTaskRun(db, result.runId!)!.changed).toBeNull()
+  })
+})
+
+// ─── Webhooks ─────────────────────────────────────────────────
+
+describe('executeTask - webhooks', () => {
+  const reply = { stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null }
+
+  function dispatchedEvents(): Array<{ event: string; run: Record<string, unknown> }> {
+    return mockDispatch.mock.calls.map(([, payload]) => payload)
+  }
+
+  it('sends started and completed events', async () => {
+    const id = createActiveTask('Hooked')
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: 'All good' })
+
+    const result = await executeTask(id, { db, resultsDir })
+
+    expect(dispatchedEvents()).toEqual([
+      expect.objectContaining({ event: 'run.started', task: { id, name: 'Hooked' }, run: expect.objectContaining({ id: result.runId, status: 'running' }) }),
+      expect.objectContaining({ event: 'run.completed', run: expect.objectContaining({ status: 'completed', result: 'All good', durationMs: 100 }) })
+    ])
+  })
+
+  it('sends a failed event with the error', async () => {
+    const id = createActiveTask()
+    mockExecute.mockResolvedValueOnce({ ...reply, stdout: '', stderr: 'boom', exitCode: 1 })
+
+    await executeTask(id, { db, resultsDir })
+
+    expect(dispatchedEvents()[1]).toMatchObject({ event: 'run.failed', run: { status: 'failed', error: 'Exit code 1: boom' } })
+  })
+
+  it('ends a cancelled run with a failed event', async () => {
+    const id = createActiveTask()
+    mockExecute.mockImplementationOnce((_prompt, options) => new Promise((resolve) => {
+      options?.signal?.addEventListener('abort', () => resolve({ ...reply, stdout: 'halfway', exitCode: 1, cancelled: true }))
+    }))
+
+    const promise = executeTask(id, { db, resultsDir })
+    await vi.waitFor(() => expect(mockExecute).toHaveBeenCalled())
+    cancelTask(id)
+    await promise
+
+    expect(dispatchedEvents().map((p) => p.event)).toEqual(['run.started', 'run.failed'])
+    expect(dispatchedEvents()[1]).toMatchObject({ run: { status: 'failed', error: 'Cancelled', result: 'halfway' } })
+  })
+
+  it('stays quiet about unchanged results', async () => {
+    const id = queries.createTask(db, {
+      name: 'Watcher', prompt: 'p', triggerType: 'manual', executor: 'claude_code', changeDetection: 'text'
+    }).id
+    mockExecute.mockResolvedValue({ ...reply, stdout: 'same' })
+
+    await executeTask(id, { db, resultsDir })
+    await executeTask(id, { db, resultsDir })
+
+    expect(dispatchedEvents().map((p) => p.event)).toEqual(['run.started', 'run.completed', 'run.started'])
+  })
+})
+
 // ─── Concurrency Limiter ──────────────────────────────────────
 
 describe('executeTask - concurrency limiter', () => {
@@ -1239,4 +1784,99 @@ describe('executeTask - concurrency limiter', () => {
     expect(failed).toBe(1)
     expect(callCount).toBe(4) // all 4 tasks actually ran
   })
+
+  it('frees the slot while a task waits to retry', async () => {
+    const retrying = queries.createTask(db, {
+      name: 'Flaky Task', prompt: 'Fetch the feed', triggerType: 'manual', executor: 'claude_code', maxAttempts: 2
+    }).id
+    const others = [0, 1, 2].map(i => createActiveTask(`Other ${i}`, `Work ${i}`))
+
+    let endBackoff!: () => void
+    mockSleep.mockImplementationOnce(() => new Promise<void>(resolve => { endBackoff = resolve }))
+    const resolvers: Array<(value: { stdout: string; stderr: string; exitCode: number; durationMs: number; timedOut: boolean; sessionId: string | null }) => void> = []
+    mockExecute
+      .mockResolvedValueOnce({ stdout: '', stderr: 'boom', exitCode: 1, durationMs: 50, timedOut: false, sessionId: null })
+      .mockImplementation(() => new Promise(resolve => { resolvers.push(resolve) }))
+
+    const retryingRun = executeTask(retrying, { db, resultsDir })
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(mockSleep).toHaveBeenCalledTimes(1)
+    expect(isTaskRunning(retrying)).toBe(true)
+
+    // All three slots are free for other tasks during the backoff
+    const otherRuns = others.map(id => executeTask(id, { db, resultsDir }))
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(resolvers.length).toBe(3)
+
+    // The retry waits for a slot once the backoff ends
+    endBackoff()
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(resolvers.length).toBe(3)
+
+    resolvers[0]({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null })
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(resolvers.length).toBe(4)
+
+    for (const resolve of resolvers.slice(1)) {
+      resolve({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null })
+    }
+    const results = await Promise.all([retryingRun, ...otherRuns])
+    expect(results.every(r => r.success)).toBe(true)
+  })
+
+  it('cancels a task while it waits to retry without leaking its slot', async () => {
+    const retrying = queries.createTask(db, {
+      name: 'Flaky Task', prompt: 'Fetch the feed', triggerType: 'manual', executor: 'claude_code', maxAttempts: 2
+    }).id
+    mockSleep.mockImplementationOnce((_ms, signal) => new Promise<void>((_resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(new Error('Aborted')))
+    }))
+    mockExecute.mockResolvedValue({ stdout: '', stderr: 'boom', exitCode: 1, durationMs: 50, timedOut: false, sessionId: null })
+
+    const run = executeTask(retrying, { db, resultsDir })
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(cancelTask(retrying)).toBe(true)
+    const result = await run
+
+    expect(result.cancelled).toBe(true)
+    expect(queries.getLatestTaskRun(db, retrying)!.status).toBe('cancelled')
+
+    // Three more tasks still run side by side
+    const resolvers: Array<(value: { stdout: string; stderr: string; exitCode: number; durationMs: number; timedOut: boolean; sessionId: string | null }) => void> = []
+    mockExecute.mockImplementation(() => new Promise(resolve => { resolvers.push(resolve) }))
+    const ids = [0, 1, 2].map(i => createActiveTask(`After ${i}`, `Work ${i}`))
+    const runs = ids.map(id => executeTask(id, { db, resultsDir }))
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(resolvers.length).toBe(3)
+    for (const resolve of resolvers) {
+      resolve({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null })
+    }
+    await Promise.all(runs)
+  })
+
+  it('cancels a task still waiting for a slot', async () => {
+    const resolvers: Array<(value: { stdout: string; stderr: string; exitCode: number; durationMs: number; timedOut: boolean; sessionId: string | null }) => void> = []
+    mockExecute.mockImplementation(() => new Promise(resolve => { resolvers.push(resolve) }))
+    const busy = [0, 1, 2].map(i => executeTask(createActiveTask(`Busy ${i}`, `Work ${i}`), { db, resultsDir }))
+    const queuedId = createActiveTask('Queued', 'Wait')
+    const queued = executeTask(queuedId, { db, resultsDir })
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    expect(isTaskRunning(queuedId)).toBe(true)
+    expect(cancelTask(queuedId)).toBe(true)
+    expect(await queued).toMatchObject({ success: false, cancelled: true })
+    expect(isTaskRunning(queuedId)).toBe(false)
+    expect(queries.getTaskRuns(db, queuedId)).toHaveLength(0)
+
+    // The cancelled waiter does not take the slot the next finished task frees
+    const next = executeTask(createActiveTask('Next', 'Work'), { db, resultsDir })
+    resolvers[0]({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null })
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(resolvers.length).toBe(4)
+    for (const resolve of resolvers.slice(1)) {
+      resolve({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 100, timedOut: false, sessionId: null })
+    }
+    await Promise.all([...busy, next])
+    expect(mockExecute).toHaveBeenCalledTimes(4)
+  })
 })
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { globToRegExp, matchesExclude, matchesInclude, shouldTriggerWatch } from '../watch-filter'
+
+function filters(overrides: Partial<Parameters<typeof shouldTriggerWatch>[0]> = {}): Parameters<typeof shouldTriggerWatch>[0] {
+  return { includePatterns: [], excludePatterns: [], maxDepth: 2, eventTypes: [], ...overrides }
+}
+
+describe('globToRegExp', () => {
+  it('matches * within a single segment', () => {
+    expect(globToRegExp('*.pdf').test('report.pdf')).toBe(true)
+    expect(globToRegExp('*.pdf').test('sub/report.pdf')).toBe(false)
+  })
+
+  it('matches ** across segments', () => {
+    expect(globToRegExp('dist/**').test('dist/a/b.js')).toBe(true)
+    expect(globToRegExp('**/*.md').test('README.md')).toBe(true)
+    expect(globToRegExp('**/*.md').test('docs/guide/intro.md')).toBe(true)
+  })
+
+  it('supports ?, character classes and braces', () => {
+    expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true)
+    expect(globToRegExp('[ab].txt').test('c.txt')).toBe(false)
+    expect(globToRegExp('*.{jpg,png}').test('photo.png')).toBe(true)
+    expect(globToRegExp('*.{jpg,png}').test('photo.gif')).toBe(false)
+  })
+
+  it('escapes regex metacharacters', () => {
+    expect(globToRegExp('a+b.txt').test('a+b.txt')).toBe(true)
+    expect(globToRegExp('a+b.txt').test('aab.txt')).toBe(false)
+  })
+})
+
+describe('matchesInclude / matchesExclude', () => {
+  it('bare include patterns match the file name', () => {
+    expect(matchesInclude('invoices/march.pdf', '*.pdf')).toBe(true)
+  })
+
+  it('bare exclude patterns match any segment', () => {
+    expect(matchesExclude('node_modules/lodash/index.js', 'node_modules')).toBe(true)
+    expect(matchesExclude('src/.git/HEAD', '.git')).toBe(true)
+    expect(matchesExclude('src/index.ts', 'node_modules')).toBe(false)
+  })
+
+  it('exclude patterns with a slash match path prefixes', () => {
+    expect(matchesExclude('build/out/app.js', 'build/out')).toBe(true)
+    expect(matchesExclude('src/build/out.js', 'build/out')).toBe(false)
+  })
+})
+
+describe('shouldTriggerWatch', () => {
+  it('accepts everything within depth by default', () => {
+    expect(shouldTriggerWatch(filters(), 'a.txt', 'modified')).toBe(true)
+    expect(shouldTriggerWatch(filters(), 'sub/a.txt', 'deleted')).toBe(true)
+  })
+
+  it('enforces max depth', () => {
+    expect(shouldTriggerWatch(filters(), 'a/b/c.txt', 'created')).toBe(false)
+    expect(shouldTriggerWatch(filters({ maxDepth: 1 }), 'sub/a.txt', 'created')).toBe(false)
+    expect(shouldTriggerWatch(filters({ maxDepth: 5 }), 'a/b/c.txt', 'created')).toBe(true)
+  })
+
+  it('filters by event type', () => {
+    const onlyCreated = filters({ eventTypes: ['created'] })
+    expect(shouldTriggerWatch(onlyCreated, 'new.pdf', 'created')).toBe(true)
+    expect(shouldTriggerWatch(onlyCreated, 'new.pdf', 'modified')).toBe(false)
+  })
+
+  it('requires an include match when include patterns are set', () => {
+    const pdfs = filters({ includePatterns: ['*.pdf'] })
+    expect(shouldTriggerWatch(pdfs, 'doc.pdf', 'created')).toBe(true)
+    expect(shouldTriggerWatch(pdfs, 'doc.txt', 'created')).toBe(false)
+  })
+
+  it('lets exclude patterns win over include patterns', () => {
+    const f = filters({ includePatterns: ['*.js'], excludePatterns: ['node_modules'], maxDepth: 10 })
+    expect(shouldTriggerWatch(f, 'src/app.js', 'modified')).toBe(true)
+    expect(shouldTriggerWatch(f, 'node_modules/x/index.js', 'modified')).toBe(false)
+  })
+})
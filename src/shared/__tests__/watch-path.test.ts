@@ -1,7 +1,8 @@
 import { describe, expect, it } from 'vitest'
 import { homedir, tmpdir } from 'os'
 import { join } from 'path'
-import { validateWatchPath } from '../watch-path'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { validateWatchPath, validateWorkingDirectory } from '../watch-path'
 
 describe('validateWatchPath', () => {
   it('accepts a path inside home directory', () => {
@@ -22,3 +23,38 @@ describe('validateWatchPath', () => {
     expect(validateWatchPath(join(homedir(), '.ssh'))).toMatch(/sensitive directory/)
   })
 })
+
+describe('validateWorkingDirectory', () => {
+  it('accepts an existing directory inside temp', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'daymon-cwd-'))
+    try {
+      expect(validateWorkingDirectory(dir)).toBeNull()
+    } finally {
+      rmSync(dir, { recursive: true })
+    }
+  })
+
+  it('rejects relative paths', () => {
+    expect(validateWorkingDirectory('projects/app')).toMatch(/absolute/)
+  })
+
+  it('rejects missing directories', () => {
+    expect(validateWorkingDirectory(join(tmpdir(), 'daymon-does-not-exist-xyz'))).toMatch(/does not exist/)
+  })
+
+  it('rejects files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'daymon-cwd-'))
+    const file = join(dir, 'file.txt')
+    writeFileSync(file, 'x')
+    try {
+      expect(validateWorkingDirectory(file)).toMatch(/not a directory/)
+    } finally {
+      rmSync(dir, { recursive: true })
+    }
+  })
+
+  it('rejects paths outside allowed roots', () => {
+    const outsidePath = process.platform === 'win32' ? 'C:\\Windows' : '/etc'
+    expect(validateWorkingDirectory(outsidePath)).toMatch(/home directory/)
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createServer, type IncomingHttpHeaders, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import Database from 'better-sqlite3'
+import * as q from '../db-queries'
+import { buildRunPayload, dispatchWebhookEvent, renderTemplate, renderWebhookBody, sendTestWebhook, signWebhookBody } from '../webhooks'
+import { initTestDb } from './helpers/test-db'
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+let db: Database.Database
+let server: Server
+let baseUrl: string
+let received: ReceivedRequest[]
+// Status codes the stand-in answers with, in order; 200 once exhausted
+let responses: number[]
+
+beforeEach(async () => {
+  db = initTestDb()
+  received = []
+  responses = []
+  server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => { body += chunk })
+    req.on('end', () => {
+      received.push({ headers: req.headers, body })
+      res.statusCode = responses.shift() ?? 200
+      res.end(res.statusCode === 200 ? 'ok' : 'nope')
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()))
+  db.close()
+})
+
+const task = { id: 1, name: 'Daily digest' }
+
+function completedPayload(): ReturnType<typeof buildRunPayload> {
+  return buildRunPayload('run.completed', task, { runId: 7, durationMs: 4200, result: 'All quiet <today>' })
+}
+
+describe('renderWebhookBody', () => {
+  it('sends the full payload as JSON by default', () => {
+    const { body, contentType } = renderWebhookBody({ format: 'json', bodyTemplate: null }, completedPayload())
+    expect(contentType).toBe('application/json')
+    expect(JSON.parse(body)).toMatchObject({
+      event: 'run.completed',
+      task: { id: 1, name: 'Daily digest' },
+      run: { id: 7, status: 'completed', durationMs: 4200, result: 'All quiet <today>' }
+    })
+  })
+
+  it('escapes template values inside JSON strings', () => {
+    const payload = buildRunPayload('run.failed', { id: 1, name: 'Say "hi"' }, { runId: 7, error: 'line 1\nline 2' })
+    const { body } = renderWebhookBody({ format: 'json', bodyTemplate: '{"title": "{{task.name}}", "msg": "{{run.error}}"}' }, payload)
+    expect(JSON.parse(body)).toEqual({ title: 'Say "hi"', msg: 'line 1\nline 2' })
+  })
+
+  it('wraps Slack messages in a text field and escapes markup', () => {
+    const { body } = renderWebhookBody({ format: 'slack', bodyTemplate: null }, completedPayload())
+    expect(JSON.parse(body)).toEqual({ text: 'Daily digest completed in 4.2s\n\nAll quiet &lt;today&gt;' })
+  })
+
+  it('sends plain text for ntfy-style endpoints', () => {
+    const payload = buildRunPayload('run.failed', task, { runId: 7, durationMs: 1000, error: 'Exit code 1: boom' })
+    expect(renderWebhookBody({ format: 'text', bodyTemplate: null }, payload)).toEqual({
+      body: 'Daily digest failed in 1.0s: Exit code 1: boom',
+      contentType: 'text/plain; charset=utf-8'
+    })
+  })
+})
+
+describe('renderTemplate', () => {
+  it('leaves unknown placeholders empty', () => {
+    expect(renderTemplate('{{ task.name }}|{{run.nope}}|{{event}}', completedPayload())).toBe('Daily digest||run.completed')
+  })
+})
+
+describe('dispatchWebhookEvent', () => {
+  it('signs deliveries and logs them', async () => {
+    q.createWebhook(db, { name: 'Signed', url: `${baseUrl}/hook`, secret: 's3cret' })
+
+    const [delivery] = await dispatchWebhookEvent(db, completedPayload())
+
+    expect(received).toHaveLength(1)
+    const { headers, body } = received[0]
+    expect(headers['x-daymon-event']).toBe('run.completed')
+    expect(headers['x-daymon-delivery']).toBe(String(delivery.id))
+    expect(headers['x-daymon-signature']).toBe(signWebhookBody('s3cret', Number(headers['x-daymon-timestamp']), body))
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200, taskId: 1, runId: 7 })
+  })
+
+  it('skips disabled webhooks and those filtering out the event', async () => {
+    q.createWebhook(db, { name: 'Off', url: baseUrl, enabled: false })
+    q.createWebhook(db, { name: 'Starts', url: baseUrl, events: ['run.started'] })
+
+    expect(await dispatchWebhookEvent(db, completedPayload())).toEqual([])
+    expect(received).toHaveLength(0)
+  })
+
+  it('retries server errors with backoff until delivered', async () => {
+    q.createWebhook(db, { name: 'Flaky', url: baseUrl })
+    responses = [503, 500]
+
+    const [delivery] = await dispatchWebhookEvent(db, completedPayload(), { retryDelaysMs: [1, 1, 1] })
+
+    expect(received).toHaveLength(3)
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3, responseStatus: 200, error: null })
+  })
+
+  it('gives up after the last retry', async () => {
+    q.createWebhook(db, { name: 'Down', url: baseUrl })
+    responses = [500, 500, 500]
+
+    const [delivery] = await dispatchWebhookEvent(db, completedPayload(), { retryDelaysMs: [1, 1] })
+
+    expect(received).toHaveLength(3)
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 3, responseStatus: 500, error: 'HTTP 500: nope' })
+  })
+
+  it('does not retry client errors', async () => {
+    q.createWebhook(db, { name: 'Gone', url: baseUrl })
+    responses = [404]
+
+    const [delivery] = await dispatchWebhookEvent(db, completedPayload(), { retryDelaysMs: [1, 1] })
+
+    expect(received).toHaveLength(1)
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 404 })
+  })
+
+  it('records unreachable endpoints', async () => {
+    const { port } = server.address() as AddressInfo
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+    q.createWebhook(db, { name: 'Nowhere', url: `http://127.0.0.1:${port}` })
+
+    const [delivery] = await dispatchWebhookEvent(db, completedPayload(), { retryDelaysMs: [1] })
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 2, responseStatus: null })
+    expect(delivery.error).toBeTruthy()
+    // afterEach closes the server again
+    server = createServer()
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  })
+})
+
+describe('sendTestWebhook', () => {
+  it('sends a sample event once without retrying', async () => {
+    const webhook = q.createWebhook(db, { name: 'Test', url: baseUrl, format: 'slack' })
+    responses = [500]
+
+    const delivery = await sendTestWebhook(db, webhook)
+
+    expect(received).toHaveLength(1)
+    expect(JSON.parse(received[0].body).text).toContain('Daymon test completed')
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, taskId: null })
+  })
+})
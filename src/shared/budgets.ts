@@ -0,0 +1,44 @@
+import type Database from 'better-sqlite3'
+import * as queries from './db-queries'
+import type { BudgetMetric, Task, UsageBudget } from './types'
+
+const PERIOD_LABELS = { day: 'daily', week: 'weekly' } as const
+
+export function formatBudgetValue(metric: BudgetMetric, value: number): string {
+  if (metric === 'cost') return `$${value.toFixed(2)}`
+  if (metric === 'tokens') return `${Math.round(value).toLocaleString('en-US')} tokens`
+  return `${value} run(s)`
+}
+
+export function describeBudget(db: Database.Database, budget: UsageBudget): string {
+  const period = PERIOD_LABELS[budget.period]
+  const limit = formatBudgetValue(budget.metric, budget.limit)
+  if (budget.scope === 'worker') {
+    const worker = budget.scopeId != null ? queries.getWorker(db, budget.scopeId) : null
+    return `${period} budget of ${limit} for worker "${worker?.name ?? 'unknown'}"`
+  }
+  if (budget.scope === 'task') {
+    const task = budget.scopeId != null ? queries.getTask(db, budget.scopeId) : null
+    return `${period} budget of ${limit} for task "${task?.name ?? 'unknown'}"`
+  }
+  return `global ${period} budget of ${limit}`
+}
+
+/**
+ * Check the task against every budget that applies to it. When one is used up,
+ * record a skipped run (and pause the task if the budget says so) and return
+ * the reason; otherwise return null and the caller may start the run.
+ */
+export function enforceBudgets(db: Database.Database, task: Task): string | null {
+  const status = queries.findExceededBudget(db, task)
+  if (!status) return null
+
+  const used = formatBudgetValue(status.budget.metric, status.used)
+  let reason = `Skipped: ${describeBudget(db, status.budget)} reached (${used} used)`
+  if (status.budget.action === 'pause') {
+    queries.pauseTask(db, task.id)
+    reason += '. Task paused'
+  }
+  queries.createSkippedTaskRun(db, task.id, reason)
+  return reason
+}
@@ -0,0 +1,141 @@
+/**
+ * Change detection for recurring "watch the world" tasks: compare a run's
+ * result with the previous successful one, either as normalized text or as
+ * structured JSON, and describe what changed.
+ */
+
+import { extractJsonText } from './structured-output'
+import type { ChangeDetectionMode } from './types'
+
+// LCS needs lines × lines cells; longer outputs fall back to a set comparison
+const MAX_LCS_CELLS = 4_000_000
+const MAX_DIFF_LINES = 200
+const MAX_JSON_VALUE_CHARS = 120
+
+export interface ChangeResult {
+  changed: boolean
+  /** What changed, one "+ added" / "- removed" / "~ path" line per difference. Null on the first comparison. */
+  diff: string | null
+}
+
+export interface ComparedResult {
+  result: string
+  /** JSON text when the run produced validated structured output. */
+  json?: string | null
+}
+
+/**
+ * Normalize text so re-runs that only differ in formatting or in the time they
+ * ran compare equal: whitespace is collapsed, blank lines dropped, and dates
+ * and clock times masked.
+ */
+export function normalizeText(text: string): string[] {
+  return text
+    .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, '<datetime>')
+    .replace(/\b\d{4}-\d{2}-\d{2}\b/g, '<date>')
+    .replace(/\b\d{1,2}:\d{2}(:\d{2})?(\s?[AaPp][Mm])?\b/g, '<time>')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+}
+
+function capLines(lines: string[]): string {
+  if (lines.length <= MAX_DIFF_LINES) return lines.join('\n')
+  return [...lines.slice(0, MAX_DIFF_LINES), `… ${lines.length - MAX_DIFF_LINES} more changes`].join('\n')
+}
+
+/** Line diff of two texts, listing only removed ("- ") and added ("+ ") lines, in order. */
+export function diffLines(before: string[], after: string[]): string[] {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    const kept = new Set(after)
+    const previous = new Set(before)
+    return [...before.filter((l) => !kept.has(l)).map((l) => `- ${l}`), ...after.filter((l) => !previous.has(l)).map((l) => `+ ${l}`)]
+  }
+
+  // lcs[i][j] = longest common subsequence of before[i..] and after[j..]
+  const lcs: Uint32Array[] = Array.from({ length: before.length + 1 }, () => new Uint32Array(after.length + 1))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const out: string[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push(`- ${before[i++]}`)
+    } else {
+      out.push(`+ ${after[j++]}`)
+    }
+  }
+  while (i < before.length) out.push(`- ${before[i++]}`)
+  while (j < after.length) out.push(`+ ${after[j++]}`)
+  return out
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined'
+  return text.length > MAX_JSON_VALUE_CHARS ? text.slice(0, MAX_JSON_VALUE_CHARS - 1) + '…' : text
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Paths that differ between two JSON values; object key order does not matter. */
+export function diffJson(before: unknown, after: unknown, path = '$'): string[] {
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    return [...keys].sort().flatMap((key) => {
+      const childPath = `${path}.${key}`
+      if (!(key in after)) return [`- ${childPath}: ${preview(before[key])}`]
+      if (!(key in before)) return [`+ ${childPath}: ${preview(after[key])}`]
+      return diffJson(before[key], after[key], childPath)
+    })
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const out: string[] = []
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const childPath = `${path}[${i}]`
+      if (i >= after.length) out.push(`- ${childPath}: ${preview(before[i])}`)
+      else if (i >= before.length) out.push(`+ ${childPath}: ${preview(after[i])}`)
+      else out.push(...diffJson(before[i], after[i], childPath))
+    }
+    return out
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [`~ ${path}: ${preview(before)} → ${preview(after)}`]
+}
+
+function toJson(run: ComparedResult): { value: unknown } | null {
+  try {
+    return { value: JSON.parse(run.json ?? extractJsonText(run.result)) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Compare a run's result with the previous successful one. Without a previous
+ * result everything counts as changed. JSON mode falls back to text when
+ * either result is not JSON.
+ */
+export function detectChange(mode: Exclude<ChangeDetectionMode, 'off'>, previous: ComparedResult | null, current: ComparedResult): ChangeResult {
+  if (!previous) return { changed: true, diff: null }
+
+  if (mode === 'json') {
+    const before = toJson(previous)
+    const after = toJson(current)
+    if (before && after) {
+      const lines = diffJson(before.value, after.value)
+      return { changed: lines.length > 0, diff: lines.length > 0 ? capLines(lines) : null }
+    }
+  }
+
+  const lines = diffLines(normalizeText(previous.result), normalizeText(current.result))
+  return { changed: lines.length > 0, diff: lines.length > 0 ? capLines(lines) : null }
+}
@@ -1,7 +1,8 @@
-import { spawn, execSync } from 'child_process'
+import { spawn, execSync, type ChildProcess } from 'child_process'
 import { existsSync } from 'fs'
 import { join } from 'path'
 import { homedir } from 'os'
+import type { TokenUsage } from './types'
 
 export interface ConsoleLogEvent {
   entryType: 'tool_call' | 'assistant_text' | 'tool_result' | 'result' | 'error'
@@ -13,13 +14,20 @@ export type ConsoleLogCallback = (entry: ConsoleLogEvent) => void
 export interface ExecutionOptions {
   timeoutMs?: number
   maxTurns?: number
+  /** Comma-separated tools the run may use; an empty string allows none. */
   allowedTools?: string
   disallowedTools?: string
+  /** Load no MCP servers, ignoring the user's configured ones. */
+  noMcpServers?: boolean
   onProgress?: ProgressCallback
   onConsoleLog?: ConsoleLogCallback
   resumeSessionId?: string
   systemPrompt?: string
   model?: string
+  /** Directory the CLI is spawned in (picks up its CLAUDE.md and settings). Defaults to home. */
+  workingDirectory?: string
+  /** Aborting kills the CLI and every process it started. */
+  signal?: AbortSignal
 }
 
 export interface ExecutionResult {
@@ -29,6 +37,9 @@ export interface ExecutionResult {
   durationMs: number
   timedOut: boolean
   sessionId: string | null
+  usage?: TokenUsage | null
+  /** The run was stopped through `signal`. */
+  cancelled?: boolean
 }
 
 export interface ProgressUpdate {
@@ -39,6 +50,7 @@ export interface ProgressUpdate {
 export type ProgressCallback = (progress: ProgressUpdate) => void
 
 const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000 // 30 minutes
+const KILL_GRACE_MS = 5000
 
 let cachedClaudePath: string | null = null
 
@@ -137,6 +149,24 @@ export function checkClaudeCliAvailable(): { available: boolean; version?: strin
   }
 }
 
+/**
+ * Signal the CLI and everything it spawned (tool calls, MCP servers). On Unix the
+ * CLI leads its own process group; Windows needs taskkill to walk the tree.
+ */
+function killProcessTree(proc: ChildProcess, signal: NodeJS.Signals): void {
+  if (proc.pid == null) return
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(proc.pid), '/T', '/F'], { stdio: 'ignore', windowsHide: true })
+    } else {
+      process.kill(-proc.pid, signal)
+    }
+  } catch {
+    // Group already gone — fall back to the CLI itself
+    try { proc.kill(signal) } catch { /* already exited */ }
+  }
+}
+
 export function executeClaudeCode(
   prompt: string,
   options?: ExecutionOptions
@@ -152,6 +182,7 @@ export function executeClaudeCode(
     let settled = false
     let lastResultText = ''
     let capturedSessionId: string | null = null
+    let capturedUsage: TokenUsage | null = null
 
     const env = { ...process.env }
     delete env.ELECTRON_RUN_AS_NODE
@@ -170,12 +201,21 @@ export function executeClaudeCode(
     if (options?.maxTurns) {
       args.push('--max-turns', String(options.maxTurns))
     }
-    if (options?.allowedTools) {
+    if (options?.allowedTools !== undefined) {
       args.push('--allowedTools', options.allowedTools)
     }
     if (options?.disallowedTools) {
       args.push('--disallowedTools', options.disallowedTools)
     }
+    if (options?.noMcpServers) {
+      // Strict mode with no --mcp-config means no servers at all
+      args.push('--strict-mcp-config')
+    }
+
+    if (options?.signal?.aborted) {
+      resolve({ stdout: '', stderr: '', exitCode: 1, durationMs: 0, timedOut: false, sessionId: null, usage: null, cancelled: true })
+      return
+    }
 
     const claudePath = resolveClaudePath()
     if (!claudePath) {
@@ -185,18 +225,21 @@ export function executeClaudeCode(
         exitCode: 1,
         durationMs: Date.now() - startTime,
         timedOut: false,
-        sessionId: null
+        sessionId: null,
+        usage: null
       })
       return
     }
 
-    let proc: ReturnType<typeof spawn>
+    let proc: ChildProcess
     try {
       proc = spawn(claudePath, args, {
-        cwd: homedir(),
+        cwd: options?.workingDirectory || homedir(),
         env,
         stdio: ['ignore', 'pipe', 'pipe'],
-        windowsHide: true
+        windowsHide: true,
+        // Own process group, so stopping the run also stops whatever the CLI started
+        detached: process.platform !== 'win32'
       })
     } catch (err) {
       resolve({
@@ -205,7 +248,8 @@ export function executeClaudeCode(
         exitCode: 1,
         durationMs: Date.now() - startTime,
         timedOut: false,
-        sessionId: null
+        sessionId: null,
+        usage: null
       })
       return
     }
@@ -218,7 +262,8 @@ export function executeClaudeCode(
         exitCode: 1,
         durationMs: Date.now() - startTime,
         timedOut: false,
-        sessionId: null
+        sessionId: null,
+        usage: null
       })
       try { proc.kill() } catch {}
       return
@@ -270,6 +315,7 @@ export function executeClaudeCode(
           if (type === 'result') {
             if (event.result) lastResultText = event.result
             if (event.session_id) capturedSessionId = event.session_id as string
+            capturedUsage = parseUsage(event) ?? capturedUsage
             onConsoleLog?.({ entryType: 'result', content: truncate(String(event.result ?? ''), 2000) })
             onProgress?.({ fraction: 1.0, message: 'Completed' })
           }
@@ -283,25 +329,43 @@ export function executeClaudeCode(
       stderr += data.toString()
     })
 
+    let cancelled = false
+    let killTimer: ReturnType<typeof setTimeout> | null = null
+    function stop(): void {
+      killProcessTree(proc, 'SIGTERM')
+      // Cleared on exit, so a reused process id is never signalled
+      killTimer = setTimeout(() => killProcessTree(proc, 'SIGKILL'), KILL_GRACE_MS)
+    }
+
     const timer = setTimeout(() => {
       if (!settled) {
         timedOut = true
-        proc.kill('SIGTERM')
-        setTimeout(() => proc.kill('SIGKILL'), 5000)
+        stop()
       }
     }, timeoutMs)
 
+    const onAbort = (): void => {
+      if (settled) return
+      cancelled = true
+      stop()
+    }
+    options?.signal?.addEventListener('abort', onAbort, { once: true })
+
     proc.on('close', (code) => {
       if (settled) return
       settled = true
       clearTimeout(timer)
+      if (killTimer) clearTimeout(killTimer)
+      options?.signal?.removeEventListener('abort', onAbort)
       resolve({
         stdout: lastResultText ? lastResultText.trim() : stdout.trim(),
         stderr: stderr.trim(),
         exitCode: code ?? 1,
         durationMs: Date.now() - startTime,
         timedOut,
-        sessionId: capturedSessionId
+        sessionId: capturedSessionId,
+        usage: capturedUsage,
+        cancelled
       })
     })
 
@@ -309,6 +373,8 @@ export function executeClaudeCode(
       if (settled) return
       settled = true
       clearTimeout(timer)
+      if (killTimer) clearTimeout(killTimer)
+      options?.signal?.removeEventListener('abort', onAbort)
       const isNotFound = err.code === 'ENOENT'
       resolve({
         stdout: '',
@@ -318,12 +384,36 @@ export function executeClaudeCode(
         exitCode: 1,
         durationMs: Date.now() - startTime,
         timedOut: false,
-        sessionId: null
+        sessionId: null,
+        usage: null
       })
     })
   })
 }
 
+/**
+ * Extract token usage and cost from a stream-json `result` event.
+ * Returns null when the event carries neither.
+ */
+export function parseUsage(event: Record<string, unknown>): TokenUsage | null {
+  const usage = event.usage as Record<string, unknown> | undefined
+  const rawCost = event.total_cost_usd ?? event.cost_usd
+  const costUsd = typeof rawCost === 'number' && Number.isFinite(rawCost) ? rawCost : null
+  if (!usage && costUsd == null) return null
+
+  const count = (key: string): number => {
+    const value = usage?.[key]
+    return typeof value === 'number' && Number.isFinite(value) ? value : 0
+  }
+  return {
+    inputTokens: count('input_tokens'),
+    outputTokens: count('output_tokens'),
+    cacheReadTokens: count('cache_read_input_tokens'),
+    cacheCreationTokens: count('cache_creation_input_tokens'),
+    costUsd
+  }
+}
+
 export interface ParsedProgress {
   fraction: number | null
   message: string
@@ -16,7 +16,9 @@ export const DEFAULTS = {
 export const TRIGGER_TYPES = {
   CRON: 'cron',
   ONCE: 'once',
-  MANUAL: 'manual'
+  MANUAL: 'manual',
+  WATCH: 'watch',
+  WEBHOOK: 'webhook'
 } as const
 
 export const TASK_STATUSES = {
@@ -27,5 +29,8 @@ export const TASK_STATUSES = {
 
 export const SETTINGS = {
   NOTIFICATIONS_ENABLED: 'notifications_enabled',
-  LARGE_WINDOW_ENABLED: 'large_window_enabled'
+  LARGE_WINDOW_ENABLED: 'large_window_enabled',
+  EMBEDDING_PROVIDER: 'embedding_provider',
+  EMBEDDING_MODEL: 'embedding_model',
+  EMBEDDING_ENDPOINT: 'embedding_endpoint'
 } as const
@@ -0,0 +1,226 @@
+/**
+ * Cron expression matching with node-cron semantics: five fields, or six with
+ * a leading seconds field; `*`, lists, ranges, steps and month/weekday names;
+ * 0 and 7 both mean Sunday; day-of-month and day-of-week must both match.
+ * Used to work out fire times node-cron itself cannot report.
+ */
+
+export interface CronFields {
+  /** Only `0` unless the expression has a seconds field. */
+  seconds: Set<number>
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const MINUTE_MS = 60_000
+
+function resolveValue(token: string, min: number, names: string[] | null, nameOffset: number): number {
+  // Names may be abbreviated ("mon") or spelled out ("monday")
+  if (names && /^[a-z]{3,}$/i.test(token)) {
+    const index = names.indexOf(token.slice(0, 3).toLowerCase())
+    if (index !== -1) return index + nameOffset
+  }
+  if (!/^\d+$/.test(token)) throw new Error(`Invalid cron value "${token}"`)
+  const value = Number(token)
+  if (value < min) throw new Error(`Cron value ${value} is below ${min}`)
+  return value
+}
+
+function parseField(field: string, min: number, max: number, names: string[] | null = null, nameOffset = 0): Set<number> {
+  const values = new Set<number>()
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, extra] = part.split('/')
+    if (extra !== undefined || rangePart === '') throw new Error(`Invalid cron field "${field}"`)
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step in "${field}"`)
+
+    let start: number
+    let end: number
+    if (rangePart === '*') {
+      start = min
+      end = max
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-')
+      start = resolveValue(from, min, names, nameOffset)
+      end = resolveValue(to, min, names, nameOffset)
+    } else {
+      start = resolveValue(rangePart, min, names, nameOffset)
+      // `5/15` means "from 5, every 15"
+      end = stepPart === undefined ? start : max
+    }
+    if (start > end || end > max) throw new Error(`Cron range out of bounds in "${field}"`)
+    for (let v = start; v <= end; v += step) values.add(v)
+  }
+  return values
+}
+
+/** Parse a cron expression. Throws with a short reason when it is invalid. */
+export function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5 && parts.length !== 6) {
+    throw new Error('Cron expressions need 5 fields (or 6 with seconds)')
+  }
+  const seconds = parts.length === 6 ? parseField(parts.shift()!, 0, 59) : new Set([0])
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts
+
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, WEEKDAY_NAMES)
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    seconds,
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek
+  }
+}
+
+// ─── Wall Clock ─────────────────────────────────────────────
+
+interface WallClock {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  weekday: number
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/** True when `timezone` is an IANA zone name this runtime knows, e.g. "America/New_York". */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function wallClock(date: Date, timezone: string | null): WallClock {
+  if (!timezone) {
+    return {
+      year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(),
+      hour: date.getHours(), minute: date.getMinutes(), weekday: date.getDay()
+    }
+  }
+
+  let formatter = zoneFormatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone, hourCycle: 'h23', weekday: 'short',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric'
+    })
+    zoneFormatters.set(timezone, formatter)
+  }
+  const parts: Record<string, string> = {}
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value
+  return {
+    year: Number(parts.year), month: Number(parts.month), day: Number(parts.day),
+    hour: Number(parts.hour), minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase())
+  }
+}
+
+// Wall-clock time as minutes on a timeline without DST, for spotting clock jumps
+function wallMinutes(wall: WallClock): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute) / MINUTE_MS
+}
+
+function wallClockAt(minutes: number): WallClock {
+  const date = new Date(minutes * MINUTE_MS)
+  return {
+    year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(),
+    hour: date.getUTCHours(), minute: date.getUTCMinutes(), weekday: date.getUTCDay()
+  }
+}
+
+/** Format a moment as "YYYY-MM-DD HH:MM" on the wall clock of `timezone` (local when null). */
+export function formatWallClock(date: Date, timezone: string | null = null): string {
+  const wall = wallClock(date, timezone)
+  const pad = (n: number): string => String(n).padStart(2, '0')
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)}`
+}
+
+// ─── Fire Times ─────────────────────────────────────────────
+
+function matchesDay(fields: CronFields, wall: WallClock): boolean {
+  return fields.months.has(wall.month)
+    && fields.daysOfMonth.has(wall.day)
+    && fields.daysOfWeek.has(wall.weekday)
+}
+
+function matches(fields: CronFields, wall: WallClock): boolean {
+  return matchesDay(fields, wall) && fields.hours.has(wall.hour) && fields.minutes.has(wall.minute)
+}
+
+export interface FireTimeOptions {
+  /** IANA zone the expression is evaluated in; the machine's zone when null. */
+  timezone?: string | null
+  limit?: number
+}
+
+export interface FireTime {
+  at: Date
+  /** The scheduled wall-clock time was skipped by a DST change; this is the first moment after it. */
+  shifted: boolean
+}
+
+/**
+ * Every minute in (after, until] at which the schedule fires, oldest first.
+ * Schedules with a seconds field count once per matching minute.
+ *
+ * Across DST changes this follows classic cron: a time inside the hour that is
+ * skipped when clocks go forward fires right after the jump, and a time inside
+ * the hour that repeats when clocks go back fires only the first time.
+ */
+export function listFireTimes(fields: CronFields, after: Date, until: Date, options: FireTimeOptions = {}): FireTime[] {
+  const timezone = options.timezone ?? null
+  const limit = options.limit ?? Infinity
+  const times: FireTime[] = []
+  const end = until.getTime()
+  let cursor = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS
+  // Start from the minute before so a clock jump right at the start is noticed
+  let previous = { cursor: cursor - MINUTE_MS, wall: wallMinutes(wallClock(new Date(cursor - MINUTE_MS), timezone)) }
+  let lastFiredWall = -Infinity
+
+  while (cursor <= end && times.length < limit) {
+    const wall = wallClock(new Date(cursor), timezone)
+    const wallNow = wallMinutes(wall)
+
+    // Clocks jumped forward: the wall-clock minutes in between never happened
+    let shifted = false
+    const expected = previous.wall + (cursor - previous.cursor) / MINUTE_MS
+    for (let m = expected; m < wallNow && m < expected + 24 * 60 && !shifted; m++) {
+      shifted = matches(fields, wallClockAt(m))
+    }
+    previous = { cursor, wall: wallNow }
+
+    if ((shifted || matches(fields, wall)) && wallNow > lastFiredWall) {
+      times.push({ at: new Date(cursor), shifted: shifted && !matches(fields, wall) })
+      lastFiredWall = wallNow
+    }
+
+    // Skip ahead when nothing in this hour or day can match. Days are skipped to
+    // an hour before midnight since DST can make a day an hour shorter
+    const toNextHour = 60 - wall.minute
+    if (!matchesDay(fields, wall)) {
+      cursor += Math.max((23 - wall.hour) * 60 + toNextHour - 60, toNextHour) * MINUTE_MS
+    } else {
+      cursor += (fields.hours.has(wall.hour) ? 1 : toNextHour) * MINUTE_MS
+    }
+  }
+  return times
+}
+
+export function getFireTimesBetween(fields: CronFields, after: Date, until: Date, options: FireTimeOptions = {}): Date[] {
+  return listFireTimes(fields, after, until, options).map((t) => t.at)
+}
@@ -1,5 +1,7 @@
 import type Database from 'better-sqlite3'
-import type { Entity, Observation, Relation, MemoryStats, Task, CreateTaskInput, TaskRun, Worker, CreateWorkerInput, TriggerType, TaskStatus, NudgeMode, Watch, ConsoleLogEntry } from './types'
+import type { Entity, Observation, Relation, MemoryGraph, MemoryStats, MemoryTextMatch, Task, CreateTaskInput, TaskRun, Worker, CreateWorkerInput, TriggerType, TaskStatus, NudgeMode, MisfirePolicy, RetryBackoff, RetryFailureClass, TaskRunAttempt, SuccessCriteria, ChangeDetectionMode, Watch, WatchEventType, WatchOptions, ConsoleLogEntry, TaskDependency, DependencyTrigger, TokenUsage, UsageReport, UsageTotals, TaskUsage, WorkerUsage, DailyUsage, UsageBudget, SetUsageBudgetInput, BudgetStatus, BudgetScope, BudgetPeriod, BudgetMetric, BudgetAction, Webhook, CreateWebhookInput, WebhookEvent, WebhookFormat, WebhookDelivery, WebhookDeliveryStatus } from './types'
+import { DEFAULT_RETRY_DELAY_SECONDS, DEFAULT_RETRY_ON } from './retry'
+import { generateWebhookToken } from './inbound-webhook'
 
 // ─── Entities ───────────────────────────────────────────────
 
@@ -42,27 +44,83 @@ export function deleteEntity(db: Database.Database, id: number): void {
   db.prepare('DELETE FROM entities WHERE id = ?').run(id)
 }
 
-export function searchEntities(db: Database.Database, query: string): Entity[] {
+const SNIPPET_TOKENS = 12
+
+/**
+ * Keyword search over entity names, categories and observation text, best
+ * match first. Queries FTS5 can't parse (stray quotes, operators) fall back to
+ * a substring match.
+ */
+export function searchMemory(db: Database.Database, query: string): MemoryTextMatch[] {
   try {
-    const ftsResults = db
+    // Observation rows repeat the entity name, so a row only counts as an
+    // observation match when its content column has a highlighted term
+    const rows = db
       .prepare(
-        `SELECT e.* FROM entities e
-         INNER JOIN memory_fts fts ON e.id = fts.rowid
+        `SELECT entity_id, observation_id,
+                instr(highlight(memory_fts, 1, char(1), char(1)), char(1)) > 0 AS content_hit,
+                snippet(memory_fts, 1, '**', '**', '…', ${SNIPPET_TOKENS}) AS content_snippet,
+                snippet(memory_fts, -1, '**', '**', '…', ${SNIPPET_TOKENS}) AS best_snippet
+         FROM memory_fts
          WHERE memory_fts MATCH ?
          ORDER BY rank`
       )
-      .all(query) as Entity[]
-
-    if (ftsResults.length > 0) return ftsResults
+      .all(query) as Array<{
+        entity_id: number; observation_id: number | null; content_hit: number; content_snippet: string; best_snippet: string
+      }>
+
+    if (rows.length > 0) {
+      const matches = new Map<number, MemoryTextMatch>()
+      for (const row of rows) {
+        let match = matches.get(row.entity_id)
+        if (!match) {
+          const entity = getEntity(db, row.entity_id)
+          if (!entity) continue
+          match = { entity, snippet: null, observationIds: [] }
+          matches.set(row.entity_id, match)
+        }
+        if (row.observation_id != null && row.content_hit) {
+          // Quote the best observation over a name or category match
+          if (match.observationIds.length === 0) match.snippet = row.content_snippet
+          match.observationIds.push(row.observation_id)
+        }
+        match.snippet ??= row.best_snippet || null
+      }
+      return Array.from(matches.values())
+    }
   } catch {
     // FTS parse error (special characters in query) — fall through to LIKE
   }
 
   // Escape LIKE wildcards to prevent wildcard injection
-  const escaped = query.replace(/[%_]/g, '\\$&')
+  const pattern = `%${query.replace(/[%_]/g, '\\$&')}%`
+  const observationRows = db
+    .prepare("SELECT id, entity_id FROM observations WHERE content LIKE ? ESCAPE '\\' ORDER BY created_at DESC, id DESC")
+    .all(pattern) as Array<{ id: number; entity_id: number }>
+  const entities = db
+    .prepare(
+      `SELECT * FROM entities
+       WHERE name LIKE ? ESCAPE '\\' OR category LIKE ? ESCAPE '\\'
+          OR id IN (SELECT entity_id FROM observations WHERE content LIKE ? ESCAPE '\\')
+       ORDER BY updated_at DESC`
+    )
+    .all(pattern, pattern, pattern) as Entity[]
+  return entities.map((entity) => ({
+    entity,
+    snippet: null,
+    observationIds: observationRows.filter((o) => o.entity_id === entity.id).map((o) => o.id)
+  }))
+}
+
+/** Entities with exactly this name, ignoring case; the most recently updated first. */
+export function findEntitiesByName(db: Database.Database, name: string): Entity[] {
   return db
-    .prepare("SELECT * FROM entities WHERE name LIKE ? ESCAPE '\\' OR category LIKE ? ESCAPE '\\' ORDER BY updated_at DESC")
-    .all(`%${escaped}%`, `%${escaped}%`) as Entity[]
+    .prepare('SELECT * FROM entities WHERE name = ? COLLATE NOCASE ORDER BY updated_at DESC, id DESC')
+    .all(name.trim()) as Entity[]
+}
+
+export function searchEntities(db: Database.Database, query: string): Entity[] {
+  return searchMemory(db, query).map((match) => match.entity)
 }
 
 // ─── Observations ───────────────────────────────────────────
@@ -86,6 +144,13 @@ export function getObservations(db: Database.Database, entityId: number): Observ
     .all(entityId) as Observation[]
 }
 
+export function updateObservation(db: Database.Database, id: number, content: string): void {
+  const observation = getObservation(db, id)
+  if (!observation) return
+  db.prepare('UPDATE observations SET content = ? WHERE id = ?').run(content, id)
+  db.prepare("UPDATE entities SET updated_at = datetime('now','localtime') WHERE id = ?").run(observation.entity_id)
+}
+
 export function deleteObservation(db: Database.Database, id: number): void {
   db.prepare('DELETE FROM observations WHERE id = ?').run(id)
 }
@@ -114,6 +179,106 @@ export function deleteRelation(db: Database.Database, id: number): void {
   db.prepare('DELETE FROM relations WHERE id = ?').run(id)
 }
 
+export function findRelation(db: Database.Database, fromEntity: number, toEntity: number, relationType: string): Relation | null {
+  const row = db
+    .prepare('SELECT * FROM relations WHERE from_entity = ? AND to_entity = ? AND relation_type = ?')
+    .get(fromEntity, toEntity, relationType) as Relation | undefined
+  return row ?? null
+}
+
+/** Delete relations from one entity to another, of one type or of any. Returns how many went. */
+export function deleteRelationsBetween(db: Database.Database, fromEntity: number, toEntity: number, relationType?: string): number {
+  if (relationType === undefined) {
+    return db.prepare('DELETE FROM relations WHERE from_entity = ? AND to_entity = ?').run(fromEntity, toEntity).changes
+  }
+  return db
+    .prepare('DELETE FROM relations WHERE from_entity = ? AND to_entity = ? AND relation_type = ?')
+    .run(fromEntity, toEntity, relationType).changes
+}
+
+/**
+ * The best-connected entities, most recently updated first among equals, and
+ * the relations among them. Where to start exploring the graph from.
+ */
+export function getMemoryGraphOverview(
+  db: Database.Database,
+  filters: { limit?: number; type?: string; category?: string } = {}
+): MemoryGraph {
+  const limit = filters.limit ?? 100
+  const conditions: string[] = []
+  const params: unknown[] = []
+  if (filters.type) { conditions.push('e.type = ?'); params.push(filters.type) }
+  if (filters.category) { conditions.push('e.category = ?'); params.push(filters.category) }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+  const entities = db.prepare(`
+    SELECT e.* FROM entities e
+    ${where}
+    ORDER BY (SELECT COUNT(*) FROM relations r WHERE r.from_entity = e.id OR r.to_entity = e.id) DESC,
+      e.updated_at DESC, e.id DESC
+    LIMIT ?
+  `).all(...params, limit + 1) as Entity[]
+  const truncated = entities.length > limit
+  const nodes = entities.slice(0, limit).map((entity) => ({ ...entity, depth: 0 }))
+
+  const ids = nodes.map((node) => node.id)
+  const placeholders = ids.map(() => '?').join(', ')
+  const relations = ids.length === 0 ? [] : db.prepare(
+    `SELECT * FROM relations WHERE from_entity IN (${placeholders}) AND to_entity IN (${placeholders}) ORDER BY id`
+  ).all(...ids, ...ids) as Relation[]
+  return { rootId: null, nodes, relations, truncated }
+}
+
+/**
+ * The entities within `depth` hops of `entityId`, following relations in
+ * either direction, and every relation among them. Stops adding entities at
+ * `maxNodes` and says so with `truncated`.
+ */
+export function getMemoryGraph(db: Database.Database, entityId: number, depth: number = 1, maxNodes: number = 100): MemoryGraph | null {
+  const root = getEntity(db, entityId)
+  if (!root) return null
+
+  const depths = new Map<number, number>([[root.id, 0]])
+  const neighbors = db.prepare(`
+    SELECT to_entity AS id FROM relations WHERE from_entity = ?
+    UNION
+    SELECT from_entity AS id FROM relations WHERE to_entity = ?
+    ORDER BY id
+  `)
+  let frontier = [root.id]
+  let truncated = false
+  for (let level = 1; level <= depth && frontier.length > 0; level++) {
+    const next: number[] = []
+    for (const id of frontier) {
+      for (const { id: neighborId } of neighbors.all(id, id) as Array<{ id: number }>) {
+        if (depths.has(neighborId)) continue
+        if (depths.size >= maxNodes) {
+          truncated = true
+          break
+        }
+        depths.set(neighborId, level)
+        next.push(neighborId)
+      }
+    }
+    frontier = next
+  }
+
+  const ids = [...depths.keys()]
+  const placeholders = ids.map(() => '?').join(', ')
+  const entities = db.prepare(`SELECT * FROM entities WHERE id IN (${placeholders})`).all(...ids) as Entity[]
+  const relations = db.prepare(
+    `SELECT * FROM relations WHERE from_entity IN (${placeholders}) AND to_entity IN (${placeholders}) ORDER BY id`
+  ).all(...ids, ...ids) as Relation[]
+  return {
+    rootId: root.id,
+    nodes: entities
+      .map((entity) => ({ ...entity, depth: depths.get(entity.id)! }))
+      .sort((a, b) => a.depth - b.depth || a.id - b.id),
+    relations,
+    truncated
+  }
+}
+
 // ─── Stats ──────────────────────────────────────────────────
 
 export function getMemoryStats(db: Database.Database): MemoryStats {
@@ -186,6 +351,7 @@ export function updateWorker(db: Database.Database, id: number, updates: Partial
 
 export function deleteWorker(db: Database.Database, id: number): void {
   db.prepare('DELETE FROM workers WHERE id = ?').run(id)
+  db.prepare("DELETE FROM usage_budgets WHERE scope = 'worker' AND scope_id = ?").run(id)
 }
 
 export function getDefaultWorker(db: Database.Database): Worker | null {
@@ -218,8 +384,8 @@ function mapWorkerRow(row: Record<string, unknown>): Worker {
 export function createTask(db: Database.Database, input: CreateTaskInput): Task {
   const result = db
     .prepare(
-      `INSERT INTO tasks (name, description, prompt, cron_expression, trigger_type, trigger_config, scheduled_at, executor, max_runs, worker_id, session_continuity, timeout_minutes, max_turns, allowed_tools, disallowed_tools, nudge_mode)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      `INSERT INTO tasks (name, description, prompt, cron_expression, trigger_type, trigger_config, scheduled_at, executor, max_runs, worker_id, session_continuity, timeout_minutes, max_turns, allowed_tools, disallowed_tools, nudge_mode, working_directory, misfire_policy, misfire_limit, timezone, max_attempts, retry_backoff, retry_delay_seconds, retry_on, success_criteria, output_schema, change_detection, webhook_token, webhook_payload_path)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     )
     .run(
       input.name,
@@ -237,7 +403,20 @@ export function createTask(db: Database.Database, input: CreateTaskInput): Task
       input.maxTurns ?? null,
       input.allowedTools ?? null,
       input.disallowedTools ?? null,
-      input.nudgeMode ?? 'always'
+      input.nudgeMode ?? 'always',
+      input.workingDirectory ?? null,
+      input.misfirePolicy ?? 'skip',
+      input.misfireLimit ?? null,
+      input.timezone ?? null,
+      input.maxAttempts ?? 1,
+      input.retryBackoff ?? 'exponential',
+      input.retryDelaySeconds ?? DEFAULT_RETRY_DELAY_SECONDS,
+      input.retryOn ? JSON.stringify(input.retryOn) : null,
+      input.successCriteria ? JSON.stringify(input.successCriteria) : null,
+      input.outputSchema ? JSON.stringify(input.outputSchema) : null,
+      input.changeDetection ?? 'off',
+      input.triggerType === 'webhook' ? generateWebhookToken() : null,
+      input.webhookPayloadPath ?? null
     )
   const task = getTask(db, result.lastInsertRowid as number)!
   if (input.workerId) refreshWorkerTaskCount(db, input.workerId)
@@ -260,11 +439,20 @@ export function updateTask(db: Database.Database, id: number, updates: Partial<{
   name: string; description: string; prompt: string; cronExpression: string
   triggerType: TriggerType; triggerConfig: string; scheduledAt: string; executor: string
   status: TaskStatus; lastRun: string; lastResult: string; errorCount: number
-  maxRuns: number; runCount: number; memoryEntityId: number
+  maxRuns: number | null; runCount: number; memoryEntityId: number | null
   workerId: number | null; sessionContinuity: boolean; sessionId: string | null
   timeoutMinutes: number | null; maxTurns: number | null
   allowedTools: string | null; disallowedTools: string | null
   nudgeMode: NudgeMode; learnedContext: string | null
+  workingDirectory: string | null
+  misfirePolicy: MisfirePolicy; misfireLimit: number | null
+  timezone: string | null
+  maxAttempts: number; retryBackoff: RetryBackoff; retryDelaySeconds: number
+  retryOn: RetryFailureClass[] | null
+  successCriteria: SuccessCriteria | null
+  outputSchema: Record<string, unknown> | null
+  changeDetection: ChangeDetectionMode
+  webhookPayloadPath: string | null
 }>): void {
   const fieldMap: Record<string, string> = {
     name: 'name', description: 'description', prompt: 'prompt',
@@ -276,7 +464,14 @@ export function updateTask(db: Database.Database, id: number, updates: Partial<{
     workerId: 'worker_id', sessionContinuity: 'session_continuity', sessionId: 'session_id',
     timeoutMinutes: 'timeout_minutes', maxTurns: 'max_turns',
     allowedTools: 'allowed_tools', disallowedTools: 'disallowed_tools',
-    nudgeMode: 'nudge_mode', learnedContext: 'learned_context'
+    nudgeMode: 'nudge_mode', learnedContext: 'learned_context',
+    workingDirectory: 'working_directory',
+    misfirePolicy: 'misfire_policy', misfireLimit: 'misfire_limit',
+    timezone: 'timezone',
+    maxAttempts: 'max_attempts', retryBackoff: 'retry_backoff',
+    retryDelaySeconds: 'retry_delay_seconds', retryOn: 'retry_on',
+    successCriteria: 'success_criteria', outputSchema: 'output_schema',
+    changeDetection: 'change_detection', webhookPayloadPath: 'webhook_payload_path'
   }
 
   const fields: string[] = []
@@ -286,7 +481,9 @@ export function updateTask(db: Database.Database, id: number, updates: Partial<{
     const dbField = fieldMap[key]
     if (dbField) {
       fields.push(`${dbField} = ?`)
-      values.push(key === 'sessionContinuity' ? (value ? 1 : 0) : value)
+      if (key === 'sessionContinuity') values.push(value ? 1 : 0)
+      else if (key === 'retryOn' || key === 'successCriteria' || key === 'outputSchema') values.push(value ? JSON.stringify(value) : null)
+      else values.push(value)
     }
   }
   if (fields.length === 0) return
@@ -294,11 +491,21 @@ export function updateTask(db: Database.Database, id: number, updates: Partial<{
   fields.push("updated_at = datetime('now','localtime')")
   values.push(id)
   db.prepare(`UPDATE tasks SET ${fields.join(', ')} WHERE id = ?`).run(...values)
+  // A task switched to the webhook trigger needs a token for its URL
+  if (updates.triggerType === 'webhook') {
+    db.prepare('UPDATE tasks SET webhook_token = ? WHERE id = ? AND webhook_token IS NULL').run(generateWebhookToken(), id)
+  }
+}
+
+export function listWebhookTasks(db: Database.Database): Task[] {
+  const rows = db.prepare("SELECT * FROM tasks WHERE trigger_type = 'webhook' AND webhook_token IS NOT NULL").all()
+  return (rows as Record<string, unknown>[]).map(mapTaskRow)
 }
 
 export function deleteTask(db: Database.Database, id: number): void {
   const task = getTask(db, id)
   db.prepare('DELETE FROM tasks WHERE id = ?').run(id)
+  db.prepare("DELETE FROM usage_budgets WHERE scope = 'task' AND scope_id = ?").run(id)
   if (task?.workerId) refreshWorkerTaskCount(db, task.workerId)
 }
 
@@ -310,13 +517,122 @@ export function resumeTask(db: Database.Database, id: number): void {
   updateTask(db, id, { status: 'active' })
 }
 
+// ─── Task Dependencies ──────────────────────────────────────
+
+export function addTaskDependency(
+  db: Database.Database,
+  taskId: number,
+  dependsOnTaskId: number,
+  triggerOn: DependencyTrigger = 'success'
+): TaskDependency {
+  db.prepare(
+    `INSERT INTO task_dependencies (task_id, depends_on_task_id, trigger_on) VALUES (?, ?, ?)
+     ON CONFLICT(task_id, depends_on_task_id) DO UPDATE SET trigger_on = excluded.trigger_on`
+  ).run(taskId, dependsOnTaskId, triggerOn)
+  const row = db
+    .prepare('SELECT * FROM task_dependencies WHERE task_id = ? AND depends_on_task_id = ?')
+    .get(taskId, dependsOnTaskId) as Record<string, unknown>
+  return mapTaskDependencyRow(row)
+}
+
+export function removeTaskDependency(db: Database.Database, taskId: number, dependsOnTaskId: number): boolean {
+  const result = db
+    .prepare('DELETE FROM task_dependencies WHERE task_id = ? AND depends_on_task_id = ?')
+    .run(taskId, dependsOnTaskId)
+  return result.changes > 0
+}
+
+/** Upstream edges: the tasks whose completion triggers this task. */
+export function getTaskDependencies(db: Database.Database, taskId: number): TaskDependency[] {
+  const rows = db
+    .prepare('SELECT * FROM task_dependencies WHERE task_id = ? ORDER BY id')
+    .all(taskId)
+  return (rows as Record<string, unknown>[]).map(mapTaskDependencyRow)
+}
+
+/** Downstream edges: the tasks triggered when this task finishes. */
+export function getDependentTasks(db: Database.Database, taskId: number): TaskDependency[] {
+  const rows = db
+    .prepare('SELECT * FROM task_dependencies WHERE depends_on_task_id = ? ORDER BY id')
+    .all(taskId)
+  return (rows as Record<string, unknown>[]).map(mapTaskDependencyRow)
+}
+
+/**
+ * True if making `taskId` depend on `dependsOnTaskId` would close a loop,
+ * i.e. `dependsOnTaskId` is already downstream of `taskId` (or is the same task).
+ */
+export function wouldCreateDependencyCycle(db: Database.Database, taskId: number, dependsOnTaskId: number): boolean {
+  if (taskId === dependsOnTaskId) return true
+  const row = db.prepare(
+    `WITH RECURSIVE downstream(id) AS (
+       SELECT task_id FROM task_dependencies WHERE depends_on_task_id = ?
+       UNION
+       SELECT d.task_id FROM task_dependencies d JOIN downstream ON d.depends_on_task_id = downstream.id
+     )
+     SELECT 1 FROM downstream WHERE id = ? LIMIT 1`
+  ).get(taskId, dependsOnTaskId)
+  return row !== undefined
+}
+
 // ─── Watches ────────────────────────────────────────────────
 
-export function createWatch(db: Database.Database, path: string, description?: string, actionPrompt?: string): Watch {
+export function createWatch(
+  db: Database.Database,
+  path: string,
+  description?: string,
+  actionPrompt?: string,
+  options?: WatchOptions
+): Watch {
   const result = db
-    .prepare('INSERT INTO watches (path, description, action_prompt) VALUES (?, ?, ?)')
-    .run(path, description ?? null, actionPrompt ?? null)
-  return getWatch(db, result.lastInsertRowid as number)!
+    .prepare(
+      `INSERT INTO watches (path, description, action_prompt, include_patterns, exclude_patterns, max_depth, event_types, batch_window_seconds)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      path,
+      description ?? null,
+      actionPrompt ?? null,
+      options?.includePatterns?.length ? JSON.stringify(options.includePatterns) : null,
+      options?.excludePatterns?.length ? JSON.stringify(options.excludePatterns) : null,
+      options?.maxDepth ?? 2,
+      options?.eventTypes?.length ? JSON.stringify(options.eventTypes) : null,
+      options?.batchWindowSeconds ?? null
+    )
+  const id = result.lastInsertRowid as number
+  if (actionPrompt) ensureWatchTask(db, id)
+  return getWatch(db, id)!
+}
+
+/**
+ * Return the task that records this watch's action runs, creating it if missing
+ * (e.g. watches created before watch-linked tasks existed). The task prompt is
+ * kept in sync with the watch's action prompt.
+ */
+export function ensureWatchTask(db: Database.Database, watchId: number): Task | null {
+  const watch = getWatch(db, watchId)
+  if (!watch || !watch.actionPrompt) return null
+
+  if (watch.taskId != null) {
+    const existing = getTask(db, watch.taskId)
+    if (existing) {
+      if (existing.prompt !== watch.actionPrompt) {
+        updateTask(db, existing.id, { prompt: watch.actionPrompt })
+        return getTask(db, existing.id)
+      }
+      return existing
+    }
+  }
+
+  const task = createTask(db, {
+    name: `Watch: ${watch.description || watch.path}`.slice(0, 200),
+    prompt: watch.actionPrompt,
+    triggerType: 'watch',
+    triggerConfig: JSON.stringify({ source: 'watch', watchId }),
+    nudgeMode: 'failure_only'
+  })
+  db.prepare('UPDATE watches SET task_id = ? WHERE id = ?').run(task.id, watchId)
+  return task
 }
 
 export function getWatch(db: Database.Database, id: number): Watch | null {
@@ -339,7 +655,9 @@ export function getWatchCount(db: Database.Database, status?: string): number {
 }
 
 export function deleteWatch(db: Database.Database, id: number): void {
+  const watch = getWatch(db, id)
   db.prepare('DELETE FROM watches WHERE id = ?').run(id)
+  if (watch?.taskId != null) deleteTask(db, watch.taskId)
 }
 
 export function pauseWatch(db: Database.Database, id: number): void {
@@ -407,6 +725,44 @@ export function completeTaskRun(db: Database.Database, id: number, result: strin
   ).run(result, newErrorCount, run.taskId)
 }
 
+/** Finish a run that was stopped by the user. Cancelling is not a failure, so the error count is left alone. */
+export function cancelTaskRun(db: Database.Database, id: number, result: string = ''): void {
+  const run = getTaskRun(db, id)
+  if (!run) return
+
+  const durationMs = Date.now() - new Date(run.startedAt).getTime()
+  db.prepare(
+    `UPDATE task_runs SET finished_at = datetime('now','localtime'), status = 'cancelled', result = ?,
+     error_message = 'Cancelled', duration_ms = ? WHERE id = ?`
+  ).run(result, durationMs, id)
+  db.prepare(
+    "UPDATE tasks SET last_run = datetime('now','localtime'), updated_at = datetime('now','localtime') WHERE id = ?"
+  ).run(run.taskId)
+}
+
+/** Start attempt `attempt` of a run with a retry policy. */
+export function setTaskRunAttempt(db: Database.Database, runId: number, attempt: number, maxAttempts: number): void {
+  db.prepare('UPDATE task_runs SET attempt = ?, max_attempts = ? WHERE id = ?').run(attempt, maxAttempts, runId)
+}
+
+export function recordTaskRunAttempt(
+  db: Database.Database,
+  runId: number,
+  attempt: number,
+  status: string,
+  errorMessage: string | null,
+  durationMs: number
+): void {
+  db.prepare(
+    'INSERT INTO task_run_attempts (run_id, attempt, status, error_message, duration_ms) VALUES (?, ?, ?, ?, ?)'
+  ).run(runId, attempt, status, errorMessage, durationMs)
+}
+
+export function getTaskRunAttempts(db: Database.Database, runId: number): TaskRunAttempt[] {
+  const rows = db.prepare('SELECT * FROM task_run_attempts WHERE run_id = ? ORDER BY attempt').all(runId)
+  return (rows as Record<string, unknown>[]).map(mapTaskRunAttemptRow)
+}
+
 export function getTaskRuns(db: Database.Database, taskId: number, limit: number = 20): TaskRun[] {
   const rows = db
     .prepare('SELECT * FROM task_runs WHERE task_id = ? ORDER BY started_at DESC LIMIT ?')
@@ -421,6 +777,21 @@ export function listAllRuns(db: Database.Database, limit: number = 20): TaskRun[
   return (rows as Record<string, unknown>[]).map(mapTaskRunRow)
 }
 
+/** Runs newest first, optionally for one task or in one status, a page at a time. */
+export function listRuns(db: Database.Database, filter: {
+  taskId?: number; status?: string; limit?: number; offset?: number
+} = {}): TaskRun[] {
+  const conditions: string[] = []
+  const values: unknown[] = []
+  if (filter.taskId !== undefined) { conditions.push('task_id = ?'); values.push(filter.taskId) }
+  if (filter.status !== undefined) { conditions.push('status = ?'); values.push(filter.status) }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+  const rows = db
+    .prepare(`SELECT * FROM task_runs ${where} ORDER BY started_at DESC, id DESC LIMIT ? OFFSET ?`)
+    .all(...values, filter.limit ?? 20, filter.offset ?? 0)
+  return (rows as Record<string, unknown>[]).map(mapTaskRunRow)
+}
+
 export function getLatestTaskRun(db: Database.Database, taskId: number): TaskRun | null {
   const row = db
     .prepare('SELECT * FROM task_runs WHERE task_id = ? ORDER BY started_at DESC LIMIT 1')
@@ -428,6 +799,368 @@ export function getLatestTaskRun(db: Database.Database, taskId: number): TaskRun
   return row ? mapTaskRunRow(row) : null
 }
 
+/** The last successful run of a task before `beforeRunId`, for change detection. */
+export function getPreviousSuccessfulTaskRun(db: Database.Database, taskId: number, beforeRunId: number): TaskRun | null {
+  const row = db
+    .prepare("SELECT * FROM task_runs WHERE task_id = ? AND status = 'completed' AND id < ? ORDER BY id DESC LIMIT 1")
+    .get(taskId, beforeRunId) as Record<string, unknown> | undefined
+  return row ? mapTaskRunRow(row) : null
+}
+
+// ─── Usage Accounting ───────────────────────────────────────
+
+export function updateTaskRunWorker(db: Database.Database, runId: number, workerId: number): void {
+  db.prepare('UPDATE task_runs SET worker_id = ? WHERE id = ?').run(workerId, runId)
+}
+
+/** Add one CLI invocation's usage to a run. Retries within a run accumulate. */
+export function addTaskRunUsage(db: Database.Database, runId: number, usage: TokenUsage): void {
+  db.prepare(
+    `UPDATE task_runs SET
+       input_tokens = COALESCE(input_tokens, 0) + ?,
+       output_tokens = COALESCE(output_tokens, 0) + ?,
+       cache_read_tokens = COALESCE(cache_read_tokens, 0) + ?,
+       cache_creation_tokens = COALESCE(cache_creation_tokens, 0) + ?,
+       cost_usd = CASE WHEN ? IS NULL THEN cost_usd ELSE COALESCE(cost_usd, 0) + ? END
+     WHERE id = ?`
+  ).run(
+    usage.inputTokens,
+    usage.outputTokens,
+    usage.cacheReadTokens,
+    usage.cacheCreationTokens,
+    usage.costUsd,
+    usage.costUsd,
+    runId
+  )
+}
+
+const USAGE_COLUMNS = `count(*) as runs,
+  COALESCE(SUM(r.input_tokens), 0) as input_tokens,
+  COALESCE(SUM(r.output_tokens), 0) as output_tokens,
+  COALESCE(SUM(r.cache_read_tokens), 0) as cache_read_tokens,
+  COALESCE(SUM(r.cache_creation_tokens), 0) as cache_creation_tokens,
+  COALESCE(SUM(r.cost_usd), 0) as cost_usd`
+
+/** Token and cost totals for runs started in the last `days` days (including today). */
+export function getUsageReport(db: Database.Database, days: number = 7): UsageReport {
+  const since = `-${Math.max(0, days - 1)} days`
+  const where = "r.started_at >= date('now','localtime', ?) AND r.status != 'skipped'"
+
+  const totals = db
+    .prepare(`SELECT ${USAGE_COLUMNS} FROM task_runs r WHERE ${where}`)
+    .get(since) as Record<string, unknown>
+
+  const byTask = db
+    .prepare(
+      `SELECT r.task_id, t.name as task_name, ${USAGE_COLUMNS}
+       FROM task_runs r JOIN tasks t ON t.id = r.task_id
+       WHERE ${where}
+       GROUP BY r.task_id ORDER BY cost_usd DESC, output_tokens DESC`
+    )
+    .all(since) as Record<string, unknown>[]
+
+  const byWorker = db
+    .prepare(
+      `SELECT r.worker_id, w.name as worker_name, ${USAGE_COLUMNS}
+       FROM task_runs r LEFT JOIN workers w ON w.id = r.worker_id
+       WHERE ${where}
+       GROUP BY r.worker_id ORDER BY cost_usd DESC, output_tokens DESC`
+    )
+    .all(since) as Record<string, unknown>[]
+
+  const byDay = db
+    .prepare(
+      `SELECT date(r.started_at) as day, ${USAGE_COLUMNS}
+       FROM task_runs r
+       WHERE ${where}
+       GROUP BY day ORDER BY day`
+    )
+    .all(since) as Record<string, unknown>[]
+
+  return {
+    days,
+    totals: mapUsageTotals(totals),
+    byTask: byTask.map((row): TaskUsage => ({
+      taskId: row.task_id as number,
+      taskName: row.task_name as string,
+      ...mapUsageTotals(row)
+    })),
+    byWorker: byWorker.map((row): WorkerUsage => ({
+      workerId: (row.worker_id as number | null) ?? null,
+      workerName: (row.worker_name as string | null) ?? null,
+      ...mapUsageTotals(row)
+    })),
+    byDay: byDay.map((row): DailyUsage => ({
+      day: row.day as string,
+      ...mapUsageTotals(row)
+    }))
+  }
+}
+
+function mapUsageTotals(row: Record<string, unknown>): UsageTotals {
+  return {
+    runs: row.runs as number,
+    inputTokens: row.input_tokens as number,
+    outputTokens: row.output_tokens as number,
+    cacheReadTokens: row.cache_read_tokens as number,
+    cacheCreationTokens: row.cache_creation_tokens as number,
+    costUsd: row.cost_usd as number
+  }
+}
+
+// ─── Usage Budgets ──────────────────────────────────────────
+
+/** Create a budget, or replace the limit and action of the one with the same scope, period and metric. */
+export function setUsageBudget(db: Database.Database, input: SetUsageBudgetInput): UsageBudget {
+  const scopeId = input.scope === 'global' ? null : input.scopeId ?? null
+  const action = input.action ?? 'skip'
+  const existing = db
+    .prepare('SELECT id FROM usage_budgets WHERE scope = ? AND scope_id IS ? AND period = ? AND metric = ?')
+    .get(input.scope, scopeId, input.period, input.metric) as { id: number } | undefined
+
+  if (existing) {
+    db.prepare('UPDATE usage_budgets SET limit_value = ?, action = ? WHERE id = ?').run(input.limit, action, existing.id)
+    return getUsageBudget(db, existing.id)!
+  }
+
+  const result = db
+    .prepare('INSERT INTO usage_budgets (scope, scope_id, period, metric, limit_value, action) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(input.scope, scopeId, input.period, input.metric, input.limit, action)
+  return getUsageBudget(db, result.lastInsertRowid as number)!
+}
+
+export function getUsageBudget(db: Database.Database, id: number): UsageBudget | null {
+  const row = db.prepare('SELECT * FROM usage_budgets WHERE id = ?').get(id) as Record<string, unknown> | undefined
+  return row ? mapUsageBudgetRow(row) : null
+}
+
+export function listUsageBudgets(db: Database.Database): UsageBudget[] {
+  const rows = db.prepare('SELECT * FROM usage_budgets ORDER BY scope, scope_id, period, metric').all()
+  return (rows as Record<string, unknown>[]).map(mapUsageBudgetRow)
+}
+
+export function deleteUsageBudget(db: Database.Database, id: number): boolean {
+  return db.prepare('DELETE FROM usage_budgets WHERE id = ?').run(id).changes > 0
+}
+
+const BUDGET_PERIOD_START: Record<BudgetPeriod, string> = {
+  day: "date('now','localtime')",
+  // Monday of the current week
+  week: "date('now','localtime','weekday 0','-6 days')"
+}
+
+const BUDGET_METRIC_EXPR: Record<BudgetMetric, string> = {
+  tokens: 'COALESCE(SUM(COALESCE(input_tokens, 0) + COALESCE(output_tokens, 0)), 0)',
+  cost: 'COALESCE(SUM(cost_usd), 0)',
+  runs: 'count(*)'
+}
+
+/** Usage counted against a budget in its current period. Skipped runs never count. */
+export function getBudgetUsage(db: Database.Database, budget: UsageBudget): number {
+  const scopeFilter = budget.scope === 'task' ? 'AND task_id = ?' : budget.scope === 'worker' ? 'AND worker_id = ?' : ''
+  const params = budget.scope === 'global' ? [] : [budget.scopeId]
+  const row = db
+    .prepare(
+      `SELECT ${BUDGET_METRIC_EXPR[budget.metric]} as used FROM task_runs
+       WHERE status != 'skipped' AND started_at >= ${BUDGET_PERIOD_START[budget.period]} ${scopeFilter}`
+    )
+    .get(...params) as { used: number }
+  return row.used
+}
+
+export function getBudgetStatuses(db: Database.Database): BudgetStatus[] {
+  return listUsageBudgets(db).map((budget) => {
+    const used = getBudgetUsage(db, budget)
+    return { budget, used, exceeded: used >= budget.limit }
+  })
+}
+
+/**
+ * The first budget that starting another run of this task would exceed:
+ * global budgets, budgets on the worker the task runs as, and the task's own.
+ */
+export function findExceededBudget(db: Database.Database, task: Task): BudgetStatus | null {
+  const workerId = task.workerId ?? getDefaultWorker(db)?.id ?? null
+  const budgets = listUsageBudgets(db).filter((b) =>
+    b.scope === 'global'
+    || (b.scope === 'worker' && b.scopeId === workerId)
+    || (b.scope === 'task' && b.scopeId === task.id)
+  )
+  for (const budget of budgets) {
+    const used = getBudgetUsage(db, budget)
+    // A run's token and cost usage is unknown until it finishes, so those
+    // budgets block once reached; run-count budgets block the run that would pass them
+    const exceeded = budget.metric === 'runs' ? used + 1 > budget.limit : used >= budget.limit
+    if (exceeded) return { budget, used, exceeded }
+  }
+  return null
+}
+
+/** Record a run that was not started, so the skip shows up in history. */
+export function createSkippedTaskRun(db: Database.Database, taskId: number, reason: string): TaskRun {
+  const result = db
+    .prepare(
+      `INSERT INTO task_runs (task_id, started_at, finished_at, status, error_message, duration_ms)
+       VALUES (?, datetime('now','localtime'), datetime('now','localtime'), 'skipped', ?, 0)`
+    )
+    .run(taskId, reason)
+  return getTaskRun(db, result.lastInsertRowid as number)!
+}
+
+function mapUsageBudgetRow(row: Record<string, unknown>): UsageBudget {
+  return {
+    id: row.id as number,
+    scope: row.scope as BudgetScope,
+    scopeId: (row.scope_id as number | null) ?? null,
+    period: row.period as BudgetPeriod,
+    metric: row.metric as BudgetMetric,
+    limit: row.limit_value as number,
+    action: row.action as BudgetAction,
+    createdAt: row.created_at as string
+  }
+}
+
+// ─── Webhooks ───────────────────────────────────────────────
+
+// Older deliveries are pruned so the log stays small
+const MAX_DELIVERIES_PER_WEBHOOK = 200
+
+export function createWebhook(db: Database.Database, input: CreateWebhookInput): Webhook {
+  const result = db
+    .prepare('INSERT INTO webhooks (name, url, events, secret, format, body_template, enabled) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .run(
+      input.name,
+      input.url,
+      input.events?.length ? JSON.stringify(input.events) : null,
+      input.secret || null,
+      input.format ?? 'json',
+      input.bodyTemplate || null,
+      input.enabled === false ? 0 : 1
+    )
+  return getWebhook(db, result.lastInsertRowid as number)!
+}
+
+export function getWebhook(db: Database.Database, id: number): Webhook | null {
+  const row = db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as Record<string, unknown> | undefined
+  return row ? mapWebhookRow(row) : null
+}
+
+export function listWebhooks(db: Database.Database): Webhook[] {
+  const rows = db.prepare('SELECT * FROM webhooks ORDER BY name, id').all()
+  return (rows as Record<string, unknown>[]).map(mapWebhookRow)
+}
+
+/** Enabled webhooks subscribed to an event. */
+export function listWebhooksForEvent(db: Database.Database, event: WebhookEvent): Webhook[] {
+  return listWebhooks(db).filter((w) => w.enabled && (w.events.length === 0 || w.events.includes(event)))
+}
+
+export function updateWebhook(db: Database.Database, id: number, updates: Partial<{
+  name: string; url: string; events: WebhookEvent[]; secret: string | null; format: WebhookFormat; bodyTemplate: string | null; enabled: boolean
+}>): void {
+  const fieldMap: Record<string, string> = {
+    name: 'name', url: 'url', events: 'events', secret: 'secret', format: 'format',
+    bodyTemplate: 'body_template', enabled: 'enabled'
+  }
+  const fields: string[] = []
+  const values: unknown[] = []
+
+  for (const [key, value] of Object.entries(updates)) {
+    const dbField = fieldMap[key]
+    if (!dbField) continue
+    fields.push(`${dbField} = ?`)
+    if (key === 'enabled') values.push(value ? 1 : 0)
+    else if (key === 'events') values.push((value as WebhookEvent[]).length ? JSON.stringify(value) : null)
+    else values.push(value || null)
+  }
+  if (fields.length === 0) return
+
+  values.push(id)
+  db.prepare(`UPDATE webhooks SET ${fields.join(', ')} WHERE id = ?`).run(...values)
+}
+
+export function deleteWebhook(db: Database.Database, id: number): boolean {
+  return db.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0
+}
+
+export function createWebhookDelivery(
+  db: Database.Database,
+  webhookId: number,
+  event: WebhookEvent,
+  taskId: number | null,
+  runId: number | null
+): WebhookDelivery {
+  const result = db
+    .prepare('INSERT INTO webhook_deliveries (webhook_id, event, task_id, run_id) VALUES (?, ?, ?, ?)')
+    .run(webhookId, event, taskId, runId)
+  db.prepare(
+    `DELETE FROM webhook_deliveries WHERE webhook_id = ? AND id NOT IN (
+       SELECT id FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT ?
+     )`
+  ).run(webhookId, webhookId, MAX_DELIVERIES_PER_WEBHOOK)
+  return getWebhookDelivery(db, result.lastInsertRowid as number)!
+}
+
+/** Record the outcome of one delivery attempt. */
+export function updateWebhookDelivery(
+  db: Database.Database,
+  id: number,
+  status: WebhookDeliveryStatus,
+  attempts: number,
+  responseStatus: number | null,
+  error: string | null
+): void {
+  db.prepare(
+    `UPDATE webhook_deliveries
+     SET status = ?, attempts = ?, response_status = ?, error = ?,
+         delivered_at = CASE WHEN ? = 'delivered' THEN datetime('now','localtime') ELSE NULL END
+     WHERE id = ?`
+  ).run(status, attempts, responseStatus, error, status, id)
+}
+
+export function getWebhookDelivery(db: Database.Database, id: number): WebhookDelivery | null {
+  const row = db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as Record<string, unknown> | undefined
+  return row ? mapWebhookDeliveryRow(row) : null
+}
+
+/** Most recent deliveries first, for one webhook or all of them. */
+export function listWebhookDeliveries(db: Database.Database, webhookId?: number, limit: number = 50): WebhookDelivery[] {
+  const rows = webhookId
+    ? db.prepare('SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT ?').all(webhookId, limit)
+    : db.prepare('SELECT * FROM webhook_deliveries ORDER BY id DESC LIMIT ?').all(limit)
+  return (rows as Record<string, unknown>[]).map(mapWebhookDeliveryRow)
+}
+
+function mapWebhookRow(row: Record<string, unknown>): Webhook {
+  return {
+    id: row.id as number,
+    name: row.name as string,
+    url: row.url as string,
+    events: parseJsonArray<WebhookEvent>(row.events),
+    secret: (row.secret as string | null) ?? null,
+    format: row.format as WebhookFormat,
+    bodyTemplate: (row.body_template as string | null) ?? null,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at as string
+  }
+}
+
+function mapWebhookDeliveryRow(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as number,
+    webhookId: row.webhook_id as number,
+    event: row.event as WebhookEvent,
+    taskId: (row.task_id as number | null) ?? null,
+    runId: (row.run_id as number | null) ?? null,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts as number,
+    responseStatus: (row.response_status as number | null) ?? null,
+    error: (row.error as string | null) ?? null,
+    createdAt: row.created_at as string,
+    deliveredAt: (row.delivered_at as string | null) ?? null
+  }
+}
+
 // ─── One-Time & Progress Queries ────────────────────────────
 
 export function getDueOnceTasks(db: Database.Database): Task[] {
@@ -597,9 +1330,10 @@ function buildRelatedKnowledgeSection(db: Database.Database, task: Task): string
     const ftsResults = db
       .prepare(
         `SELECT e.* FROM entities e
-         INNER JOIN memory_fts fts ON e.id = fts.rowid
-         WHERE memory_fts MATCH ?
-         ORDER BY rank
+         INNER JOIN (
+           SELECT entity_id, MIN(rank) AS best FROM memory_fts WHERE memory_fts MATCH ? GROUP BY entity_id
+         ) fts ON e.id = fts.entity_id
+         ORDER BY fts.best
          LIMIT 10`
       )
       .all(ftsQuery) as Entity[]
@@ -766,6 +1500,20 @@ function mapTaskRow(row: Record<string, unknown>): Task {
     disallowedTools: row.disallowed_tools as string | null,
     nudgeMode: (row.nudge_mode as NudgeMode) ?? 'always',
     learnedContext: row.learned_context as string | null,
+    workingDirectory: row.working_directory as string | null,
+    misfirePolicy: (row.misfire_policy as MisfirePolicy) ?? 'skip',
+    misfireLimit: row.misfire_limit as number | null,
+    timezone: row.timezone as string | null,
+    maxAttempts: (row.max_attempts as number) ?? 1,
+    retryBackoff: (row.retry_backoff as RetryBackoff) ?? 'exponential',
+    retryDelaySeconds: (row.retry_delay_seconds as number) ?? DEFAULT_RETRY_DELAY_SECONDS,
+    // NULL means the default classes; an explicit empty list retries nothing
+    retryOn: row.retry_on == null ? [...DEFAULT_RETRY_ON] : parseJsonArray<RetryFailureClass>(row.retry_on),
+    successCriteria: parseJsonObject<SuccessCriteria>(row.success_criteria),
+    outputSchema: parseJsonObject<Record<string, unknown>>(row.output_schema),
+    changeDetection: (row.change_detection as ChangeDetectionMode) ?? 'off',
+    webhookToken: (row.webhook_token as string | null) ?? null,
+    webhookPayloadPath: (row.webhook_payload_path as string | null) ?? null,
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string
   }
@@ -780,10 +1528,36 @@ function mapWatchRow(row: Record<string, unknown>): Watch {
     status: row.status as string,
     lastTriggered: row.last_triggered as string | null,
     triggerCount: row.trigger_count as number,
+    taskId: (row.task_id as number | null) ?? null,
+    includePatterns: parseJsonArray<string>(row.include_patterns),
+    excludePatterns: parseJsonArray<string>(row.exclude_patterns),
+    maxDepth: (row.max_depth as number | null) ?? 2,
+    eventTypes: parseJsonArray<WatchEventType>(row.event_types),
+    batchWindowSeconds: (row.batch_window_seconds as number | null) ?? null,
     createdAt: row.created_at as string
   }
 }
 
+function parseJsonArray<T>(value: unknown): T[] {
+  if (typeof value !== 'string' || !value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function parseJsonObject<T>(value: unknown): T | null {
+  if (typeof value !== 'string' || !value) return null
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
 function mapTaskRunRow(row: Record<string, unknown>): TaskRun {
   return {
     id: row.id as number,
@@ -797,7 +1571,40 @@ function mapTaskRunRow(row: Record<string, unknown>): TaskRun {
     durationMs: row.duration_ms as number | null,
     progress: row.progress as number | null,
     progressMessage: row.progress_message as string | null,
-    sessionId: row.session_id as string | null
+    sessionId: row.session_id as string | null,
+    workerId: (row.worker_id as number | null) ?? null,
+    inputTokens: (row.input_tokens as number | null) ?? null,
+    outputTokens: (row.output_tokens as number | null) ?? null,
+    cacheReadTokens: (row.cache_read_tokens as number | null) ?? null,
+    cacheCreationTokens: (row.cache_creation_tokens as number | null) ?? null,
+    costUsd: (row.cost_usd as number | null) ?? null,
+    attempt: (row.attempt as number) ?? 1,
+    maxAttempts: (row.max_attempts as number) ?? 1,
+    resultJson: (row.result_json as string | null) ?? null,
+    changed: row.changed == null ? null : row.changed === 1,
+    diff: (row.diff as string | null) ?? null
+  }
+}
+
+function mapTaskRunAttemptRow(row: Record<string, unknown>): TaskRunAttempt {
+  return {
+    id: row.id as number,
+    runId: row.run_id as number,
+    attempt: row.attempt as number,
+    status: row.status as string,
+    errorMessage: row.error_message as string | null,
+    durationMs: row.duration_ms as number | null,
+    finishedAt: row.finished_at as string
+  }
+}
+
+function mapTaskDependencyRow(row: Record<string, unknown>): TaskDependency {
+  return {
+    id: row.id as number,
+    taskId: row.task_id as number,
+    dependsOnTaskId: row.depends_on_task_id as number,
+    triggerOn: row.trigger_on as DependencyTrigger,
+    createdAt: row.created_at as string
   }
 }
 
@@ -807,6 +1614,14 @@ export function updateTaskRunSessionId(db: Database.Database, runId: number, ses
   db.prepare('UPDATE task_runs SET session_id = ? WHERE id = ?').run(sessionId, runId)
 }
 
+export function updateTaskRunChange(db: Database.Database, runId: number, changed: boolean, diff: string | null): void {
+  db.prepare('UPDATE task_runs SET changed = ?, diff = ? WHERE id = ?').run(changed ? 1 : 0, diff, runId)
+}
+
+export function updateTaskRunResultJson(db: Database.Database, runId: number, json: string): void {
+  db.prepare('UPDATE task_runs SET result_json = ? WHERE id = ?').run(json, runId)
+}
+
 export function clearTaskSession(db: Database.Database, taskId: number): void {
   db.prepare("UPDATE tasks SET session_id = NULL, updated_at = datetime('now','localtime') WHERE id = ?").run(taskId)
 }
@@ -849,16 +1664,18 @@ export function upsertEmbedding(
 }
 
 export function getEmbeddingsForEntity(db: Database.Database, entityId: number): Array<{
-  sourceType: string; sourceId: number; vector: Buffer; textHash: string
+  id: number; sourceType: string; sourceId: number; vector: Buffer; textHash: string; model: string
 }> {
   const rows = db.prepare(
-    'SELECT source_type, source_id, vector, text_hash FROM embeddings WHERE entity_id = ?'
+    'SELECT id, source_type, source_id, vector, text_hash, model FROM embeddings WHERE entity_id = ?'
   ).all(entityId) as Array<Record<string, unknown>>
   return rows.map(r => ({
+    id: r.id as number,
     sourceType: r.source_type as string,
     sourceId: r.source_id as number,
     vector: r.vector as Buffer,
-    textHash: r.text_hash as string
+    textHash: r.text_hash as string,
+    model: r.model as string
   }))
 }
 
@@ -880,6 +1697,38 @@ export function deleteEmbeddingsForEntity(db: Database.Database, entityId: numbe
   db.prepare('DELETE FROM embeddings WHERE entity_id = ?').run(entityId)
 }
 
+export function deleteEmbedding(db: Database.Database, id: number): void {
+  db.prepare('DELETE FROM embeddings WHERE id = ?').run(id)
+}
+
+/** Record that every source of an entity has an up-to-date vector. */
+export function markEntityEmbedded(db: Database.Database, entityId: number): void {
+  db.prepare("UPDATE entities SET embedded_at = datetime('now','localtime') WHERE id = ?").run(entityId)
+}
+
+/**
+ * Drop vectors made by any other model and mark every entity pending, so a
+ * switch of embedding model re-indexes all memories. Returns vectors dropped.
+ */
+export function resetEmbeddingsForModel(db: Database.Database, model: string): number {
+  return db.transaction(() => {
+    const { changes } = db.prepare('DELETE FROM embeddings WHERE model != ?').run(model)
+    if (changes > 0) db.prepare('UPDATE entities SET embedded_at = NULL').run()
+    return changes
+  })()
+}
+
+/** Entities whose vectors are up to date for `model`, out of all entities. */
+export function getEmbeddingProgress(db: Database.Database, model: string): { indexed: number; total: number } {
+  return db.prepare(`
+    SELECT COUNT(*) AS total,
+      COALESCE(SUM(e.embedded_at IS NOT NULL AND EXISTS (
+        SELECT 1 FROM embeddings em WHERE em.source_type = 'entity' AND em.source_id = e.id AND em.model = ?
+      )), 0) AS indexed
+    FROM entities e
+  `).get(model) as { indexed: number; total: number }
+}
+
 export function getUnembeddedEntities(db: Database.Database, limit: number = 50): Entity[] {
   return db.prepare(
     'SELECT * FROM entities WHERE embedded_at IS NULL ORDER BY created_at ASC LIMIT ?'
@@ -888,25 +1737,45 @@ export function getUnembeddedEntities(db: Database.Database, limit: number = 50)
 
 // ─── Semantic Search (sqlite-vec) ─────────────────────────
 
+export interface SemanticMatch {
+  entityId: number
+  score: number
+  /** The observation whose vector scored best; null when the entity's own vector did. */
+  observationId?: number | null
+}
+
 /**
  * Vector similarity search using sqlite-vec's vec_distance_cosine().
  * Runs entirely in SQLite — no JS loop, no loading all embeddings into memory.
- * Returns entity IDs with similarity scores (1 - cosine_distance).
+ * Only vectors from `model` are compared. Returns one row per entity, scored
+ * by its best-matching vector (1 - cosine_distance), with the observation
+ * that vector belongs to.
  */
 export function semanticSearchSql(
   db: Database.Database,
   queryVector: Buffer,
+  model: string,
   limit: number = 20,
   minSimilarity: number = 0.3
-): Array<{ entityId: number; score: number }> {
+): SemanticMatch[] {
+  // SQLite takes the bare source columns from the row that holds the MAX()
   const rows = db.prepare(`
-    SELECT entity_id, 1.0 - vec_distance_cosine(vector, ?) AS similarity
-    FROM embeddings
+    SELECT entity_id, source_type, source_id, MAX(similarity) AS similarity
+    FROM (
+      SELECT entity_id, source_type, source_id, 1.0 - vec_distance_cosine(vector, ?) AS similarity
+      FROM embeddings
+      WHERE model = ?
+    )
     WHERE similarity >= ?
+    GROUP BY entity_id
     ORDER BY similarity DESC
     LIMIT ?
-  `).all(queryVector, minSimilarity, limit) as Array<{ entity_id: number; similarity: number }>
-  return rows.map(r => ({ entityId: r.entity_id, score: r.similarity }))
+  `).all(queryVector, model, minSimilarity, limit) as Array<{ entity_id: number; source_type: string; source_id: number; similarity: number }>
+  return rows.map(r => ({
+    entityId: r.entity_id,
+    score: r.similarity,
+    observationId: r.source_type === 'observation' ? r.source_id : null
+  }))
 }
 
 // ─── Hybrid Search (FTS + Semantic) ───────────────────────
@@ -916,24 +1785,33 @@ interface HybridSearchResult {
   ftsScore: number
   semanticScore: number
   combinedScore: number
+  /**
+   * Keyword-match excerpt with terms wrapped in `**`; for semantic-only hits,
+   * the text of the closest observation.
+   */
+  snippet: string | null
+  /** Observations that matched: keyword hits best first, then the closest by meaning. */
+  matchedObservationIds: number[]
 }
 
+const SEMANTIC_SNIPPET_LENGTH = 200
+
 export function hybridSearch(
   db: Database.Database,
   query: string,
-  semanticResults: Array<{ entityId: number; score: number }> | null,
+  semanticResults: SemanticMatch[] | null,
   limit: number = 10
 ): HybridSearchResult[] {
   // 1. FTS search
-  const ftsEntities = searchEntities(db, query)
-  const ftsMap = new Map<number, { entity: Entity; rank: number }>()
-  ftsEntities.forEach((e, i) => ftsMap.set(e.id, { entity: e, rank: i + 1 }))
+  const ftsMatches = searchMemory(db, query)
+  const ftsMap = new Map<number, { match: MemoryTextMatch; rank: number }>()
+  ftsMatches.forEach((m, i) => ftsMap.set(m.entity.id, { match: m, rank: i + 1 }))
 
   // 2. Semantic results (pre-computed by caller — either sqlite-vec SQL or JS fallback)
-  const semMap = new Map<number, number>()
+  const semMap = new Map<number, SemanticMatch>()
   if (semanticResults) {
     for (const r of semanticResults) {
-      semMap.set(r.entityId, r.score)
+      semMap.set(r.entityId, r)
     }
   }
 
@@ -944,13 +1822,28 @@ export function hybridSearch(
   for (const id of allIds) {
     const ftsEntry = ftsMap.get(id)
     const ftsScore = ftsEntry ? 1 / (60 + ftsEntry.rank) : 0 // RRF with k=60
-    const semanticScore = semMap.get(id) ?? 0
+    const semEntry = semMap.get(id)
+    const semanticScore = semEntry?.score ?? 0
 
-    const entity = ftsEntry?.entity ?? getEntity(db, id)
+    const entity = ftsEntry?.match.entity ?? getEntity(db, id)
     if (!entity) continue
 
+    let snippet = ftsEntry?.match.snippet ?? null
+    const matchedObservationIds = [...(ftsEntry?.match.observationIds ?? [])]
+    if (semEntry?.observationId != null && !matchedObservationIds.includes(semEntry.observationId)) {
+      const observation = getObservation(db, semEntry.observationId)
+      if (observation) {
+        matchedObservationIds.push(observation.id)
+        if (!snippet) {
+          snippet = observation.content.length > SEMANTIC_SNIPPET_LENGTH
+            ? `${observation.content.slice(0, SEMANTIC_SNIPPET_LENGTH - 1)}…`
+            : observation.content
+        }
+      }
+    }
+
     const combinedScore = ftsScore * 0.4 + semanticScore * 0.6
-    results.push({ entity, ftsScore, semanticScore, combinedScore })
+    results.push({ entity, ftsScore, semanticScore, combinedScore, snippet, matchedObservationIds })
   }
 
   results.sort((a, b) => b.combinedScore - a.combinedScore)
@@ -1,17 +1,63 @@
 import type Database from 'better-sqlite3'
 import * as queries from './db-queries'
-import { embed, isEngineReady, vectorToBlob, textHash, getModelName, getDimensions } from './embeddings'
+import type { EmbeddingStatus, Entity, Observation } from './types'
+import {
+  createEmbeddingProvider,
+  getEmbeddingProvider,
+  readEmbeddingConfig,
+  textHash,
+  vectorToBlob,
+  type EmbeddingProvider
+} from './embeddings'
 
 const DEFAULT_BATCH_SIZE = 10
+const MAX_TEXT_LENGTH = 2000
+const EMBED_CHUNK_SIZE = 16
 
+export interface EmbeddingSource {
+  sourceType: 'entity' | 'observation'
+  sourceId: number
+  text: string
+}
+
+/**
+ * What gets a vector for one entity: its name, and each observation on its
+ * own, prefixed with the entity name so "prefers green tea" still knows who.
+ */
+export function embeddingSources(entity: Entity, observations: Observation[]): EmbeddingSource[] {
+  return [
+    { sourceType: 'entity' as const, sourceId: entity.id, text: entity.name },
+    ...observations.map((obs) => ({
+      sourceType: 'observation' as const,
+      sourceId: obs.id,
+      text: `${entity.name}: ${obs.content}`
+    }))
+  ].map((source) => ({ ...source, text: source.text.substring(0, MAX_TEXT_LENGTH) }))
+}
+
+function readSources(db: Database.Database, entityId: number): EmbeddingSource[] | null {
+  const entity = queries.getEntity(db, entityId)
+  return entity ? embeddingSources(entity, queries.getObservations(db, entityId)) : null
+}
+
+/**
+ * Embed entities whose name or observations changed since they were last
+ * indexed. Sources whose text hash still matches keep their vector; vectors
+ * for observations that are gone are dropped. The first pass with a new model
+ * drops the old model's vectors and queues every entity again.
+ */
 export async function indexPendingEmbeddings(
   db: Database.Database,
-  batchSize: number = DEFAULT_BATCH_SIZE
+  batchSize: number = DEFAULT_BATCH_SIZE,
+  provider: EmbeddingProvider = getEmbeddingProvider()
 ): Promise<{ indexed: number; skipped: number; errors: number }> {
-  if (!isEngineReady()) {
+  if (!provider.isReady()) await provider.init()
+  if (!provider.isReady()) {
     return { indexed: 0, skipped: 0, errors: 0 }
   }
 
+  const model = provider.model
+  queries.resetEmbeddingsForModel(db, model)
   const unembedded = queries.getUnembeddedEntities(db, batchSize)
   let indexed = 0
   let skipped = 0
@@ -19,39 +65,50 @@ export async function indexPendingEmbeddings(
 
   for (const entity of unembedded) {
     try {
-      // Combine entity name + observations for embedding
-      const observations = queries.getObservations(db, entity.id)
-      const textParts = [entity.name]
-      for (const obs of observations.slice(0, 5)) {
-        textParts.push(obs.content)
-      }
-      const fullText = textParts.join(' ').substring(0, 2000)
-      const hash = textHash(fullText)
+      const sources = readSources(db, entity.id)
+      if (!sources) continue
+      const existing = queries.getEmbeddingsForEntity(db, entity.id).filter((e) => e.model === model)
+      const key = (sourceType: string, sourceId: number): string => `${sourceType}:${sourceId}`
+      const existingHashes = new Map(existing.map((e) => [key(e.sourceType, e.sourceId), e.textHash]))
 
-      // Check if already embedded with same hash
-      const existing = queries.getEmbeddingsForEntity(db, entity.id)
-      if (existing.some(e => e.textHash === hash)) {
-        skipped++
-        continue
-      }
+      const stale = sources
+        .map((source) => ({ ...source, hash: textHash(source.text) }))
+        .filter((source) => existingHashes.get(key(source.sourceType, source.sourceId)) !== source.hash)
+      skipped += sources.length - stale.length
 
-      const vector = await embed(fullText)
-      if (!vector) {
+      const vectors: Array<Float32Array | null> = []
+      for (let i = 0; i < stale.length; i += EMBED_CHUNK_SIZE) {
+        vectors.push(...await provider.embedBatch(stale.slice(i, i + EMBED_CHUNK_SIZE).map((source) => source.text)))
+      }
+      // Write nothing until every vector is in, so the entity stays pending and is retried whole
+      if (vectors.some((vector) => !vector)) {
         errors++
         continue
       }
+      // Memory edited while embedding already marked the entity pending again; the next pass picks that up
+      if (JSON.stringify(readSources(db, entity.id)) !== JSON.stringify(sources)) continue
+      stale.forEach((source, i) => {
+        queries.upsertEmbedding(
+          db,
+          entity.id,
+          source.sourceType,
+          source.sourceId,
+          source.hash,
+          vectorToBlob(vectors[i]!),
+          model,
+          vectors[i]!.length
+        )
+        indexed++
+      })
 
-      queries.upsertEmbedding(
-        db,
-        entity.id,
-        'entity',
-        entity.id,
-        hash,
-        vectorToBlob(vector),
-        getModelName(),
-        getDimensions()
-      )
-      indexed++
+      const current = new Set(sources.map((source) => key(source.sourceType, source.sourceId)))
+      for (const embedding of existing) {
+        if (!current.has(key(embedding.sourceType, embedding.sourceId))) {
+          queries.deleteEmbedding(db, embedding.id)
+        }
+      }
+
+      queries.markEntityEmbedded(db, entity.id)
     } catch {
       errors++
     }
@@ -59,3 +116,10 @@ export async function indexPendingEmbeddings(
 
   return { indexed, skipped, errors }
 }
+
+/** Progress of the model chosen in settings, which may not have been picked up yet. */
+export function getEmbeddingStatus(db: Database.Database): EmbeddingStatus {
+  const config = readEmbeddingConfig(db)
+  const model = createEmbeddingProvider(config).model
+  return { provider: config.provider, model, ...queries.getEmbeddingProgress(db, model) }
+}
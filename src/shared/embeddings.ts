@@ -1,8 +1,9 @@
 import { createHash } from 'crypto'
+import { basename, dirname, isAbsolute, sep } from 'path'
 import type Database from 'better-sqlite3'
-
-let pipeline: ((text: string | string[]) => Promise<{ tolist: () => number[][] }>) | null = null
-let pipelineLoading = false
+import { SETTINGS } from './constants'
+import { getSetting } from './db-queries'
+import type { EmbeddingProviderKind } from './types'
 
 let sqliteVecLoaded = false
 
@@ -28,71 +29,210 @@ export function isSqliteVecReady(): boolean {
   return sqliteVecLoaded
 }
 
-const MODEL_NAME = 'Xenova/all-MiniLM-L6-v2'
-const DIMENSIONS = 384
+// ─── Providers ──────────────────────────────────────────────
 
-export function getModelName(): string {
-  return MODEL_NAME.replace('Xenova/', '')
+export const EMBEDDING_PROVIDERS: readonly EmbeddingProviderKind[] = ['transformers', 'onnx', 'http']
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderKind
+  /**
+   * onnx: a Hugging Face model id or a local model directory.
+   * http: the model name the server knows, e.g. "nomic-embed-text".
+   */
+  model: string | null
+  /** http: base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 */
+  endpoint: string | null
 }
 
-export function getDimensions(): number {
-  return DIMENSIONS
+export interface EmbeddingProvider {
+  /** Stored with every vector; vectors from different models are never compared. */
+  readonly model: string
+  init: () => Promise<void>
+  isReady: () => boolean
+  embedBatch: (texts: string[]) => Promise<Array<Float32Array | null>>
 }
 
-export function isEngineReady(): boolean {
-  return pipeline !== null
+const DEFAULT_MODEL = 'Xenova/all-MiniLM-L6-v2'
+const DEFAULT_HTTP_ENDPOINT = 'http://localhost:11434/v1'
+const DEFAULT_HTTP_MODEL = 'nomic-embed-text'
+const HTTP_TIMEOUT_MS = 60_000
+// A model that failed to load (no network, server down) is retried after this long
+const INIT_RETRY_MS = 60_000
+
+type FeatureExtractor = (text: string | string[]) => Promise<{ tolist: () => number[][] }>
+
+/**
+ * Runs a feature-extraction model in-process with @huggingface/transformers.
+ * `modelId` is a Hugging Face id (downloaded once, then cached) or an absolute
+ * path to a directory laid out like one: config.json, tokenizer.json, onnx/model.onnx.
+ */
+export function createTransformersProvider(modelId: string = DEFAULT_MODEL): EmbeddingProvider {
+  const localDir = isAbsolute(modelId)
+  let pipeline: FeatureExtractor | null = null
+  let loading: Promise<void> | null = null
+  let failedAt = 0
+
+  async function load(): Promise<void> {
+    try {
+      // Dynamic import — @huggingface/transformers is optional
+      const { pipeline: createPipeline, env } = await import('@huggingface/transformers')
+      if (localDir) {
+        env.allowLocalModels = true
+        env.localModelPath = dirname(modelId) + sep
+      }
+      const pipe = await createPipeline('feature-extraction', localDir ? basename(modelId) : modelId, {
+        dtype: 'fp32',
+        revision: 'main',
+        ...(localDir ? { local_files_only: true } : {})
+      })
+      pipeline = async (text: string | string[]) => {
+        const result = await pipe(text, { pooling: 'mean', normalize: true })
+        return result as { tolist: () => number[][] }
+      }
+    } catch {
+      pipeline = null
+      failedAt = Date.now()
+    } finally {
+      loading = null
+    }
+  }
+
+  return {
+    model: localDir ? modelId : modelId.replace('Xenova/', ''),
+    isReady: () => pipeline !== null,
+    init: () => {
+      if (pipeline || Date.now() - failedAt < INIT_RETRY_MS) return loading ?? Promise.resolve()
+      loading ??= load()
+      return loading
+    },
+    embedBatch: async (texts) => {
+      if (!pipeline) return texts.map(() => null)
+      try {
+        const output = await pipeline(texts)
+        return output.tolist().map((v: number[]) => new Float32Array(v))
+      } catch {
+        return texts.map(() => null)
+      }
+    }
+  }
 }
 
-export async function initEngine(): Promise<void> {
-  if (pipeline || pipelineLoading) return
-  pipelineLoading = true
-  try {
-    // Dynamic import — @huggingface/transformers is optional
-    const { pipeline: createPipeline } = await import('@huggingface/transformers')
-    const pipe = await createPipeline('feature-extraction', MODEL_NAME, {
-      dtype: 'fp32',
-      revision: 'main'
+/**
+ * Calls the /embeddings route of an OpenAI-compatible server, such as Ollama
+ * or llama.cpp's llama-server, usually running on this machine.
+ */
+export function createHttpProvider(endpoint: string = DEFAULT_HTTP_ENDPOINT, model: string = DEFAULT_HTTP_MODEL): EmbeddingProvider {
+  const url = `${endpoint.replace(/\/+$/, '')}/embeddings`
+  let ready = false
+  let checking: Promise<void> | null = null
+  let failedAt = 0
+
+  async function request(texts: string[]): Promise<number[][]> {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, input: texts }),
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
     })
-    pipeline = async (text: string | string[]) => {
-      const result = await pipe(text, { pooling: 'mean', normalize: true })
-      return result as { tolist: () => number[][] }
+    if (!res.ok) throw new Error(`Embedding endpoint returned HTTP ${res.status}`)
+    const body = await res.json() as { data?: Array<{ embedding: number[]; index?: number }> }
+    const data = [...(body.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    if (data.length !== texts.length) throw new Error('Embedding endpoint returned the wrong number of vectors')
+    return data.map((d) => d.embedding)
+  }
+
+  // The server may come and go; a successful probe is what makes it ready
+  async function probe(): Promise<void> {
+    try {
+      ready = ((await request(['ping']))[0]?.length ?? 0) > 0
+    } catch {
+      ready = false
+    } finally {
+      if (!ready) failedAt = Date.now()
+      checking = null
+    }
+  }
+
+  return {
+    model: `http:${model}`,
+    isReady: () => ready,
+    init: () => {
+      if (ready || Date.now() - failedAt < INIT_RETRY_MS) return checking ?? Promise.resolve()
+      checking ??= probe()
+      return checking
+    },
+    embedBatch: async (texts) => {
+      if (!ready) return texts.map(() => null)
+      try {
+        return (await request(texts)).map((v) => new Float32Array(v))
+      } catch {
+        return texts.map(() => null)
+      }
     }
-  } catch {
-    pipeline = null
-  } finally {
-    pipelineLoading = false
   }
 }
 
-export async function embed(text: string): Promise<Float32Array | null> {
-  if (!pipeline && !pipelineLoading) {
-    await initEngine()
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'http':
+      return createHttpProvider(config.endpoint ?? undefined, config.model ?? undefined)
+    case 'onnx':
+      return createTransformersProvider(config.model ?? undefined)
+    default:
+      return createTransformersProvider()
   }
-  if (!pipeline) return null
+}
 
-  try {
-    const output = await pipeline(text)
-    const vectors = output.tolist()
-    return new Float32Array(vectors[0])
-  } catch {
-    return null
+/** The provider chosen in settings; unset or unknown values mean the built-in model. */
+export function readEmbeddingConfig(db: Database.Database): EmbeddingConfig {
+  const provider = getSetting(db, SETTINGS.EMBEDDING_PROVIDER)
+  const setting = (key: string): string | null => getSetting(db, key)?.trim() || null
+  return {
+    provider: EMBEDDING_PROVIDERS.find((p) => p === provider) ?? 'transformers',
+    model: setting(SETTINGS.EMBEDDING_MODEL),
+    endpoint: setting(SETTINGS.EMBEDDING_ENDPOINT)
   }
 }
 
+// ─── Active provider ────────────────────────────────────────
+
+let activeConfig: EmbeddingConfig = { provider: 'transformers', model: null, endpoint: null }
+let provider: EmbeddingProvider = createEmbeddingProvider(activeConfig)
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return provider
+}
+
+/** Switch to the provider in settings. A no-op while they are unchanged. */
+export function applyEmbeddingSettings(db: Database.Database): void {
+  const config = readEmbeddingConfig(db)
+  if (JSON.stringify(config) === JSON.stringify(activeConfig)) return
+  activeConfig = config
+  provider = createEmbeddingProvider(config)
+}
+
+export function getModelName(): string {
+  return provider.model
+}
+
+export function isEngineReady(): boolean {
+  return provider.isReady()
+}
+
+export function initEngine(): Promise<void> {
+  return provider.init()
+}
+
+export async function embed(text: string): Promise<Float32Array | null> {
+  const [vector] = await embedBatch([text])
+  return vector ?? null
+}
+
 export async function embedBatch(texts: string[]): Promise<(Float32Array | null)[]> {
   if (texts.length === 0) return []
-  if (!pipeline && !pipelineLoading) {
-    await initEngine()
-  }
-  if (!pipeline) return texts.map(() => null)
-
-  try {
-    const output = await pipeline(texts)
-    const vectors = output.tolist()
-    return vectors.map((v: number[]) => new Float32Array(v))
-  } catch {
-    return texts.map(() => null)
-  }
+  const current = provider
+  if (!current.isReady()) await current.init()
+  return current.embedBatch(texts)
 }
 
 export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
@@ -0,0 +1,103 @@
+/**
+ * A small JSON Schema validator covering the keywords task output checks
+ * need: type, enum, const, properties, required, additionalProperties, items,
+ * length and range limits, pattern, anyOf/oneOf/allOf. Unknown keywords are
+ * ignored, as the spec asks.
+ */
+
+type Schema = Record<string, unknown>
+
+const MAX_ERRORS = 5
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+function isSchema(value: unknown): value is Schema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validate(value: unknown, schema: Schema, path: string, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS) return
+  const fail = (message: string): void => { errors.push(`${path}: ${message}`) }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string]
+    if (!types.some((t) => matchesType(value, t))) {
+      fail(`expected ${types.join(' or ')}, got ${typeOf(value)}`)
+      return
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((v) => JSON.stringify(v) === JSON.stringify(value))) {
+    fail(`must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`)
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`)
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) fail(`must be at least ${schema.minLength} characters`)
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) fail(`must be at most ${schema.maxLength} characters`)
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) fail(`must match /${schema.pattern}/`)
+      } catch {
+        fail(`schema pattern /${schema.pattern}/ is invalid`)
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) fail(`must be >= ${schema.minimum}`)
+    if (typeof schema.maximum === 'number' && value > schema.maximum) fail(`must be <= ${schema.maximum}`)
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`)
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} items`)
+    if (isSchema(schema.items)) {
+      value.forEach((item, i) => validate(item, schema.items as Schema, `${path}[${i}]`, errors))
+    }
+  }
+
+  if (isSchema(value)) {
+    const properties = isSchema(schema.properties) ? schema.properties : {}
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in value)) fail(`missing required property "${key}"`)
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = properties[key]
+      if (isSchema(propertySchema)) {
+        validate(child, propertySchema, `${path}.${key}`, errors)
+      } else if (schema.additionalProperties === false) {
+        fail(`unexpected property "${key}"`)
+      } else if (isSchema(schema.additionalProperties)) {
+        validate(child, schema.additionalProperties, `${path}.${key}`, errors)
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) if (isSchema(sub)) validate(value, sub, path, errors)
+  }
+  const passing = (subs: unknown[]): number => subs.filter((sub) => isSchema(sub) && validateJsonSchema(value, sub).length === 0).length
+  if (Array.isArray(schema.anyOf) && passing(schema.anyOf) === 0) fail('does not match any allowed shape')
+  if (Array.isArray(schema.oneOf) && passing(schema.oneOf) !== 1) fail('must match exactly one allowed shape')
+}
+
+/** Validate a parsed JSON value. Returns up to five "$.path: problem" messages; empty when valid. */
+export function validateJsonSchema(value: unknown, schema: Schema): string[] {
+  const errors: string[] = []
+  validate(value, schema, '$', errors)
+  return errors
+}
@@ -0,0 +1,48 @@
+import { formatWallClock, getFireTimesBetween, parseCron } from './cron'
+import type { Task } from './types'
+
+export const DEFAULT_MISFIRE_LIMIT = 3
+export const MAX_MISFIRE_LIMIT = 24
+
+// A fire time only counts as missed once node-cron has clearly had its chance,
+// so catch-up never races a tick that is about to run the task anyway
+export const MISFIRE_GRACE_MS = 60_000
+const MAX_MISFIRE_LOOKBACK_MS = 31 * 24 * 60 * 60_000
+
+/** Parse a timestamp written with datetime('now','localtime') (or an ISO string). */
+export function parseLocalTimestamp(value: string): Date {
+  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value)) return new Date(value.replace(' ', 'T'))
+  return new Date(value)
+}
+
+/**
+ * Fire times of a cron task between `since` (its last activity) and `now` that
+ * should be run late, oldest first, according to the task's misfire policy.
+ */
+export function getMissedFireTimes(
+  task: Pick<Task, 'cronExpression' | 'misfirePolicy' | 'misfireLimit' | 'timezone'>,
+  since: Date,
+  now: Date
+): Date[] {
+  if (!task.cronExpression || task.misfirePolicy === 'skip') return []
+
+  let fields
+  try {
+    fields = parseCron(task.cronExpression)
+  } catch {
+    return []
+  }
+
+  const from = new Date(Math.max(since.getTime(), now.getTime() - MAX_MISFIRE_LOOKBACK_MS))
+  const missed = getFireTimesBetween(fields, from, new Date(now.getTime() - MISFIRE_GRACE_MS), { timezone: task.timezone })
+  if (missed.length === 0) return []
+
+  if (task.misfirePolicy === 'run_once') return [missed[missed.length - 1]]
+  const limit = Math.min(task.misfireLimit ?? DEFAULT_MISFIRE_LIMIT, MAX_MISFIRE_LIMIT)
+  return missed.slice(-limit)
+}
+
+export function formatMisfireContext(fireTime: Date, timezone: string | null = null): string {
+  const when = timezone ? `${formatWallClock(fireTime, timezone)} (${timezone})` : formatWallClock(fireTime)
+  return `This is a late run for the scheduled time ${when}, which was missed while the computer was asleep or Daymon was not running.`
+}
@@ -0,0 +1,46 @@
+import type { ExecutionResult } from './claude-code'
+import type { RetryFailureClass, Task } from './types'
+
+export const DEFAULT_RETRY_ON: RetryFailureClass[] = ['exit_code', 'timeout']
+export const DEFAULT_RETRY_DELAY_SECONDS = 60
+export const MAX_ATTEMPTS = 10
+// Exponential backoff never waits longer than this between attempts
+export const MAX_RETRY_DELAY_SECONDS = 60 * 60
+
+type RunOutcome = Pick<ExecutionResult, 'stdout' | 'stderr' | 'exitCode' | 'durationMs' | 'timedOut' | 'cancelled'>
+
+/**
+ * Why a finished CLI run counts as failed, or null when it succeeded or was
+ * cancelled. An empty result only counts as a failure when `retryOn` asks for it.
+ */
+export function classifyFailure(result: RunOutcome, retryOn: RetryFailureClass[]): RetryFailureClass | null {
+  if (result.cancelled) return null
+  if (result.timedOut) return 'timeout'
+  if (result.exitCode !== 0) return 'exit_code'
+  if (retryOn.includes('empty_output') && !result.stdout.trim()) return 'empty_output'
+  return null
+}
+
+export function describeFailure(result: RunOutcome, failure: RetryFailureClass): string {
+  if (failure === 'timeout') return `Timed out after ${result.durationMs}ms`
+  if (failure === 'empty_output') return 'Finished without output'
+  return `Exit code ${result.exitCode}: ${result.stderr || '(no stderr)'}`
+}
+
+/** Wait before retry number `retry` (1 for the first retry). */
+export function getRetryDelayMs(task: Pick<Task, 'retryBackoff' | 'retryDelaySeconds'>, retry: number): number {
+  const seconds = task.retryBackoff === 'exponential'
+    ? task.retryDelaySeconds * 2 ** (retry - 1)
+    : task.retryDelaySeconds
+  return Math.min(seconds, MAX_RETRY_DELAY_SECONDS) * 1000
+}
+
+/** E.g. "up to 3 attempts, 60s apart, doubling, on exit code or timeout". */
+export function describeRetryPolicy(task: Pick<Task, 'maxAttempts' | 'retryBackoff' | 'retryDelaySeconds' | 'retryOn'>): string {
+  if (task.maxAttempts <= 1 || task.retryOn.length === 0) return 'no retries'
+  const spacing = task.retryBackoff === 'exponential'
+    ? `${task.retryDelaySeconds}s apart, doubling`
+    : `${task.retryDelaySeconds}s apart`
+  const on = task.retryOn.map((f) => f.replace('_', ' ')).join(' or ')
+  return `up to ${task.maxAttempts} attempts, ${spacing}, on ${on}`
+}
@@ -0,0 +1,208 @@
+/**
+ * Schedule introspection — plain-English descriptions, upcoming fire times and
+ * sanity checks for cron expressions, so a schedule can be confirmed before a
+ * task is created. Pure functions, safe to use from any process.
+ */
+
+import { formatWallClock, listFireTimes, parseCron, type CronFields } from './cron'
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+const DAY_MS = 24 * 60 * 60_000
+// Long enough to find a run of schedules that only fire on February 29th
+const PREVIEW_HORIZON_MS = 4 * 366 * DAY_MS
+const MAX_DESCRIBED_TIMES = 6
+// More runs than this per day are almost never intended for a Claude task
+const FREQUENT_RUNS_PER_DAY = 96
+
+export interface SchedulePreview {
+  description: string
+  /** Upcoming fire times, soonest first. Empty when the schedule never fires. */
+  nextRuns: Date[]
+  /** Runs on the busiest day of the coming week, counting every matching second. */
+  runsPerDay: number
+  warnings: string[]
+}
+
+export interface PreviewOptions {
+  timezone?: string | null
+  from?: Date
+  count?: number
+}
+
+// ─── Descriptions ───────────────────────────────────────────
+
+function sorted(values: Set<number>): number[] {
+  return [...values].sort((a, b) => a - b)
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('')
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'
+  return `${n}${suffix}`
+}
+
+/** The step when `values` is every n-th value of [min, max] starting at min, else null. */
+function stepOf(values: Set<number>, min: number, max: number): number | null {
+  const list = sorted(values)
+  if (list.length < 2 || list[0] !== min) return null
+  const step = list[1] - list[0]
+  const expected = Math.floor((max - min) / step) + 1
+  if (list.length !== expected) return null
+  return list.every((v, i) => v === min + i * step) ? step : null
+}
+
+/** [first, last] when `values` is one unbroken range, else null. */
+function rangeOf(values: Set<number>): [number, number] | null {
+  const list = sorted(values)
+  return list[list.length - 1] - list[0] === list.length - 1 ? [list[0], list[list.length - 1]] : null
+}
+
+function describeHours(hours: Set<number>): string {
+  const range = rangeOf(hours)
+  if (range && range[0] !== range[1]) return `from ${pad(range[0])}:00 to ${pad(range[1])}:59`
+  return `during the ${joinList(sorted(hours).map((h) => `${pad(h)}:00`))} hour${hours.size > 1 ? 's' : ''}`
+}
+
+// Either a frequency ("every 15 minutes") or a list of times ("at 09:00")
+function describeTime(fields: CronFields): { text: string; isInterval: boolean } {
+  const { minutes, hours } = fields
+  const allHours = hours.size === 24
+  const minuteStep = stepOf(minutes, 0, 59)
+  const hourStep = stepOf(hours, 0, 23)
+
+  if (minutes.size === 60) {
+    return { text: allHours ? 'every minute' : `every minute ${describeHours(hours)}`, isInterval: true }
+  }
+  if (minuteStep) {
+    const every = `every ${minuteStep} minutes`
+    return { text: allHours ? every : `${every} ${describeHours(hours)}`, isInterval: true }
+  }
+  if (minutes.size === 1 && (allHours || hourStep)) {
+    const [minute] = minutes
+    const every = allHours ? 'every hour' : `every ${hourStep} hours`
+    return { text: minute === 0 ? every : `${every} at ${pad(minute)} minutes past`, isInterval: true }
+  }
+  const hourRange = rangeOf(hours)
+  if (minutes.size === 1 && hourRange && hours.size > 2) {
+    const [minute] = minutes
+    return { text: `every hour from ${pad(hourRange[0])}:${pad(minute)} to ${pad(hourRange[1])}:${pad(minute)}`, isInterval: true }
+  }
+
+  const times = sorted(hours).flatMap((h) => sorted(minutes).map((m) => `${pad(h)}:${pad(m)}`))
+  if (times.length <= MAX_DESCRIBED_TIMES) return { text: `at ${joinList(times)}`, isInterval: false }
+  const pastHour = `at ${joinList(sorted(minutes).map(String))} minutes past the hour`
+  return { text: allHours ? pastHour : `${pastHour} ${describeHours(hours)}`, isInterval: true }
+}
+
+function describeWeekdays(days: Set<number>): { one: string; all: string } | null {
+  if (days.size === 7) return null
+  const list = sorted(days)
+  if (list.join() === '1,2,3,4,5') return { one: 'weekday', all: 'weekdays' }
+  if (list.join() === '0,6') return { one: 'weekend day', all: 'weekends' }
+  return {
+    one: joinList(list.map((d) => DAY_NAMES[d])),
+    all: joinList(list.map((d) => `${DAY_NAMES[d]}s`))
+  }
+}
+
+/** Describe a cron expression in English, e.g. "every weekday at 09:00". */
+export function describeSchedule(expression: string): string {
+  const fields = parseCron(expression)
+  const time = describeTime(fields)
+  const weekdays = describeWeekdays(fields.daysOfWeek)
+  const allDates = fields.daysOfMonth.size === 31
+  const months = fields.months.size === 12 ? null : joinList(sorted(fields.months).map((m) => MONTH_NAMES[m - 1]))
+  const dates = joinList(sorted(fields.daysOfMonth).map(ordinal))
+
+  let text: string
+  if (allDates && !weekdays) {
+    text = time.isInterval ? time.text : `every day ${time.text}`
+    if (months) text += ` in ${months}`
+  } else if (allDates && weekdays) {
+    text = time.isInterval ? `${time.text} on ${weekdays.all}` : `every ${weekdays.one} ${time.text}`
+    if (months) text += ` in ${months}`
+  } else {
+    const onDates = `on the ${dates} of ${months ?? 'every month'}`
+    text = time.isInterval ? `${time.text} ${onDates}` : `${onDates} ${time.text}`
+    if (weekdays) text += `, if it is a ${weekdays.one.replace(/ and /, ' or ')}`
+  }
+
+  const secondStep = stepOf(fields.seconds, 0, 59)
+  if (secondStep && text === 'every minute') return `every ${secondStep} seconds`
+  if (fields.seconds.size > 1) {
+    text += `, ${fields.seconds.size} times a minute`
+  } else if (!fields.seconds.has(0)) {
+    text += ` (${sorted(fields.seconds)[0]} seconds past the minute)`
+  }
+  return text
+}
+
+// ─── Previews ───────────────────────────────────────────────
+
+function canEverFire(fields: CronFields): boolean {
+  return sorted(fields.months).some((month) => sorted(fields.daysOfMonth).some((day) => day <= DAYS_IN_MONTH[month - 1]))
+}
+
+function nextFireTimes(fields: CronFields, options: PreviewOptions): Date[] {
+  if (!canEverFire(fields)) return []
+  const from = options.from ?? new Date()
+  const until = new Date(from.getTime() + PREVIEW_HORIZON_MS)
+  return listFireTimes(fields, from, until, { timezone: options.timezone, limit: options.count ?? 5 }).map((t) => t.at)
+}
+
+/** The next fire times of a cron expression, soonest first. Throws when the expression is invalid. */
+export function getNextRuns(expression: string, options: PreviewOptions = {}): Date[] {
+  return nextFireTimes(parseCron(expression), options)
+}
+
+/**
+ * Describe a cron expression, list its next fire times and warn about schedules
+ * that never fire or fire far more often than a task usually should.
+ * Throws when the expression is invalid.
+ */
+export function previewSchedule(expression: string, options: PreviewOptions = {}): SchedulePreview {
+  const fields = parseCron(expression)
+  const from = options.from ?? new Date()
+  const timezone = options.timezone ?? null
+  const warnings: string[] = []
+
+  const nextRuns = nextFireTimes(fields, { ...options, from })
+  const perDay = new Map<string, number>()
+  for (const { at } of listFireTimes(fields, from, new Date(from.getTime() + 7 * DAY_MS), { timezone })) {
+    const day = formatWallClock(at, timezone).slice(0, 10)
+    perDay.set(day, (perDay.get(day) ?? 0) + 1)
+  }
+  const runsPerDay = Math.max(0, ...perDay.values()) * fields.seconds.size
+
+  if (nextRuns.length === 0) {
+    warnings.push('This schedule never fires: no date matches its day and month fields.')
+  } else if (nextRuns[0].getTime() - from.getTime() > 366 * DAY_MS) {
+    warnings.push(`The next run is more than a year away (${formatWallClock(nextRuns[0], timezone)}).`)
+  }
+
+  if (fields.seconds.size > 1) {
+    warnings.push(`The seconds field makes this fire ${fields.seconds.size} times a minute. Use a 5-field expression to run at most once a minute.`)
+  }
+  if (fields.minutes.size === 60 && fields.hours.size < 24) {
+    warnings.push('The minute field is "*", so this runs every minute during the chosen hours. Use "0" in the minute field to run once at the start of each hour.')
+  }
+  if (runsPerDay > FREQUENT_RUNS_PER_DAY) {
+    warnings.push(`This runs about ${runsPerDay} times a day, and every run uses Claude quota.`)
+  }
+
+  return { description: describeSchedule(expression), nextRuns, runsPerDay, warnings }
+}
@@ -39,19 +39,42 @@ CREATE TABLE IF NOT EXISTS relations (
 CREATE INDEX IF NOT EXISTS idx_relations_from ON relations(from_entity);
 CREATE INDEX IF NOT EXISTS idx_relations_to ON relations(to_entity);
 
+-- Full-text index over memory. Each entity has a row for its name and category,
+-- and each observation a row with its text that repeats the entity's name and
+-- category, so one query can match a name and something said about it.
+-- Standalone rather than external-content, so the triggers can fan entity
+-- renames out to the observation rows and snippet() has text to quote.
+-- Rows are keyed by rowid (-entity id for entity rows, observation id for
+-- observation rows) because FTS5 can only look rows up by rowid; matching on
+-- the UNINDEXED id columns would scan the whole table.
 CREATE VIRTUAL TABLE IF NOT EXISTS memory_fts USING fts5(
-    name, content, category, content='entities', content_rowid='id'
+    name, content, category, entity_id UNINDEXED, observation_id UNINDEXED
 );
 
 CREATE TRIGGER IF NOT EXISTS entities_ai AFTER INSERT ON entities BEGIN
-    INSERT INTO memory_fts(rowid, name, content, category) VALUES (new.id, new.name, '', new.category);
+    INSERT INTO memory_fts(rowid, name, content, category, entity_id, observation_id)
+        VALUES (-new.id, new.name, '', new.category, new.id, NULL);
 END;
 CREATE TRIGGER IF NOT EXISTS entities_ad AFTER DELETE ON entities BEGIN
-    INSERT INTO memory_fts(memory_fts, rowid, name, content, category) VALUES ('delete', old.id, old.name, '', old.category);
+    DELETE FROM memory_fts WHERE rowid = -old.id;
 END;
-CREATE TRIGGER IF NOT EXISTS entities_au AFTER UPDATE ON entities BEGIN
-    INSERT INTO memory_fts(memory_fts, rowid, name, content, category) VALUES ('delete', old.id, old.name, '', old.category);
-    INSERT INTO memory_fts(rowid, name, content, category) VALUES (new.id, new.name, '', new.category);
+CREATE TRIGGER IF NOT EXISTS entities_au AFTER UPDATE OF name, category ON entities BEGIN
+    UPDATE memory_fts SET name = new.name, category = new.category WHERE rowid = -new.id;
+    UPDATE memory_fts SET name = new.name, category = new.category
+        WHERE rowid IN (SELECT id FROM observations WHERE entity_id = new.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS observations_ai AFTER INSERT ON observations BEGIN
+    INSERT INTO memory_fts(rowid, name, content, category, entity_id, observation_id)
+        SELECT new.id, name, new.content, category, id, new.id FROM entities WHERE id = new.entity_id;
+END;
+CREATE TRIGGER IF NOT EXISTS observations_ad AFTER DELETE ON observations BEGIN
+    DELETE FROM memory_fts WHERE rowid = old.id;
+END;
+CREATE TRIGGER IF NOT EXISTS observations_au AFTER UPDATE OF content, entity_id ON observations BEGIN
+    DELETE FROM memory_fts WHERE rowid = old.id;
+    INSERT INTO memory_fts(rowid, name, content, category, entity_id, observation_id)
+        SELECT new.id, name, new.content, category, id, new.id FROM entities WHERE id = new.entity_id;
 END;
 
 -- Embeddings (semantic search)
@@ -69,6 +92,18 @@ CREATE TABLE IF NOT EXISTS embeddings (
 CREATE INDEX IF NOT EXISTS idx_embeddings_entity_id ON embeddings(entity_id);
 CREATE UNIQUE INDEX IF NOT EXISTS idx_embeddings_source ON embeddings(source_type, source_id, model);
 
+-- An entity is re-indexed when its name or any observation text changes;
+-- the indexer compares text hashes and only re-embeds what differs
+CREATE TRIGGER IF NOT EXISTS entities_embed_au AFTER UPDATE OF name ON entities BEGIN
+    UPDATE entities SET embedded_at = NULL WHERE id = new.id;
+END;
+CREATE TRIGGER IF NOT EXISTS observations_embed_au AFTER UPDATE OF content, entity_id ON observations BEGIN
+    UPDATE entities SET embedded_at = NULL WHERE id IN (old.entity_id, new.entity_id);
+END;
+CREATE TRIGGER IF NOT EXISTS observations_embed_ad AFTER DELETE ON observations BEGIN
+    DELETE FROM embeddings WHERE source_type = 'observation' AND source_id = old.id;
+END;
+
 -- Workers
 CREATE TABLE IF NOT EXISTS workers (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -111,6 +146,19 @@ CREATE TABLE IF NOT EXISTS tasks (
     disallowed_tools TEXT,
     nudge_mode TEXT NOT NULL DEFAULT 'always',
     learned_context TEXT,
+    working_directory TEXT,
+    misfire_policy TEXT NOT NULL DEFAULT 'skip',
+    misfire_limit INTEGER,
+    timezone TEXT,
+    max_attempts INTEGER NOT NULL DEFAULT 1,
+    retry_backoff TEXT NOT NULL DEFAULT 'exponential',
+    retry_delay_seconds INTEGER NOT NULL DEFAULT 60,
+    retry_on TEXT,
+    success_criteria TEXT,
+    output_schema TEXT,
+    change_detection TEXT NOT NULL DEFAULT 'off',
+    webhook_token TEXT,
+    webhook_payload_path TEXT,
     created_at DATETIME DEFAULT (datetime('now','localtime')),
     updated_at DATETIME DEFAULT (datetime('now','localtime'))
 );
@@ -131,12 +179,87 @@ CREATE TABLE IF NOT EXISTS task_runs (
     duration_ms INTEGER,
     progress REAL,
     progress_message TEXT,
-    session_id TEXT
+    session_id TEXT,
+    worker_id INTEGER REFERENCES workers(id) ON DELETE SET NULL,
+    input_tokens INTEGER,
+    output_tokens INTEGER,
+    cache_read_tokens INTEGER,
+    cache_creation_tokens INTEGER,
+    cost_usd REAL,
+    attempt INTEGER NOT NULL DEFAULT 1,
+    max_attempts INTEGER NOT NULL DEFAULT 1,
+    result_json TEXT,
+    changed INTEGER,
+    diff TEXT
 );
 CREATE INDEX IF NOT EXISTS idx_task_runs_task_id ON task_runs(task_id);
 CREATE INDEX IF NOT EXISTS idx_task_runs_started_at ON task_runs(started_at);
 CREATE INDEX IF NOT EXISTS idx_task_runs_status ON task_runs(status);
 
+-- Attempts of runs that were retried
+CREATE TABLE IF NOT EXISTS task_run_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL REFERENCES task_runs(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    error_message TEXT,
+    duration_ms INTEGER,
+    finished_at DATETIME DEFAULT (datetime('now','localtime'))
+);
+CREATE INDEX IF NOT EXISTS idx_task_run_attempts_run ON task_run_attempts(run_id);
+
+-- Usage budgets
+CREATE TABLE IF NOT EXISTS usage_budgets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    scope TEXT NOT NULL DEFAULT 'global',
+    scope_id INTEGER,
+    period TEXT NOT NULL DEFAULT 'day',
+    metric TEXT NOT NULL,
+    limit_value REAL NOT NULL,
+    action TEXT NOT NULL DEFAULT 'skip',
+    created_at DATETIME DEFAULT (datetime('now','localtime')),
+    UNIQUE(scope, scope_id, period, metric)
+);
+
+-- Outbound webhooks
+CREATE TABLE IF NOT EXISTS webhooks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    events TEXT,
+    secret TEXT,
+    format TEXT NOT NULL DEFAULT 'json',
+    body_template TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at DATETIME DEFAULT (datetime('now','localtime'))
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    task_id INTEGER,
+    run_id INTEGER,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    error TEXT,
+    created_at DATETIME DEFAULT (datetime('now','localtime')),
+    delivered_at DATETIME
+);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, id);
+
+-- Task dependencies (pipelines)
+CREATE TABLE IF NOT EXISTS task_dependencies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    depends_on_task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    trigger_on TEXT NOT NULL DEFAULT 'success',
+    created_at DATETIME DEFAULT (datetime('now','localtime')),
+    UNIQUE(task_id, depends_on_task_id)
+);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_upstream ON task_dependencies(depends_on_task_id);
+
 -- Console logs
 CREATE TABLE IF NOT EXISTS console_logs (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -157,6 +280,12 @@ CREATE TABLE IF NOT EXISTS watches (
     status TEXT NOT NULL DEFAULT 'active',
     last_triggered DATETIME,
     trigger_count INTEGER NOT NULL DEFAULT 0,
+    task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL,
+    include_patterns TEXT,
+    exclude_patterns TEXT,
+    max_depth INTEGER NOT NULL DEFAULT 2,
+    event_types TEXT,
+    batch_window_seconds INTEGER,
     created_at DATETIME DEFAULT (datetime('now','localtime'))
 );
 
@@ -185,6 +314,23 @@ INSERT OR IGNORE INTO schema_version (version) VALUES (10);
 INSERT OR IGNORE INTO schema_version (version) VALUES (11);
 INSERT OR IGNORE INTO schema_version (version) VALUES (12);
 INSERT OR IGNORE INTO schema_version (version) VALUES (13);
+INSERT OR IGNORE INTO schema_version (version) VALUES (14);
+INSERT OR IGNORE INTO schema_version (version) VALUES (15);
+INSERT OR IGNORE INTO schema_version (version) VALUES (16);
+INSERT OR IGNORE INTO schema_version (version) VALUES (17);
+INSERT OR IGNORE INTO schema_version (version) VALUES (18);
+INSERT OR IGNORE INTO schema_version (version) VALUES (19);
+INSERT OR IGNORE INTO schema_version (version) VALUES (20);
+INSERT OR IGNORE INTO schema_version (version) VALUES (21);
+INSERT OR IGNORE INTO schema_version (version) VALUES (22);
+INSERT OR IGNORE INTO schema_version (version) VALUES (23);
+INSERT OR IGNORE INTO schema_version (version) VALUES (24);
+INSERT OR IGNORE INTO schema_version (version) VALUES (25);
+INSERT OR IGNORE INTO schema_version (version) VALUES (26);
+INSERT OR IGNORE INTO schema_version (version) VALUES (27);
+INSERT OR IGNORE INTO schema_version (version) VALUES (28);
+INSERT OR IGNORE INTO schema_version (version) VALUES (29);
+INSERT OR IGNORE INTO schema_version (version) VALUES (30);
 `
 
 /**
@@ -319,5 +465,242 @@ INSERT OR IGNORE INTO schema_version (version) VALUES (12);`
     sql: `
 ALTER TABLE workers ADD COLUMN role TEXT;
 INSERT OR IGNORE INTO schema_version (version) VALUES (13);`
+  },
+  {
+    version: 14,
+    label: 'task dependencies',
+    sql: `
+CREATE TABLE IF NOT EXISTS task_dependencies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    depends_on_task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    trigger_on TEXT NOT NULL DEFAULT 'success',
+    created_at DATETIME DEFAULT (datetime('now','localtime')),
+    UNIQUE(task_id, depends_on_task_id)
+);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_upstream ON task_dependencies(depends_on_task_id);
+INSERT OR IGNORE INTO schema_version (version) VALUES (14);`
+  },
+  {
+    version: 15,
+    label: 'task working directory',
+    sql: `
+ALTER TABLE tasks ADD COLUMN working_directory TEXT;
+INSERT OR IGNORE INTO schema_version (version) VALUES (15);`
+  },
+  {
+    version: 16,
+    label: 'watch-linked tasks',
+    sql: `
+ALTER TABLE watches ADD COLUMN task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL;
+INSERT OR IGNORE INTO schema_version (version) VALUES (16);`
+  },
+  {
+    version: 17,
+    label: 'watch filters',
+    sql: `
+ALTER TABLE watches ADD COLUMN include_patterns TEXT;
+ALTER TABLE watches ADD COLUMN exclude_patterns TEXT;
+ALTER TABLE watches ADD COLUMN max_depth INTEGER NOT NULL DEFAULT 2;
+ALTER TABLE watches ADD COLUMN event_types TEXT;
+INSERT OR IGNORE INTO schema_version (version) VALUES (17);`
+  },
+  {
+    version: 18,
+    label: 'watch batching',
+    sql: `
+ALTER TABLE watches ADD COLUMN batch_window_seconds INTEGER;
+INSERT OR IGNORE INTO schema_version (version) VALUES (18);`
+  },
+  {
+    version: 19,
+    label: 'run token usage',
+    sql: `
+ALTER TABLE task_runs ADD COLUMN worker_id INTEGER REFERENCES workers(id) ON DELETE SET NULL;
+ALTER TABLE task_runs ADD COLUMN input_tokens INTEGER;
+ALTER TABLE task_runs ADD COLUMN output_tokens INTEGER;
+ALTER TABLE task_runs ADD COLUMN cache_read_tokens INTEGER;
+ALTER TABLE task_runs ADD COLUMN cache_creation_tokens INTEGER;
+ALTER TABLE task_runs ADD COLUMN cost_usd REAL;
+INSERT OR IGNORE INTO schema_version (version) VALUES (19);`
+  },
+  {
+    version: 20,
+    label: 'usage budgets',
+    sql: `
+CREATE TABLE IF NOT EXISTS usage_budgets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    scope TEXT NOT NULL DEFAULT 'global',
+    scope_id INTEGER,
+    period TEXT NOT NULL DEFAULT 'day',
+    metric TEXT NOT NULL,
+    limit_value REAL NOT NULL,
+    action TEXT NOT NULL DEFAULT 'skip',
+    created_at DATETIME DEFAULT (datetime('now','localtime')),
+    UNIQUE(scope, scope_id, period, metric)
+);
+INSERT OR IGNORE INTO schema_version (version) VALUES (20);`
+  },
+  {
+    version: 21,
+    label: 'task misfire policy',
+    sql: `
+ALTER TABLE tasks ADD COLUMN misfire_policy TEXT NOT NULL DEFAULT 'skip';
+ALTER TABLE tasks ADD COLUMN misfire_limit INTEGER;
+INSERT OR IGNORE INTO schema_version (version) VALUES (21);`
+  },
+  {
+    version: 22,
+    label: 'task timezone',
+    sql: `
+ALTER TABLE tasks ADD COLUMN timezone TEXT;
+INSERT OR IGNORE INTO schema_version (version) VALUES (22);`
+  },
+  {
+    version: 23,
+    label: 'task retry policy',
+    sql: `
+ALTER TABLE tasks ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE tasks ADD COLUMN retry_backoff TEXT NOT NULL DEFAULT 'exponential';
+ALTER TABLE tasks ADD COLUMN retry_delay_seconds INTEGER NOT NULL DEFAULT 60;
+ALTER TABLE tasks ADD COLUMN retry_on TEXT;
+ALTER TABLE task_runs ADD COLUMN attempt INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE task_runs ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 1;
+CREATE TABLE IF NOT EXISTS task_run_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL REFERENCES task_runs(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    error_message TEXT,
+    duration_ms INTEGER,
+    finished_at DATETIME DEFAULT (datetime('now','localtime'))
+);
+CREATE INDEX IF NOT EXISTS idx_task_run_attempts_run ON task_run_attempts(run_id);
+INSERT OR IGNORE INTO schema_version (version) VALUES (23);`
+  },
+  {
+    version: 24,
+    label: 'task success criteria',
+    sql: `
+ALTER TABLE tasks ADD COLUMN success_criteria TEXT;
+INSERT OR IGNORE INTO schema_version (version) VALUES (24);`
+  },
+  {
+    version: 25,
+    label: 'structured task output',
+    sql: `
+ALTER TABLE tasks ADD COLUMN output_schema TEXT;
+ALTER TABLE task_runs ADD COLUMN result_json TEXT;
+INSERT OR IGNORE INTO schema_version (version) VALUES (25);`
+  },
+  {
+    version: 26,
+    label: 'change detection',
+    sql: `
+ALTER TABLE tasks ADD COLUMN change_detection TEXT NOT NULL DEFAULT 'off';
+ALTER TABLE task_runs ADD COLUMN changed INTEGER;
+ALTER TABLE task_runs ADD COLUMN diff TEXT;
+INSERT OR IGNORE INTO schema_version (version) VALUES (26);`
+  },
+  {
+    version: 27,
+    label: 'outbound webhooks',
+    sql: `
+CREATE TABLE IF NOT EXISTS webhooks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    events TEXT,
+    secret TEXT,
+    format TEXT NOT NULL DEFAULT 'json',
+    body_template TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at DATETIME DEFAULT (datetime('now','localtime'))
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    task_id INTEGER,
+    run_id INTEGER,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    error TEXT,
+    created_at DATETIME DEFAULT (datetime('now','localtime')),
+    delivered_at DATETIME
+);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, id);
+INSERT OR IGNORE INTO schema_version (version) VALUES (27);`
+  },
+  {
+    version: 28,
+    label: 'webhook trigger',
+    sql: `
+ALTER TABLE tasks ADD COLUMN webhook_token TEXT;
+ALTER TABLE tasks ADD COLUMN webhook_payload_path TEXT;
+INSERT OR IGNORE INTO schema_version (version) VALUES (28);`
+  },
+  {
+    version: 29,
+    label: 'observation full-text search',
+    sql: `
+DROP TRIGGER IF EXISTS entities_ai;
+DROP TRIGGER IF EXISTS entities_ad;
+DROP TRIGGER IF EXISTS entities_au;
+DROP TABLE IF EXISTS memory_fts;
+CREATE VIRTUAL TABLE IF NOT EXISTS memory_fts USING fts5(
+    name, content, category, entity_id UNINDEXED, observation_id UNINDEXED
+);
+
+CREATE TRIGGER IF NOT EXISTS entities_ai AFTER INSERT ON entities BEGIN
+    INSERT INTO memory_fts(rowid, name, content, category, entity_id, observation_id)
+        VALUES (-new.id, new.name, '', new.category, new.id, NULL);
+END;
+CREATE TRIGGER IF NOT EXISTS entities_ad AFTER DELETE ON entities BEGIN
+    DELETE FROM memory_fts WHERE rowid = -old.id;
+END;
+CREATE TRIGGER IF NOT EXISTS entities_au AFTER UPDATE OF name, category ON entities BEGIN
+    UPDATE memory_fts SET name = new.name, category = new.category WHERE rowid = -new.id;
+    UPDATE memory_fts SET name = new.name, category = new.category
+        WHERE rowid IN (SELECT id FROM observations WHERE entity_id = new.id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS observations_ai AFTER INSERT ON observations BEGIN
+    INSERT INTO memory_fts(rowid, name, content, category, entity_id, observation_id)
+        SELECT new.id, name, new.content, category, id, new.id FROM entities WHERE id = new.entity_id;
+END;
+CREATE TRIGGER IF NOT EXISTS observations_ad AFTER DELETE ON observations BEGIN
+    DELETE FROM memory_fts WHERE rowid = old.id;
+END;
+CREATE TRIGGER IF NOT EXISTS observations_au AFTER UPDATE OF content, entity_id ON observations BEGIN
+    DELETE FROM memory_fts WHERE rowid = old.id;
+    INSERT INTO memory_fts(rowid, name, content, category, entity_id, observation_id)
+        SELECT new.id, name, new.content, category, id, new.id FROM entities WHERE id = new.entity_id;
+END;
+
+INSERT INTO memory_fts(rowid, name, content, category, entity_id, observation_id)
+    SELECT -id, name, '', category, id, NULL FROM entities;
+INSERT INTO memory_fts(rowid, name, content, category, entity_id, observation_id)
+    SELECT o.id, e.name, o.content, e.category, e.id, o.id FROM observations o JOIN entities e ON e.id = o.entity_id;
+INSERT OR IGNORE INTO schema_version (version) VALUES (29);`
+  },
+  {
+    version: 30,
+    label: 'observation embeddings',
+    sql: `
+CREATE TRIGGER IF NOT EXISTS entities_embed_au AFTER UPDATE OF name ON entities BEGIN
+    UPDATE entities SET embedded_at = NULL WHERE id = new.id;
+END;
+CREATE TRIGGER IF NOT EXISTS observations_embed_au AFTER UPDATE OF content, entity_id ON observations BEGIN
+    UPDATE entities SET embedded_at = NULL WHERE id IN (old.entity_id, new.entity_id);
+END;
+CREATE TRIGGER IF NOT EXISTS observations_embed_ad AFTER DELETE ON observations BEGIN
+    DELETE FROM embeddings WHERE source_type = 'observation' AND source_id = old.id;
+END;
+-- Entity vectors used to cover the first five observations; index each one instead
+UPDATE entities SET embedded_at = NULL;
+INSERT OR IGNORE INTO schema_version (version) VALUES (30);`
   }
 ]
@@ -0,0 +1,61 @@
+/**
+ * Sidecar API authentication. Each sidecar launch generates a bearer token and
+ * writes it, readable only by the user, next to `sidecar.port`. Local clients
+ * (the Electron main process, the MCP server) read it from there. Requests
+ * must also name the loopback address in their Host header, which shuts out
+ * browser pages reaching the port through DNS rebinding.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { chmodSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import type { IncomingHttpHeaders } from 'http'
+
+export const SIDECAR_TOKEN_FILE = 'sidecar.token'
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost']
+
+export function generateSidecarToken(): string {
+  return randomBytes(32).toString('hex')
+}
+
+/** Constant-time token comparison; hashing first evens out different lengths. */
+export function tokensMatch(expected: string, given: string): boolean {
+  const a = createHash('sha256').update(expected).digest()
+  const b = createHash('sha256').update(given).digest()
+  return timingSafeEqual(a, b)
+}
+
+export function writeSidecarToken(dataDir: string, token: string): void {
+  const file = join(dataDir, SIDECAR_TOKEN_FILE)
+  writeFileSync(file, token, { mode: 0o600 })
+  // The mode above only applies when the file is created
+  chmodSync(file, 0o600)
+}
+
+export function readSidecarToken(dataDir: string): string | null {
+  try {
+    return readFileSync(join(dataDir, SIDECAR_TOKEN_FILE), 'utf-8').trim() || null
+  } catch {
+    return null
+  }
+}
+
+export function sidecarAuthHeaders(token: string | null): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+/** Whether a Host header names the sidecar on loopback, with or without the port. */
+export function isAllowedHost(host: string | undefined, port: number): boolean {
+  if (!host) return false
+  return LOOPBACK_HOSTS.some((name) => host === name || host === `${name}:${port}`)
+}
+
+export type SidecarAuthResult = { ok: true } | { ok: false; status: 401 | 403; error: string }
+
+export function checkSidecarRequest(headers: IncomingHttpHeaders, token: string, port: number): SidecarAuthResult {
+  if (!isAllowedHost(headers.host, port)) return { ok: false, status: 403, error: 'Forbidden host' }
+  const match = /^Bearer (\S+)$/.exec(headers.authorization ?? '')
+  if (!match || !tokensMatch(token, match[1])) return { ok: false, status: 401, error: 'Unauthorized' }
+  return { ok: true }
+}
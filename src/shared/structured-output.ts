@@ -0,0 +1,38 @@
+import { validateJsonSchema } from './json-schema'
+
+// Keeps a pathological schema from crowding out the task prompt
+const MAX_SCHEMA_PROMPT_CHARS = 10_000
+
+export type StructuredOutput =
+  | { ok: true; value: unknown; json: string }
+  | { ok: false; error: string }
+
+/** The JSON text of an output, without the ```json fence Claude often wraps it in. */
+export function extractJsonText(output: string): string {
+  const trimmed = output.trim()
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/i)
+  return fenced ? fenced[1].trim() : trimmed
+}
+
+/** Append instructions asking for a reply that is only JSON matching `schema`. */
+export function buildOutputFormatPrompt(prompt: string, schema: Record<string, unknown>): string {
+  const schemaText = JSON.stringify(schema, null, 2).slice(0, MAX_SCHEMA_PROMPT_CHARS)
+  return `${prompt}
+
+## Output format
+Your final reply must be a single JSON value that matches this JSON Schema, with no text before or after it:
+${schemaText}`
+}
+
+/** Parse a run's output and check it against the task's output schema. */
+export function parseStructuredOutput(output: string, schema: Record<string, unknown>): StructuredOutput {
+  let value: unknown
+  try {
+    value = JSON.parse(extractJsonText(output))
+  } catch {
+    return { ok: false, error: 'Output is not valid JSON' }
+  }
+  const errors = validateJsonSchema(value, schema)
+  if (errors.length > 0) return { ok: false, error: `Output does not match the output schema (${errors.join('; ')})` }
+  return { ok: true, value, json: JSON.stringify(value) }
+}
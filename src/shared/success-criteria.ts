@@ -0,0 +1,117 @@
+import { executeClaudeCode } from './claude-code'
+import type { ExecutionResult } from './claude-code'
+import { validateJsonSchema } from './json-schema'
+import { extractJsonText } from './structured-output'
+import type { SuccessCriteria } from './types'
+
+const JUDGE_TIMEOUT_MS = 60_000
+const MAX_JUDGED_OUTPUT_CHARS = 8000
+
+function includesPhrase(output: string, phrase: string): boolean {
+  return output.toLowerCase().includes(phrase.toLowerCase())
+}
+
+/**
+ * Check the rules that need no model call. Returns the first rule the output
+ * breaks, in words, or null when every rule holds.
+ */
+export function checkOutputRules(output: string, criteria: SuccessCriteria): string | null {
+  if (criteria.minLength != null && output.trim().length < criteria.minLength) {
+    return `output is ${output.trim().length} characters, expected at least ${criteria.minLength}`
+  }
+  for (const phrase of criteria.mustContain ?? []) {
+    if (!includesPhrase(output, phrase)) return `output does not contain "${phrase}"`
+  }
+  for (const phrase of criteria.mustNotContain ?? []) {
+    if (includesPhrase(output, phrase)) return `output contains "${phrase}"`
+  }
+  if (criteria.mustMatch) {
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(criteria.mustMatch, 'i')
+    } catch {
+      return `the pattern /${criteria.mustMatch}/ is not a valid regular expression`
+    }
+    if (!pattern.test(output)) return `output does not match /${criteria.mustMatch}/`
+  }
+
+  if (criteria.json || criteria.jsonSchema) {
+    let value: unknown
+    try {
+      value = JSON.parse(extractJsonText(output))
+    } catch {
+      return 'output is not valid JSON'
+    }
+    if (criteria.jsonSchema) {
+      const errors = validateJsonSchema(value, criteria.jsonSchema)
+      if (errors.length > 0) return `output does not match the JSON schema (${errors.join('; ')})`
+    }
+  }
+  return null
+}
+
+export function buildJudgePrompt(taskName: string, rubric: string, output: string): string {
+  const judged = output.length > MAX_JUDGED_OUTPUT_CHARS
+    ? output.slice(0, MAX_JUDGED_OUTPUT_CHARS) + '\n...(truncated)'
+    : output
+  return `You are checking the result of an automated task against its success rubric.
+
+Task name: "${taskName}"
+
+Rubric:
+${rubric}
+
+Result:
+${judged}
+
+Does the result meet the rubric? Reply with exactly one line: "PASS", or "FAIL: <short reason>".`
+}
+
+/** Read the judge's reply; null when it answered neither PASS nor FAIL. */
+export function parseJudgeVerdict(reply: string): { passed: boolean; reason: string | null } | null {
+  const line = reply.trim().split('\n')[0].replace(/\*/g, '').trim()
+  if (/^pass\b/i.test(line)) return { passed: true, reason: null }
+  const fail = line.match(/^fail\b[:\s-]*(.*)$/i)
+  if (fail) return { passed: false, reason: fail[1].trim() || null }
+  return null
+}
+
+export interface RubricJudgement {
+  /** Why the output fails the rubric, or null when it passes or no verdict was reached. */
+  failure: string | null
+  /** The judge's own CLI run, for usage accounting. */
+  result: ExecutionResult
+}
+
+/**
+ * Ask a short, tool-less Claude call whether the output meets the rubric.
+ * A judge that errors or answers off-format never fails the run. Aborting
+ * `signal` kills the judge along with the run.
+ */
+export async function judgeRubric(
+  taskName: string,
+  rubric: string,
+  output: string,
+  signal?: AbortSignal
+): Promise<RubricJudgement> {
+  const result = await executeClaudeCode(buildJudgePrompt(taskName, rubric, output), {
+    maxTurns: 1,
+    timeoutMs: JUDGE_TIMEOUT_MS,
+    // The judged output is untrusted, so the judge is allowed no tools at all
+    allowedTools: '',
+    noMcpServers: true,
+    signal
+  })
+  if (result.cancelled) return { failure: null, result }
+  if (result.exitCode !== 0 || result.timedOut) {
+    console.warn(`Non-fatal: rubric judge for "${taskName}" failed with exit code ${result.exitCode}`)
+    return { failure: null, result }
+  }
+
+  const verdict = parseJudgeVerdict(result.stdout)
+  if (!verdict) {
+    console.warn(`Non-fatal: rubric judge for "${taskName}" gave no verdict`)
+    return { failure: null, result }
+  }
+  return { failure: verdict.passed ? null : `rubric not met${verdict.reason ? `: ${verdict.reason}` : ''}`, result }
+}
@@ -6,29 +6,61 @@ import * as queries from './db-queries'
 import { DEFAULTS } from './constants'
 import { shouldDistill, distillLearnedContext } from './learned-context'
 import { detectRateLimit, sleep, RATE_LIMIT_MAX_RETRIES } from './rate-limit'
+import { validateWorkingDirectory } from './watch-path'
+import { classifyFailure, describeFailure, getRetryDelayMs } from './retry'
+import { checkOutputRules, judgeRubric } from './success-criteria'
+import { buildOutputFormatPrompt, parseStructuredOutput } from './structured-output'
+import { detectChange } from './change-detection'
+import { buildRunPayload, dispatchWebhookEvent } from './webhooks'
+import type { RunEventDetails, WebhookDispatchOptions } from './webhooks'
 import type Database from 'better-sqlite3'
-import type { Task } from './types'
+import type { Task, WebhookEvent } from './types'
+
+export interface UpstreamInput {
+  taskName: string
+  output: string
+  success: boolean
+}
 
 export interface TaskExecutionOptions {
   db: Database.Database
   resultsDir: string
+  /** Result of the upstream task when this run was triggered by a pipeline. */
+  upstream?: UpstreamInput
+  /** Per-run details appended to the prompt, e.g. the file that triggered a watch. */
+  triggerContext?: string
   onComplete?: (task: Task, output: string, durationMs: number) => void
   onFailed?: (task: Task, error: string) => void
+  /** How run events reach webhooks; by default in the background, with retries. */
+  webhookDispatch?: WebhookDispatchOptions
+  /** Receives each webhook delivery in flight, for callers that must wait for them before exiting. */
+  onWebhookDispatch?: (delivery: Promise<void>) => void
 }
 
+type RunWebhookOptions = Pick<TaskExecutionOptions, 'webhookDispatch' | 'onWebhookDispatch'>
+
 export interface TaskExecutionResult {
   success: boolean
   output: string
   errorMessage?: string
   durationMs: number
   resultFilePath?: string
+  /** Set whenever a task_runs row was recorded for this execution. */
+  runId?: number
+  /** The run was stopped with cancelTask. */
+  cancelled?: boolean
+  /** Change detection found nothing new since the previous successful run, so nobody needs to hear about it. */
+  unchanged?: boolean
 }
 
 const runningTasks = new Set<number>()
+// Aborting a controller kills the task's CLI process tree and ends any rate-limit wait
+const runControllers = new Map<number, AbortController>()
 
 const SESSION_MAX_RUNS = 20
 const CONSOLE_LOG_FLUSH_INTERVAL_MS = 1000
 const MAX_CONCURRENT_TASKS = 3
+const MAX_UPSTREAM_INPUT_LENGTH = 20_000
 
 // ─── Concurrency limiter ─────────────────────────────────────
 // Prevents spawning unlimited Claude CLI processes when many tasks fire at once.
@@ -37,13 +69,24 @@ const MAX_CONCURRENT_TASKS = 3
 let activeSlots = 0
 const concurrencyQueue: Array<() => void> = []
 
-function acquireSlot(): Promise<void> {
+// Rejects when the signal aborts first; a cancelled waiter never takes a slot
+function acquireSlot(signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.reject(new Error('Cancelled'))
   if (activeSlots < MAX_CONCURRENT_TASKS) {
     activeSlots++
     return Promise.resolve()
   }
-  return new Promise<void>(resolve => {
-    concurrencyQueue.push(resolve)
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = (): void => {
+      concurrencyQueue.splice(concurrencyQueue.indexOf(waiter), 1)
+      reject(new Error('Cancelled'))
+    }
+    const waiter = (): void => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }
+    concurrencyQueue.push(waiter)
+    signal.addEventListener('abort', onAbort, { once: true })
   })
 }
 
@@ -101,9 +144,10 @@ async function executeWithRateLimitRetry(
   taskId: number
 ): Promise<ExecutionResult> {
   let result = await executeClaudeCode(prompt, execOptions)
+  recordUsage(db, runId, result)
 
   let retries = 0
-  while (result.exitCode !== 0 && retries < RATE_LIMIT_MAX_RETRIES) {
+  while (result.exitCode !== 0 && !result.cancelled && retries < RATE_LIMIT_MAX_RETRIES) {
     const rateLimitInfo = detectRateLimit(result)
     if (!rateLimitInfo) break
 
@@ -128,7 +172,7 @@ async function executeWithRateLimitRetry(
       }])
     } catch { /* non-fatal */ }
 
-    await sleep(rateLimitInfo.waitMs)
+    await sleep(rateLimitInfo.waitMs, execOptions.signal)
 
     queries.updateTaskRunProgress(db, runId, null, `Retrying after rate limit ${retryLabel}`)
 
@@ -146,21 +190,53 @@ async function executeWithRateLimitRetry(
         }
       }
     })
+    recordUsage(db, runId, result)
     retryConsoleLog.flush()
   }
 
   return result
 }
 
+// Every CLI invocation counts against quota, including rate-limit and session retries
+function recordUsage(db: Database.Database, runId: number, result: ExecutionResult): void {
+  if (!result.usage) return
+  try {
+    queries.addTaskRunUsage(db, runId, result.usage)
+  } catch (err) {
+    console.warn('Non-fatal: usage recording failed:', err)
+  }
+}
+
+function buildUpstreamPrompt(prompt: string, upstream?: UpstreamInput): string {
+  if (!upstream) return prompt
+  const output = upstream.output.length > MAX_UPSTREAM_INPUT_LENGTH
+    ? upstream.output.slice(0, MAX_UPSTREAM_INPUT_LENGTH) + '\n...(truncated)'
+    : upstream.output
+  const outcome = upstream.success ? 'succeeded' : 'failed'
+  return `## Input from previous step "${upstream.taskName}" (${outcome}):\n${output}\n\n---\n\n${prompt}`
+}
+
 export function isTaskRunning(taskId: number): boolean {
   return runningTasks.has(taskId)
 }
 
+/**
+ * Stop a task running in this process. The run is recorded as cancelled once
+ * the CLI has exited; a task still waiting for a slot never starts. Returns
+ * false when the task is neither running nor queued here.
+ */
+export function cancelTask(taskId: number): boolean {
+  const controller = runControllers.get(taskId)
+  if (!controller) return false
+  controller.abort()
+  return true
+}
+
 export async function executeTask(
   taskId: number,
   options: TaskExecutionOptions
 ): Promise<TaskExecutionResult> {
-  const { db, resultsDir, onComplete, onFailed } = options
+  const { db, resultsDir, upstream, triggerContext, onComplete, onFailed } = options
 
   if (runningTasks.has(taskId)) {
     return { success: false, output: '', errorMessage: 'Task is already running', durationMs: 0 }
@@ -181,23 +257,37 @@ export async function executeTask(
     return { success: false, output: '', errorMessage: `Task ${taskId} is ${task.status}, not active`, durationMs: 0 }
   }
 
+  // Registered before waiting for a slot so a queued run can be cancelled too
+  runningTasks.add(taskId)
+  const controller = new AbortController()
+  runControllers.set(taskId, controller)
+
   // Wait for a concurrency slot before spawning a Claude process
-  await acquireSlot()
+  try {
+    await acquireSlot(controller.signal)
+  } catch {
+    runningTasks.delete(taskId)
+    runControllers.delete(taskId)
+    return { success: false, output: '', errorMessage: 'Cancelled', durationMs: 0, cancelled: true }
+  }
+  let holdingSlot = true
 
-  runningTasks.add(taskId)
   const startTime = Date.now()
   const run = queries.createTaskRun(db, taskId)
+  notifyWebhooks(db, 'run.started', task, { runId: run.id }, options)
 
   try {
     // Resolve worker system prompt: task's workerId > default worker > none
     let systemPrompt: string | undefined
     let model: string | undefined
     try {
+      let workerId: number | undefined
       if (task.workerId) {
         const worker = queries.getWorker(db, task.workerId)
         if (worker) {
           systemPrompt = worker.systemPrompt
           model = worker.model ?? undefined
+          workerId = worker.id
         }
       }
       if (!systemPrompt) {
@@ -205,8 +295,10 @@ export async function executeTask(
         if (defaultWorker) {
           systemPrompt = defaultWorker.systemPrompt
           if (!model) model = defaultWorker.model ?? undefined
+          workerId = defaultWorker.id
         }
       }
+      if (workerId) queries.updateTaskRunWorker(db, run.id, workerId)
     } catch (err) {
       console.warn('Non-fatal: worker resolution failed:', err)
     }
@@ -226,8 +318,13 @@ export async function executeTask(
       }
     }
 
+    // Pipeline input: previous step's result goes directly above the task prompt
+    let basePrompt = buildUpstreamPrompt(task.prompt, upstream)
+    if (triggerContext) basePrompt = `${basePrompt}\n\n${triggerContext}`
+    if (task.outputSchema) basePrompt = buildOutputFormatPrompt(basePrompt, task.outputSchema)
+
     // Inject learned context (methodology from previous runs)
-    let augmentedPrompt = task.prompt
+    let augmentedPrompt = basePrompt
     try {
       if (task.learnedContext) {
         augmentedPrompt = `## Approach (learned from previous runs):\n${task.learnedContext}\n\n---\n\n${augmentedPrompt}`
@@ -259,19 +356,28 @@ export async function executeTask(
     // Resolve execution constraints
     const timeoutMs = task.timeoutMinutes != null ? task.timeoutMinutes * 60 * 1000 : undefined
     const maxTurns = task.maxTurns ?? undefined
-    const allowedTools = task.allowedTools ?? undefined
+    // A blank field means no restriction, not an empty allow-list
+    const allowedTools = task.allowedTools || undefined
     const disallowedTools = task.disallowedTools ?? undefined
+    const workingDirectory = task.workingDirectory ?? undefined
+
+    // The directory may have been moved or deleted since the task was created
+    if (workingDirectory) {
+      const dirError = validateWorkingDirectory(workingDirectory)
+      if (dirError) throw new Error(dirError)
+    }
 
     const consoleLog = createConsoleLogBuffer(db, run.id)
     let lastProgressUpdate = 0
     const execOptions: ExecutionOptions = {
       systemPrompt,
       model,
-      resumeSessionId,
       timeoutMs,
       maxTurns,
       allowedTools,
       disallowedTools,
+      workingDirectory,
+      signal: controller.signal,
       onConsoleLog: consoleLog.onConsoleLog,
       onProgress: (progress) => {
         const now = Date.now()
@@ -281,17 +387,19 @@ export async function executeTask(
         }
       }
     }
-    const result = await executeWithRateLimitRetry(augmentedPrompt, execOptions, db, run.id, taskId)
-    consoleLog.flush()
 
-    // If resume failed, retry without session
-    if (result.exitCode !== 0 && resumeSessionId) {
+    // One attempt: run the CLI, starting a fresh session if resuming fails
+    const runAttempt = async (): Promise<ExecutionResult> => {
+      const result = await executeWithRateLimitRetry(augmentedPrompt, { ...execOptions, resumeSessionId }, db, run.id, taskId)
+      consoleLog.flush()
+      if (result.exitCode === 0 || result.cancelled || !resumeSessionId) return result
+
       try {
         queries.clearTaskSession(db, taskId)
       } catch (err) { console.warn('Non-fatal: clear session failed:', err) }
 
       // Re-inject learned context + full memory context for the fresh run
-      let retryPrompt = task.prompt
+      let retryPrompt = basePrompt
       try {
         if (task.learnedContext) {
           retryPrompt = `## Approach (learned from previous runs):\n${task.learnedContext}\n\n---\n\n${retryPrompt}`
@@ -304,54 +412,113 @@ export async function executeTask(
         }
       } catch (err) { console.warn('Non-fatal: memory context retry failed:', err) }
 
-      const retryConsoleLog = createConsoleLogBuffer(db, run.id)
+      // Later attempts also start fresh
+      resumeSessionId = undefined
+      augmentedPrompt = retryPrompt
       lastProgressUpdate = 0
-      const retryExecOptions: ExecutionOptions = {
-        systemPrompt,
-        model,
-        timeoutMs,
-        maxTurns,
-        allowedTools,
-        disallowedTools,
-        onConsoleLog: retryConsoleLog.onConsoleLog,
-        onProgress: (progress) => {
-          const now = Date.now()
-          if (now - lastProgressUpdate >= DEFAULTS.PROGRESS_THROTTLE_MS) {
-            queries.updateTaskRunProgress(db, run.id, progress.fraction, progress.message)
-            lastProgressUpdate = now
-          }
-        }
-      }
-      const retryResult = await executeWithRateLimitRetry(retryPrompt, retryExecOptions, db, run.id, taskId)
-      retryConsoleLog.flush()
+      const retryResult = await executeWithRateLimitRetry(augmentedPrompt, execOptions, db, run.id, taskId)
+      consoleLog.flush()
+      return retryResult
+    }
 
-      return finishRun(db, run.id, taskId, task, retryResult, resultsDir, onComplete, onFailed)
+    // Retry policy: re-run failures the task opted into, all within this one run
+    const maxAttempts = task.maxAttempts
+    let attempt = 1
+    if (maxAttempts > 1) queries.setTaskRunAttempt(db, run.id, attempt, maxAttempts)
+    let result = await runAttempt()
+    while (attempt < maxAttempts) {
+      const failure = classifyFailure(result, task.retryOn)
+      if (!failure || !task.retryOn.includes(failure)) break
+
+      const error = describeFailure(result, failure)
+      queries.recordTaskRunAttempt(db, run.id, attempt, 'failed', error, result.durationMs)
+      const delayMs = getRetryDelayMs(task, attempt)
+      const message = `Attempt ${attempt}/${maxAttempts} failed. Retrying in ${Math.round(delayMs / 1000)}s`
+      console.log(`Task ${taskId}: ${message} (${error})`)
+      consoleLog.onConsoleLog({ entryType: 'error', content: `${message}: ${error}` })
+      consoleLog.flush()
+      queries.updateTaskRunProgress(db, run.id, null, message)
+
+      // Give the slot up while backing off so other tasks aren't held up for the whole delay
+      releaseSlot()
+      holdingSlot = false
+      await sleep(delayMs, controller.signal)
+      await acquireSlot(controller.signal)
+      holdingSlot = true
+      if (controller.signal.aborted) throw new Error('Cancelled')
+
+      attempt++
+      queries.setTaskRunAttempt(db, run.id, attempt, maxAttempts)
+      lastProgressUpdate = 0
+      result = await runAttempt()
+    }
+    if (maxAttempts > 1) {
+      const failure = classifyFailure(result, task.retryOn)
+      const status = result.cancelled ? 'cancelled' : failure ? 'failed' : 'completed'
+      queries.recordTaskRunAttempt(db, run.id, attempt, status, failure ? describeFailure(result, failure) : null, result.durationMs)
     }
 
-    return finishRun(db, run.id, taskId, task, result, resultsDir, onComplete, onFailed)
+    // Awaited so the run stays cancellable (and keeps its slot) while a rubric judge runs
+    return await finishRun(db, run.id, taskId, task, result, resultsDir, controller.signal, options, onComplete, onFailed)
   } catch (err) {
+    // Cancelling during a rate-limit wait rejects the sleep
+    if (controller.signal.aborted) {
+      queries.cancelTaskRun(db, run.id)
+      notifyWebhooks(db, 'run.failed', task, { runId: run.id, durationMs: Date.now() - startTime, error: 'Cancelled' }, options)
+      return { success: false, output: '', errorMessage: 'Cancelled', durationMs: Date.now() - startTime, runId: run.id, cancelled: true }
+    }
     const errorMsg = err instanceof Error ? err.message : String(err)
     queries.completeTaskRun(db, run.id, '', undefined, errorMsg)
+    notifyWebhooks(db, 'run.failed', task, { runId: run.id, durationMs: Date.now() - startTime, error: errorMsg }, options)
     onFailed?.(task, errorMsg)
-    return { success: false, output: '', errorMessage: errorMsg, durationMs: Date.now() - startTime }
+    return { success: false, output: '', errorMessage: errorMsg, durationMs: Date.now() - startTime, runId: run.id }
   } finally {
     runningTasks.delete(taskId)
-    releaseSlot()
+    runControllers.delete(taskId)
+    if (holdingSlot) releaseSlot()
   }
 }
 
-function finishRun(
+async function finishRun(
   db: Database.Database,
   runId: number,
   taskId: number,
   task: Task,
-  result: { stdout: string; stderr: string; exitCode: number; durationMs: number; timedOut: boolean; sessionId: string | null },
+  result: ExecutionResult,
   resultsDir: string,
+  signal: AbortSignal,
+  webhooks: RunWebhookOptions,
   onComplete?: (task: Task, output: string, durationMs: number) => void,
   onFailed?: (task: Task, error: string) => void
-): TaskExecutionResult {
+): Promise<TaskExecutionResult> {
+  if (result.cancelled) {
+    const partial = result.stdout || result.stderr
+    queries.cancelTaskRun(db, runId, partial)
+    // Webhooks have no cancelled event; subscribers still hear the run ended
+    notifyWebhooks(db, 'run.failed', task, { runId, durationMs: result.durationMs, error: 'Cancelled', result: partial }, webhooks)
+    return { success: false, output: partial, errorMessage: 'Cancelled', durationMs: result.durationMs, runId, cancelled: true }
+  }
+
   const output = result.stdout || result.stderr || '(no output)'
-  const resultFilePath = saveResult(resultsDir, task.name, output, result)
+  const failure = classifyFailure(result, task.retryOn)
+  // Only the final attempt reaches here, so errorCount counts exhausted retries
+  let errorMsg = failure ? describeFailure(result, failure) : null
+  let structured: { value: unknown; json: string } | null = null
+  if (!errorMsg && task.outputSchema) {
+    const parsed = parseStructuredOutput(result.stdout, task.outputSchema)
+    if (parsed.ok) structured = parsed
+    else errorMsg = parsed.error
+  }
+  if (!errorMsg && task.successCriteria) {
+    errorMsg = await checkSuccessCriteria(db, runId, task, result.stdout, signal)
+    // Cancelled while the judge was still deciding
+    if (signal.aborted) {
+      queries.cancelTaskRun(db, runId, output)
+      notifyWebhooks(db, 'run.failed', task, { runId, durationMs: result.durationMs, error: 'Cancelled', result: output }, webhooks)
+      return { success: false, output, errorMessage: 'Cancelled', durationMs: result.durationMs, runId, cancelled: true }
+    }
+  }
+  const resultFilePath = saveResult(resultsDir, task.name, output, result, errorMsg, errorMsg ? null : structured?.value)
 
   // Store session ID on run and task for future runs
   if (result.sessionId) {
@@ -363,9 +530,11 @@ function finishRun(
     } catch (err) { console.warn('Non-fatal: session ID storage failed:', err) }
   }
 
-  if (result.exitCode === 0 && !result.timedOut) {
+  if (!errorMsg) {
     queries.completeTaskRun(db, runId, output, resultFilePath)
-    try { queries.storeTaskResultInMemory(db, taskId, output, true) } catch (err) { console.warn('Non-fatal: memory storage failed:', err) }
+    if (structured) queries.updateTaskRunResultJson(db, runId, structured.json)
+    const unchanged = recordChange(db, runId, task, output, structured?.json ?? null)
+    try { queries.storeTaskResultInMemory(db, taskId, structured?.json ?? output, true) } catch (err) { console.warn('Non-fatal: memory storage failed:', err) }
     queries.incrementRunCount(db, taskId)
 
     // Fire-and-forget: distill methodology from run history
@@ -378,16 +547,76 @@ function finishRun(
       }
     } catch (err) { console.warn('Non-fatal: distillation check failed:', err) }
 
+    if (!unchanged) {
+      notifyWebhooks(db, 'run.completed', task, {
+        runId, durationMs: result.durationMs, result: structured?.json ?? output, resultFilePath,
+        changed: task.changeDetection === 'off' ? null : true
+      }, webhooks)
+    }
     onComplete?.(task, output.slice(0, 200), result.durationMs)
-    return { success: true, output, durationMs: result.durationMs, resultFilePath }
+    return { success: true, output, durationMs: result.durationMs, resultFilePath, runId, unchanged }
   } else {
-    const errorMsg = result.timedOut
-      ? `Timed out after ${result.durationMs}ms`
-      : `Exit code ${result.exitCode}: ${result.stderr || '(no stderr)'}`
     queries.completeTaskRun(db, runId, output, resultFilePath, errorMsg)
     try { queries.storeTaskResultInMemory(db, taskId, output, false) } catch (err) { console.warn('Non-fatal: memory storage failed:', err) }
+    notifyWebhooks(db, 'run.failed', task, { runId, durationMs: result.durationMs, error: errorMsg, result: output, resultFilePath }, webhooks)
     onFailed?.(task, errorMsg)
-    return { success: false, output, errorMessage: errorMsg, durationMs: result.durationMs, resultFilePath }
+    return { success: false, output, errorMessage: errorMsg, durationMs: result.durationMs, resultFilePath, runId }
+  }
+}
+
+// Fire-and-forget: deliveries never hold up the run; callers that exit early track them
+function notifyWebhooks(
+  db: Database.Database,
+  event: WebhookEvent,
+  task: Task,
+  details: RunEventDetails,
+  webhooks: RunWebhookOptions = {}
+): void {
+  const delivery = dispatchWebhookEvent(db, buildRunPayload(event, task, details), webhooks.webhookDispatch).then(
+    () => {},
+    (err) => console.warn('Non-fatal: webhook delivery failed:', err)
+  )
+  webhooks.onWebhookDispatch?.(delivery)
+}
+
+// Returns true when the task detects changes and this result has none
+function recordChange(db: Database.Database, runId: number, task: Task, output: string, json: string | null): boolean {
+  if (task.changeDetection === 'off') return false
+  try {
+    const previous = queries.getPreviousSuccessfulTaskRun(db, task.id, runId)
+    const change = detectChange(
+      task.changeDetection,
+      previous ? { result: previous.result ?? '', json: previous.resultJson } : null,
+      { result: output, json }
+    )
+    queries.updateTaskRunChange(db, runId, change.changed, change.diff)
+    return !change.changed
+  } catch (err) {
+    console.warn('Non-fatal: change detection failed:', err)
+    return false
+  }
+}
+
+// Exit code 0 is not enough: the output must also meet the task's success criteria
+async function checkSuccessCriteria(
+  db: Database.Database,
+  runId: number,
+  task: Task,
+  output: string,
+  signal: AbortSignal
+): Promise<string | null> {
+  const criteria = task.successCriteria!
+  const ruleFailure = checkOutputRules(output, criteria)
+  if (ruleFailure) return `Success criteria not met: ${ruleFailure}`
+  if (!criteria.rubric) return null
+
+  try {
+    const judgement = await judgeRubric(task.name, criteria.rubric, output, signal)
+    recordUsage(db, runId, judgement.result)
+    return judgement.failure ? `Success criteria not met: ${judgement.failure}` : null
+  } catch (err) {
+    console.warn('Non-fatal: rubric judging failed:', err)
+    return null
   }
 }
 
@@ -395,7 +624,9 @@ function saveResult(
   resultsDir: string,
   taskName: string,
   output: string,
-  result: { exitCode: number; durationMs: number; timedOut: boolean }
+  result: { exitCode: number; durationMs: number; timedOut: boolean },
+  errorMsg: string | null,
+  json?: unknown
 ): string {
   if (!existsSync(resultsDir)) {
     mkdirSync(resultsDir, { recursive: true })
@@ -410,7 +641,7 @@ function saveResult(
 
 **Date:** ${new Date().toLocaleString()}
 **Duration:** ${(result.durationMs / 1000).toFixed(1)}s
-**Status:** ${result.timedOut ? 'Timed Out' : result.exitCode === 0 ? 'Success' : `Failed (exit ${result.exitCode})`}
+**Status:** ${result.timedOut ? 'Timed Out' : result.exitCode !== 0 ? `Failed (exit ${result.exitCode})` : errorMsg ? `Failed (${errorMsg})` : 'Success'}
 
 ---
 
@@ -418,5 +649,9 @@ ${output}
 `
 
   writeFileSync(filePath, markdown, 'utf-8')
+  // Structured results also get a plain .json file for scripts to read
+  if (json !== undefined && json !== null) {
+    writeFileSync(filePath.replace(/\.md$/, '.json'), JSON.stringify(json, null, 2) + '\n', 'utf-8')
+  }
   return filePath
 }
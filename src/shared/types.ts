@@ -5,6 +5,34 @@ import type { TRIGGER_TYPES, TASK_STATUSES } from './constants'
 export type TriggerType = typeof TRIGGER_TYPES[keyof typeof TRIGGER_TYPES]
 export type TaskStatus = typeof TASK_STATUSES[keyof typeof TASK_STATUSES]
 export type NudgeMode = 'always' | 'failure_only' | 'never'
+/** What to do with cron fire times missed while the machine slept or the app was closed. */
+export type MisfirePolicy = 'skip' | 'run_once' | 'run_all'
+export type RetryBackoff = 'fixed' | 'exponential'
+/** Failures a retry policy can cover: a non-zero exit, a timeout, or a run that finished without output. */
+export type RetryFailureClass = 'exit_code' | 'timeout' | 'empty_output'
+export type DependencyTrigger = 'success' | 'failure' | 'always'
+/** How a run's result is compared with the previous successful one; 'off' notifies on every run. */
+export type ChangeDetectionMode = 'off' | 'text' | 'json'
+
+/**
+ * Checks applied to the output of a run that exited cleanly. Any rule that
+ * does not hold turns the run into a failure.
+ */
+export interface SuccessCriteria {
+  /** Regular expression the output must match (case-insensitive). */
+  mustMatch?: string
+  /** Phrases that must all appear in the output (case-insensitive). */
+  mustContain?: string[]
+  /** Phrases that mark a failed run, e.g. "I couldn't access" (case-insensitive). */
+  mustNotContain?: string[]
+  minLength?: number
+  /** The output must be valid JSON. */
+  json?: boolean
+  /** The output must be JSON matching this JSON Schema (implies `json`). */
+  jsonSchema?: Record<string, unknown>
+  /** Plain-language pass/fail rubric, judged by a separate short Claude call. */
+  rubric?: string
+}
 
 // ─── Worker Types ──────────────────────────────────────────
 
@@ -57,6 +85,29 @@ export interface Relation {
   created_at: string
 }
 
+/** An entity in a graph neighborhood, with how many hops it is from the root. */
+export interface MemoryGraphNode extends Entity {
+  depth: number
+}
+
+export interface MemoryGraph {
+  /** The entity the neighborhood is around; null for an overview of the whole graph. */
+  rootId: number | null
+  nodes: MemoryGraphNode[]
+  relations: Relation[]
+  /** More entities were in reach than the node limit allowed. */
+  truncated: boolean
+}
+
+/** A keyword search hit: the entity and where in its memory the query matched. */
+export interface MemoryTextMatch {
+  entity: Entity
+  /** Best-matching text with the query terms wrapped in `**`; null when found by substring fallback. */
+  snippet: string | null
+  /** Observations whose text matched, best first. */
+  observationIds: number[]
+}
+
 // ─── Task Types ─────────────────────────────────────────────
 
 export interface Task {
@@ -85,6 +136,26 @@ export interface Task {
   disallowedTools: string | null
   nudgeMode: NudgeMode
   learnedContext: string | null
+  workingDirectory: string | null
+  misfirePolicy: MisfirePolicy
+  /** Most missed runs to catch up with the `run_all` policy. */
+  misfireLimit: number | null
+  /** IANA zone the cron expression is evaluated in; the machine's zone when null. */
+  timezone: string | null
+  /** Tries per run including the first; 1 means failed runs are not retried. */
+  maxAttempts: number
+  retryBackoff: RetryBackoff
+  /** Wait before the first retry. Exponential backoff doubles it for each further retry. */
+  retryDelaySeconds: number
+  retryOn: RetryFailureClass[]
+  successCriteria: SuccessCriteria | null
+  /** JSON Schema the result must follow. Runs of such tasks store the parsed JSON separately. */
+  outputSchema: Record<string, unknown> | null
+  changeDetection: ChangeDetectionMode
+  /** Secret in the /hooks/:token URL of a `webhook` task. */
+  webhookToken: string | null
+  /** JSONPath picking the part of a webhook payload the run sees; the whole body when null. */
+  webhookPayloadPath: string | null
   createdAt: string
   updatedAt: string
 }
@@ -106,6 +177,18 @@ export interface CreateTaskInput {
   allowedTools?: string
   disallowedTools?: string
   nudgeMode?: NudgeMode
+  workingDirectory?: string
+  misfirePolicy?: MisfirePolicy
+  misfireLimit?: number
+  timezone?: string
+  maxAttempts?: number
+  retryBackoff?: RetryBackoff
+  retryDelaySeconds?: number
+  retryOn?: RetryFailureClass[]
+  successCriteria?: SuccessCriteria
+  outputSchema?: Record<string, unknown>
+  changeDetection?: ChangeDetectionMode
+  webhookPayloadPath?: string
 }
 
 export interface TaskRun {
@@ -121,6 +204,166 @@ export interface TaskRun {
   progress: number | null
   progressMessage: string | null
   sessionId: string | null
+  /** Worker whose system prompt the run used (task's worker or the default). */
+  workerId: number | null
+  inputTokens: number | null
+  outputTokens: number | null
+  cacheReadTokens: number | null
+  cacheCreationTokens: number | null
+  costUsd: number | null
+  /** Current (or final) attempt of this run, counting from 1. */
+  attempt: number
+  maxAttempts: number
+  /** The validated JSON result, as JSON text, for tasks with an output schema. */
+  resultJson: string | null
+  /** Whether the result differs from the previous successful run; null when change detection is off. */
+  changed: boolean | null
+  /** What changed since the previous successful run. */
+  diff: string | null
+}
+
+/** One try of a run that has a retry policy. */
+export interface TaskRunAttempt {
+  id: number
+  runId: number
+  attempt: number
+  status: string
+  errorMessage: string | null
+  durationMs: number | null
+  finishedAt: string
+}
+
+// ─── Usage Types ────────────────────────────────────────────
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  /** Cost the CLI reports for the run, in USD; null when not reported. */
+  costUsd: number | null
+}
+
+export interface UsageTotals {
+  runs: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheCreationTokens: number
+  costUsd: number
+}
+
+export interface TaskUsage extends UsageTotals {
+  taskId: number
+  taskName: string
+}
+
+export interface WorkerUsage extends UsageTotals {
+  workerId: number | null
+  workerName: string | null
+}
+
+export interface DailyUsage extends UsageTotals {
+  day: string
+}
+
+export interface UsageReport {
+  days: number
+  totals: UsageTotals
+  byTask: TaskUsage[]
+  byWorker: WorkerUsage[]
+  byDay: DailyUsage[]
+}
+
+export type BudgetScope = 'global' | 'worker' | 'task'
+export type BudgetPeriod = 'day' | 'week'
+/** `tokens` counts input + output tokens; cache reads are not included. */
+export type BudgetMetric = 'tokens' | 'cost' | 'runs'
+/** `skip` records a skipped run; `pause` also pauses the task. */
+export type BudgetAction = 'skip' | 'pause'
+
+export interface UsageBudget {
+  id: number
+  scope: BudgetScope
+  /** Worker or task ID for scoped budgets; null for global. */
+  scopeId: number | null
+  period: BudgetPeriod
+  metric: BudgetMetric
+  limit: number
+  action: BudgetAction
+  createdAt: string
+}
+
+export interface SetUsageBudgetInput {
+  scope: BudgetScope
+  scopeId?: number | null
+  period: BudgetPeriod
+  metric: BudgetMetric
+  limit: number
+  action?: BudgetAction
+}
+
+export interface BudgetStatus {
+  budget: UsageBudget
+  used: number
+  exceeded: boolean
+}
+
+// ─── Task Dependency Types ──────────────────────────────────
+
+export interface TaskDependency {
+  id: number
+  taskId: number
+  dependsOnTaskId: number
+  triggerOn: DependencyTrigger
+  createdAt: string
+}
+
+// ─── Webhook Types ──────────────────────────────────────────
+
+export type WebhookEvent = 'run.started' | 'run.completed' | 'run.failed'
+/** `json` posts the event payload, `slack` a Slack message (`{"text": …}`), `text` a plain-text body such as ntfy expects. */
+export type WebhookFormat = 'json' | 'slack' | 'text'
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+export interface Webhook {
+  id: number
+  name: string
+  url: string
+  /** Events this webhook receives; empty means all of them. */
+  events: WebhookEvent[]
+  /** Signs each delivery with HMAC-SHA256 when set. */
+  secret: string | null
+  format: WebhookFormat
+  /** Body with {{placeholders}}, e.g. "{{task.name}} {{run.status}}"; null uses the format's default body. */
+  bodyTemplate: string | null
+  enabled: boolean
+  createdAt: string
+}
+
+export interface CreateWebhookInput {
+  name: string
+  url: string
+  events?: WebhookEvent[]
+  secret?: string
+  format?: WebhookFormat
+  bodyTemplate?: string
+  enabled?: boolean
+}
+
+export interface WebhookDelivery {
+  id: number
+  webhookId: number
+  event: WebhookEvent
+  taskId: number | null
+  runId: number | null
+  status: WebhookDeliveryStatus
+  attempts: number
+  /** HTTP status of the last attempt; null when it never got a response. */
+  responseStatus: number | null
+  error: string | null
+  createdAt: string
+  deliveredAt: string | null
 }
 
 // ─── Console Log Types ──────────────────────────────────────
@@ -136,6 +379,8 @@ export interface ConsoleLogEntry {
 
 // ─── Watch Types ────────────────────────────────────────────
 
+export type WatchEventType = 'created' | 'modified' | 'deleted'
+
 export interface Watch {
   id: number
   path: string
@@ -144,9 +389,29 @@ export interface Watch {
   status: string
   lastTriggered: string | null
   triggerCount: number
+  /** Hidden task (trigger_type 'watch') whose runs record this watch's actions. */
+  taskId: number | null
+  /** Globs a changed path must match; empty matches everything. */
+  includePatterns: string[]
+  /** Globs that suppress a change even when it matches an include pattern. */
+  excludePatterns: string[]
+  /** Maximum path segments below the watch root (1 = direct children only). */
+  maxDepth: number
+  /** Event types that trigger the action; empty means all. */
+  eventTypes: WatchEventType[]
+  /** Quiet period before one action runs for all collected changes; null runs per file. */
+  batchWindowSeconds: number | null
   createdAt: string
 }
 
+export interface WatchOptions {
+  includePatterns?: string[]
+  excludePatterns?: string[]
+  maxDepth?: number
+  eventTypes?: WatchEventType[]
+  batchWindowSeconds?: number
+}
+
 // ─── Memory Stats ───────────────────────────────────────────
 
 export interface MemoryStats {
@@ -154,3 +419,13 @@ export interface MemoryStats {
   observationCount: number
   relationCount: number
 }
+
+export type EmbeddingProviderKind = 'transformers' | 'onnx' | 'http'
+
+/** How far semantic indexing has got with the configured embedding model. */
+export interface EmbeddingStatus {
+  provider: EmbeddingProviderKind
+  model: string
+  indexed: number
+  total: number
+}
@@ -1,9 +1,21 @@
 import { z } from 'zod'
-import { validateWatchPath } from './watch-path'
+import { validateWatchPath, validateWorkingDirectory } from './watch-path'
+import { MAX_WATCH_BATCH_WINDOW_SECONDS, MAX_WATCH_DEPTH } from './watch-filter'
+import { MAX_MISFIRE_LIMIT } from './misfire'
+import { isValidTimezone } from './cron'
+import { MAX_ATTEMPTS, MAX_RETRY_DELAY_SECONDS } from './retry'
+import { parseJsonPath } from './inbound-webhook'
 
 const taskStatusValues = ['active', 'paused', 'completed'] as const
-const triggerTypeValues = ['cron', 'once', 'manual'] as const
+const triggerTypeValues = ['cron', 'once', 'manual', 'webhook'] as const
 const nudgeModeValues = ['always', 'failure_only', 'never'] as const
+const misfirePolicyValues = ['skip', 'run_once', 'run_all'] as const
+const changeDetectionValues = ['off', 'text', 'json'] as const
+const retryBackoffValues = ['fixed', 'exponential'] as const
+const retryFailureValues = ['exit_code', 'timeout', 'empty_output'] as const
+const watchEventTypeValues = ['created', 'modified', 'deleted'] as const
+const webhookEventValues = ['run.started', 'run.completed', 'run.failed'] as const
+const webhookFormatValues = ['json', 'slack', 'text'] as const
 
 export const idSchema = z.number().int().positive()
 
@@ -25,6 +37,44 @@ export const updateWorkerSchema = z.object({
   isDefault: z.boolean().optional()
 }).strict()
 
+export const workingDirectorySchema = z.string().trim().min(1).max(1000).superRefine((dir, ctx) => {
+  const err = validateWorkingDirectory(dir)
+  if (err) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: err })
+  }
+})
+
+export const timezoneSchema = z.string().trim().min(1).max(100).refine(isValidTimezone, {
+  message: 'Must be an IANA time zone such as "America/New_York"'
+})
+
+const phraseListSchema = z.array(z.string().trim().min(1).max(500)).max(20)
+
+export const successCriteriaSchema = z.object({
+  mustMatch: z.string().min(1).max(500).refine((pattern) => {
+    try {
+      new RegExp(pattern)
+      return true
+    } catch {
+      return false
+    }
+  }, { message: 'Must be a valid regular expression' }).optional(),
+  mustContain: phraseListSchema.optional(),
+  mustNotContain: phraseListSchema.optional(),
+  minLength: z.number().int().positive().max(100_000).optional(),
+  json: z.boolean().optional(),
+  jsonSchema: z.record(z.unknown()).optional(),
+  rubric: z.string().trim().min(1).max(2000).optional()
+}).strict()
+
+export const outputSchemaSchema = z.record(z.unknown()).refine((schema) => JSON.stringify(schema).length <= 20_000, {
+  message: 'Output schema must be under 20000 characters of JSON'
+})
+
+export const webhookPayloadPathSchema = z.string().trim().min(1).max(500).refine((path) => parseJsonPath(path) !== null, {
+  message: 'Must be a JSONPath such as "$.head_commit.message" or "$.items[*].title"'
+})
+
 const maybeIsoDatetime = z.string().trim().min(1).refine((value) => !Number.isNaN(new Date(value).getTime()), {
   message: 'Must be a valid ISO-8601 datetime string'
 })
@@ -42,7 +92,19 @@ export const createTaskSchema = z.object({
   workerId: idSchema.optional(),
   sessionContinuity: z.boolean().optional(),
   timeoutMinutes: z.number().int().positive().max(1440).optional(),
-  nudgeMode: z.enum(nudgeModeValues).optional()
+  nudgeMode: z.enum(nudgeModeValues).optional(),
+  workingDirectory: workingDirectorySchema.optional(),
+  misfirePolicy: z.enum(misfirePolicyValues).optional(),
+  misfireLimit: z.number().int().positive().max(MAX_MISFIRE_LIMIT).optional(),
+  timezone: timezoneSchema.optional(),
+  maxAttempts: z.number().int().min(1).max(MAX_ATTEMPTS).optional(),
+  retryBackoff: z.enum(retryBackoffValues).optional(),
+  retryDelaySeconds: z.number().int().min(1).max(MAX_RETRY_DELAY_SECONDS).optional(),
+  retryOn: z.array(z.enum(retryFailureValues)).max(retryFailureValues.length).optional(),
+  successCriteria: successCriteriaSchema.optional(),
+  outputSchema: outputSchemaSchema.optional(),
+  changeDetection: z.enum(changeDetectionValues).optional(),
+  webhookPayloadPath: webhookPayloadPathSchema.optional()
 }).strict()
 
 export const updateTaskSchema = z.object({
@@ -65,7 +127,19 @@ export const updateTaskSchema = z.object({
   sessionContinuity: z.boolean().optional(),
   sessionId: z.string().trim().max(200).nullable().optional(),
   timeoutMinutes: z.number().int().positive().max(1440).nullable().optional(),
-  nudgeMode: z.enum(nudgeModeValues).optional()
+  nudgeMode: z.enum(nudgeModeValues).optional(),
+  workingDirectory: workingDirectorySchema.nullable().optional(),
+  misfirePolicy: z.enum(misfirePolicyValues).optional(),
+  misfireLimit: z.number().int().positive().max(MAX_MISFIRE_LIMIT).nullable().optional(),
+  timezone: timezoneSchema.nullable().optional(),
+  maxAttempts: z.number().int().min(1).max(MAX_ATTEMPTS).optional(),
+  retryBackoff: z.enum(retryBackoffValues).optional(),
+  retryDelaySeconds: z.number().int().min(1).max(MAX_RETRY_DELAY_SECONDS).optional(),
+  retryOn: z.array(z.enum(retryFailureValues)).max(retryFailureValues.length).nullable().optional(),
+  successCriteria: successCriteriaSchema.nullable().optional(),
+  outputSchema: outputSchemaSchema.nullable().optional(),
+  changeDetection: z.enum(changeDetectionValues).optional(),
+  webhookPayloadPath: webhookPayloadPathSchema.nullable().optional()
 }).strict()
 
 export const watchPathSchema = z.string().trim().min(1).superRefine((path, ctx) => {
@@ -75,10 +149,102 @@ export const watchPathSchema = z.string().trim().min(1).superRefine((path, ctx)
   }
 })
 
+export const watchPatternsSchema = z.array(z.string().trim().min(1).max(500)).max(50)
+export const watchMaxDepthSchema = z.number().int().min(1).max(MAX_WATCH_DEPTH)
+export const watchEventTypesSchema = z.array(z.enum(watchEventTypeValues)).max(watchEventTypeValues.length)
+export const watchBatchWindowSchema = z.number().int().min(1).max(MAX_WATCH_BATCH_WINDOW_SECONDS)
+
 export const createWatchSchema = z.object({
   path: watchPathSchema,
   description: z.string().trim().max(500).optional(),
-  actionPrompt: z.string().trim().max(50000).optional()
+  actionPrompt: z.string().trim().max(50000).optional(),
+  includePatterns: watchPatternsSchema.optional(),
+  excludePatterns: watchPatternsSchema.optional(),
+  maxDepth: watchMaxDepthSchema.optional(),
+  eventTypes: watchEventTypesSchema.optional(),
+  batchWindowSeconds: watchBatchWindowSchema.optional()
+}).strict()
+
+export const webhookUrlSchema = z.string().trim().min(1).max(2000).refine((value) => {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}, { message: 'Must be an http:// or https:// URL' })
+
+// A JSON body template must still parse once its {{placeholders}} are filled in
+function isJsonTemplate(template: string): boolean {
+  try {
+    JSON.parse(template.replace(/\{\{\s*[\w.]+\s*\}\}/g, '0'))
+    return true
+  } catch {
+    return false
+  }
+}
+
+const webhookTemplateRefinement = (input: { format?: string; bodyTemplate?: string | null }, ctx: z.RefinementCtx): void => {
+  if (input.format === 'json' && input.bodyTemplate && !isJsonTemplate(input.bodyTemplate)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bodyTemplate'], message: 'JSON body template must be valid JSON' })
+  }
+}
+
+export const createWebhookSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  url: webhookUrlSchema,
+  events: z.array(z.enum(webhookEventValues)).max(webhookEventValues.length).optional(),
+  secret: z.string().max(500).optional(),
+  format: z.enum(webhookFormatValues).default('json'),
+  bodyTemplate: z.string().trim().max(10000).optional(),
+  enabled: z.boolean().optional()
+}).strict().superRefine(webhookTemplateRefinement)
+
+export const updateWebhookSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  url: webhookUrlSchema.optional(),
+  events: z.array(z.enum(webhookEventValues)).max(webhookEventValues.length).optional(),
+  secret: z.string().max(500).nullable().optional(),
+  format: z.enum(webhookFormatValues).optional(),
+  bodyTemplate: z.string().trim().max(10000).nullable().optional(),
+  enabled: z.boolean().optional()
+}).strict().superRefine(webhookTemplateRefinement)
+
+const entityTypeValues = ['fact', 'preference', 'person', 'project', 'event'] as const
+const entityCategoryValues = ['work', 'personal', 'preference', 'project', 'person'] as const
+
+export const createEntitySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  type: z.enum(entityTypeValues).optional(),
+  category: z.enum(entityCategoryValues).optional()
+}).strict()
+
+export const updateEntitySchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  type: z.enum(entityTypeValues).optional(),
+  category: z.enum(entityCategoryValues).optional()
+}).strict()
+
+export const createObservationSchema = z.object({
+  content: z.string().trim().min(1).max(50000),
+  source: z.string().trim().min(1).max(100).optional()
+}).strict()
+
+export const updateObservationSchema = z.object({
+  content: z.string().trim().min(1).max(50000)
+}).strict()
+
+export const memoryGraphOptionsSchema = z.object({
+  depth: z.number().int().min(1).max(4).optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+  type: z.enum(entityTypeValues).optional(),
+  category: z.enum(entityCategoryValues).optional()
+}).strict()
+
+export const createRelationSchema = z.object({
+  fromEntity: idSchema,
+  toEntity: idSchema,
+  relationType: z.string().trim().min(1).max(200)
 }).strict()
 
 export const settingsKeySchema = z.string().trim().min(1).max(200)
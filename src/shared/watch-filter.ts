@@ -0,0 +1,106 @@
+import type { Watch, WatchEventType } from './types'
+
+export const DEFAULT_WATCH_MAX_DEPTH = 2
+export const MAX_WATCH_DEPTH = 20
+export const MAX_WATCH_BATCH_WINDOW_SECONDS = 3600
+
+const globCache = new Map<string, RegExp>()
+
+/**
+ * Compile a glob to a RegExp. Supports `*` (within a segment), `**` (across
+ * segments), `?`, `[...]` classes and `{a,b}` alternation. Paths use `/`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = globCache.get(glob)
+  if (cached) return cached
+
+  let re = ''
+  let braceDepth = 0
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories; a trailing `**` matches everything
+        if (glob[i + 2] === '/') {
+          re += '(?:.*/)?'
+          i += 2
+        } else {
+          re += '.*'
+          i += 1
+        }
+      } else {
+        re += '[^/]*'
+      }
+    } else if (ch === '?') {
+      re += '[^/]'
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 1)
+      if (end === -1) {
+        re += '\\['
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')
+        re += `[${body}]`
+        i = end
+      }
+    } else if (ch === '{') {
+      braceDepth++
+      re += '(?:'
+    } else if (ch === '}' && braceDepth > 0) {
+      braceDepth--
+      re += ')'
+    } else if (ch === ',' && braceDepth > 0) {
+      re += '|'
+    } else {
+      re += ch.replace(/[.+^$()|\\]/g, '\\$&')
+    }
+  }
+  while (braceDepth-- > 0) re += ')'
+
+  const compiled = new RegExp(`^${re}$`)
+  globCache.set(glob, compiled)
+  return compiled
+}
+
+/**
+ * Patterns containing `/` match the whole path relative to the watch root.
+ * Bare patterns like `*.pdf` match the file name.
+ */
+export function matchesInclude(relPath: string, pattern: string): boolean {
+  if (pattern.includes('/')) return globToRegExp(pattern).test(relPath)
+  return globToRegExp(pattern).test(relPath.split('/').pop() ?? relPath)
+}
+
+/**
+ * Like `matchesInclude`, but bare patterns match any path segment so
+ * `node_modules` or `.git` exclude everything beneath those directories.
+ */
+export function matchesExclude(relPath: string, pattern: string): boolean {
+  if (pattern.includes('/')) {
+    const re = globToRegExp(pattern)
+    const segments = relPath.split('/')
+    for (let i = 1; i <= segments.length; i++) {
+      if (re.test(segments.slice(0, i).join('/'))) return true
+    }
+    return false
+  }
+  const re = globToRegExp(pattern)
+  return relPath.split('/').some((segment) => re.test(segment))
+}
+
+/**
+ * Decide whether a file system event should trigger the watch's action.
+ * `relPath` is relative to the watch root and uses `/` separators.
+ */
+export function shouldTriggerWatch(
+  watch: Pick<Watch, 'includePatterns' | 'excludePatterns' | 'maxDepth' | 'eventTypes'>,
+  relPath: string,
+  eventType: WatchEventType
+): boolean {
+  if (watch.eventTypes.length > 0 && !watch.eventTypes.includes(eventType)) return false
+  if (relPath.split('/').length > watch.maxDepth) return false
+  if (watch.excludePatterns.some((pattern) => matchesExclude(relPath, pattern))) return false
+  if (watch.includePatterns.length > 0) {
+    return watch.includePatterns.some((pattern) => matchesInclude(relPath, pattern))
+  }
+  return true
+}
@@ -1,6 +1,6 @@
 import { homedir, tmpdir } from 'os'
 import { isAbsolute, resolve, sep } from 'path'
-import { realpathSync } from 'fs'
+import { realpathSync, statSync } from 'fs'
 
 const SENSITIVE_HOME_SUFFIXES = [
   `${sep}.ssh`,
@@ -21,6 +21,22 @@ function getTempRoots(): string[] {
   return roots
 }
 
+function checkAllowedLocation(realPath: string, verb: string): string | null {
+  const home = homedir()
+  const inTemp = getTempRoots().some((t) => realPath.startsWith(t))
+  if (!realPath.startsWith(home) && !inTemp) {
+    return `Path must be within your home directory (${home}) or temp.`
+  }
+
+  for (const suffix of SENSITIVE_HOME_SUFFIXES) {
+    if (realPath.startsWith(home + suffix)) {
+      return `Cannot ${verb} sensitive directory: ${suffix}`
+    }
+  }
+
+  return null
+}
+
 export function validateWatchPath(watchPath: string): string | null {
   const resolved = resolve(watchPath)
   if (!isAbsolute(resolved)) {
@@ -36,17 +52,32 @@ export function validateWatchPath(watchPath: string): string | null {
     realPath = resolved
   }
 
-  const home = homedir()
-  const inTemp = getTempRoots().some((t) => realPath.startsWith(t))
-  if (!realPath.startsWith(home) && !inTemp) {
-    return `Path must be within your home directory (${home}) or temp.`
+  return checkAllowedLocation(realPath, 'watch')
+}
+
+/**
+ * Validate a task's working directory. Same location rules as watch paths,
+ * but the directory must already exist since the CLI is spawned inside it.
+ */
+export function validateWorkingDirectory(dirPath: string): string | null {
+  if (!isAbsolute(dirPath)) {
+    return 'Working directory must be an absolute path.'
   }
 
-  for (const suffix of SENSITIVE_HOME_SUFFIXES) {
-    if (realPath.startsWith(home + suffix)) {
-      return `Cannot watch sensitive directory: ${suffix}`
+  let realPath: string
+  try {
+    realPath = realpathSync(resolve(dirPath))
+  } catch {
+    return `Working directory does not exist: ${dirPath}`
+  }
+
+  try {
+    if (!statSync(realPath).isDirectory()) {
+      return `Working directory is not a directory: ${dirPath}`
     }
+  } catch {
+    return `Working directory is not accessible: ${dirPath}`
   }
 
-  return null
+  return checkAllowedLocation(realPath, 'run tasks in')
 }
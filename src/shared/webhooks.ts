@@ -0,0 +1,225 @@
+/**
+ * Outbound webhooks: POST task run events to user-registered URLs such as
+ * Slack incoming webhooks or an ntfy topic. Each delivery is logged, signed
+ * with HMAC-SHA256 when the webhook has a secret, and retried with backoff
+ * when the endpoint is unreachable or answers 408, 429 or 5xx.
+ */
+
+import { createHmac } from 'crypto'
+import type Database from 'better-sqlite3'
+import * as queries from './db-queries'
+import { sleep } from './rate-limit'
+import type { Webhook, WebhookDelivery, WebhookEvent } from './types'
+
+// Waits between attempts; a delivery gets one attempt more than there are delays
+export const WEBHOOK_RETRY_DELAYS_MS = [10_000, 60_000, 5 * 60_000]
+const WEBHOOK_TIMEOUT_MS = 10_000
+const MAX_PAYLOAD_RESULT_CHARS = 3000
+const MAX_ERROR_CHARS = 500
+
+export interface WebhookPayload {
+  event: WebhookEvent
+  /** ISO time the event happened. */
+  timestamp: string
+  task: { id: number; name: string }
+  run: {
+    id: number | null
+    status: 'running' | 'completed' | 'failed'
+    durationMs: number | null
+    error: string | null
+    /** The start of the result; the full text is in `resultFilePath`. */
+    result: string | null
+    resultFilePath: string | null
+    /** Change detection verdict; null when the task does not detect changes. */
+    changed: boolean | null
+  }
+}
+
+export interface RunEventDetails {
+  runId: number | null
+  durationMs?: number
+  error?: string
+  result?: string
+  resultFilePath?: string
+  changed?: boolean | null
+}
+
+export interface WebhookDispatchOptions {
+  retryDelaysMs?: number[]
+  timeoutMs?: number
+}
+
+const RUN_STATUS: Record<WebhookEvent, WebhookPayload['run']['status']> = {
+  'run.started': 'running',
+  'run.completed': 'completed',
+  'run.failed': 'failed'
+}
+
+export function buildRunPayload(event: WebhookEvent, task: { id: number; name: string }, details: RunEventDetails): WebhookPayload {
+  const result = details.result ?? null
+  return {
+    event,
+    timestamp: new Date().toISOString(),
+    task: { id: task.id, name: task.name },
+    run: {
+      id: details.runId,
+      status: RUN_STATUS[event],
+      durationMs: details.durationMs ?? null,
+      error: details.error ?? null,
+      result: result && result.length > MAX_PAYLOAD_RESULT_CHARS ? result.slice(0, MAX_PAYLOAD_RESULT_CHARS) + '…' : result,
+      resultFilePath: details.resultFilePath ?? null,
+      changed: details.changed ?? null
+    }
+  }
+}
+
+// ─── Body rendering ─────────────────────────────────────────
+
+/** One-line summary plus the result or error, used by the slack and text formats without a template. */
+export function describeEvent(payload: WebhookPayload): string {
+  const { task, run } = payload
+  const duration = run.durationMs != null ? ` in ${(run.durationMs / 1000).toFixed(1)}s` : ''
+  if (payload.event === 'run.started') return `${task.name} started`
+  if (payload.event === 'run.failed') return `${task.name} failed${duration}${run.error ? `: ${run.error}` : ''}`
+  return `${task.name} completed${duration}${run.result ? `\n\n${run.result}` : ''}`
+}
+
+function lookup(payload: WebhookPayload, path: string): string {
+  let value: unknown = payload
+  for (const key of path.split('.')) {
+    value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+  }
+  return value == null ? '' : String(value)
+}
+
+// Slack reads &, < and > as markup
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Fill {{placeholders}} such as {{task.name}}, {{run.status}} or {{run.error}}
+ * with payload values; unknown placeholders become empty. `escape` is applied
+ * to each value, not to the template.
+ */
+export function renderTemplate(template: string, payload: WebhookPayload, escape: (value: string) => string = (v) => v): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_m, path: string) => escape(lookup(payload, path)))
+}
+
+/** The request body and content type a webhook sends for an event. */
+export function renderWebhookBody(
+  webhook: Pick<Webhook, 'format' | 'bodyTemplate'>,
+  payload: WebhookPayload
+): { body: string; contentType: string } {
+  if (webhook.format === 'slack') {
+    const text = webhook.bodyTemplate
+      ? renderTemplate(webhook.bodyTemplate, payload, escapeSlack)
+      : escapeSlack(describeEvent(payload))
+    return { body: JSON.stringify({ text }), contentType: 'application/json' }
+  }
+  if (webhook.format === 'text') {
+    const text = webhook.bodyTemplate ? renderTemplate(webhook.bodyTemplate, payload) : describeEvent(payload)
+    return { body: text, contentType: 'text/plain; charset=utf-8' }
+  }
+  // Values land inside JSON strings, so they are escaped without the surrounding quotes
+  const body = webhook.bodyTemplate
+    ? renderTemplate(webhook.bodyTemplate, payload, (v) => JSON.stringify(v).slice(1, -1))
+    : JSON.stringify(payload)
+  return { body, contentType: 'application/json' }
+}
+
+/** "sha256=<hex>" over "<timestamp>.<body>", so a receiver can reject replays with old timestamps. */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+// ─── Delivery ───────────────────────────────────────────────
+
+interface AttemptOutcome {
+  status: number | null
+  error: string | null
+}
+
+async function attemptDelivery(
+  webhook: Webhook,
+  deliveryId: number,
+  event: WebhookEvent,
+  rendered: { body: string; contentType: string },
+  timeoutMs: number
+): Promise<AttemptOutcome> {
+  // Signed per attempt so the timestamp stays fresh across retries
+  const timestamp = Math.floor(Date.now() / 1000)
+  const headers: Record<string, string> = {
+    'Content-Type': rendered.contentType,
+    'User-Agent': 'Daymon-Webhooks',
+    'X-Daymon-Event': event,
+    'X-Daymon-Delivery': String(deliveryId),
+    'X-Daymon-Timestamp': String(timestamp)
+  }
+  if (webhook.secret) headers['X-Daymon-Signature'] = signWebhookBody(webhook.secret, timestamp, rendered.body)
+
+  try {
+    const res = await fetch(webhook.url, {
+      method: 'POST',
+      headers,
+      body: rendered.body,
+      signal: AbortSignal.timeout(timeoutMs)
+    })
+    if (res.ok) return { status: res.status, error: null }
+    const text = await res.text().catch(() => '')
+    return { status: res.status, error: `HTTP ${res.status}${text ? `: ${text.slice(0, MAX_ERROR_CHARS)}` : ''}` }
+  } catch (err) {
+    const message = err instanceof Error && err.name === 'TimeoutError'
+      ? `Timed out after ${timeoutMs}ms`
+      : err instanceof Error ? (err.cause instanceof Error ? err.cause.message : err.message) : String(err)
+    return { status: null, error: message }
+  }
+}
+
+function isRetryable(outcome: AttemptOutcome): boolean {
+  return outcome.status === null || outcome.status === 408 || outcome.status === 429 || outcome.status >= 500
+}
+
+/** Send one event to one webhook, retrying as needed. Resolves with the final delivery record. */
+export async function deliverWebhook(
+  db: Database.Database,
+  webhook: Webhook,
+  payload: WebhookPayload,
+  options: WebhookDispatchOptions = {}
+): Promise<WebhookDelivery> {
+  const delays = options.retryDelaysMs ?? WEBHOOK_RETRY_DELAYS_MS
+  const delivery = queries.createWebhookDelivery(db, webhook.id, payload.event, payload.task.id || null, payload.run.id)
+  const rendered = renderWebhookBody(webhook, payload)
+
+  for (let attempt = 1; ; attempt++) {
+    const outcome = await attemptDelivery(webhook, delivery.id, payload.event, rendered, options.timeoutMs ?? WEBHOOK_TIMEOUT_MS)
+    const delivered = outcome.error === null
+    const final = delivered || !isRetryable(outcome) || attempt > delays.length
+    queries.updateWebhookDelivery(
+      db, delivery.id, delivered ? 'delivered' : final ? 'failed' : 'pending', attempt, outcome.status, outcome.error
+    )
+    if (final) break
+    await sleep(delays[attempt - 1])
+  }
+  return queries.getWebhookDelivery(db, delivery.id)!
+}
+
+/** Deliver an event to every enabled webhook subscribed to it. */
+export async function dispatchWebhookEvent(
+  db: Database.Database,
+  payload: WebhookPayload,
+  options: WebhookDispatchOptions = {}
+): Promise<WebhookDelivery[]> {
+  const webhooks = queries.listWebhooksForEvent(db, payload.event)
+  return Promise.all(webhooks.map((webhook) => deliverWebhook(db, webhook, payload, options)))
+}
+
+/** Send a sample completed event once, without retries, so a new webhook can be checked from the UI. */
+export function sendTestWebhook(db: Database.Database, webhook: Webhook): Promise<WebhookDelivery> {
+  const payload = buildRunPayload('run.completed', { id: 0, name: 'Daymon test' }, {
+    runId: null,
+    durationMs: 1200,
+    result: 'This is a test delivery from Daymon.'
+  })
+  return deliverWebhook(db, webhook, payload, { retryDelaysMs: [] })
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { initTestDb } from '../../shared/__tests__/helpers/test-db'
+import * as q from '../../shared/db-queries'
+import { API_ROUTES, handleApiRequest, type ApiContext } from '../api'
+import { zodToJsonSchema } from '../openapi'
+import { createTaskSchema } from '../../shared/validation'
+
+let db: Database.Database
+let ctx: ApiContext
+
+beforeEach(() => {
+  db = initTestDb()
+  ctx = {
+    db,
+    version: '1.2.3',
+    sync: vi.fn(),
+    startRun: vi.fn(),
+    cancelRun: vi.fn(() => ({ status: 409, body: { ok: false, error: 'Task is not running' } }))
+  }
+})
+
+afterEach(() => {
+  db.close()
+})
+
+function call(method: string, url: string, body?: unknown): { status: number; body?: unknown } {
+  return handleApiRequest(ctx, method, url, body === undefined ? '' : JSON.stringify(body))!
+}
+
+describe('routing', () => {
+  it('ignores URLs outside the API', () => {
+    expect(handleApiRequest(ctx, 'GET', '/health', '')).toBeNull()
+    expect(handleApiRequest(ctx, 'GET', '/api/v10/tasks', '')).toBeNull()
+  })
+
+  it('answers unknown paths with 404 and wrong methods with 405', () => {
+    expect(call('GET', '/api/v1/nope').status).toBe(404)
+    expect(call('PUT', '/api/v1/tasks')).toEqual({ status: 405, body: { error: 'Use GET, POST' } })
+  })
+
+  it('tolerates a trailing slash and a query string', () => {
+    q.createTask(db, { name: 'T', prompt: 'p' })
+    expect(call('GET', '/api/v1/tasks/?status=active').body).toHaveLength(1)
+  })
+})
+
+describe('tasks', () => {
+  it('creates a task from a validated body and resyncs the scheduler', () => {
+    const res = call('POST', '/api/v1/tasks', { name: 'Digest', prompt: 'Summarize', cronExpression: '0 9 * * *' })
+
+    expect(res.status).toBe(201)
+    expect(res.body).toMatchObject({ name: 'Digest', cronExpression: '0 9 * * *', triggerConfig: '{"source":"api"}' })
+    expect(ctx.sync).toHaveBeenCalled()
+  })
+
+  it('rejects invalid bodies with the validation messages', () => {
+    expect(call('POST', '/api/v1/tasks', { name: 'No prompt' }).status).toBe(400)
+    expect(call('POST', '/api/v1/tasks', { name: 'T', prompt: 'p', bogus: true }).status).toBe(400)
+    expect(handleApiRequest(ctx, 'POST', '/api/v1/tasks', '{nope')).toEqual({ status: 400, body: { error: 'Invalid JSON' } })
+  })
+
+  it('filters the task list', () => {
+    q.createTask(db, { name: 'Morning digest', prompt: 'p', cronExpression: '0 9 * * *' })
+    q.createTask(db, { name: 'PR review', prompt: 'p', triggerType: 'webhook' })
+    const paused = q.createTask(db, { name: 'Evening digest', prompt: 'p', cronExpression: '0 18 * * *' })
+    q.pauseTask(db, paused.id)
+
+    const names = (url: string): string[] => (call('GET', url).body as Array<{ name: string }>).map((t) => t.name)
+    expect(names('/api/v1/tasks?trigger=webhook')).toEqual(['PR review'])
+    expect(names('/api/v1/tasks?q=DIGEST&status=active')).toEqual(['Morning digest'])
+    expect(call('GET', '/api/v1/tasks?status=bogus').status).toBe(400)
+  })
+
+  it('updates, pauses and deletes a task', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+
+    expect(call('PATCH', `/api/v1/tasks/${task.id}`, { name: 'Renamed' }).body).toMatchObject({ name: 'Renamed' })
+    expect(call('POST', `/api/v1/tasks/${task.id}/pause`).body).toMatchObject({ status: 'paused' })
+    expect(call('DELETE', `/api/v1/tasks/${task.id}`)).toEqual({ status: 204 })
+    expect(call('GET', `/api/v1/tasks/${task.id}`).status).toBe(404)
+  })
+
+  it('starts and cancels runs through the sidecar', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+
+    expect(call('POST', `/api/v1/tasks/${task.id}/run`).status).toBe(202)
+    expect(ctx.startRun).toHaveBeenCalledWith(task.id)
+    expect(call('POST', `/api/v1/tasks/${task.id}/cancel`).status).toBe(409)
+    expect(call('POST', '/api/v1/tasks/999/run').status).toBe(404)
+  })
+
+  it('refuses a run that a usage budget blocks', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    vi.mocked(ctx.startRun).mockReturnValueOnce('Skipped: daily budget of 1 run(s) reached (1 run(s) used)')
+
+    expect(call('POST', `/api/v1/tasks/${task.id}/run`)).toEqual({
+      status: 409,
+      body: { ok: false, error: 'Skipped: daily budget of 1 run(s) reached (1 run(s) used)' }
+    })
+  })
+})
+
+describe('watch action tasks', () => {
+  function createWatchTask(): number {
+    const watch = q.createWatch(db, '/Users/test/inbox', 'inbox watch', 'File new invoices')
+    return q.ensureWatchTask(db, watch.id)!.id
+  }
+
+  it('are listed only when asked for', () => {
+    const id = createWatchTask()
+    q.createTask(db, { name: 'Visible', prompt: 'p' })
+
+    expect((call('GET', '/api/v1/tasks').body as Array<{ name: string }>).map((t) => t.name)).toEqual(['Visible'])
+    expect((call('GET', '/api/v1/tasks?trigger=watch').body as Array<{ id: number }>).map((t) => t.id)).toEqual([id])
+  })
+
+  it('cannot be changed, run or deleted directly', () => {
+    const id = createWatchTask()
+
+    for (const [method, url, body] of [
+      ['PATCH', `/api/v1/tasks/${id}`, { name: 'Renamed' }],
+      ['POST', `/api/v1/tasks/${id}/pause`],
+      ['POST', `/api/v1/tasks/${id}/resume`],
+      ['POST', `/api/v1/tasks/${id}/run`],
+      ['DELETE', `/api/v1/tasks/${id}`]
+    ] as Array<[string, string, unknown?]>) {
+      const res = call(method, url, body)
+      expect(res.status, `${method} ${url}`).toBe(409)
+      expect(res.body).toEqual({ error: expect.stringContaining('manage the watch instead') })
+    }
+    expect(ctx.startRun).not.toHaveBeenCalled()
+    expect(q.getTask(db, id)).toMatchObject({ status: 'active', triggerType: 'watch' })
+    expect(call('GET', `/api/v1/tasks/${id}`).status).toBe(200)
+  })
+})
+
+describe('runs', () => {
+  it('pages through runs and console logs', () => {
+    const task = q.createTask(db, { name: 'T', prompt: 'p' })
+    const older = q.createTaskRun(db, task.id)
+    q.completeTaskRun(db, older.id, 'done')
+    const newer = q.createTaskRun(db, task.id)
+    q.insertConsoleLogs(db, ['one', 'two', 'three'].map((content, i) => ({ runId: newer.id, seq: i + 1, entryType: 'text', content })))
+
+    expect((call('GET', `/api/v1/tasks/${task.id}/runs?limit=1`).body as Array<{ id: number }>).map((r) => r.id)).toEqual([newer.id])
+    expect((call('GET', '/api/v1/runs?status=completed').body as Array<{ id: number }>).map((r) => r.id)).toEqual([older.id])
+
+    const page = call('GET', `/api/v1/runs/${newer.id}/logs?after=1&limit=1`).body as Array<{ content: string }>
+    expect(page.map((e) => e.content)).toEqual(['two'])
+    expect(call('GET', '/api/v1/runs/999/logs').status).toBe(404)
+  })
+})
+
+describe('memory', () => {
+  it('creates entities, observations and relations', () => {
+    const alice = call('POST', '/api/v1/memory/entities', { name: 'Alice', type: 'person' }).body as { id: number }
+    const acme = call('POST', '/api/v1/memory/entities', { name: 'Acme', type: 'project' }).body as { id: number }
+    call('POST', `/api/v1/memory/entities/${alice.id}/observations`, { content: 'Leads the API work' })
+    call('POST', '/api/v1/memory/relations', { fromEntity: alice.id, toEntity: acme.id, relationType: 'works_on' })
+
+    expect(call('GET', `/api/v1/memory/entities/${alice.id}`).body).toMatchObject({
+      name: 'Alice',
+      observations: [{ content: 'Leads the API work', source: 'api' }],
+      relations: [{ to_entity: acme.id, relation_type: 'works_on' }]
+    })
+    expect(call('POST', '/api/v1/memory/relations', { fromEntity: alice.id, toEntity: 999, relationType: 'x' }).status).toBe(404)
+  })
+
+  it('serves the knowledge graph and edits observations', () => {
+    const alice = q.createEntity(db, 'Alice', 'person')
+    const acme = q.createEntity(db, 'Acme', 'project')
+    const berlin = q.createEntity(db, 'Berlin')
+    q.addRelation(db, alice.id, acme.id, 'works_on')
+    q.addRelation(db, acme.id, berlin.id, 'based_in')
+
+    const graph = call('GET', `/api/v1/memory/entities/${alice.id}/graph?depth=2`).body as { nodes: Array<{ name: string; depth: number }> }
+    expect(graph.nodes.map((n) => [n.name, n.depth])).toEqual([['Alice', 0], ['Acme', 1], ['Berlin', 2]])
+    expect(call('GET', '/api/v1/memory/graph?type=person').body).toMatchObject({ rootId: null, nodes: [{ name: 'Alice' }], relations: [] })
+    expect(call('GET', '/api/v1/memory/entities/999/graph').status).toBe(404)
+
+    const obs = q.addObservation(db, alice.id, 'Leads the API work')
+    expect(call('PATCH', `/api/v1/memory/observations/${obs.id}`, { content: 'Leads the SDK work' }).body).toMatchObject({ content: 'Leads the SDK work' })
+    expect(call('PATCH', `/api/v1/memory/observations/${obs.id}`, { content: '' }).status).toBe(400)
+  })
+})
+
+describe('settings', () => {
+  it('sets and reads settings by key', () => {
+    expect(call('PUT', '/api/v1/settings/theme', { value: 'dark' }).body).toEqual({ key: 'theme', value: 'dark' })
+    expect(call('GET', '/api/v1/settings/theme').body).toEqual({ key: 'theme', value: 'dark' })
+    expect(call('GET', '/api/v1/settings/missing').status).toBe(404)
+  })
+})
+
+describe('OpenAPI document', () => {
+  it('documents every route', () => {
+    const doc = call('GET', '/api/v1/openapi.json').body as { info: { version: string }; paths: Record<string, Record<string, unknown>> }
+
+    expect(doc.info.version).toBe('1.2.3')
+    for (const route of API_ROUTES) {
+      expect(doc.paths[route.path]?.[route.method.toLowerCase()], `${route.method} ${route.path}`).toBeDefined()
+    }
+    expect(doc.paths['/tasks/{id}/runs'].get).toMatchObject({
+      operationId: 'getTasksByIdRuns',
+      parameters: expect.arrayContaining([{ name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: 200, default: 20 } }])
+    })
+  })
+
+  it('derives request schemas from the zod validators', () => {
+    const schema = zodToJsonSchema(createTaskSchema) as { required: string[]; additionalProperties: boolean; properties: Record<string, unknown> }
+
+    expect(schema.required).toEqual(['name', 'prompt'])
+    expect(schema.additionalProperties).toBe(false)
+    expect(schema.properties.name).toEqual({ type: 'string', minLength: 1, maxLength: 200 })
+    expect(schema.properties.nudgeMode).toEqual({ type: 'string', enum: ['always', 'failure_only', 'never'] })
+  })
+})
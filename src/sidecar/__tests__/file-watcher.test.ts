@@ -2,14 +2,14 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import Database from 'better-sqlite3'
 import { initTestDb } from '../../shared/__tests__/helpers/test-db'
 
-// Track executeClaudeCode calls and control resolution
+// Track executeTask calls and control resolution
 let executeResolve: ((value: unknown) => void) | null = null
 let executeReject: ((reason: unknown) => void) | null = null
-const mockExecuteClaudeCode = vi.fn()
+const mockExecuteTask = vi.fn()
 
-vi.mock('../../shared/claude-code', () => ({
-  executeClaudeCode: (...args: unknown[]) => {
-    mockExecuteClaudeCode(...args)
+vi.mock('../../shared/task-runner', () => ({
+  executeTask: (...args: unknown[]) => {
+    mockExecuteTask(...args)
     return new Promise((resolve, reject) => {
       executeResolve = resolve
       executeReject = reject
@@ -17,12 +17,24 @@ vi.mock('../../shared/claude-code', () => ({
   }
 }))
 
+const mockEnsureWatchTask = vi.fn()
 vi.mock('../../shared/db-queries', () => ({
-  listWatches: vi.fn().mockReturnValue([])
+  listWatches: vi.fn().mockReturnValue([]),
+  ensureWatchTask: (...args: unknown[]) => mockEnsureWatchTask(...args)
+}))
+
+vi.mock('../../shared/budgets', () => ({
+  enforceBudgets: vi.fn().mockReturnValue(null)
+}))
+
+vi.mock('../notifications', () => ({
+  notifyTaskComplete: vi.fn(),
+  notifyTaskFailed: vi.fn()
 }))
 
 // Must import after mocks
 import { _testing } from '../file-watcher'
+import { notifyTaskComplete, notifyTaskFailed } from '../notifications'
 
 let db: Database.Database
 
@@ -31,7 +43,14 @@ beforeEach(() => {
   // Clear internal state between tests
   _testing.lastTrigger.clear()
   _testing.watchExecState.clear()
-  mockExecuteClaudeCode.mockClear()
+  _testing.watchBatches.clear()
+  mockExecuteTask.mockClear()
+  mockEnsureWatchTask.mockReset()
+  mockEnsureWatchTask.mockImplementation((_db: unknown, watchId: number) => ({
+    id: 100 + watchId, name: `Watch ${watchId}`, nudgeMode: 'failure_only'
+  }))
+  vi.mocked(notifyTaskComplete).mockClear()
+  vi.mocked(notifyTaskFailed).mockClear()
   executeResolve = null
   executeReject = null
 
@@ -51,19 +70,19 @@ describe('handleTrigger execution lock', () => {
     const state = _testing.getWatchExecState(1)
     state.executing = true
 
-    await _testing.handleTrigger(1, 'clean this', '/path/foo.csv')
+    await _testing.handleTrigger(1, '/path/foo.csv')
 
-    // Should not have called executeClaudeCode
-    expect(mockExecuteClaudeCode).not.toHaveBeenCalled()
+    // Should not have called executeTask
+    expect(mockExecuteTask).not.toHaveBeenCalled()
   })
 
   it('suppresses events during post-execution cooldown', async () => {
     const state = _testing.getWatchExecState(1)
     state.cooldownUntil = Date.now() + 10000 // 10s in the future
 
-    await _testing.handleTrigger(1, 'clean this', '/path/foo.csv')
+    await _testing.handleTrigger(1, '/path/foo.csv')
 
-    expect(mockExecuteClaudeCode).not.toHaveBeenCalled()
+    expect(mockExecuteTask).not.toHaveBeenCalled()
   })
 
   it('allows events after cooldown expires', async () => {
@@ -74,13 +93,13 @@ describe('handleTrigger execution lock', () => {
     // handleTrigger accesses module-level `db` which isn't set in tests
     // We need to handle the db.prepare error gracefully — it's in a try/catch so it's fine
 
-    const triggerPromise = _testing.handleTrigger(1, 'clean this', '/path/foo.csv')
+    const triggerPromise = _testing.handleTrigger(1, '/path/foo.csv')
 
-    // Should have called executeClaudeCode
-    expect(mockExecuteClaudeCode).toHaveBeenCalledTimes(1)
+    // Should have called executeTask
+    expect(mockExecuteTask).toHaveBeenCalledTimes(1)
 
     // Resolve the execution
-    executeResolve!({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 100, timedOut: false })
+    executeResolve!({ success: true, output: 'done', durationMs: 100 })
     await triggerPromise
 
     // After execution, state should be in cooldown
@@ -91,13 +110,13 @@ describe('handleTrigger execution lock', () => {
   it('sets executing=true during execution and resets in finally', async () => {
     const state = _testing.getWatchExecState(1)
 
-    const triggerPromise = _testing.handleTrigger(1, 'clean this', '/path/foo.csv')
+    const triggerPromise = _testing.handleTrigger(1, '/path/foo.csv')
 
     // During execution, state should be executing
     expect(state.executing).toBe(true)
 
     // Resolve
-    executeResolve!({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 100, timedOut: false })
+    executeResolve!({ success: true, output: 'done', durationMs: 100 })
     await triggerPromise
 
     // After execution, should be false
@@ -107,7 +126,7 @@ describe('handleTrigger execution lock', () => {
   it('releases lock even on execution error', async () => {
     const state = _testing.getWatchExecState(1)
 
-    const triggerPromise = _testing.handleTrigger(1, 'clean this', '/path/foo.csv')
+    const triggerPromise = _testing.handleTrigger(1, '/path/foo.csv')
 
     expect(state.executing).toBe(true)
 
@@ -129,12 +148,12 @@ describe('handleTrigger execution lock', () => {
     state1.executing = true
 
     // Watch 2 should still work
-    const triggerPromise = _testing.handleTrigger(2, 'process', '/path/bar.csv')
+    const triggerPromise = _testing.handleTrigger(2, '/path/bar.csv')
 
-    expect(mockExecuteClaudeCode).toHaveBeenCalledTimes(1)
+    expect(mockExecuteTask).toHaveBeenCalledTimes(1)
     expect(state2.executing).toBe(true)
 
-    executeResolve!({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 50, timedOut: false })
+    executeResolve!({ success: true, output: 'done', durationMs: 50 })
     await triggerPromise
 
     // Watch 1 should still be locked, watch 2 should be released
@@ -144,28 +163,28 @@ describe('handleTrigger execution lock', () => {
 
   it('debounce still works (same file within 10s is suppressed)', async () => {
     // First trigger — sets the debounce timestamp
-    const triggerPromise1 = _testing.handleTrigger(1, 'clean', '/path/foo.csv')
-    executeResolve!({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 50, timedOut: false })
+    const triggerPromise1 = _testing.handleTrigger(1, '/path/foo.csv')
+    executeResolve!({ success: true, output: 'done', durationMs: 50 })
     await triggerPromise1
 
-    expect(mockExecuteClaudeCode).toHaveBeenCalledTimes(1)
+    expect(mockExecuteTask).toHaveBeenCalledTimes(1)
 
     // Reset cooldown so only debounce is the gate
     const state = _testing.getWatchExecState(1)
     state.cooldownUntil = 0
 
     // Second trigger for same file — should be debounced
-    await _testing.handleTrigger(1, 'clean', '/path/foo.csv')
+    await _testing.handleTrigger(1, '/path/foo.csv')
 
     // Still only 1 call
-    expect(mockExecuteClaudeCode).toHaveBeenCalledTimes(1)
+    expect(mockExecuteTask).toHaveBeenCalledTimes(1)
   })
 
   it('sets cooldown to POST_EXEC_COOLDOWN_MS after execution', async () => {
     const beforeExec = Date.now()
 
-    const triggerPromise = _testing.handleTrigger(1, 'clean', '/path/foo.csv')
-    executeResolve!({ stdout: 'done', stderr: '', exitCode: 0, durationMs: 50, timedOut: false })
+    const triggerPromise = _testing.handleTrigger(1, '/path/foo.csv')
+    executeResolve!({ success: true, output: 'done', durationMs: 50 })
     await triggerPromise
 
     const state = _testing.getWatchExecState(1)
@@ -176,3 +195,167 @@ describe('handleTrigger execution lock', () => {
     expect(state.cooldownUntil).toBeLessThanOrEqual(afterExec + _testing.POST_EXEC_COOLDOWN_MS)
   })
 })
+
+describe('handleTrigger task pipeline', () => {
+  it('runs the watch action as its linked task with the file path as context', async () => {
+    const triggerPromise = _testing.handleTrigger(3, '/path/report.pdf')
+
+    expect(mockEnsureWatchTask).toHaveBeenCalledWith(undefined, 3)
+    expect(mockExecuteTask).toHaveBeenCalledTimes(1)
+    const [taskId, options] = mockExecuteTask.mock.calls[0] as [number, { triggerContext: string }]
+    expect(taskId).toBe(103)
+    expect(options.triggerContext).toContain('"/path/report.pdf"')
+
+    executeResolve!({ success: true, output: 'filed it', durationMs: 20 })
+    await triggerPromise
+
+    expect(notifyTaskComplete).toHaveBeenCalledWith(undefined, 103, 'Watch 3', 'filed it', 20, 'failure_only', undefined)
+  })
+
+  it('sends a failure notification when the action fails', async () => {
+    const triggerPromise = _testing.handleTrigger(4, '/path/x.csv')
+    executeResolve!({ success: false, output: '', errorMessage: 'Exit code 1', durationMs: 5 })
+    await triggerPromise
+
+    expect(notifyTaskFailed).toHaveBeenCalledWith(undefined, 104, 'Watch 4', 'Exit code 1', 'failure_only')
+  })
+
+  it('skips execution when the watch has no action task', async () => {
+    mockEnsureWatchTask.mockReturnValue(null)
+
+    await _testing.handleTrigger(5, '/path/y.csv')
+
+    expect(mockExecuteTask).not.toHaveBeenCalled()
+    expect(_testing.getWatchExecState(5).executing).toBe(false)
+  })
+})
+
+describe('batched watches', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('runs one action after the quiet period with every changed path', async () => {
+    _testing.queueBatchedChange(6, 5, '/repo/a.ts', 'modified')
+    vi.advanceTimersByTime(3000)
+    _testing.queueBatchedChange(6, 5, '/repo/b.ts', 'created')
+    _testing.queueBatchedChange(6, 5, '/repo/c.ts', 'deleted')
+
+    vi.advanceTimersByTime(4999)
+    expect(mockExecuteTask).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(mockExecuteTask).toHaveBeenCalledTimes(1)
+    const [, options] = mockExecuteTask.mock.calls[0] as [number, { triggerContext: string }]
+    expect(options.triggerContext).toContain('3 file change(s)')
+    expect(options.triggerContext).toContain('Created:\n- "/repo/b.ts"')
+    expect(options.triggerContext).toContain('Modified:\n- "/repo/a.ts"')
+    expect(options.triggerContext).toContain('Deleted:\n- "/repo/c.ts"')
+
+    executeResolve!({ success: true, output: 'ok', durationMs: 1 })
+    await vi.runAllTimersAsync()
+  })
+
+  it('queues changes that arrive during execution for the next batch', async () => {
+    _testing.queueBatchedChange(7, 1, '/repo/a.ts', 'modified')
+    vi.advanceTimersByTime(1000)
+    expect(mockExecuteTask).toHaveBeenCalledTimes(1)
+
+    _testing.queueBatchedChange(7, 1, '/repo/b.ts', 'modified')
+    vi.advanceTimersByTime(1000)
+    // Still running — the new change waits
+    expect(mockExecuteTask).toHaveBeenCalledTimes(1)
+
+    executeResolve!({ success: true, output: 'ok', durationMs: 1 })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(mockExecuteTask).toHaveBeenCalledTimes(2)
+    const [, options] = mockExecuteTask.mock.calls[1] as [number, { triggerContext: string }]
+    expect(options.triggerContext).toContain('"/repo/b.ts"')
+    expect(options.triggerContext).not.toContain('"/repo/a.ts"')
+
+    executeResolve!({ success: true, output: 'ok', durationMs: 1 })
+    await vi.runAllTimersAsync()
+  })
+
+  it('stops an action that keeps re-triggering itself with its own writes', async () => {
+    _testing.queueBatchedChange(9, 1, '/repo/a.ts', 'modified')
+    await vi.advanceTimersByTimeAsync(1000)
+
+    for (let run = 1; run <= 4; run++) {
+      expect(mockExecuteTask).toHaveBeenCalledTimes(Math.min(run, _testing.MAX_CHAINED_BATCH_RUNS + 1))
+      // The action writes its summary into the watched tree, then finishes
+      _testing.queueBatchedChange(9, 1, '/repo/summary.md', 'modified')
+      executeResolve!({ success: true, output: 'ok', durationMs: 1 })
+      await vi.advanceTimersByTimeAsync(1000)
+    }
+
+    expect(mockExecuteTask).toHaveBeenCalledTimes(_testing.MAX_CHAINED_BATCH_RUNS + 1)
+    // The held change is kept and goes along with the next outside change
+    expect([..._testing.watchBatches.get(9)!.changes.keys()]).toEqual(['/repo/summary.md'])
+    await vi.advanceTimersByTimeAsync(_testing.POST_EXEC_COOLDOWN_MS)
+    _testing.queueBatchedChange(9, 1, '/repo/b.ts', 'created')
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(mockExecuteTask).toHaveBeenCalledTimes(_testing.MAX_CHAINED_BATCH_RUNS + 2)
+    const [, options] = mockExecuteTask.mock.calls.at(-1) as [number, { triggerContext: string }]
+    expect(options.triggerContext).toContain('"/repo/summary.md"')
+    expect(options.triggerContext).toContain('"/repo/b.ts"')
+    executeResolve!({ success: true, output: 'ok', durationMs: 1 })
+    await vi.runAllTimersAsync()
+  })
+
+  it('holds changes from the cooldown after an action for the next batch', async () => {
+    _testing.queueBatchedChange(10, 1, '/repo/a.ts', 'modified')
+    await vi.advanceTimersByTimeAsync(1000)
+    executeResolve!({ success: true, output: 'ok', durationMs: 1 })
+    await vi.advanceTimersByTimeAsync(0)
+
+    _testing.queueBatchedChange(10, 1, '/repo/out.md', 'created')
+    await vi.advanceTimersByTimeAsync(_testing.POST_EXEC_COOLDOWN_MS)
+    expect(mockExecuteTask).toHaveBeenCalledTimes(1)
+
+    _testing.queueBatchedChange(10, 1, '/repo/b.ts', 'modified')
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(mockExecuteTask).toHaveBeenCalledTimes(2)
+    const [, options] = mockExecuteTask.mock.calls[1] as [number, { triggerContext: string }]
+    expect(options.triggerContext).toContain('2 file change(s)')
+    expect(options.triggerContext).toContain('"/repo/out.md"')
+    executeResolve!({ success: true, output: 'ok', durationMs: 1 })
+    await vi.runAllTimersAsync()
+  })
+
+  it('counts changes beyond the queue limit without storing them', async () => {
+    const limit = _testing.MAX_QUEUED_BATCH_CHANGES
+    for (let i = 0; i < limit + 3; i++) _testing.queueBatchedChange(11, 1, `/repo/f${i}`, 'created')
+    const batch = _testing.watchBatches.get(11)!
+    expect(batch.changes.size).toBe(limit)
+    expect(batch.overflow).toBe(3)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    const [, options] = mockExecuteTask.mock.calls[0] as [number, { triggerContext: string }]
+    expect(options.triggerContext).toContain(`${limit + 3} file change(s)`)
+    expect(options.triggerContext).toContain(`...and ${limit + 3 - 200} more change(s) not listed.`)
+    expect(batch.overflow).toBe(0)
+    executeResolve!({ success: true, output: 'ok', durationMs: 1 })
+    await vi.runAllTimersAsync()
+  })
+
+  it('drops files created and deleted within the same batch', () => {
+    _testing.queueBatchedChange(8, 5, '/repo/tmp.swp', 'created')
+    _testing.queueBatchedChange(8, 5, '/repo/tmp.swp', 'deleted')
+    vi.advanceTimersByTime(5000)
+    expect(mockExecuteTask).not.toHaveBeenCalled()
+  })
+
+  it('caps the number of listed paths', () => {
+    const changes = Array.from({ length: 250 }, (_, i) => [`/repo/f${i}`, 'created'] as [string, 'created'])
+    const context = _testing.formatBatchContext(changes)
+    expect(context).toContain('250 file change(s)')
+    expect(context).toContain('...and 50 more change(s) not listed.')
+    expect(context).not.toContain('/repo/f200')
+  })
+})
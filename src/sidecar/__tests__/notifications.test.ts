@@ -89,6 +89,16 @@ describe('notifyTaskComplete', () => {
     vi.useRealTimers()
   })
 
+  it('flags unchanged results and skips the nudge', () => {
+    vi.useFakeTimers()
+    notifyTaskComplete(db, 1, 'Changelog', 'v1.2', 3000, 'always', true)
+    vi.advanceTimersByTime(600)
+
+    expect(emitEvent).toHaveBeenCalledWith('task:complete', expect.objectContaining({ unchanged: true }))
+    expect(enqueueNudge).not.toHaveBeenCalled()
+    vi.useRealTimers()
+  })
+
   it('defaults to always when nudgeMode not provided', () => {
     vi.useFakeTimers()
     notifyTaskComplete(db, 1, 'Test', undefined, 3000)
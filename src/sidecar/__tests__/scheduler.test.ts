@@ -19,9 +19,10 @@ vi.mock('../../shared/task-runner', () => ({
 
 // Mock embedding modules
 vi.mock('../../shared/embedding-indexer', () => ({
-  indexPendingEmbeddings: vi.fn().mockResolvedValue(0)
+  indexPendingEmbeddings: vi.fn().mockResolvedValue({ indexed: 0, skipped: 0, errors: 0 })
 }))
 vi.mock('../../shared/embeddings', () => ({
+  applyEmbeddingSettings: vi.fn(),
   initEngine: vi.fn().mockResolvedValue(undefined)
 }))
 
@@ -31,7 +32,10 @@ vi.mock('../notifications', () => ({
   notifyTaskFailed: vi.fn()
 }))
 
-import { startScheduler, stopScheduler, syncNow, getSchedulerStatus } from '../scheduler'
+import { startScheduler, stopScheduler, syncNow, getSchedulerStatus, triggerDownstreamTasks } from '../scheduler'
+import { executeTask } from '../../shared/task-runner'
+import { notifyTaskFailed } from '../notifications'
+import * as queries from '../../shared/db-queries'
 
 let db: Database.Database
 
@@ -147,3 +151,273 @@ describe('scheduler', () => {
     expect(getSchedulerStatus().jobCount).toBe(0)
   })
 })
+
+describe('pipelines', () => {
+  function finishedRun(taskId: number, result: string, error?: string): number {
+    const run = queries.createTaskRun(db, taskId)
+    queries.completeTaskRun(db, run.id, result, undefined, error)
+    return run.id
+  }
+
+  it('triggers downstream tasks with the upstream result', () => {
+    const upstream = createTask({ name: 'Collect', trigger_type: 'manual', cron_expression: null })
+    const downstream = createTask({ name: 'Summarize', trigger_type: 'manual', cron_expression: null })
+    queries.addTaskDependency(db, downstream, upstream)
+    startScheduler(db, '/tmp/results')
+
+    triggerDownstreamTasks(upstream, finishedRun(upstream, 'PR list'), '/tmp/results')
+
+    expect(executeTask).toHaveBeenCalledWith(downstream, expect.objectContaining({
+      upstream: { taskName: 'Collect', output: 'PR list', success: true }
+    }))
+  })
+
+  it('passes structured results downstream as JSON', () => {
+    const upstream = createTask({ name: 'Collect', trigger_type: 'manual', cron_expression: null })
+    const downstream = createTask({ name: 'Summarize', trigger_type: 'manual', cron_expression: null })
+    queries.addTaskDependency(db, downstream, upstream)
+    startScheduler(db, '/tmp/results')
+
+    const runId = finishedRun(upstream, '```json\n[{"cve": "CVE-2026-1"}]\n```')
+    queries.updateTaskRunResultJson(db, runId, '[{"cve":"CVE-2026-1"}]')
+    triggerDownstreamTasks(upstream, runId, '/tmp/results')
+
+    expect(executeTask).toHaveBeenCalledWith(downstream, expect.objectContaining({
+      upstream: { taskName: 'Collect', output: '[{"cve":"CVE-2026-1"}]', success: true }
+    }))
+  })
+
+  it('respects the trigger condition', () => {
+    const upstream = createTask({ name: 'Check', trigger_type: 'manual', cron_expression: null })
+    const onFailure = createTask({ name: 'Alert', trigger_type: 'manual', cron_expression: null })
+    const always = createTask({ name: 'Log', trigger_type: 'manual', cron_expression: null })
+    queries.addTaskDependency(db, onFailure, upstream, 'failure')
+    queries.addTaskDependency(db, always, upstream, 'always')
+    startScheduler(db, '/tmp/results')
+
+    triggerDownstreamTasks(upstream, finishedRun(upstream, 'fine'), '/tmp/results')
+
+    const triggered = vi.mocked(executeTask).mock.calls.map((c) => c[0])
+    expect(triggered).toEqual([always])
+  })
+
+  it('skips paused downstream tasks', () => {
+    const upstream = createTask({ name: 'A', trigger_type: 'manual', cron_expression: null })
+    const downstream = createTask({ name: 'B', trigger_type: 'manual', cron_expression: null, status: 'paused' })
+    queries.addTaskDependency(db, downstream, upstream)
+    startScheduler(db, '/tmp/results')
+
+    triggerDownstreamTasks(upstream, finishedRun(upstream, 'ok'), '/tmp/results')
+
+    expect(executeTask).not.toHaveBeenCalled()
+  })
+
+  it('stops the pipeline when the upstream run was cancelled', () => {
+    const upstream = createTask({ name: 'A', trigger_type: 'manual', cron_expression: null })
+    const downstream = createTask({ name: 'B', trigger_type: 'manual', cron_expression: null })
+    queries.addTaskDependency(db, downstream, upstream, 'always')
+    startScheduler(db, '/tmp/results')
+
+    const run = queries.createTaskRun(db, upstream)
+    queries.cancelTaskRun(db, run.id)
+    triggerDownstreamTasks(upstream, run.id, '/tmp/results')
+
+    expect(executeTask).not.toHaveBeenCalled()
+  })
+})
+
+describe('usage budgets', () => {
+  function spend(taskId: number, tokens: number): void {
+    const run = queries.createTaskRun(db, taskId)
+    queries.addTaskRunUsage(db, run.id, {
+      inputTokens: tokens, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: null
+    })
+    queries.completeTaskRun(db, run.id, 'ok')
+  }
+
+  function skippedRuns(taskId: number): string[] {
+    return (db.prepare("SELECT error_message FROM task_runs WHERE task_id = ? AND status = 'skipped'")
+      .all(taskId) as Array<{ error_message: string }>).map((r) => r.error_message)
+  }
+
+  it('skips a run and records why when a budget is used up', () => {
+    const upstream = createTask({ name: 'A', trigger_type: 'manual', cron_expression: null })
+    const downstream = createTask({ name: 'Hungry', trigger_type: 'manual', cron_expression: null })
+    queries.addTaskDependency(db, downstream, upstream)
+    queries.setUsageBudget(db, { scope: 'task', scopeId: downstream, period: 'day', metric: 'tokens', limit: 1000 })
+    spend(downstream, 1500)
+    startScheduler(db, '/tmp/results')
+
+    const upstreamRun = queries.createTaskRun(db, upstream)
+    queries.completeTaskRun(db, upstreamRun.id, 'done')
+    triggerDownstreamTasks(upstream, upstreamRun.id, '/tmp/results')
+    expect(executeTask).not.toHaveBeenCalled()
+    expect(skippedRuns(downstream)).toEqual([
+      expect.stringMatching(/^Skipped: daily budget of 1,000 tokens for task "Hungry" reached \(1,500 tokens used\)$/)
+    ])
+  })
+
+  it('blocks cron runs, notifies and pauses when the budget says so', () => {
+    const id = createTask({ name: 'Every Minute', cron_expression: '* * * * *' })
+    queries.setUsageBudget(db, { scope: 'global', period: 'day', metric: 'runs', limit: 1, action: 'pause' })
+    spend(id, 10)
+    startScheduler(db, '/tmp/results')
+
+    const cronCallback = mockSchedule.mock.calls[0][1] as () => void
+    cronCallback()
+
+    expect(executeTask).not.toHaveBeenCalled()
+    expect(skippedRuns(id)).toEqual([expect.stringMatching(/global daily budget of 1 run\(s\) reached/)])
+    expect(queries.getTask(db, id)!.status).toBe('paused')
+    expect(notifyTaskFailed).toHaveBeenCalledWith(db, id, 'Every Minute', expect.stringContaining('Task paused'), expect.anything())
+  })
+
+  function createDueOnceTask(name: string): number {
+    const id = createTask({ name, trigger_type: 'once', cron_expression: null })
+    db.prepare("UPDATE tasks SET scheduled_at = '2000-01-01 09:00:00' WHERE id = ?").run(id)
+    return id
+  }
+
+  it('keeps an over-budget one-time task due until the budget frees up', async () => {
+    const id = createDueOnceTask('Once')
+    const budget = queries.setUsageBudget(db, { scope: 'task', scopeId: id, period: 'day', metric: 'tokens', limit: 1000 })
+    spend(id, 1500)
+
+    startScheduler(db, '/tmp/results')
+    await vi.advanceTimersByTimeAsync(0)
+    expect(executeTask).not.toHaveBeenCalled()
+    expect(queries.getTask(db, id)!.status).toBe('active')
+    expect(skippedRuns(id)).toHaveLength(1)
+
+    // Later polls wait quietly instead of recording a skip each time
+    await vi.advanceTimersByTimeAsync(30_000)
+    expect(skippedRuns(id)).toHaveLength(1)
+    expect(notifyTaskFailed).toHaveBeenCalledTimes(1)
+
+    queries.deleteUsageBudget(db, budget.id)
+    await vi.advanceTimersByTimeAsync(30_000)
+    expect(executeTask).toHaveBeenCalledWith(id, expect.anything())
+    expect(queries.getTask(db, id)!.status).toBe('completed')
+  })
+
+  it('leaves a one-time task paused when its budget pauses it', async () => {
+    const id = createDueOnceTask('Once')
+    queries.setUsageBudget(db, { scope: 'task', scopeId: id, period: 'day', metric: 'tokens', limit: 1000, action: 'pause' })
+    spend(id, 1500)
+
+    startScheduler(db, '/tmp/results')
+    await vi.advanceTimersByTimeAsync(0)
+    expect(executeTask).not.toHaveBeenCalled()
+    expect(queries.getTask(db, id)!.status).toBe('paused')
+  })
+
+  it('lets runs through while under budget', () => {
+    const id = createTask({ name: 'Frugal', cron_expression: '* * * * *' })
+    queries.setUsageBudget(db, { scope: 'global', period: 'week', metric: 'tokens', limit: 1000 })
+    spend(id, 10)
+    startScheduler(db, '/tmp/results')
+
+    const cronCallback = mockSchedule.mock.calls[0][1] as () => void
+    cronCallback()
+
+    expect(executeTask).toHaveBeenCalledWith(id, expect.anything())
+  })
+})
+
+describe('missed runs', () => {
+  function dailyReport(policy: string, lastActivity: string): number {
+    const id = createTask({ name: 'Daily Report', cron_expression: '0 7 * * *' })
+    db.prepare('UPDATE tasks SET misfire_policy = ?, misfire_limit = 2, updated_at = ? WHERE id = ?').run(policy, lastActivity, id)
+    return id
+  }
+
+  it('runs a missed occurrence once on start', async () => {
+    vi.setSystemTime(new Date(2026, 9, 18, 9, 30))
+    const id = dailyReport('run_once', '2026-10-15 22:00:00')
+
+    startScheduler(db, '/tmp/results')
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(executeTask).toHaveBeenCalledTimes(1)
+    expect(executeTask).toHaveBeenCalledWith(id, expect.objectContaining({
+      triggerContext: expect.stringContaining('scheduled time 2026-10-18 07:00')
+    }))
+  })
+
+  it('runs each missed occurrence in turn up to the limit', async () => {
+    vi.setSystemTime(new Date(2026, 9, 18, 9, 30))
+    dailyReport('run_all', '2026-10-14 22:00:00')
+
+    startScheduler(db, '/tmp/results')
+    await vi.advanceTimersByTimeAsync(0)
+
+    const contexts = vi.mocked(executeTask).mock.calls.map((c) => c[1].triggerContext)
+    expect(contexts).toEqual([
+      expect.stringContaining('2026-10-17 07:00'),
+      expect.stringContaining('2026-10-18 07:00')
+    ])
+  })
+
+  it('leaves missed runs alone with the skip policy or when nothing was missed', async () => {
+    vi.setSystemTime(new Date(2026, 9, 18, 9, 30))
+    dailyReport('skip', '2026-10-15 22:00:00')
+    dailyReport('run_once', '2026-10-18 07:00:05')
+
+    startScheduler(db, '/tmp/results')
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(executeTask).not.toHaveBeenCalled()
+  })
+
+  it('catches up after waking from sleep', async () => {
+    vi.setSystemTime(new Date(2026, 9, 17, 23, 0))
+    dailyReport('run_once', '2026-10-17 22:00:00')
+    startScheduler(db, '/tmp/results')
+    expect(executeTask).not.toHaveBeenCalled()
+
+    // The lid stays closed overnight: no timers fire until the clock has moved on
+    vi.setSystemTime(new Date(2026, 9, 18, 8, 0))
+    await vi.advanceTimersByTimeAsync(30_000)
+
+    expect(executeTask).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(executeTask).mock.calls[0][1].triggerContext).toContain('2026-10-18 07:00')
+  })
+})
+
+describe('time zones', () => {
+  it('passes the task time zone to node-cron', () => {
+    const id = createTask({ name: 'Market Digest', cron_expression: '0 9 * * 1-5' })
+    queries.updateTask(db, id, { timezone: 'America/New_York' })
+    startScheduler(db, '/tmp/results')
+
+    expect(mockSchedule).toHaveBeenCalledWith('0 9 * * 1-5', expect.any(Function), { timezone: 'America/New_York' })
+  })
+
+  it('reschedules a job when its expression or zone changes', () => {
+    const id = createTask({ name: 'Digest', cron_expression: '0 9 * * *' })
+    startScheduler(db, '/tmp/results')
+    const firstJob = mockSchedule.mock.results[0].value as { stop: ReturnType<typeof vi.fn> }
+
+    queries.updateTask(db, id, { timezone: 'Europe/Berlin' })
+    syncNow('/tmp/results')
+
+    expect(firstJob.stop).toHaveBeenCalled()
+    expect(mockSchedule).toHaveBeenLastCalledWith('0 9 * * *', expect.any(Function), { timezone: 'Europe/Berlin' })
+    expect(getSchedulerStatus().jobCount).toBe(1)
+  })
+
+  it('runs a task whose time was skipped when clocks went forward', async () => {
+    // 01:59:45 EST on 2026-03-08; the next poll lands after the jump to 03:00 EDT
+    vi.setSystemTime(new Date('2026-03-08T06:59:45Z'))
+    const id = createTask({ name: 'Night Job', cron_expression: '30 2 * * *' })
+    queries.updateTask(db, id, { timezone: 'America/New_York' })
+    startScheduler(db, '/tmp/results')
+
+    await vi.advanceTimersByTimeAsync(30_000)
+    expect(executeTask).toHaveBeenCalledTimes(1)
+    expect(executeTask).toHaveBeenCalledWith(id, expect.anything())
+
+    await vi.advanceTimersByTimeAsync(30_000)
+    expect(executeTask).toHaveBeenCalledTimes(1)
+  })
+})
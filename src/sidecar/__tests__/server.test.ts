@@ -39,6 +39,29 @@ describe('sidecar HTTP routes', () => {
     })
   })
 
+  describe('POST /tasks/:id/cancel URL parsing', () => {
+    it('matches only cancel URLs with a numeric id', () => {
+      expect('/tasks/42/cancel'.match(/^\/tasks\/(\d+)\/cancel$/)?.[1]).toBe('42')
+      expect('/tasks/abc/cancel'.match(/^\/tasks\/(\d+)\/cancel$/)).toBeNull()
+      expect('/tasks/42/run'.match(/^\/tasks\/(\d+)\/cancel$/)).toBeNull()
+    })
+  })
+
+  describe('POST /hooks/:token URL parsing', () => {
+    const pattern = /^\/hooks\/([\w-]+)(?:\?.*)?$/
+
+    it('matches URL-safe tokens, with or without a query string', () => {
+      expect('/hooks/aB3_-x'.match(pattern)?.[1]).toBe('aB3_-x')
+      expect('/hooks/aB3_-x?source=github'.match(pattern)?.[1]).toBe('aB3_-x')
+    })
+
+    it('rejects missing tokens and extra path segments', () => {
+      expect('/hooks/'.match(pattern)).toBeNull()
+      expect('/hooks/abc/extra'.match(pattern)).toBeNull()
+      expect('/hooks/abc%2F..'.match(pattern)).toBeNull()
+    })
+  })
+
   describe('expandTilde', () => {
     // Test the tilde expansion logic used for env var paths
     function expandTilde(p: string): string {
@@ -0,0 +1,559 @@
+/**
+ * Versioned REST API under /api/v1, so scripts, editor plugins and other tools
+ * can automate Daymon without MCP. Routes are declared once in a table that
+ * drives both request handling and the OpenAPI document served at
+ * /api/v1/openapi.json. Bodies are validated with the same zod schemas as the
+ * Electron IPC handlers.
+ */
+
+import { z } from 'zod'
+import type Database from 'better-sqlite3'
+import * as queries from '../shared/db-queries'
+import {
+  createEntitySchema,
+  createObservationSchema,
+  createRelationSchema,
+  createTaskSchema,
+  createWatchSchema,
+  createWorkerSchema,
+  settingsKeySchema,
+  settingsValueSchema,
+  updateEntitySchema,
+  updateObservationSchema,
+  updateTaskSchema,
+  updateWorkerSchema
+} from '../shared/validation'
+import { buildOpenApiDocument } from './openapi'
+
+export const API_PREFIX = '/api/v1'
+
+export interface ApiContext {
+  db: Database.Database
+  version: string
+  /** Reschedule tasks and restart watches after a change. */
+  sync: () => void
+  /** Start a run in the background, as "Run now" does. Returns why a usage budget refused it, or null. */
+  startRun: (taskId: number) => string | null
+  cancelRun: (taskId: number) => ApiResponse
+}
+
+export interface ApiResponse {
+  status: number
+  /** Omitted for 204 No Content. */
+  body?: unknown
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'
+
+interface RouteParams {
+  id: number
+  key: string
+}
+
+type Infer<T> = T extends z.ZodTypeAny ? z.infer<T> : undefined
+
+export interface ApiRoute {
+  method: HttpMethod
+  /** Path below the prefix, with `{id}` or `{key}` placeholders. */
+  path: string
+  tag: string
+  summary: string
+  description?: string
+  query?: z.AnyZodObject
+  body?: z.ZodTypeAny
+  /** Component the success response returns, with a `[]` suffix for lists. Omitted for 204. */
+  response?: string
+  /** Success status, for the OpenAPI document. */
+  status: number
+  handle: (ctx: ApiContext, req: { params: RouteParams; query: unknown; body: unknown }) => ApiResponse
+}
+
+function route<Q extends z.AnyZodObject | undefined = undefined, B extends z.ZodTypeAny | undefined = undefined>(def: {
+  method: HttpMethod
+  path: string
+  tag: string
+  summary: string
+  description?: string
+  query?: Q
+  body?: B
+  response?: string
+  status?: number
+  handle: (ctx: ApiContext, req: { params: RouteParams; query: Infer<Q>; body: Infer<B> }) => ApiResponse
+}): ApiRoute {
+  return { ...def, status: def.status ?? 200 } as ApiRoute
+}
+
+const ok = (body: unknown): ApiResponse => ({ status: 200, body })
+const created = (body: unknown): ApiResponse => ({ status: 201, body })
+const noContent = (): ApiResponse => ({ status: 204 })
+const notFound = (what: string): ApiResponse => ({ status: 404, body: { error: `${what} not found` } })
+
+// A watch's action runs as a hidden task; changing or running it directly would quietly break the watch
+function checkManagedTask(db: Database.Database, id: number): ApiResponse | null {
+  const task = queries.getTask(db, id)
+  if (!task) return notFound('Task')
+  if (task.triggerType === 'watch') {
+    return { status: 409, body: { error: "This task is a file watch's action; manage the watch instead" } }
+  }
+  return null
+}
+
+const limitQuery = (max: number, fallback: number): z.ZodDefault<z.ZodNumber> =>
+  z.coerce.number().int().min(1).max(max).default(fallback)
+
+const runStatusValues = ['running', 'completed', 'failed', 'cancelled', 'skipped'] as const
+
+const runPageQuery = z.object({
+  status: z.enum(runStatusValues).optional(),
+  limit: limitQuery(200, 20),
+  offset: z.coerce.number().int().min(0).default(0)
+})
+
+// ─── Routes ─────────────────────────────────────────────────
+
+const taskRoutes: ApiRoute[] = [
+  route({
+    method: 'GET', path: '/tasks', tag: 'Tasks', summary: 'List tasks', response: 'Task[]',
+    description: 'File watch actions are left out unless `trigger=watch` is asked for.',
+    query: z.object({
+      status: z.enum(['active', 'paused', 'completed']).optional(),
+      trigger: z.enum(['cron', 'once', 'manual', 'watch', 'webhook']).optional(),
+      q: z.string().trim().min(1).max(200).optional()
+    }),
+    handle: ({ db }, { query }) => {
+      const search = query.q?.toLowerCase()
+      return ok(queries.listTasks(db, query.status).filter((task) =>
+        (query.trigger ? task.triggerType === query.trigger : task.triggerType !== 'watch')
+        && (!search || task.name.toLowerCase().includes(search) || (task.description?.toLowerCase().includes(search) ?? false))
+      ))
+    }
+  }),
+  route({
+    method: 'POST', path: '/tasks', tag: 'Tasks', summary: 'Create a task', body: createTaskSchema, response: 'Task', status: 201,
+    handle: (ctx, { body }) => {
+      const task = queries.createTask(ctx.db, { ...body, triggerConfig: JSON.stringify({ source: 'api' }) })
+      ctx.sync()
+      return created(task)
+    }
+  }),
+  route({
+    method: 'GET', path: '/tasks/{id}', tag: 'Tasks', summary: 'Get a task', response: 'Task',
+    handle: ({ db }, { params }) => {
+      const task = queries.getTask(db, params.id)
+      return task ? ok(task) : notFound('Task')
+    }
+  }),
+  route({
+    method: 'PATCH', path: '/tasks/{id}', tag: 'Tasks', summary: 'Update a task', body: updateTaskSchema, response: 'Task',
+    handle: (ctx, { params, body }) => {
+      const blocked = checkManagedTask(ctx.db, params.id)
+      if (blocked) return blocked
+      queries.updateTask(ctx.db, params.id, body)
+      ctx.sync()
+      return ok(queries.getTask(ctx.db, params.id))
+    }
+  }),
+  route({
+    method: 'DELETE', path: '/tasks/{id}', tag: 'Tasks', summary: 'Delete a task', status: 204,
+    handle: (ctx, { params }) => {
+      const blocked = checkManagedTask(ctx.db, params.id)
+      if (blocked) return blocked
+      queries.deleteTask(ctx.db, params.id)
+      ctx.sync()
+      return noContent()
+    }
+  }),
+  route({
+    method: 'POST', path: '/tasks/{id}/pause', tag: 'Tasks', summary: 'Pause a task', response: 'Task',
+    handle: (ctx, { params }) => {
+      const blocked = checkManagedTask(ctx.db, params.id)
+      if (blocked) return blocked
+      queries.pauseTask(ctx.db, params.id)
+      ctx.sync()
+      return ok(queries.getTask(ctx.db, params.id))
+    }
+  }),
+  route({
+    method: 'POST', path: '/tasks/{id}/resume', tag: 'Tasks', summary: 'Resume a paused task', response: 'Task',
+    handle: (ctx, { params }) => {
+      const blocked = checkManagedTask(ctx.db, params.id)
+      if (blocked) return blocked
+      queries.resumeTask(ctx.db, params.id)
+      ctx.sync()
+      return ok(queries.getTask(ctx.db, params.id))
+    }
+  }),
+  route({
+    method: 'POST', path: '/tasks/{id}/run', tag: 'Tasks', summary: 'Run a task now',
+    description: 'Starts the run in the background. Paused tasks run once and stay paused. '
+      + 'Responds 409 when a usage budget that applies to the task is used up.',
+    response: 'Accepted', status: 202,
+    handle: (ctx, { params }) => {
+      const blocked = checkManagedTask(ctx.db, params.id)
+      if (blocked) return blocked
+      const budgetReason = ctx.startRun(params.id)
+      if (budgetReason) return { status: 409, body: { ok: false, error: budgetReason } }
+      return { status: 202, body: { ok: true, taskId: params.id, message: 'Task execution started' } }
+    }
+  }),
+  route({
+    method: 'POST', path: '/tasks/{id}/cancel', tag: 'Tasks', summary: 'Cancel a running task', response: 'Accepted',
+    handle: (ctx, { params }) => {
+      if (!queries.getTask(ctx.db, params.id)) return notFound('Task')
+      return ctx.cancelRun(params.id)
+    }
+  }),
+  route({
+    method: 'GET', path: '/tasks/{id}/runs', tag: 'Runs', summary: "List a task's runs", query: runPageQuery, response: 'TaskRun[]',
+    handle: ({ db }, { params, query }) => {
+      if (!queries.getTask(db, params.id)) return notFound('Task')
+      return ok(queries.listRuns(db, { ...query, taskId: params.id }))
+    }
+  })
+]
+
+const runRoutes: ApiRoute[] = [
+  route({
+    method: 'GET', path: '/runs', tag: 'Runs', summary: 'List runs, newest first',
+    query: runPageQuery.extend({ taskId: z.coerce.number().int().positive().optional() }),
+    response: 'TaskRun[]',
+    handle: ({ db }, { query }) => ok(queries.listRuns(db, query))
+  }),
+  route({
+    method: 'GET', path: '/runs/{id}', tag: 'Runs', summary: 'Get a run', response: 'TaskRun',
+    handle: ({ db }, { params }) => {
+      const run = queries.getTaskRun(db, params.id)
+      return run ? ok(run) : notFound('Run')
+    }
+  }),
+  route({
+    method: 'GET', path: '/runs/{id}/logs', tag: 'Runs', summary: "Page through a run's console log",
+    description: 'Entries come in `seq` order. Pass the last `seq` you received as `after` to get the next page.',
+    query: z.object({ after: z.coerce.number().int().min(0).default(0), limit: limitQuery(500, 100) }),
+    response: 'ConsoleLogEntry[]',
+    handle: ({ db }, { params, query }) => {
+      if (!queries.getTaskRun(db, params.id)) return notFound('Run')
+      return ok(queries.getConsoleLogs(db, params.id, query.after, query.limit))
+    }
+  })
+]
+
+const workerRoutes: ApiRoute[] = [
+  route({
+    method: 'GET', path: '/workers', tag: 'Workers', summary: 'List workers', response: 'Worker[]',
+    handle: ({ db }) => ok(queries.listWorkers(db))
+  }),
+  route({
+    method: 'POST', path: '/workers', tag: 'Workers', summary: 'Create a worker', body: createWorkerSchema, response: 'Worker', status: 201,
+    handle: ({ db }, { body }) => created(queries.createWorker(db, body))
+  }),
+  route({
+    method: 'GET', path: '/workers/{id}', tag: 'Workers', summary: 'Get a worker', response: 'Worker',
+    handle: ({ db }, { params }) => {
+      const worker = queries.getWorker(db, params.id)
+      return worker ? ok(worker) : notFound('Worker')
+    }
+  }),
+  route({
+    method: 'PATCH', path: '/workers/{id}', tag: 'Workers', summary: 'Update a worker', body: updateWorkerSchema, response: 'Worker',
+    handle: ({ db }, { params, body }) => {
+      if (!queries.getWorker(db, params.id)) return notFound('Worker')
+      queries.updateWorker(db, params.id, body)
+      return ok(queries.getWorker(db, params.id))
+    }
+  }),
+  route({
+    method: 'DELETE', path: '/workers/{id}', tag: 'Workers', summary: 'Delete a worker', status: 204,
+    handle: ({ db }, { params }) => {
+      if (!queries.getWorker(db, params.id)) return notFound('Worker')
+      queries.deleteWorker(db, params.id)
+      return noContent()
+    }
+  })
+]
+
+const watchRoutes: ApiRoute[] = [
+  route({
+    method: 'GET', path: '/watches', tag: 'Watches', summary: 'List watches', response: 'Watch[]',
+    query: z.object({ status: z.enum(['active', 'paused']).optional() }),
+    handle: ({ db }, { query }) => ok(queries.listWatches(db, query.status))
+  }),
+  route({
+    method: 'POST', path: '/watches', tag: 'Watches', summary: 'Watch a file or folder', body: createWatchSchema, response: 'Watch', status: 201,
+    handle: (ctx, { body }) => {
+      const { path, description, actionPrompt, ...options } = body
+      const watch = queries.createWatch(ctx.db, path, description, actionPrompt, options)
+      ctx.sync()
+      return created(watch)
+    }
+  }),
+  route({
+    method: 'GET', path: '/watches/{id}', tag: 'Watches', summary: 'Get a watch', response: 'Watch',
+    handle: ({ db }, { params }) => {
+      const watch = queries.getWatch(db, params.id)
+      return watch ? ok(watch) : notFound('Watch')
+    }
+  }),
+  route({
+    method: 'DELETE', path: '/watches/{id}', tag: 'Watches', summary: 'Delete a watch', status: 204,
+    handle: (ctx, { params }) => {
+      if (!queries.getWatch(ctx.db, params.id)) return notFound('Watch')
+      queries.deleteWatch(ctx.db, params.id)
+      ctx.sync()
+      return noContent()
+    }
+  }),
+  route({
+    method: 'POST', path: '/watches/{id}/pause', tag: 'Watches', summary: 'Pause a watch', response: 'Watch',
+    handle: (ctx, { params }) => {
+      if (!queries.getWatch(ctx.db, params.id)) return notFound('Watch')
+      queries.pauseWatch(ctx.db, params.id)
+      ctx.sync()
+      return ok(queries.getWatch(ctx.db, params.id))
+    }
+  }),
+  route({
+    method: 'POST', path: '/watches/{id}/resume', tag: 'Watches', summary: 'Resume a paused watch', response: 'Watch',
+    handle: (ctx, { params }) => {
+      if (!queries.getWatch(ctx.db, params.id)) return notFound('Watch')
+      queries.resumeWatch(ctx.db, params.id)
+      ctx.sync()
+      return ok(queries.getWatch(ctx.db, params.id))
+    }
+  })
+]
+
+const memoryRoutes: ApiRoute[] = [
+  route({
+    method: 'GET', path: '/memory/entities', tag: 'Memory', summary: 'List or search memory entities', response: 'Entity[]',
+    query: z.object({
+      category: z.string().trim().min(1).max(100).optional(),
+      q: z.string().trim().min(1).max(500).optional()
+    }),
+    handle: ({ db }, { query }) => {
+      if (!query.q) return ok(queries.listEntities(db, query.category))
+      const matches = queries.searchEntities(db, query.q)
+      return ok(query.category ? matches.filter((e) => e.category === query.category) : matches)
+    }
+  }),
+  route({
+    method: 'POST', path: '/memory/entities', tag: 'Memory', summary: 'Create an entity', body: createEntitySchema, response: 'Entity', status: 201,
+    handle: ({ db }, { body }) => created(queries.createEntity(db, body.name, body.type, body.category))
+  }),
+  route({
+    method: 'GET', path: '/memory/entities/{id}', tag: 'Memory', summary: 'Get an entity with its observations and relations', response: 'EntityDetail',
+    handle: ({ db }, { params }) => {
+      const entity = queries.getEntity(db, params.id)
+      if (!entity) return notFound('Entity')
+      return ok({ ...entity, observations: queries.getObservations(db, params.id), relations: queries.getRelations(db, params.id) })
+    }
+  }),
+  route({
+    method: 'PATCH', path: '/memory/entities/{id}', tag: 'Memory', summary: 'Update an entity', body: updateEntitySchema, response: 'Entity',
+    handle: ({ db }, { params, body }) => {
+      if (!queries.getEntity(db, params.id)) return notFound('Entity')
+      queries.updateEntity(db, params.id, body)
+      return ok(queries.getEntity(db, params.id))
+    }
+  }),
+  route({
+    method: 'DELETE', path: '/memory/entities/{id}', tag: 'Memory', summary: 'Delete an entity and its observations', status: 204,
+    handle: ({ db }, { params }) => {
+      if (!queries.getEntity(db, params.id)) return notFound('Entity')
+      queries.deleteEntity(db, params.id)
+      return noContent()
+    }
+  }),
+  route({
+    method: 'GET', path: '/memory/entities/{id}/observations', tag: 'Memory', summary: "List an entity's observations", response: 'Observation[]',
+    handle: ({ db }, { params }) => {
+      if (!queries.getEntity(db, params.id)) return notFound('Entity')
+      return ok(queries.getObservations(db, params.id))
+    }
+  }),
+  route({
+    method: 'POST', path: '/memory/entities/{id}/observations', tag: 'Memory', summary: 'Add an observation to an entity',
+    body: createObservationSchema, response: 'Observation', status: 201,
+    handle: ({ db }, { params, body }) => {
+      if (!queries.getEntity(db, params.id)) return notFound('Entity')
+      return created(queries.addObservation(db, params.id, body.content, body.source ?? 'api'))
+    }
+  }),
+  route({
+    method: 'PATCH', path: '/memory/observations/{id}', tag: 'Memory', summary: 'Edit an observation', body: updateObservationSchema, response: 'Observation',
+    handle: ({ db }, { params, body }) => {
+      if (!queries.getObservation(db, params.id)) return notFound('Observation')
+      queries.updateObservation(db, params.id, body.content)
+      return ok(queries.getObservation(db, params.id))
+    }
+  }),
+  route({
+    method: 'DELETE', path: '/memory/observations/{id}', tag: 'Memory', summary: 'Delete an observation', status: 204,
+    handle: ({ db }, { params }) => {
+      if (!queries.getObservation(db, params.id)) return notFound('Observation')
+      queries.deleteObservation(db, params.id)
+      return noContent()
+    }
+  }),
+  route({
+    method: 'POST', path: '/memory/relations', tag: 'Memory', summary: 'Relate two entities', body: createRelationSchema, response: 'Relation', status: 201,
+    handle: ({ db }, { body }) => {
+      if (!queries.getEntity(db, body.fromEntity) || !queries.getEntity(db, body.toEntity)) return notFound('Entity')
+      return created(queries.addRelation(db, body.fromEntity, body.toEntity, body.relationType))
+    }
+  }),
+  route({
+    method: 'DELETE', path: '/memory/relations/{id}', tag: 'Memory', summary: 'Delete a relation', status: 204,
+    handle: ({ db }, { params }) => {
+      if (!queries.getRelation(db, params.id)) return notFound('Relation')
+      queries.deleteRelation(db, params.id)
+      return noContent()
+    }
+  }),
+  route({
+    method: 'GET', path: '/memory/graph', tag: 'Memory', summary: 'The best-connected entities and the relations among them', response: 'MemoryGraph',
+    query: z.object({
+      limit: limitQuery(500, 100),
+      type: z.string().trim().min(1).max(100).optional(),
+      category: z.string().trim().min(1).max(100).optional()
+    }),
+    handle: ({ db }, { query }) => ok(queries.getMemoryGraphOverview(db, query))
+  }),
+  route({
+    method: 'GET', path: '/memory/entities/{id}/graph', tag: 'Memory', summary: "An entity's neighborhood in the knowledge graph",
+    description: 'Entities within `depth` hops, following relations either way, and the relations among them.',
+    query: z.object({ depth: z.coerce.number().int().min(1).max(4).default(1), limit: limitQuery(500, 100) }),
+    response: 'MemoryGraph',
+    handle: ({ db }, { params, query }) => {
+      const graph = queries.getMemoryGraph(db, params.id, query.depth, query.limit)
+      return graph ? ok(graph) : notFound('Entity')
+    }
+  }),
+  route({
+    method: 'GET', path: '/memory/stats', tag: 'Memory', summary: 'Count entities, observations and relations', response: 'MemoryStats',
+    handle: ({ db }) => ok(queries.getMemoryStats(db))
+  })
+]
+
+const settingRoutes: ApiRoute[] = [
+  route({
+    method: 'GET', path: '/settings', tag: 'Settings', summary: 'Get all settings', response: 'Settings',
+    handle: ({ db }) => ok(queries.getAllSettings(db))
+  }),
+  route({
+    method: 'GET', path: '/settings/{key}', tag: 'Settings', summary: 'Get a setting', response: 'Setting',
+    handle: ({ db }, { params }) => {
+      const value = queries.getSetting(db, params.key)
+      return value === null ? notFound('Setting') : ok({ key: params.key, value })
+    }
+  }),
+  route({
+    method: 'PUT', path: '/settings/{key}', tag: 'Settings', summary: 'Set a setting',
+    body: z.object({ value: settingsValueSchema }).strict(), response: 'Setting',
+    handle: ({ db }, { params, body }) => {
+      queries.setSetting(db, params.key, body.value)
+      return ok({ key: params.key, value: body.value })
+    }
+  })
+]
+
+export const API_ROUTES: ApiRoute[] = [
+  route({
+    method: 'GET', path: '/openapi.json', tag: 'Meta', summary: 'This API as an OpenAPI 3.1 document', response: 'OpenApiDocument',
+    handle: ({ version }) => ok(buildOpenApiDocument(API_ROUTES, version))
+  }),
+  ...taskRoutes,
+  ...runRoutes,
+  ...workerRoutes,
+  ...watchRoutes,
+  ...memoryRoutes,
+  ...settingRoutes
+]
+
+// ─── Dispatch ───────────────────────────────────────────────
+
+interface CompiledRoute {
+  route: ApiRoute
+  pattern: RegExp
+  paramNames: Array<keyof RouteParams>
+}
+
+const compiledRoutes: CompiledRoute[] = API_ROUTES.map((r) => {
+  const paramNames: Array<keyof RouteParams> = []
+  const source = r.path.replace(/\{(id|key)\}/g, (_m, name: keyof RouteParams) => {
+    paramNames.push(name)
+    return name === 'id' ? '(\\d+)' : '([^/]+)'
+  })
+  return { route: r, pattern: new RegExp(`^${source}$`), paramNames }
+})
+
+function issuesMessage(error: z.ZodError): string {
+  return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ')
+}
+
+function parseParams(match: RegExpMatchArray, names: Array<keyof RouteParams>): RouteParams | string {
+  const params: RouteParams = { id: 0, key: '' }
+  for (const [i, name] of names.entries()) {
+    const raw = match[i + 1]
+    if (name === 'id') {
+      const id = Number(raw)
+      if (!Number.isSafeInteger(id) || id < 1) return 'id: Must be a positive integer'
+      params.id = id
+    } else {
+      let key: string
+      try {
+        key = decodeURIComponent(raw)
+      } catch {
+        return 'key: Invalid URL encoding'
+      }
+      const parsed = settingsKeySchema.safeParse(key)
+      if (!parsed.success) return issuesMessage(parsed.error)
+      params.key = parsed.data
+    }
+  }
+  return params
+}
+
+/**
+ * Handle a request below API_PREFIX. Resolves null for URLs outside the API so
+ * the caller can fall through to its other routes.
+ */
+export function handleApiRequest(ctx: ApiContext, method: string, url: string, rawBody: string): ApiResponse | null {
+  const parsedUrl = new URL(url, 'http://127.0.0.1')
+  if (parsedUrl.pathname !== API_PREFIX && !parsedUrl.pathname.startsWith(`${API_PREFIX}/`)) return null
+  const path = parsedUrl.pathname.slice(API_PREFIX.length).replace(/\/$/, '') || '/'
+
+  const candidates = compiledRoutes
+    .map((c) => ({ ...c, match: path.match(c.pattern) }))
+    .filter((c): c is CompiledRoute & { match: RegExpMatchArray } => c.match !== null)
+  if (candidates.length === 0) return { status: 404, body: { error: 'Not found' } }
+  const matched = candidates.find((c) => c.route.method === method)
+  if (!matched) return { status: 405, body: { error: `Use ${candidates.map((c) => c.route.method).join(', ')}` } }
+
+  const params = parseParams(matched.match, matched.paramNames)
+  if (typeof params === 'string') return { status: 400, body: { error: params } }
+
+  let query: unknown
+  if (matched.route.query) {
+    const parsed = matched.route.query.safeParse(Object.fromEntries(parsedUrl.searchParams))
+    if (!parsed.success) return { status: 400, body: { error: issuesMessage(parsed.error) } }
+    query = parsed.data
+  }
+
+  let body: unknown
+  if (matched.route.body) {
+    let json: unknown = {}
+    if (rawBody.trim()) {
+      try {
+        json = JSON.parse(rawBody)
+      } catch {
+        return { status: 400, body: { error: 'Invalid JSON' } }
+      }
+    }
+    const parsed = matched.route.body.safeParse(json)
+    if (!parsed.success) return { status: 400, body: { error: issuesMessage(parsed.error) } }
+    body = parsed.data
+  }
+
+  return matched.route.handle(ctx, { params, query, body })
+}
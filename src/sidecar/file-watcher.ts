@@ -5,13 +5,17 @@
  */
 
 import { watch as fsWatch, type FSWatcher, existsSync, statSync } from 'fs'
-import { join, relative } from 'path'
+import { basename, join, relative, sep } from 'path'
 import type Database from 'better-sqlite3'
 import * as queries from '../shared/db-queries'
-import { executeClaudeCode } from '../shared/claude-code'
-import type { Watch } from '../shared/types'
+import { executeTask } from '../shared/task-runner'
+import { enforceBudgets } from '../shared/budgets'
+import { notifyTaskComplete, notifyTaskFailed } from './notifications'
+import { shouldTriggerWatch } from '../shared/watch-filter'
+import type { Watch, WatchEventType } from '../shared/types'
 
 let db: Database.Database
+let resultsDir: string
 
 const activeWatchers = new Map<number, FSWatcher>()
 let syncTimer: ReturnType<typeof setInterval> | null = null
@@ -32,8 +36,9 @@ function getWatchExecState(watchId: number): { executing: boolean; cooldownUntil
   return state
 }
 
-export function startAllWatches(database: Database.Database): void {
+export function startAllWatches(database: Database.Database, results: string): void {
   db = database
+  resultsDir = results
   if (syncTimer) clearInterval(syncTimer)
   syncWatchesWithDatabase()
   syncTimer = setInterval(syncWatchesWithDatabase, WATCH_SYNC_INTERVAL_MS)
@@ -47,6 +52,7 @@ export function stopAllWatches(): void {
   }
   activeWatchers.clear()
   watchExecState.clear()
+  for (const id of [...watchBatches.keys()]) clearBatch(id)
   lastLoggedWatchCount = null
 }
 
@@ -66,7 +72,6 @@ function startWatch(watch: Watch): void {
     return
   }
 
-  const actionPrompt = watch.actionPrompt
   const isDir = statSync(watch.path).isDirectory()
 
   try {
@@ -74,15 +79,16 @@ function startWatch(watch: Watch): void {
     const watcher = fsWatch(watch.path, { recursive: isDir }, (eventType, filename) => {
       if (!filename) return
       const filePath = isDir ? join(watch.path, filename) : watch.path
+      const relPath = isDir ? relative(watch.path, filePath).split(sep).join('/') : basename(watch.path)
 
-      // Limit depth to 1 (direct children + 1 level of subdirectories)
-      if (isDir) {
-        const rel = relative(watch.path, filePath)
-        const depth = rel.split('/').length
-        if (depth > 2) return
-      }
+      const event = classifyEvent(eventType, filePath)
+      if (!shouldTriggerWatch(watch, relPath, event)) return
 
-      handleTrigger(watch.id, actionPrompt, filePath)
+      if (watch.batchWindowSeconds) {
+        queueBatchedChange(watch.id, watch.batchWindowSeconds, filePath, event)
+      } else {
+        handleTrigger(watch.id, filePath, event)
+      }
     })
 
     watcher.on('error', (err: unknown) => {
@@ -96,12 +102,19 @@ function startWatch(watch: Watch): void {
   }
 }
 
+// fs.watch only reports 'rename' (created, deleted or moved) and 'change'
+function classifyEvent(eventType: string, filePath: string): WatchEventType {
+  if (eventType === 'change') return 'modified'
+  return existsSync(filePath) ? 'created' : 'deleted'
+}
+
 function stopWatch(id: number): void {
   const watcher = activeWatchers.get(id)
   if (watcher) {
     watcher.close()
     activeWatchers.delete(id)
     watchExecState.delete(id)
+    clearBatch(id)
     console.log(`Sidecar: Stopped file watch ${id}`)
   }
 }
@@ -110,7 +123,7 @@ function stopWatch(id: number): void {
 const lastTrigger = new Map<string, number>()
 const DEBOUNCE_MS = 10000
 
-async function handleTrigger(watchId: number, actionPrompt: string, filePath: string): Promise<void> {
+async function handleTrigger(watchId: number, filePath: string, event?: WatchEventType): Promise<void> {
   const key = `${watchId}:${filePath}`
   const now = Date.now()
   const last = lastTrigger.get(key) ?? 0
@@ -127,22 +140,168 @@ async function handleTrigger(watchId: number, actionPrompt: string, filePath: st
   lastTrigger.set(key, now)
 
   console.log(`Sidecar: Watch ${watchId}: change detected ${filePath}`)
+  recordTrigger(watchId)
+
+  const safeFilePath = JSON.stringify(filePath)
+  console.log(`Sidecar: Watch ${watchId} executing action for ${filePath}`)
+  await runWatchAction(watchId, `Triggered by file change${event ? ` (${event})` : ''}. File path: ${safeFilePath}`)
+}
+
+// ─── Batching ───────────────────────────────────────────────
+// Batched watches collect every changed path until the watch has been quiet for
+// its batch window, then run one action for the whole set. Changes that arrive
+// while the action runs stay queued for the next batch. Some of those are the
+// action's own writes, so changes from a run or its cooldown alone start at most
+// MAX_CHAINED_BATCH_RUNS more actions; after that they are held, not dropped,
+// and go along with the next batch an outside change starts.
+
+const MAX_BATCH_PATHS_IN_PROMPT = 200
+const MAX_QUEUED_BATCH_CHANGES = 5000
+const MAX_CHAINED_BATCH_RUNS = 2
+
+interface WatchBatch {
+  windowMs: number
+  changes: Map<string, WatchEventType>
+  /** Changed paths not queued because the batch was full. */
+  overflow: number
+  /** Some queued change arrived while no action was running or cooling down. */
+  arrivedIdle: boolean
+  /** Consecutive actions run only for changes that arrived during a previous action. */
+  chainedRuns: number
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+const watchBatches = new Map<number, WatchBatch>()
+
+function queueBatchedChange(watchId: number, windowSeconds: number, filePath: string, event: WatchEventType): void {
+  let batch = watchBatches.get(watchId)
+  if (!batch) {
+    batch = { windowMs: windowSeconds * 1000, changes: new Map(), overflow: 0, arrivedIdle: false, chainedRuns: 0, timer: null }
+    watchBatches.set(watchId, batch)
+  }
+  const state = getWatchExecState(watchId)
+  // Straggler events from the action that just finished wait for the next batch
+  // instead of starting one, as per-file mode ignores them
+  const cooling = !state.executing && Date.now() < state.cooldownUntil
+  if (!state.executing && !cooling) batch.arrivedIdle = true
+
+  const previous = batch.changes.get(filePath)
+  if (previous === undefined && batch.changes.size >= MAX_QUEUED_BATCH_CHANGES) {
+    batch.overflow++
+  } else {
+    const merged = mergeChange(previous, event)
+    if (merged) {
+      batch.changes.set(filePath, merged)
+    } else {
+      batch.changes.delete(filePath)
+    }
+  }
+  if (!cooling) scheduleBatchFlush(watchId, batch)
+}
+
+// Collapse successive events for one path: a file created then deleted within
+// the same batch never existed as far as the action is concerned.
+function mergeChange(previous: WatchEventType | undefined, next: WatchEventType): WatchEventType | null {
+  if (previous === 'created' && next === 'deleted') return null
+  if (previous === 'created' && next === 'modified') return 'created'
+  if (previous === 'deleted' && next === 'created') return 'modified'
+  return next
+}
+
+function scheduleBatchFlush(watchId: number, batch: WatchBatch): void {
+  if (batch.timer) clearTimeout(batch.timer)
+  batch.timer = setTimeout(() => {
+    batch.timer = null
+    void flushBatch(watchId)
+  }, batch.windowMs)
+}
+
+async function flushBatch(watchId: number): Promise<void> {
+  const batch = watchBatches.get(watchId)
+  if (!batch || (batch.changes.size === 0 && batch.overflow === 0)) return
+
+  // The action's own completion reschedules the flush
+  if (getWatchExecState(watchId).executing) return
 
+  if (!batch.arrivedIdle && batch.chainedRuns >= MAX_CHAINED_BATCH_RUNS) {
+    console.warn(`Sidecar: Watch ${watchId} holding ${batch.changes.size + batch.overflow} change(s) made while its action ran until the next outside change, to avoid re-triggering itself`)
+    return
+  }
+
+  const changes = [...batch.changes.entries()]
+  const overflow = batch.overflow
+  batch.chainedRuns = batch.arrivedIdle ? 0 : batch.chainedRuns + 1
+  batch.changes.clear()
+  batch.overflow = 0
+  batch.arrivedIdle = false
+
+  console.log(`Sidecar: Watch ${watchId} executing batched action for ${changes.length + overflow} change(s)`)
+  recordTrigger(watchId)
+  await runWatchAction(watchId, formatBatchContext(changes, overflow))
+
+  if (watchBatches.get(watchId) === batch && (batch.changes.size > 0 || batch.overflow > 0) && !batch.timer) {
+    scheduleBatchFlush(watchId, batch)
+  }
+}
+
+function formatBatchContext(changes: Array<[string, WatchEventType]>, overflow = 0): string {
+  const total = changes.length + overflow
+  const lines = [`Triggered by ${total} file change(s).`]
+  const shown = changes.slice(0, MAX_BATCH_PATHS_IN_PROMPT)
+  for (const event of ['created', 'modified', 'deleted'] as const) {
+    const paths = shown.filter(([, e]) => e === event).map(([path]) => `- ${JSON.stringify(path)}`)
+    if (paths.length === 0) continue
+    lines.push('', `${event[0].toUpperCase()}${event.slice(1)}:`, ...paths)
+  }
+  if (total > shown.length) {
+    lines.push('', `...and ${total - shown.length} more change(s) not listed.`)
+  }
+  return lines.join('\n')
+}
+
+function clearBatch(watchId: number): void {
+  const batch = watchBatches.get(watchId)
+  if (batch?.timer) clearTimeout(batch.timer)
+  watchBatches.delete(watchId)
+}
+
+// ─── Action Execution ───────────────────────────────────────
+
+function recordTrigger(watchId: number): void {
   try {
     db.prepare("UPDATE watches SET last_triggered = datetime('now','localtime'), trigger_count = trigger_count + 1 WHERE id = ?").run(watchId)
   } catch { /* non-fatal */ }
+}
 
-  const safeFilePath = JSON.stringify(filePath)
-  const prompt = `${actionPrompt}\n\nTriggered by file change. File path: ${safeFilePath}`
-  console.log(`Sidecar: Watch ${watchId} executing action for ${filePath}`)
-
+async function runWatchAction(watchId: number, triggerContext: string): Promise<void> {
+  const state = getWatchExecState(watchId)
   state.executing = true
   try {
-    const result = await executeClaudeCode(prompt)
-    if (result.exitCode === 0) {
+    // Run through the task pipeline so the action gets a task_runs row, console
+    // logs, a result file, memory storage and notifications like any other task
+    const task = queries.ensureWatchTask(db, watchId)
+    if (!task) {
+      console.error(`Sidecar: Watch ${watchId} has no action task, skipping`)
+      return
+    }
+
+    const budgetReason = enforceBudgets(db, task)
+    if (budgetReason) {
+      console.warn(`Sidecar: Watch ${watchId} action not started: ${budgetReason}`)
+      notifyTaskFailed(db, task.id, task.name, budgetReason, task.nudgeMode)
+      return
+    }
+
+    const result = await executeTask(task.id, { db, resultsDir, triggerContext })
+    if (result.success) {
       console.log(`Sidecar: Watch ${watchId} action completed in ${result.durationMs}ms`)
+      notifyTaskComplete(db, task.id, task.name, result.output?.slice(0, 200), result.durationMs, task.nudgeMode, result.unchanged)
+    } else if (result.cancelled) {
+      console.log(`Sidecar: Watch ${watchId} action was cancelled`)
     } else {
-      console.error(`Sidecar: Watch ${watchId} action failed: exit ${result.exitCode}`)
+      const error = result.errorMessage || 'Unknown error'
+      console.error(`Sidecar: Watch ${watchId} action failed: ${error}`)
+      notifyTaskFailed(db, task.id, task.name, error, task.nudgeMode)
     }
   } catch (err) {
     console.error(`Sidecar: Watch ${watchId} action error:`, err)
@@ -154,13 +313,19 @@ async function handleTrigger(watchId: number, actionPrompt: string, filePath: st
 
 // Exported for testing only
 export const _testing = {
-  handleTrigger: (watchId: number, actionPrompt: string, filePath: string) =>
-    handleTrigger(watchId, actionPrompt, filePath),
+  handleTrigger: (watchId: number, filePath: string, event?: WatchEventType) => handleTrigger(watchId, filePath, event),
+  queueBatchedChange,
+  flushBatch,
+  formatBatchContext,
   getWatchExecState,
+  classifyEvent,
   get lastTrigger() { return lastTrigger },
   get watchExecState() { return watchExecState },
+  get watchBatches() { return watchBatches },
   DEBOUNCE_MS,
-  POST_EXEC_COOLDOWN_MS
+  POST_EXEC_COOLDOWN_MS,
+  MAX_QUEUED_BATCH_CHANGES,
+  MAX_CHAINED_BATCH_RUNS
 }
 
 function syncWatchesWithDatabase(): void {
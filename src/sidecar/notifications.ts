@@ -13,9 +13,15 @@ export function notifyTaskComplete(
   taskName: string,
   outputPreview: string | undefined,
   durationMs: number,
-  nudgeMode?: string
+  nudgeMode?: string,
+  unchanged = false
 ): void {
-  emitEvent('task:complete', { taskId, taskName, success: true, outputPreview, durationMs, nudgeMode: nudgeMode ?? 'always' })
+  // Unchanged results still reach the UI, flagged so no notification is shown
+  emitEvent('task:complete', {
+    taskId, taskName, success: true, outputPreview, durationMs, nudgeMode: nudgeMode ?? 'always',
+    ...(unchanged ? { unchanged } : {})
+  })
+  if (unchanged) return
   tryNudge(db, taskId, taskName, true, durationMs, undefined, nudgeMode)
 }
 
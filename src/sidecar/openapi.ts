@@ -0,0 +1,196 @@
+/**
+ * OpenAPI 3.1 document for the sidecar REST API, generated from the route
+ * table so it cannot drift from what the server accepts. Request schemas come
+ * from the zod validators; response shapes are described per component.
+ */
+
+import { z } from 'zod'
+import type { ApiRoute } from './api'
+
+type JsonSchema = Record<string, unknown>
+
+// Response bodies mirror the types in src/shared/types.ts
+const COMPONENTS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    properties: { error: { type: 'string' } },
+    required: ['error']
+  },
+  Accepted: {
+    type: 'object',
+    properties: { ok: { type: 'boolean' }, taskId: { type: 'integer' }, message: { type: 'string' }, error: { type: 'string' } },
+    required: ['ok']
+  },
+  Task: { type: 'object', description: 'A scheduled, on-demand, watch or webhook task with its trigger, retry and output settings.' },
+  TaskRun: { type: 'object', description: 'One execution of a task: status, timing, result, error and token usage.' },
+  ConsoleLogEntry: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      runId: { type: 'integer' },
+      seq: { type: 'integer' },
+      entryType: { type: 'string' },
+      content: { type: 'string' },
+      createdAt: { type: 'string' }
+    }
+  },
+  Worker: { type: 'object', description: 'A named persona with a system prompt that tasks can run as.' },
+  Watch: { type: 'object', description: 'A watched file or folder, with its filters and optional action prompt.' },
+  Entity: { type: 'object', description: 'A memory entity: name, type and category.' },
+  EntityDetail: {
+    type: 'object',
+    description: 'An entity with its observations and relations.',
+    properties: {
+      observations: { type: 'array', items: { $ref: '#/components/schemas/Observation' } },
+      relations: { type: 'array', items: { $ref: '#/components/schemas/Relation' } }
+    }
+  },
+  Observation: { type: 'object', description: 'A fact recorded about an entity.' },
+  Relation: { type: 'object', description: 'A typed link from one entity to another.' },
+  MemoryGraph: {
+    type: 'object',
+    description: 'Entities, each with its hop count from the root, and the relations among them.',
+    properties: {
+      rootId: { type: ['integer', 'null'] },
+      nodes: { type: 'array', items: { $ref: '#/components/schemas/Entity' } },
+      relations: { type: 'array', items: { $ref: '#/components/schemas/Relation' } },
+      truncated: { type: 'boolean' }
+    }
+  },
+  MemoryStats: { type: 'object', description: 'Entity, observation and relation counts.' },
+  Settings: { type: 'object', additionalProperties: { type: 'string' } },
+  Setting: {
+    type: 'object',
+    properties: { key: { type: 'string' }, value: { type: 'string' } },
+    required: ['key', 'value']
+  },
+  OpenApiDocument: { type: 'object' }
+}
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const out: JsonSchema = { type: 'string' }
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') out.minLength = check.value
+    if (check.kind === 'max') out.maxLength = check.value
+  }
+  return out
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const out: JsonSchema = { type: schema.isInt ? 'integer' : 'number' }
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') out[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value
+    if (check.kind === 'max') out[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value
+  }
+  return out
+}
+
+/** JSON Schema for the zod types the validators use; anything else is left open. */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType())
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap())
+  if (schema instanceof z.ZodNullable) return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] }
+  if (schema instanceof z.ZodDefault) return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() }
+  if (schema instanceof z.ZodString) return stringSchema(schema)
+  if (schema instanceof z.ZodNumber) return numberSchema(schema)
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' }
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options }
+  if (schema instanceof z.ZodArray) {
+    const out: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) }
+    if (schema._def.minLength) out.minItems = schema._def.minLength.value
+    if (schema._def.maxLength) out.maxItems = schema._def.maxLength.value
+    return out
+  }
+  if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional())
+    const out: JsonSchema = {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)]))
+    }
+    if (required.length > 0) out.required = required
+    if (schema._def.unknownKeys === 'strict') out.additionalProperties = false
+    return out
+  }
+  return {}
+}
+
+function responseSchema(name: string): JsonSchema {
+  const isList = name.endsWith('[]')
+  const ref = { $ref: `#/components/schemas/${isList ? name.slice(0, -2) : name}` }
+  return isList ? { type: 'array', items: ref } : ref
+}
+
+// GET /tasks/{id}/runs → getTasksByIdRuns
+function operationId(route: ApiRoute): string {
+  const words = route.path.split('/').filter(Boolean).map((segment) => {
+    const param = /^\{(\w+)\}$/.exec(segment)
+    return (param ? `by_${param[1]}` : segment)
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join('')
+  })
+  return route.method.toLowerCase() + words.join('')
+}
+
+function operation(route: ApiRoute): JsonSchema {
+  const parameters: JsonSchema[] = [...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: name === 'id' ? { type: 'integer', minimum: 1 } : { type: 'string' }
+  }))
+  if (route.query) {
+    const shape = route.query.shape as Record<string, z.ZodTypeAny>
+    for (const [name, schema] of Object.entries(shape)) {
+      parameters.push({ name, in: 'query', required: !schema.isOptional(), schema: zodToJsonSchema(schema) })
+    }
+  }
+
+  const error = { description: 'Error', content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } }
+  const responses: Record<string, unknown> = {
+    [route.status]: route.response
+      ? { description: 'Success', content: { 'application/json': { schema: responseSchema(route.response) } } }
+      : { description: 'No content' },
+    400: error,
+    401: error
+  }
+  if (route.path.includes('{')) responses[404] = error
+
+  const op: JsonSchema = {
+    tags: [route.tag],
+    summary: route.summary,
+    operationId: operationId(route),
+    responses
+  }
+  if (route.description) op.description = route.description
+  if (parameters.length > 0) op.parameters = parameters
+  if (route.body) op.requestBody = { required: true, content: { 'application/json': { schema: zodToJsonSchema(route.body) } } }
+  return op
+}
+
+export function buildOpenApiDocument(routes: ApiRoute[], version: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {}
+  for (const route of routes) {
+    paths[route.path] ??= {}
+    paths[route.path][route.method.toLowerCase()] = operation(route)
+  }
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Daymon local API',
+      version,
+      description: 'Automate Daymon from scripts and other tools. The sidecar listens on 127.0.0.1 on the port in '
+        + '`sidecar.port` in the Daymon data directory; send the token from `sidecar.token` as a bearer token.'
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+      schemas: COMPONENTS
+    }
+  }
+}
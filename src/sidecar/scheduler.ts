@@ -7,27 +7,56 @@ import cron from 'node-cron'
 import type Database from 'better-sqlite3'
 import * as queries from '../shared/db-queries'
 import { executeTask } from '../shared/task-runner'
+import { enforceBudgets } from '../shared/budgets'
+import { formatMisfireContext, getMissedFireTimes, parseLocalTimestamp } from '../shared/misfire'
+import { listFireTimes, parseCron } from '../shared/cron'
+import type { UpstreamInput } from '../shared/task-runner'
 import { indexPendingEmbeddings } from '../shared/embedding-indexer'
-import { initEngine } from '../shared/embeddings'
+import { applyEmbeddingSettings, initEngine } from '../shared/embeddings'
 import { notifyTaskComplete, notifyTaskFailed } from './notifications'
-import type { Task } from '../shared/types'
+import type { Task, DependencyTrigger } from '../shared/types'
 
 let db: Database.Database
 
 const scheduledJobs = new Map<number, cron.ScheduledTask>()
+// Expression and zone each job was scheduled with, so edits reschedule it
+const scheduledSpecs = new Map<number, string>()
 const pendingOnceTasks = new Set<number>()
+// Due one-time tasks a budget held back; they run once it frees up, without a skipped run every poll
+const budgetBlockedOnceTasks = new Set<number>()
+const pendingCatchUps = new Set<number>()
 let pollTimer: ReturnType<typeof setInterval> | null = null
 let embeddingTimer: ReturnType<typeof setInterval> | null = null
+let embeddingIndexerRunning = false
+let lastPollAt = 0
 
 const POLL_INTERVAL_MS = 30_000
-const EMBEDDING_INDEX_INTERVAL_MS = 5 * 60_000
+// Also how soon a change of embedding model in settings starts re-indexing
+const EMBEDDING_INDEX_INTERVAL_MS = 60_000
+// A poll arriving this much later than expected means the machine was asleep
+const WAKE_DRIFT_MS = 60_000
 
 export function startScheduler(database: Database.Database, resultsDir: string): void {
   db = database
   console.log('Sidecar: Starting scheduler...')
   syncWithDatabase(resultsDir)
-  pollTimer = setInterval(() => syncWithDatabase(resultsDir), POLL_INTERVAL_MS)
+  catchUpMissedRuns(resultsDir)
+  lastPollAt = Date.now()
+  pollTimer = setInterval(() => {
+    const now = Date.now()
+    const previousPollAt = lastPollAt
+    const drift = now - previousPollAt - POLL_INTERVAL_MS
+    lastPollAt = now
+    syncWithDatabase(resultsDir)
+    if (drift > WAKE_DRIFT_MS) {
+      console.log(`Sidecar: Woke after ${Math.round(drift / 1000)}s, checking for missed cron runs`)
+      catchUpMissedRuns(resultsDir)
+    } else {
+      runDstShiftedTasks(new Date(previousPollAt), new Date(now), resultsDir)
+    }
+  }, POLL_INTERVAL_MS)
 
+  applyEmbeddingSettings(db)
   initEngine().catch(() => { /* non-fatal */ })
   embeddingTimer = setInterval(() => runEmbeddingIndexer(), EMBEDDING_INDEX_INTERVAL_MS)
 }
@@ -36,10 +65,13 @@ export function stopScheduler(): void {
   console.log('Sidecar: Stopping scheduler...')
   if (pollTimer) { clearInterval(pollTimer); pollTimer = null }
   if (embeddingTimer) { clearInterval(embeddingTimer); embeddingTimer = null }
+  pendingCatchUps.clear()
+  budgetBlockedOnceTasks.clear()
   for (const [taskId, job] of scheduledJobs) {
     job.stop()
     scheduledJobs.delete(taskId)
   }
+  scheduledSpecs.clear()
 }
 
 export function syncNow(resultsDir: string): void {
@@ -60,15 +92,20 @@ function syncWithDatabase(resultsDir: string): void {
   const activeTasks = queries.listTasks(db, 'active')
   const activeTaskIds = new Set(activeTasks.map((t) => t.id))
 
+  const activeSpecs = new Map(activeTasks
+    .filter((t) => t.triggerType === 'cron' && t.cronExpression)
+    .map((t) => [t.id, scheduleSpec(t)]))
+
   for (const [taskId, job] of scheduledJobs) {
-    if (!activeTaskIds.has(taskId)) {
+    if (activeSpecs.get(taskId) !== scheduledSpecs.get(taskId)) {
       job.stop()
       scheduledJobs.delete(taskId)
+      scheduledSpecs.delete(taskId)
     }
   }
 
   for (const task of activeTasks) {
-    if (task.triggerType !== 'cron' || !task.cronExpression) continue
+    if (!activeSpecs.has(task.id)) continue
     if (scheduledJobs.has(task.id)) continue
     scheduleTask(task, resultsDir)
   }
@@ -86,12 +123,21 @@ function checkDueOnceTasks(resultsDir: string): void {
 
   for (const task of dueTasks) {
     if (pendingOnceTasks.has(task.id)) continue
+    if (budgetBlockedOnceTasks.has(task.id)) {
+      if (queries.findExceededBudget(db, task)) continue
+      budgetBlockedOnceTasks.delete(task.id)
+    }
     pendingOnceTasks.add(task.id)
     console.log(`Sidecar: One-time task ${task.id} (${task.name}) is due, executing...`)
 
     runTask(task.id, resultsDir)
-      .then(() => {
-        queries.updateTask(db, task.id, { status: 'completed' })
+      .then((started) => {
+        // A budget skip leaves the task due (or paused, if the budget paused it)
+        if (started) {
+          queries.updateTask(db, task.id, { status: 'completed' })
+        } else {
+          budgetBlockedOnceTasks.add(task.id)
+        }
       })
       .catch((err) => {
         console.error(`Sidecar: Failed to execute one-time task ${task.id}:`, err)
@@ -115,37 +161,180 @@ function scheduleTask(task: Task, resultsDir: string): void {
     runTask(task.id, resultsDir).catch((err) => {
       console.error(`Sidecar: Failed to execute task ${task.id}:`, err)
     })
-  })
+  }, task.timezone ? { timezone: task.timezone } : undefined)
 
   scheduledJobs.set(task.id, job)
-  console.log(`Sidecar: Scheduled task ${task.id} (${task.name}): ${task.cronExpression}`)
+  scheduledSpecs.set(task.id, scheduleSpec(task))
+  console.log(`Sidecar: Scheduled task ${task.id} (${task.name}): ${task.cronExpression}${task.timezone ? ` (${task.timezone})` : ''}`)
+}
+
+function scheduleSpec(task: Task): string {
+  return `${task.cronExpression}|${task.timezone ?? ''}`
+}
+
+/**
+ * node-cron never fires a time that falls in the hour skipped when clocks go
+ * forward. Classic cron runs those jobs right after the jump, so do that here
+ * for any such time that passed since the previous poll.
+ */
+function runDstShiftedTasks(since: Date, now: Date, resultsDir: string): void {
+  for (const task of queries.listTasks(db, 'active')) {
+    if (task.triggerType !== 'cron' || !task.cronExpression || !scheduledJobs.has(task.id)) continue
+    let shifted = false
+    try {
+      shifted = listFireTimes(parseCron(task.cronExpression), since, now, { timezone: task.timezone }).some((t) => t.shifted)
+    } catch {
+      continue
+    }
+    if (!shifted) continue
+
+    console.log(`Sidecar: Running task ${task.id} (${task.name}), its scheduled time was skipped by a clock change`)
+    runTask(task.id, resultsDir).catch((err) => {
+      console.error(`Sidecar: Failed to execute task ${task.id}:`, err)
+    })
+  }
 }
 
-async function runTask(taskId: number, resultsDir: string): Promise<void> {
+// ─── Missed Runs ────────────────────────────────────────
+
+// Later of the task's last run and its last edit, so resuming a paused task
+// does not replay the runs it skipped while paused
+function lastActivityAt(task: Task): Date {
+  const stamps = [task.updatedAt, task.lastRun, queries.getLatestTaskRun(db, task.id)?.startedAt]
+  const times = stamps.filter((s): s is string => !!s).map((s) => parseLocalTimestamp(s).getTime())
+  return new Date(Math.max(...times.filter((t) => !Number.isNaN(t))))
+}
+
+/**
+ * node-cron skips fire times that pass while the machine sleeps or the sidecar
+ * is down. Compare each cron task's last activity with its schedule and run the
+ * missed occurrences its misfire policy asks for, one after another.
+ */
+function catchUpMissedRuns(resultsDir: string): void {
+  const now = new Date()
+  for (const task of queries.listTasks(db, 'active')) {
+    if (task.triggerType !== 'cron' || pendingCatchUps.has(task.id)) continue
+    if (queries.getLatestTaskRun(db, task.id)?.status === 'running') continue
+
+    const missed = getMissedFireTimes(task, lastActivityAt(task), now)
+    if (missed.length === 0) continue
+
+    console.log(`Sidecar: Task ${task.id} (${task.name}) missed ${missed.length} scheduled run(s), catching up`)
+    pendingCatchUps.add(task.id)
+    runMissed(task.id, missed, task.timezone, resultsDir)
+      .catch((err) => {
+        console.error(`Sidecar: Failed to catch up task ${task.id}:`, err)
+      })
+      .finally(() => {
+        pendingCatchUps.delete(task.id)
+      })
+  }
+}
+
+async function runMissed(taskId: number, fireTimes: Date[], timezone: string | null, resultsDir: string): Promise<void> {
+  for (const fireTime of fireTimes) {
+    if (queries.getTask(db, taskId)?.status !== 'active') return
+    await runTask(taskId, resultsDir, undefined, formatMisfireContext(fireTime, timezone))
+  }
+}
+
+/**
+ * Run a task with budget checks, notifications and downstream triggers; also
+ * used for webhook-triggered runs. Resolves false when the task was not started.
+ */
+export async function runTask(taskId: number, resultsDir: string, upstream?: UpstreamInput, triggerContext?: string): Promise<boolean> {
   const task = queries.getTask(db, taskId)
   if (!task) {
     console.error(`Sidecar: Task ${taskId} not found`)
-    return
+    return false
+  }
+
+  const budgetReason = enforceBudgets(db, task)
+  if (budgetReason) {
+    console.warn(`Sidecar: Task ${taskId} (${task.name}) not started: ${budgetReason}`)
+    notifyTaskFailed(db, taskId, task.name, budgetReason, task.nudgeMode)
+    return false
   }
 
-  const result = await executeTask(taskId, { db, resultsDir })
+  const result = await executeTask(taskId, { db, resultsDir, upstream, triggerContext })
 
   if (result.success) {
     console.log(`Sidecar: Task ${taskId} (${task.name}) completed in ${result.durationMs}ms`)
-    notifyTaskComplete(db, taskId, task.name, result.output?.slice(0, 200), result.durationMs, task.nudgeMode)
+    notifyTaskComplete(db, taskId, task.name, result.output?.slice(0, 200), result.durationMs, task.nudgeMode, result.unchanged)
+  } else if (result.cancelled) {
+    console.log(`Sidecar: Task ${taskId} (${task.name}) was cancelled`)
   } else {
     const error = result.errorMessage || 'Unknown error'
     console.error(`Sidecar: Task ${taskId} (${task.name}) failed: ${error}`)
     notifyTaskFailed(db, taskId, task.name, error, task.nudgeMode)
   }
+
+  if (result.runId != null) {
+    triggerDownstreamTasks(taskId, result.runId, resultsDir)
+  }
+  return true
 }
 
-function runEmbeddingIndexer(): void {
+// ─── Pipelines ──────────────────────────────────────────
+
+function shouldTriggerDependency(triggerOn: DependencyTrigger, success: boolean): boolean {
+  if (triggerOn === 'always') return true
+  return triggerOn === 'success' ? success : !success
+}
+
+/**
+ * Start every task chained after `taskId`, feeding it the result of the
+ * given run. Downstream tasks go through runTask, so chains continue step by step.
+ */
+export function triggerDownstreamTasks(taskId: number, runId: number, resultsDir: string): void {
   try {
-    indexPendingEmbeddings(db, 10).catch((err) => {
+    const dependents = queries.getDependentTasks(db, taskId)
+    if (dependents.length === 0) return
+
+    // A cancelled run stops the whole pipeline
+    const run = queries.getTaskRun(db, runId)
+    if (!run || run.status === 'running' || run.status === 'cancelled') return
+    const success = run.status === 'completed'
+    const upstream: UpstreamInput = {
+      taskName: queries.getTask(db, taskId)?.name ?? `Task ${taskId}`,
+      // Structured results hand the next step clean JSON
+      output: run.resultJson ?? run.result ?? '',
+      success
+    }
+
+    for (const dep of dependents) {
+      if (!shouldTriggerDependency(dep.triggerOn, success)) continue
+      const downstream = queries.getTask(db, dep.taskId)
+      if (!downstream || downstream.status !== 'active') continue
+
+      console.log(`Sidecar: Task ${taskId} finished, triggering downstream task ${downstream.id} (${downstream.name})`)
+      runTask(downstream.id, resultsDir, upstream).catch((err) => {
+        console.error(`Sidecar: Failed to execute downstream task ${downstream.id}:`, err)
+      })
+    }
+  } catch (err) {
+    console.error(`Sidecar: Failed to trigger downstream tasks for ${taskId}:`, err)
+  }
+}
+
+function runEmbeddingIndexer(): void {
+  if (embeddingIndexerRunning) return
+  embeddingIndexerRunning = true
+  indexEmbeddingBacklog()
+    .catch((err) => {
       console.error('Sidecar: Embedding indexer error:', err)
     })
-  } catch { /* non-fatal */ }
+    .finally(() => { embeddingIndexerRunning = false })
+}
+
+// Keep going while batches make progress, so a re-index after a model switch finishes in one sitting
+async function indexEmbeddingBacklog(): Promise<void> {
+  applyEmbeddingSettings(db)
+  while (embeddingTimer) {
+    const { indexed, skipped, errors } = await indexPendingEmbeddings(db, 10)
+    if (errors > 0 || indexed + skipped === 0) return
+    if (queries.getUnembeddedEntities(db, 1).length === 0) return
+  }
 }
 
 export function getSchedulerStatus(): { running: boolean; jobCount: number; jobs: Array<{ taskId: number }> } {
@@ -13,13 +13,17 @@ import { join } from 'path'
 import { homedir } from 'os'
 import Database from 'better-sqlite3'
 import { runMigrations } from '../shared/db-migrations'
-import { cleanupAllRunningRuns, getTask as getTaskFromDb, updateTask } from '../shared/db-queries'
+import { cleanupAllRunningRuns, getLatestTaskRun, getTask as getTaskFromDb, listWebhookTasks, updateTask } from '../shared/db-queries'
 import { loadSqliteVec } from '../shared/embeddings'
-import { executeTask } from '../shared/task-runner'
-import { startScheduler, stopScheduler, syncNow, getSchedulerStatus } from './scheduler'
+import { cancelTask, executeTask, isTaskRunning } from '../shared/task-runner'
+import { buildWebhookContext, findTaskByWebhookToken, MAX_WEBHOOK_PAYLOAD_BYTES } from '../shared/inbound-webhook'
+import { checkSidecarRequest, generateSidecarToken, SIDECAR_TOKEN_FILE, writeSidecarToken } from '../shared/sidecar-auth'
+import { startScheduler, stopScheduler, syncNow, getSchedulerStatus, triggerDownstreamTasks, runTask } from './scheduler'
 import { startAllWatches, stopAllWatches, syncWatches } from './file-watcher'
 import { addSSEClient, emitEvent } from './events'
 import { notifyTaskComplete, notifyTaskFailed } from './notifications'
+import { enforceBudgets } from '../shared/budgets'
+import { API_PREFIX, handleApiRequest, type ApiContext, type ApiResponse } from './api'
 
 declare const __APP_VERSION__: string
 
@@ -96,26 +100,145 @@ function readBody(req: IncomingMessage): Promise<string> {
   })
 }
 
+// Resolves null once the body passes maxBytes; the rest of the upload is discarded
+function readLimitedBody(req: IncomingMessage, maxBytes: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    let tooLarge = false
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > maxBytes) tooLarge = true
+      if (!tooLarge) chunks.push(chunk)
+    })
+    req.on('end', () => resolve(tooLarge ? null : Buffer.concat(chunks).toString('utf-8')))
+    req.on('error', reject)
+  })
+}
+
+const MAX_API_BODY_BYTES = 1024 * 1024
+
 const startTime = Date.now()
+const appVersion = typeof __APP_VERSION__ !== 'undefined' ? __APP_VERSION__ : 'dev'
+// Fresh per launch; clients read it from the data directory
+const authToken = generateSidecarToken()
+let listeningPort = 0
+
+/**
+ * Run a task in the background, as "Run now" does. Paused tasks are activated
+ * for the run and restored afterwards. Returns the reason when a usage budget
+ * stops the run, or null once it has started.
+ */
+function startAdHocRun(taskId: number): string | null {
+  const task = getTaskFromDb(db, taskId)
+  if (!task) return null
+  const budgetReason = enforceBudgets(db, task)
+  if (budgetReason) {
+    console.warn(`Sidecar: Task ${taskId} (${task.name}) not started: ${budgetReason}`)
+    notifyTaskFailed(db, taskId, task.name, budgetReason, task.nudgeMode)
+    return budgetReason
+  }
+  // For ad-hoc runs, temporarily allow execution without changing persistent status
+  const originalStatus = task.status
+  if (task.status !== 'active') {
+    updateTask(db, taskId, { status: 'active' })
+  }
+  executeTask(taskId, { db, resultsDir }).then((result) => {
+    // Restore original status if it was changed for ad-hoc execution
+    if (originalStatus !== 'active') {
+      const currentTask = getTaskFromDb(db, taskId)
+      if (currentTask && currentTask.status === 'active') {
+        updateTask(db, taskId, { status: originalStatus })
+      }
+    }
+    const freshTask = getTaskFromDb(db, taskId)
+    const name = freshTask?.name || `Task ${taskId}`
+    if (result.success) {
+      notifyTaskComplete(db, taskId, name, result.output?.slice(0, 200), result.durationMs, freshTask?.nudgeMode, result.unchanged)
+    } else if (!result.cancelled) {
+      notifyTaskFailed(db, taskId, name, result.errorMessage || 'Unknown error', freshTask?.nudgeMode)
+    }
+    if (result.runId != null) {
+      triggerDownstreamTasks(taskId, result.runId, resultsDir)
+    }
+  }).catch((err) => {
+    // Restore original status on unexpected error
+    if (originalStatus !== 'active') {
+      try { updateTask(db, taskId, { status: originalStatus }) } catch { /* best effort */ }
+    }
+    console.error(`Sidecar: Task ${taskId} execution error:`, err)
+  })
+  return null
+}
+
+function cancelRunningTask(taskId: number): ApiResponse {
+  if (cancelTask(taskId)) {
+    console.log(`Sidecar: Task ${taskId} cancellation requested`)
+    return { status: 200, body: { ok: true, taskId, message: 'Task cancelled' } }
+  }
+  // Runs started by the MCP server live in that process and are cancelled there
+  const error = getLatestTaskRun(db, taskId)?.status === 'running'
+    ? 'Task is running in another process'
+    : 'Task is not running'
+  return { status: 409, body: { ok: false, error } }
+}
+
+const apiContext: ApiContext = {
+  db,
+  version: appVersion,
+  sync: () => {
+    syncNow(resultsDir)
+    syncWatches()
+  },
+  startRun: startAdHocRun,
+  cancelRun: cancelRunningTask
+}
 
 async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
   const url = req.url || '/'
   const method = req.method || 'GET'
 
   try {
+    // Webhook URLs carry their own secret and are called by other tools, possibly through a tunnel
+    if (!(method === 'POST' && url.startsWith('/hooks/'))) {
+      const auth = checkSidecarRequest(req.headers, authToken, listeningPort)
+      if (!auth.ok) {
+        if (auth.status === 401) res.setHeader('WWW-Authenticate', 'Bearer')
+        jsonResponse(res, auth.status, { ok: false, error: auth.error })
+        return
+      }
+    }
+
     // GET /health
     if (method === 'GET' && url === '/health') {
       const status = getSchedulerStatus()
       jsonResponse(res, 200, {
         ok: true,
         uptime: Math.floor((Date.now() - startTime) / 1000),
-        version: typeof __APP_VERSION__ !== 'undefined' ? __APP_VERSION__ : 'dev',
+        version: appVersion,
         pid: process.pid,
         scheduler: status
       })
       return
     }
 
+    // /api/v1/* — the versioned REST API
+    if (url === API_PREFIX || url.startsWith(`${API_PREFIX}/`) || url.startsWith(`${API_PREFIX}?`)) {
+      const body = method === 'GET' || method === 'DELETE' ? '' : await readLimitedBody(req, MAX_API_BODY_BYTES)
+      if (body === null) {
+        jsonResponse(res, 413, { error: `Body larger than ${MAX_API_BODY_BYTES} bytes` })
+        return
+      }
+      const result = handleApiRequest(apiContext, method, url, body)
+      if (result && result.body !== undefined) {
+        jsonResponse(res, result.status, result.body)
+      } else {
+        res.writeHead(result?.status ?? 404)
+        res.end()
+      }
+      return
+    }
+
     // GET /events (SSE)
     if (method === 'GET' && url === '/events') {
       addSSEClient(res)
@@ -126,39 +249,69 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
     const taskRunMatch = url.match(/^\/tasks\/(\d+)\/run$/)
     if (method === 'POST' && taskRunMatch) {
       const taskId = parseInt(taskRunMatch[1], 10)
-      const task = getTaskFromDb(db, taskId)
-      if (!task) {
+      if (!getTaskFromDb(db, taskId)) {
         jsonResponse(res, 404, { ok: false, error: 'Task not found' })
         return
       }
-      // For ad-hoc runs, temporarily allow execution without changing persistent status
-      const originalStatus = task.status
-      if (task.status !== 'active') {
-        updateTask(db, taskId, { status: 'active' })
+      // Fire-and-forget: execute in background once the budgets allow it
+      const budgetReason = startAdHocRun(taskId)
+      if (budgetReason) {
+        jsonResponse(res, 409, { ok: false, error: budgetReason })
+        return
       }
-      // Fire-and-forget: return immediately, execute in background
       jsonResponse(res, 202, { ok: true, taskId, message: 'Task execution started' })
-      executeTask(taskId, { db, resultsDir }).then((result) => {
-        // Restore original status if it was changed for ad-hoc execution
-        if (originalStatus !== 'active') {
-          const currentTask = getTaskFromDb(db, taskId)
-          if (currentTask && currentTask.status === 'active') {
-            updateTask(db, taskId, { status: originalStatus })
-          }
-        }
-        const freshTask = getTaskFromDb(db, taskId)
-        const name = freshTask?.name || `Task ${taskId}`
-        if (result.success) {
-          notifyTaskComplete(db, taskId, name, result.output?.slice(0, 200), result.durationMs, freshTask?.nudgeMode)
-        } else {
-          notifyTaskFailed(db, taskId, name, result.errorMessage || 'Unknown error', freshTask?.nudgeMode)
-        }
-      }).catch((err) => {
-        // Restore original status on unexpected error
-        if (originalStatus !== 'active') {
-          try { updateTask(db, taskId, { status: originalStatus }) } catch { /* best effort */ }
-        }
-        console.error(`Sidecar: Task ${taskId} execution error:`, err)
+      return
+    }
+
+    // POST /tasks/:id/cancel
+    const taskCancelMatch = url.match(/^\/tasks\/(\d+)\/cancel$/)
+    if (method === 'POST' && taskCancelMatch) {
+      const taskId = parseInt(taskCancelMatch[1], 10)
+      if (!getTaskFromDb(db, taskId)) {
+        jsonResponse(res, 404, { ok: false, error: 'Task not found' })
+        return
+      }
+      const result = cancelRunningTask(taskId)
+      jsonResponse(res, result.status, result.body)
+      return
+    }
+
+    // POST /hooks/:token — start a webhook-triggered task with the request body
+    const hookMatch = url.match(/^\/hooks\/([\w-]+)(?:\?.*)?$/)
+    if (method === 'POST' && hookMatch) {
+      // Unknown tokens get the same answer whatever their shape
+      const task = findTaskByWebhookToken(listWebhookTasks(db), hookMatch[1])
+      if (!task) {
+        jsonResponse(res, 404, { ok: false, error: 'Not found' })
+        return
+      }
+      if (Number(req.headers['content-length'] ?? 0) > MAX_WEBHOOK_PAYLOAD_BYTES) {
+        jsonResponse(res, 413, { ok: false, error: `Payload larger than ${MAX_WEBHOOK_PAYLOAD_BYTES} bytes` })
+        req.resume()
+        return
+      }
+      const body = await readLimitedBody(req, MAX_WEBHOOK_PAYLOAD_BYTES)
+      if (body === null) {
+        jsonResponse(res, 413, { ok: false, error: `Payload larger than ${MAX_WEBHOOK_PAYLOAD_BYTES} bytes` })
+        return
+      }
+      if (task.status !== 'active') {
+        jsonResponse(res, 409, { ok: false, error: `Task is ${task.status}` })
+        return
+      }
+      if (isTaskRunning(task.id) || getLatestTaskRun(db, task.id)?.status === 'running') {
+        jsonResponse(res, 409, { ok: false, error: 'Task is already running' })
+        return
+      }
+      const payload = buildWebhookContext(body, req.headers['content-type'], task.webhookPayloadPath)
+      if (!payload.ok) {
+        jsonResponse(res, payload.status, { ok: false, error: payload.error })
+        return
+      }
+      console.log(`Sidecar: Webhook triggered task ${task.id} (${task.name})`)
+      jsonResponse(res, 202, { ok: true, taskId: task.id, message: 'Task execution started' })
+      runTask(task.id, resultsDir, undefined, payload.context).catch((err) => {
+        console.error(`Sidecar: Webhook task ${task.id} execution error:`, err)
       })
       return
     }
@@ -176,6 +329,10 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
       const event = data.event
       if (event === 'task:complete' || event === 'task:failed') {
         emitEvent(event, data)
+        // Runs started outside the sidecar (e.g. from MCP) still continue their pipeline here
+        if (typeof data.taskId === 'number' && typeof data.runId === 'number') {
+          triggerDownstreamTasks(data.taskId, data.runId, resultsDir)
+        }
       }
       jsonResponse(res, 200, { ok: true })
       return
@@ -216,12 +373,16 @@ const server = createServer((req, res) => {
 
 const portFile = join(dataDir, 'sidecar.port')
 const pidFile = join(dataDir, 'sidecar.pid')
+const tokenFile = join(dataDir, SIDECAR_TOKEN_FILE)
 
 server.listen(requestedPort, '127.0.0.1', () => {
   const addr = server.address()
   const port = typeof addr === 'object' && addr ? addr.port : 0
+  listeningPort = port
 
   mkdirSync(dataDir, { recursive: true })
+  // Written before the port file, which clients wait for
+  writeSidecarToken(dataDir, authToken)
   writeFileSync(portFile, String(port))
   writeFileSync(pidFile, String(process.pid))
 
@@ -229,7 +390,7 @@ server.listen(requestedPort, '127.0.0.1', () => {
 
   // Start background services
   startScheduler(db, resultsDir)
-  startAllWatches(db)
+  startAllWatches(db, resultsDir)
 })
 
 function shutdown(): void {
@@ -239,6 +400,7 @@ function shutdown(): void {
 
   try { unlinkSync(portFile) } catch { /* ignore */ }
   try { unlinkSync(pidFile) } catch { /* ignore */ }
+  try { unlinkSync(tokenFile) } catch { /* ignore */ }
 
   server.close(() => {
     try { db.close() } catch { /* ignore */ }